@@ -1,14 +1,19 @@
 /**
  * CLI entry point for ports-cli.
  *
- * Handles --help and --version flags before booting the Ink runtime.
+ * Handles --help, --version and --source, loads the config files and applies the
+ * interactive options (see src/cli/interactive.ts) before booting the Ink runtime,
+ * and dispatches the non-interactive subcommands (`ports list`, `ports kill`,
+ * `ports check`, `ports wait`, `ports free`, `ports watch`),
+ * which never boot it.
  *
  * Invoking this file without flags boots the Ink runtime, which takes over
  * the terminal: it switches to raw mode (disabling line buffering and echo),
- * opens an alternate screen buffer (so the UI disappears cleanly on exit),
  * and begins a React render loop driven by stdin events. Cleanup — restoring
  * the terminal to its original state — is handled automatically by Ink when
- * the process exits.
+ * the process exits. Unless the mouse is turned off, the UI also opens an
+ * alternate screen buffer with mouse reporting (so the UI disappears cleanly
+ * on exit); both are undone on the way out.
  */
 import { readFileSync } from 'fs';
 import { dirname, join } from 'path';
@@ -23,21 +28,110 @@ const args = process.argv.slice(2);
 if (args.includes('--help') || args.includes('-h')) {
   console.log(`ports-cli v${version}
 
-Interactive TUI for viewing and killing listening TCP ports on macOS and Linux.
+Interactive TUI for viewing and killing listening TCP and UDP ports on macOS and Linux.
 
 Usage:
-  ports [options]
+  ports [options]              Start the interactive UI
+  ports list [list options]    Print listening ports and exit
+  ports kill <port...> [kill options]
+                               Signal the processes listening on the ports
+  ports check <port> [--json] [--protocol <p>]
+                               Exit 0 if the port is in use, 1 if it is free
+  ports wait <port> [wait options]
+                               Block until the port is in use (or free)
+  ports free --range <a-b> [free options]
+                               Print the first free port in a range
+  ports watch [watch options]  Print a line whenever a port opens or closes
 
 Options:
-  -h, --help     Show this help message
-  -v, --version  Show version number
+  -h, --help         Show this help message
+  -v, --version      Show version number
+  --source <name>    Port backend: lsof, ss, netstat or procfs
+                     (default: first one that works on this machine)
+
+Interactive options (override the config file):
+  --interval <d>     Time between refreshes (default: 2s)
+  --filter <text>    Start with this search query
+  --search-mode <m>  Match search text as substring (default), fuzzy or regex
+  --protocol <p>     Start showing tcp, udp or all (default)
+  --sort <column>    Order by port (default), protocol, process, user, pid
+                     or address
+  --reverse          Reverse the sort order
+  --group <by>       Group rows by none (default), pid, process or user
+  --columns <list>   Comma-separated columns to show, e.g. port,process,pid
+  --signal <sig>     Signal a kill starts with: TERM (default), INT, HUP or KILL
+  --grace <d>        Time to wait after the signal before sending SIGKILL
+                     (default: 3s; 0 sends SIGKILL immediately)
+  --no-confirm       Kill and send signals without asking first
+  --no-mouse         Leave the mouse to the terminal (text selection)
+
+Configuration:
+  $XDG_CONFIG_HOME/ports-cli/config.json (default ~/.config/ports-cli/config.json)
+  and .portsrc in the current directory or a parent, which takes precedence.
+  Keys: refreshInterval, filter, searchMode, protocol, sort, sortOrder,
+  groupBy, columns, killSignal, killGrace, confirmKill, mouse, keys (see the README)
+
+List options:
+  --json             Print JSON (same as --format json)
+  --format <fmt>     table (default), tsv, csv or json
+  --filter <text>    Only ports matching text, as in the search bar
+  --protocol <p>     tcp, udp or all (default)
+
+Kill options:
+  -s, --signal <sig> Signal to send, e.g. TERM or SIGHUP (default: SIGKILL)
+  -y, --yes          Do not ask for confirmation (required without a terminal)
+  -n, --dry-run      Print what would be signalled and exit
+
+Wait options:
+  --free             Wait until nothing listens on the port
+  -t, --timeout <d>  Give up after a duration such as 30s or 2m (exit 1)
+  --interval <d>     Time between polls (default: 2s)
+  --protocol <p>     tcp, udp or all (default)
+
+Free options:
+  --range <a-b>      Ports to consider, e.g. 3000-3999 (required)
+  --count <n>        Print the first n free ports (default: 1)
+  --host <addr>      Address to test-bind (default: all interfaces)
+  --json             Print a JSON array of port numbers
+
+Watch options:
+  --json             One JSON object per line (NDJSON)
+  --initial          Report the ports already open at startup as opened
+  --interval <d>     Time between polls (default: 2s)
+  --filter <text>    Only ports matching text, as in the search bar
+  --protocol <p>     tcp, udp or all (default)
+
+Search queries (search bar and --filter):
+  node               Process, port, address, command or cwd containing "node"
+  port:3000-3999     Ports or ranges (also port:80,443); pid: works the same
+  user:root          Field contains text; also proc: and addr:
+  -user:root         Exclude matches; terms are combined with AND
+  Tab switches between substring, fuzzy (ranked, typo-tolerant) and regex.
+  Up/Down in an empty search bar recall earlier queries.
 
 Keybindings:
-  j/k, Up/Down    Navigate ports
+  j/k, Up/Down    Navigate ports; a count repeats the move (5j)
+  g, G            Jump to first / last row (Home/End; 20G jumps to row 20)
+  PgUp, PgDn      Move a page; ctrl+u / ctrl+d move half a page
+  :               Go to a port (:3000, then Enter)
   /               Search/filter
-  x               Kill selected port
+  Tab             Cycle search mode: substring, fuzzy, regex
+  f, F            Saved filters menu / save the query as a filter
+  alt+1 .. alt+9  Apply saved filter 1-9 without the menu
+  Enter, x        Kill selected port
+  s               Send a signal (HUP, INT, USR1, STOP...)
+  space, a, i     Mark row / mark all / invert, for a batch kill
+  d               Toggle detail pane
+  p               Show TCP / UDP / both
+  o, O            Sort by next column / reverse sort order
+  b               Group by PID / process / user; kill a header to kill the group
+  z, Z            Collapse / expand the selected group / every group
+  t               Timeline of ports opened / closed this session
+  e               Export the timeline as JSON (in the timeline)
   ?               Toggle help overlay
-  q               Quit`);
+  q               Quit
+
+  Keys can be rebound with the "keys" config setting; ? lists the active ones.`);
   process.exit(0);
 }
 
@@ -46,10 +140,82 @@ if (args.includes('--version') || args.includes('-v')) {
   process.exit(0);
 }
 
-// Ink's render() is analogous to ReactDOM.render(): it mounts the component
-// tree into the terminal viewport and begins the event loop that drives
-// re-renders in response to state changes and keypresses.
-const { render } = await import('ink');
-const { App } = await import('../src/app.js');
+// --source accepts both "--source ss" and "--source=ss". Validated before Ink
+// boots so a typo prints a plain error instead of an empty port list. It
+// applies to subcommands too, so it is removed from the arguments they parse.
+let commandArgs = args;
+const sourceIndex = args.findIndex(a => a === '--source' || a.startsWith('--source='));
+if (sourceIndex !== -1) {
+  const arg = args[sourceIndex];
+  commandArgs = args.filter((_, i) => i !== sourceIndex && (arg.includes('=') || i !== sourceIndex + 1));
+  const name = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args[sourceIndex + 1] ?? '';
+  const { setPortSource } = await import('../src/utils/getPorts.js');
+  try {
+    setPortSource(name);
+  } catch (err) {
+    console.error(`ports: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Loads the config files, applies the options that only concern the
+ * interactive UI on top, and boots Ink.
+ */
+async function startInteractive(): Promise<void> {
+  const { loadConfig, ConfigError } = await import('../src/utils/config.js');
+  const { applyInteractiveArgs } = await import('../src/cli/interactive.js');
+  const { UsageError, USAGE_EXIT_CODE } = await import('../src/cli/args.js');
+  let config;
+  try {
+    config = applyInteractiveArgs(commandArgs, loadConfig());
+  } catch (err) {
+    if (!(err instanceof ConfigError || err instanceof UsageError)) throw err;
+    console.error(`ports: ${err.message}`);
+    process.exit(USAGE_EXIT_CODE);
+  }
+
+  // Ink's render() is analogous to ReactDOM.render(): it mounts the component
+  // tree into the terminal viewport and begins the event loop that drives
+  // re-renders in response to state changes and keypresses.
+  const { render } = await import('ink');
+  const { App } = await import('../src/app.js');
+  const { enableMouseMode } = await import('../src/utils/mouse.js');
+
+  // The terminal is restored as soon as Ink unmounts, whether the user quit
+  // or rendering failed; enableMouseMode also covers signals and crashes
+  // that never get that far.
+  const restoreTerminal = config.mouse && process.stdout.isTTY ? enableMouseMode() : null;
+  try {
+    await render(<App config={config} />).waitUntilExit();
+  } finally {
+    restoreTerminal?.();
+  }
+}
+
+/**
+ * Non-interactive subcommands, loaded on demand so the TUI does not pay for
+ * them. Each runner receives the arguments after its name and resolves the
+ * exit code.
+ */
+const SUBCOMMANDS = new Map<string, () => Promise<(args: string[]) => Promise<number>>>([
+  ['list', async () => (await import('../src/cli/list.js')).runList],
+  ['kill', async () => (await import('../src/cli/kill.js')).runKill],
+  ['check', async () => (await import('../src/cli/check.js')).runCheck],
+  ['wait', async () => (await import('../src/cli/wait.js')).runWait],
+  ['free', async () => (await import('../src/cli/free.js')).runFree],
+  ['watch', async () => (await import('../src/cli/watch.js')).runWatch],
+]);
 
-render(<App />);
+// Subcommands print their result and set the exit code; process.exit() is
+// avoided so output piped to another program is flushed completely.
+const loadSubcommand = SUBCOMMANDS.get(commandArgs[0] ?? '');
+if (loadSubcommand) {
+  const run = await loadSubcommand();
+  process.exitCode = await run(commandArgs.slice(1));
+} else if (commandArgs[0] !== undefined && !commandArgs[0].startsWith('-')) {
+  console.error(`ports: unknown command "${commandArgs[0]}" (see ports --help)`);
+  process.exitCode = 2;
+} else {
+  await startInteractive();
+}
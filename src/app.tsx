@@ -8,52 +8,227 @@
  *   so co-locating state avoids prop-drilling pain without any rendering overhead.
  *
  * Two-mode system:
- * - `navigate` (default): arrow keys / j/k move the selection, Enter confirms a kill,
- *   `/` enters search mode, `q` quits. The cursor is always visible.
+ * - `navigate` (default): arrow keys / j/k move the selection (vi-style: `g` / `G`, page keys,
+ *   ctrl+d / ctrl+u, counts such as `5j` and `:3000` to go to a port), Enter confirms a kill,
+ *   `s` opens the signal menu, `o` / `O` change the sort, `b` groups the rows, `/` enters
+ *   search mode, `q` quits. The cursor is always visible and stays on the same entry when
+ *   the rows are re-sorted or regrouped; it can also rest on a group header.
  * - `search`: typing filters the port list in real time. ESC clears and returns to
- *   navigate. Arrow keys still work so the user can refine selection while typing.
+ *   navigate. Arrow keys still work so the user can refine selection while typing,
+ *   and tab switches between substring, fuzzy and regex matching.
  *
  * Data flow:
- *   lsof (every 2s) -> ports[] -> filteredPorts[] -> PortList + StatusBar
- *                                                  ^
- *                                           searchQuery (user input)
+ *   usePorts (async poll every 2s) -> ports[] -> filteredPorts[] (sorted) -> rows[] -> PortList + StatusBar
+ *                                         |                      ^                ^
+ *                        usePortChanges -> ghosts  searchQuery + protocolFilter     groupBy + collapsedGroups
+ *
+ * Ports that disappeared in a recent refresh stay in filteredPorts as ghost rows
+ * for a few seconds. They can be selected but not acted on: their PID may
+ * already belong to another process.
+ *
+ * Timeline view (`t`): every change usePortChanges saw this session, filtered
+ * by the same search bar, replaces the list. The motion keys move through it
+ * instead, and `e` exports it as JSON.
  */
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Box, useApp } from 'ink';
+import { basename } from 'path';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Box, useApp, useStdout } from 'ink';
 import { SearchBar } from './components/SearchBar.js';
-import { PortList } from './components/PortList.js';
+import { PortList, COLUMN_HEADER_LINE, sortKeyAt, visibleRowCount, visibleWindow } from './components/PortList.js';
 import { StatusBar } from './components/StatusBar.js';
 import { HelpOverlay } from './components/HelpOverlay.js';
-import { getPorts } from './utils/getPorts.js';
-import { killPort } from './utils/killPort.js';
+import { DetailPane, DETAIL_PANE_HEIGHT } from './components/DetailPane.js';
+import { SignalMenu, SIGNAL_OPTIONS, SIGNAL_MENU_HEIGHT } from './components/SignalMenu.js';
+import { FilterMenu, filterMenuHeight } from './components/FilterMenu.js';
+import { Timeline } from './components/Timeline.js';
+import { killPort, gracefulKill, sendSignal } from './utils/killPort.js';
+import type { KillResult } from './utils/killPort.js';
+import { portKey } from './utils/normalizePorts.js';
+import { filterPorts, SEARCH_MODES } from './utils/filterPorts.js';
+import { compileQuery, QueryError } from './utils/parseQuery.js';
+import type { Highlighter } from './utils/parseQuery.js';
+import { sortPorts, nextSortKey, SORT_KEYS } from './utils/sortPorts.js';
+import { listRows, rowKey, GROUP_BYS } from './utils/groupPorts.js';
+import type { ListRow, PortGroup } from './utils/groupPorts.js';
+import { DEFAULT_CONFIG } from './utils/config.js';
+import type { PortsConfig } from './utils/config.js';
+import { createKeymap } from './utils/keymap.js';
+import { loadSearchStore, rememberQuery, saveFilter, saveSearchStore } from './utils/searchStore.js';
+import type { SearchStore } from './utils/searchStore.js';
 import { clampIndex } from './utils/clampIndex.js';
+import { exportTimeline, filterTimeline } from './utils/timeline.js';
 import { useKeyboardInput } from './hooks/useKeyboardInput.js';
-import type { AppMode, KillMessage, PortEntry } from './types.js';
+import { useMouse } from './hooks/useMouse.js';
+import { usePortChanges, CHANGE_HIGHLIGHT_MS } from './hooks/usePortChanges.js';
+import { usePorts } from './hooks/usePorts.js';
+import { useProcessInfo } from './hooks/useProcessInfo.js';
+import type {
+  AppMode,
+  GroupBy,
+  KillMessage,
+  PortEntry,
+  ProtocolFilter,
+  SearchMode,
+  SignalName,
+  SortKey,
+  SortOrder,
+} from './types.js';
+
+/** Order in which `p` cycles the protocol filter. */
+const PROTOCOL_FILTER_CYCLE: ProtocolFilter[] = ['all', 'tcp', 'udp'];
+
+/** Rows one step of the mouse wheel moves the selection. */
+const WHEEL_ROWS = 3;
 
-/** Milliseconds between automatic lsof polls. */
-const AUTO_REFRESH_INTERVAL_MS = 2000;
 /** Milliseconds a kill success/error message remains visible in the StatusBar. */
 const KILL_MESSAGE_TIMEOUT_MS = 2000;
-/** Milliseconds to wait after a kill before re-polling lsof, giving the process time to exit. */
+/** Milliseconds to wait after a kill before re-polling, giving the process time to exit. */
 const POST_KILL_REFRESH_DELAY_MS = 300;
 
+/**
+ * `group` without the entries `isGhost` rejects, or null if none are left.
+ * Returns `group` itself when nothing is removed.
+ */
+function liveGroup(group: PortGroup, isGhost: (port: PortEntry) => boolean): PortGroup | null {
+  const ports = group.ports.filter(p => !isGhost(p));
+  if (ports.length === group.ports.length) return group;
+  if (ports.length === 0) return null;
+  return { ...group, ports, pids: [...new Set(ports.map(p => p.pid))] };
+}
+
+/**
+ * Summarizes a batch kill for the StatusBar: a success message when every
+ * process went away, otherwise an error naming each PID that survived and why.
+ */
+function describeBatchKill(outcomes: Array<{ port: PortEntry; result: KillResult }>): KillMessage {
+  const failed = outcomes.filter(o => !o.result.success);
+  const escalated = outcomes.filter(o => o.result.success && o.result.signal === 'SIGKILL').length;
+  if (failed.length === 0) {
+    const noun = outcomes.length === 1 ? 'process' : 'processes';
+    return {
+      type: 'success',
+      text: `Killed ${outcomes.length} ${noun}` + (escalated > 0 ? ` (${escalated} with SIGKILL)` : ''),
+    };
+  }
+  const reasons = failed.map(({ port, result }) =>
+    `${port.process} (${port.pid}): ${result.success ? '' : result.error}`
+  );
+  return {
+    type: 'error',
+    text: `Killed ${outcomes.length - failed.length} of ${outcomes.length} processes; failed ${reasons.join(', ')}`,
+  };
+}
+
 interface AppProps {
+  /**
+   * Settings from the config files and command-line flags; omitted fields
+   * take their {@link DEFAULT_CONFIG} value.
+   */
+  config?: Partial<PortsConfig>;
   /** Override for kill message timeout (ms). For testing only. @internal */
   _killMessageTimeoutMs?: number;
+  /** Override for how long new and ghost rows are highlighted (ms). For testing only. @internal */
+  _changeHighlightMs?: number;
 }
 
-export function App({ _killMessageTimeoutMs = KILL_MESSAGE_TIMEOUT_MS }: AppProps): React.JSX.Element {
+export function App({
+  config,
+  _killMessageTimeoutMs = KILL_MESSAGE_TIMEOUT_MS,
+  _changeHighlightMs = CHANGE_HIGHLIGHT_MS,
+}: AppProps): React.JSX.Element {
   const { exit } = useApp();
+  const { stdout } = useStdout();
+  const settings: PortsConfig = { ...DEFAULT_CONFIG, ...config };
+  const { killSignal, killGraceMs } = settings;
 
-  /** Master list of listening TCP ports from lsof. Refreshed every 2 seconds by the auto-refresh effect. */
-  const [ports, setPorts] = useState<PortEntry[]>(() => getPorts());
+  /**
+   * Resolved key bindings, shared by the keyboard handler and every component
+   * that shows key hints. The config was validated when it was loaded, so
+   * createKeymap does not throw here.
+   */
+  const keymap = useMemo(() => createKeymap(settings.keys), [settings.keys]);
 
-  /** 0-based index into `filteredPorts` (NOT `ports`). Clamped before use to handle list shrinkage. */
+  /**
+   * Master list of listening TCP and UDP ports. Collected asynchronously every
+   * `refreshIntervalMs` (2 seconds by default) by usePorts; keeps the last good
+   * snapshot while a refresh is in flight or fails.
+   * `loading` is true until the first collection settles.
+   */
+  const { ports, loading, refresh } = usePorts(settings.refreshIntervalMs);
+
+  /**
+   * Entries that appeared or disappeared in the last few seconds. New ones are
+   * flashed green; `closed` ones are shown as ghost rows until they expire.
+   */
+  const { changes, closed, openedCount, events } = usePortChanges(ports, loading, _changeHighlightMs);
+
+  /** Whether `port` is a ghost row rather than a live entry. */
+  const isGhost = (port: PortEntry) => changes.get(portKey(port)) === 'closed';
+
+  /** 0-based index into `rows` (NOT `ports`). Clamped before use to handle list shrinkage. */
   const [selectedIndex, setSelectedIndex] = useState(0);
 
-  /** Current filter string typed by the user in search mode. Empty string means no filter is active. */
-  const [searchQuery, setSearchQuery] = useState<string>('');
+  /**
+   * {@link rowKey} of the selected row. While that row is in `rows` the
+   * selection follows it, so re-sorting, regrouping or a refresh that
+   * reorders the rows does not move the cursor to a different process. Null
+   * after a cursor move until the next render records the new row.
+   */
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  /** Count typed before a motion (`5j`, `20G`), or null. Dropped by the next non-digit key. */
+  const [count, setCount] = useState<number | null>(null);
+
+  /** Port typed in the go-to-port prompt, or null while it is closed. Opened by `:`. */
+  const [portPrompt, setPortPrompt] = useState<string | null>(null);
+
+  /** Column the list is ordered by. Starts at the configured `sort`; cycled with `o`. */
+  const [sortKey, setSortKey] = useState<SortKey>(settings.sort);
+
+  /** Direction of `sortKey`. Starts at the configured `sortOrder`; flipped with `O`. */
+  const [sortOrder, setSortOrder] = useState<SortOrder>(settings.sortOrder);
+
+  /** What the rows are grouped by. Starts at the configured `groupBy`; cycled with `b`. */
+  const [groupBy, setGroupBy] = useState<GroupBy>(settings.groupBy);
+
+  /**
+   * Keys of the groups shown as their header only (`z` / `Z`). Like marks,
+   * keyed by identity, so a group stays collapsed across refreshes and keys
+   * of other groupings are simply never matched.
+   */
+  const [collapsedGroups, setCollapsedGroups] = useState<ReadonlySet<string>>(() => new Set());
+
+  /**
+   * Current filter string typed by the user in search mode. Empty string means no filter
+   * is active. Starts at the configured `filter`.
+   */
+  const [searchQuery, setSearchQuery] = useState<string>(settings.filter);
+
+  /** How `searchQuery` is matched. Starts at the configured `searchMode`; cycled with tab. */
+  const [searchMode, setSearchMode] = useState<SearchMode>(settings.searchMode);
+
+  /**
+   * Search history and saved filters, read from the state directory once and
+   * written back on every change (see utils/searchStore).
+   */
+  const [searchStore, setSearchStore] = useState<SearchStore>(() => loadSearchStore());
+
+  /**
+   * Position in `searchStore.history` of the query recalled with ↑ / ↓ in the
+   * search bar. Null while the query is typed rather than recalled; any edit
+   * ends the recall.
+   */
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+
+  /** Whether the saved filters menu is open. Opened by `f` in navigate mode. */
+  const [showFilterMenu, setShowFilterMenu] = useState<boolean>(false);
+
+  /** Highlighted entry of the saved filters menu, as an index into `searchStore.filters`. */
+  const [filterMenuIndex, setFilterMenuIndex] = useState(0);
+
+  /** Name typed in the "save filter as" prompt, or null while it is closed. Opened by `F`. */
+  const [filterName, setFilterName] = useState<string | null>(null);
 
   /**
    * Transient kill result shown in the StatusBar. Set after executeKill resolves,
@@ -61,19 +236,71 @@ export function App({ _killMessageTimeoutMs = KILL_MESSAGE_TIMEOUT_MS }: AppProp
    */
   const [killMessage, setKillMessage] = useState<KillMessage | null>(null);
 
+  /**
+   * Which protocols are shown. Starts at the configured `protocol`, `'all'` by
+   * default so UDP listeners (DNS stubs, mDNS, QUIC dev servers) are visible;
+   * `p` narrows the list.
+   */
+  const [protocolFilter, setProtocolFilter] = useState<ProtocolFilter>(settings.protocol);
+
   /** Current interaction mode. Starts in `'navigate'`; switches to `'search'` when user presses `/`. */
   const [mode, setMode] = useState<AppMode>('navigate');
 
   /** Whether the full-screen help overlay is visible. Toggled by `?` in navigate mode. */
   const [showHelp, setShowHelp] = useState<boolean>(false);
 
+  /** Whether the detail pane for the selected port is open. Toggled by `d` in navigate mode. */
+  const [showDetails, setShowDetails] = useState<boolean>(false);
+
+  /** Whether the timeline view replaces the port list. Toggled by `t` in navigate mode. */
+  const [showTimeline, setShowTimeline] = useState<boolean>(false);
+
+  /** Selected line of the timeline view, as an index into `timelineEvents`. Clamped before use. */
+  const [timelineIndex, setTimelineIndex] = useState(0);
+
+  /**
+   * {@link portKey}s of the rows marked for a batch kill (space / `a` / `i`).
+   * Keyed by identity rather than index so marks stay on the right rows when
+   * the list refreshes or the filter changes; keys of rows that disappeared
+   * are simply never matched again.
+   */
+  const [markedKeys, setMarkedKeys] = useState<ReadonlySet<string>>(() => new Set());
+
+  /** Whether the signal menu is open. Opened by `s` in navigate mode. */
+  const [showSignalMenu, setShowSignalMenu] = useState<boolean>(false);
+
+  /** Highlighted entry of the signal menu, as an index into SIGNAL_OPTIONS. */
+  const [signalMenuIndex, setSignalMenuIndex] = useState(0);
+
+  /**
+   * Signal chosen from the menu and awaiting confirmation. Null while the
+   * confirmation prompt (if shown) is for a regular kill.
+   */
+  const [pendingSignal, setPendingSignal] = useState<SignalName | null>(null);
+
   /**
    * Tracks the pending post-kill refresh timer so it can be cancelled on unmount.
-   * Without this, the timer fires after the component is gone and calls getPorts()
-   * on a dead component — harmless in production but leaks in tests.
+   * Without this, the timer fires after the component is gone and requests a refresh
+   * from a stopped poller — harmless in production but leaks in tests.
    */
   const killRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  /**
+   * Aborts graceful kills that are still waiting for their process to exit when
+   * the component unmounts, so no status update lands on a dead component.
+   */
+  const killAbortRef = useRef<AbortController>(new AbortController());
+
+  /**
+   * The poller's latest snapshot, for checks that run outside rendering: a
+   * graceful kill asks it whether the port was released instead of starting
+   * a collection of its own next to the poller's.
+   */
+  const portsRef = useRef(ports);
+  useEffect(() => {
+    portsRef.current = ports;
+  }, [ports]);
+
   /**
    * Whether the inline kill-confirmation prompt is active ("Kill process:port? [y/ESC]").
    * Set to true when the user presses Enter on a selection; cleared on y / n / ESC.
@@ -81,116 +308,464 @@ export function App({ _killMessageTimeoutMs = KILL_MESSAGE_TIMEOUT_MS }: AppProp
   const [confirmKill, setConfirmKill] = useState<boolean>(false);
 
   /**
-   * Derived list of ports matching the current searchQuery.
+   * Derived list of ports matching the current searchQuery and protocolFilter,
+   * in the current sort order.
    * Derived rather than stored in state to avoid stale-data bugs: if `ports` refreshes
    * while a filter is active, `filteredPorts` automatically reflects the new data on
    * the next render without any extra effect or synchronisation logic.
    *
-   * Matches against `process` name, `port` number (cast to string), and `address`.
-   * Case-insensitive. Returns the full list when searchQuery is empty.
-   */
-  const query = searchQuery.toLowerCase();
-  const filteredPorts = ports.filter(p =>
-    !searchQuery ||
-    [p.process, String(p.port), p.address].some(v =>
-      v.toLowerCase().includes(query)
-    )
-  );
+   * The matching rules live in filterPorts so `ports list --filter` behaves the same.
+   * The list is sorted before it is filtered because fuzzy mode ranks the matches:
+   * the sort order then only decides between equally good ones.
+   * A query that does not parse (e.g. `port:abc`, or `user:` while it is still being
+   * typed) filters nothing and is reported in the SearchBar as `queryError`.
+   * `highlight` marks where the query matched inside each row's cells.
+   * Ghosts are sorted and filtered with the live entries, so they stay where
+   * they were.
+   * Memoized: a fuzzy query with typos runs an edit-distance match on every
+   * field of every row, which is too slow to repeat on renders that change
+   * none of the inputs (moving the selection, a mouse event, a status message).
+   */
+  const { filteredPorts, highlight, queryError } = useMemo((): {
+    filteredPorts: PortEntry[];
+    highlight?: Highlighter;
+    queryError: string | null;
+  } => {
+    const sortedPorts = sortPorts(closed.length > 0 ? [...ports, ...closed] : ports, sortKey, sortOrder);
+    try {
+      return {
+        filteredPorts: filterPorts(sortedPorts, searchQuery, protocolFilter, searchMode),
+        highlight: compileQuery(searchQuery, searchMode).highlight,
+        queryError: null,
+      };
+    } catch (err) {
+      if (!(err instanceof QueryError)) throw err;
+      return { filteredPorts: filterPorts(sortedPorts, '', protocolFilter), queryError: err.message };
+    }
+  }, [ports, closed, searchQuery, searchMode, protocolFilter, sortKey, sortOrder]);
 
   /**
-   * A safe read index for `filteredPorts`.
+   * The lines of the list: `filteredPorts`, and while grouped a header above
+   * each group, with collapsed groups reduced to their header. PortList
+   * derives the same rows for drawing.
+   */
+  const rows: ListRow[] = listRows(filteredPorts, groupBy, collapsedGroups);
+
+  /** Position of the selected row in `rows`, or -1 if it is gone or not yet recorded. */
+  const keyIndex = selectedKey === null ? -1 : rows.findIndex(r => rowKey(r) === selectedKey);
+
+  /**
+   * A safe read index for `rows`: the row of `selectedKey`, or else
+   * `selectedIndex`, clamped.
    * `selectedIndex` is persisted state and can lag behind list length changes (e.g.
    * when a filter narrows the list, or when a killed process disappears on refresh).
    * Clamping ensures we never access out-of-bounds indices.
    */
-  const clampedIndex = clampIndex(selectedIndex, filteredPorts.length - 1);
+  const clampedIndex = keyIndex !== -1 ? keyIndex : clampIndex(selectedIndex, rows.length - 1);
+
+  /** The row currently highlighted in the list, or null when the list is empty. */
+  const selectedRow: ListRow | null = rows[clampedIndex] ?? null;
+
+  /** `filteredPorts` without the ghosts: what can be marked or jumped to. */
+  const liveFilteredPorts = closed.length > 0 ? filteredPorts.filter(p => !isGhost(p)) : filteredPorts;
+
+  /**
+   * The port entry currently highlighted in the list, or null when the list is
+   * empty, a group header is highlighted or the row is a ghost.
+   */
+  const selectedPort: PortEntry | null = selectedRow?.type === 'port' && !isGhost(selectedRow.port)
+    ? selectedRow.port
+    : null;
+
+  /**
+   * The group whose header is highlighted, without its ghosts; a kill from
+   * there kills every process in it. Null when only ghosts are left in it.
+   */
+  const selectedGroup: PortGroup | null = selectedRow?.type === 'group' ? liveGroup(selectedRow.group, isGhost) : null;
+
+  /**
+   * The entry the detail pane describes: the selected port, or the single
+   * process behind a selected group header.
+   */
+  const detailPort = selectedPort ?? (selectedGroup?.pids.length === 1 ? selectedGroup.ports[0] : null);
+
+  /**
+   * The session's events matching the search query and protocol filter,
+   * newest first, as the timeline view lists them. An invalid query, already
+   * reported as `queryError`, filters nothing here either. Memoized like
+   * `filteredPorts`.
+   */
+  const timelineEvents = useMemo(
+    () => filterTimeline(events, queryError ? '' : searchQuery, protocolFilter, searchMode).reverse(),
+    [events, queryError, searchQuery, protocolFilter, searchMode],
+  );
+
+  /** `timelineIndex`, clamped to the events shown. */
+  const clampedTimelineIndex = clampIndex(timelineIndex, timelineEvents.length - 1);
+
+  /** The saved filter the current query came from, named in the SearchBar. */
+  const activeFilter = searchQuery ? searchStore.filters.find(f => f.query === searchQuery) : undefined;
+
+  /**
+   * Marked entries the list currently shows: the targets of a batch kill.
+   * Marks hidden by the filter are kept in `markedKeys` and count again once
+   * the filter shows their rows, but a kill never reaches a row the user
+   * cannot see.
+   */
+  const markedPorts = liveFilteredPorts.filter(p => markedKeys.has(portKey(p)));
 
   /**
-   * The port entry currently highlighted in the list, or null when the list is empty.
-   * Uses `?? null` instead of `|| null` so a falsy-but-valid PortEntry is never
-   * accidentally replaced with null.
+   * Parent, start time and connection count for the detail pane. Only looked up
+   * while the pane is open; `ports` is passed so each new snapshot re-queries it
+   * and the pane stays live.
    */
-  const selectedPort: PortEntry | null = filteredPorts[clampedIndex] ?? null;
+  const processInfo = useProcessInfo(showDetails && !showTimeline && detailPort ? detailPort.pid : null, ports);
 
   /**
-   * Keeps `selectedIndex` state in sync with `clampedIndex` whenever the two diverge.
+   * Keeps `selectedIndex` and `selectedKey` state in sync with `clampedIndex`
+   * whenever they diverge.
    * This is necessary because `selectedIndex` is stored state while `clampedIndex` is
    * derived — React will not automatically update state based on a derived value.
    * Without this effect, the StatusBar would correctly show the clamped row, but the
-   * next arrow-key press would jump from the stale `selectedIndex` value.
+   * next arrow-key press would jump from the stale `selectedIndex` value. Recording
+   * the key of the row that ended up selected is what lets the selection follow
+   * it through the next re-sort; when the list is empty the key is cleared.
    */
+  const selectedRowKey = selectedRow ? rowKey(selectedRow) : null;
   useEffect(() => {
     if (selectedIndex !== clampedIndex) {
       setSelectedIndex(clampedIndex);
     }
-  }, [clampedIndex, selectedIndex]);
+    if (selectedKey !== selectedRowKey) {
+      setSelectedKey(selectedRowKey);
+    }
+  }, [clampedIndex, selectedIndex, selectedKey, selectedRowKey]);
 
   /**
-   * Auto-clears the kill feedback message after 2 seconds.
+   * Auto-clears the kill feedback message after 2 seconds. Progress messages are
+   * left alone: they are replaced by the result once the kill settles.
    * Returns the cleanup function so that:
    *   1. If the component unmounts before 2s, the timer is cancelled (no state update on dead component).
    *   2. If a second kill fires before the first message clears, the previous timer is cancelled
    *      and a fresh 2-second window starts for the new message.
    */
   useEffect(() => {
-    if (!killMessage) return;
+    if (!killMessage || killMessage.type === 'progress') return;
     const timer = setTimeout(() => setKillMessage(null), _killMessageTimeoutMs);
     return () => clearTimeout(timer);
   }, [killMessage, _killMessageTimeoutMs]);
 
-  /** Re-fetches the port list from lsof and updates state immediately. */
-  const refresh = () => setPorts(getPorts());
-
   /**
-   * Polls lsof every 2 seconds to keep the port list current without user interaction.
-   * Returns `clearInterval` as the cleanup function so the interval does not accumulate
-   * across re-renders or linger after the component unmounts.
-   * The empty dependency array means this interval is set up once for the component lifetime.
-   */
-  useEffect(() => {
-    const id = setInterval(refresh, AUTO_REFRESH_INTERVAL_MS);
-    return () => clearInterval(id);
-  }, []);
-
-  /**
-   * Sends SIGKILL to the selected port's owning process and records the result.
+   * Terminates the selected port's owning process and records the result.
    * Guards on `!selectedPort` to be safe against the list being empty at call time.
+   *
+   * With a grace period, the configured kill signal (SIGTERM by default) is
+   * sent first and the StatusBar shows
+   * "Terminating…" while gracefulKill waits for the process to exit or release
+   * the port. The exit is probed every 100ms; the release is read from the
+   * poller's latest snapshot once per refresh interval, since that is as often
+   * as the snapshot changes. The message notes an escalation to SIGKILL.
+   * With `killGraceMs` 0 or a `killSignal` of SIGKILL the process is SIGKILLed
+   * synchronously.
    * The 300ms delay before refresh gives the killed process time to fully exit so
-   * that the next lsof call no longer reports it — without the delay the entry can
+   * that the next collection no longer reports it — without the delay the entry can
    * briefly reappear in the list before disappearing on the following poll cycle.
    *
    * The timer is tracked in killRefreshTimerRef so that:
    *   - A rapid second kill cancels the previous pending refresh (avoiding a stale
-   *     lsof snapshot from the first kill overwriting a fresher one).
+   *     snapshot from the first kill overwriting a fresher one).
    *   - The timer is cancelled on unmount so it does not fire after the component
-   *     is gone (which would call getPorts on a dead component).
+   *     is gone (which would poke a poller that has already been stopped).
    */
+  const scheduleRefresh = () => {
+    if (killRefreshTimerRef.current !== null) clearTimeout(killRefreshTimerRef.current);
+    killRefreshTimerRef.current = setTimeout(refresh, POST_KILL_REFRESH_DELAY_MS);
+  };
+
+  /** Whether the poller's latest snapshot still has `entries`' PID on one of their ports. */
+  const isListening = (entries: PortEntry[]) => portsRef.current.some(p =>
+    entries.some(e => e.pid === p.pid && e.port === p.port && e.protocol === p.protocol)
+  );
+
   const executeKill = () => {
+    if (markedPorts.length > 0) {
+      executeBatchKill(markedPorts);
+      return;
+    }
+    if (selectedGroup) {
+      executeBatchKill(selectedGroup.ports);
+      return;
+    }
     if (!selectedPort) return;
-    const result = killPort(selectedPort.pid);
+    const target = selectedPort;
+    const label = `${target.process} (${target.pid})`;
+
+    const finish = (result: KillResult) => {
+      setKillMessage(result.success
+        ? { type: 'success', text: `Killed ${label} with ${result.signal}` }
+        : { type: 'error', text: `Failed: ${result.error}` }
+      );
+      scheduleRefresh();
+    };
+
+    if (killGraceMs <= 0 || killSignal === 'SIGKILL') {
+      finish(killPort(target.pid));
+      return;
+    }
+
+    const { signal } = killAbortRef.current;
+    setKillMessage({ type: 'progress', text: `Terminating ${label}…` });
+    void gracefulKill(target.pid, {
+      graceMs: killGraceMs,
+      firstSignal: killSignal,
+      signal,
+      isReleased: async () => !isListening([target]),
+      releaseCheckMs: settings.refreshIntervalMs,
+      onEscalate: () => setKillMessage({ type: 'progress', text: `Terminating ${label}… escalated to SIGKILL` }),
+    }).then(result => {
+      if (!signal.aborted) finish(result);
+    });
+  };
+
+  /**
+   * Kills every process owning one of `batch` (the marked rows, or the rows of
+   * the selected group), then clears the marks.
+   *
+   * A process listening on several of the ports is killed once. All processes
+   * are terminated in parallel with the same grace period as a single kill,
+   * and each wait also ends once the snapshot no longer lists its process on
+   * any of its ports in `batch`.
+   */
+  const executeBatchKill = (batch: PortEntry[]) => {
+    const targets = [...new Map(batch.map(p => [p.pid, p])).values()];
+    const finish = (results: KillResult[]) => {
+      setKillMessage(describeBatchKill(targets.map((port, i) => ({ port, result: results[i] }))));
+      setMarkedKeys(new Set());
+      scheduleRefresh();
+    };
+
+    if (killGraceMs <= 0 || killSignal === 'SIGKILL') {
+      finish(targets.map(t => killPort(t.pid)));
+      return;
+    }
+
+    const { signal } = killAbortRef.current;
+    const label = `${targets.length} ${targets.length === 1 ? 'process' : 'processes'}`;
+    const onEscalate = () => setKillMessage({ type: 'progress', text: `Terminating ${label}… escalated to SIGKILL` });
+    setKillMessage({ type: 'progress', text: `Terminating ${label}…` });
+    const kills = targets.map(t => gracefulKill(t.pid, {
+      graceMs: killGraceMs,
+      firstSignal: killSignal,
+      signal,
+      isReleased: async () => !isListening(batch.filter(p => p.pid === t.pid)),
+      releaseCheckMs: settings.refreshIntervalMs,
+      onEscalate,
+    }));
+    void Promise.all(kills).then(results => {
+      if (!signal.aborted) finish(results);
+    });
+  };
+
+  /**
+   * Sends a signal chosen from the signal menu to the selected port's process.
+   * The list is refreshed afterwards like after a kill, since SIGTERM, SIGINT
+   * and SIGKILL usually remove the entry and SIGHUP may rebind the port.
+   */
+  const executeSignal = (signal: SignalName) => {
+    if (!selectedPort) return;
+    const result = sendSignal(selectedPort.pid, signal);
     setKillMessage(result.success
-      ? { type: 'success', text: `Killed ${selectedPort.process} (${selectedPort.pid})` }
+      ? { type: 'success', text: `Sent ${signal} to ${selectedPort.process} (${selectedPort.pid})` }
       : { type: 'error', text: `Failed: ${result.error}` }
     );
-    if (killRefreshTimerRef.current !== null) clearTimeout(killRefreshTimerRef.current);
-    killRefreshTimerRef.current = setTimeout(refresh, POST_KILL_REFRESH_DELAY_MS);
+    scheduleRefresh();
   };
 
-  /** Cancels any pending post-kill refresh timer when the component unmounts. */
+  /** Replaces the search store and persists it. */
+  const updateSearchStore = (update: (store: SearchStore) => SearchStore) => {
+    const next = update(searchStore);
+    setSearchStore(next);
+    saveSearchStore(next);
+  };
+
+  /** Replaces the query with a saved filter's and closes the menu. */
+  const applyFilter = (index = filterMenuIndex) => {
+    const filter = searchStore.filters[index];
+    setShowFilterMenu(false);
+    if (!filter) return;
+    setSearchQuery(filter.query);
+    setHistoryIndex(null);
+  };
+
+  /**
+   * Saves the query under the typed name, or under the query itself when no
+   * name was typed. Saving under an existing name updates that filter.
+   */
+  const saveNamedFilter = () => {
+    const name = filterName?.trim() || searchQuery;
+    setFilterName(null);
+    try {
+      updateSearchStore(store => ({ ...store, filters: saveFilter(store.filters, name, searchQuery) }));
+    } catch (err) {
+      setKillMessage({ type: 'error', text: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  /** Cancels any pending post-kill refresh timer and graceful kill wait when the component unmounts. */
   useEffect(() => () => {
     if (killRefreshTimerRef.current !== null) clearTimeout(killRefreshTimerRef.current);
+    killAbortRef.current.abort();
   }, []);
 
-  /** Move cursor up one row, clamped to index 0. */
+  /**
+   * Move cursor up one row, clamped to index 0. Dropping `selectedKey` lets
+   * the index decide until the sync effect records the newly selected row.
+   */
   const moveUp = () => {
-    setSelectedIndex(i => clampIndex(i - 1, filteredPorts.length - 1));
+    setSelectedKey(null);
+    setSelectedIndex(i => clampIndex(i - 1, rows.length - 1));
   };
 
-  /** Move cursor down one row, clamped to last row of filteredPorts. */
+  /** Move cursor down one row, clamped to last row of rows. */
   const moveDown = () => {
-    setSelectedIndex(i => clampIndex(i + 1, filteredPorts.length - 1));
+    setSelectedKey(null);
+    setSelectedIndex(i => clampIndex(i + 1, rows.length - 1));
+  };
+
+  /** Move cursor by `delta` rows (a count or a page), clamped to the list. */
+  const moveBy = (delta: number) => {
+    setSelectedKey(null);
+    setSelectedIndex(i => clampIndex(i + delta, rows.length - 1));
+  };
+
+  /** Move cursor to row `index`; negative indices count from the end. */
+  const moveTo = (index: number) => {
+    setSelectedKey(null);
+    setSelectedIndex(clampIndex(index < 0 ? rows.length + index : index, rows.length - 1));
+  };
+
+  /** Move the timeline selection by `delta` lines, or to line `index` (negative counts from the end). */
+  const moveTimelineBy = (delta: number) => setTimelineIndex(clampIndex(clampedTimelineIndex + delta, timelineEvents.length - 1));
+  const moveTimelineTo = (index: number) =>
+    setTimelineIndex(clampIndex(index < 0 ? timelineEvents.length + index : index, timelineEvents.length - 1));
+
+  /**
+   * Writes the events the timeline shows, oldest first, to a JSON file in the
+   * current directory and reports its name, or why it failed.
+   */
+  const exportShownTimeline = () => {
+    if (timelineEvents.length === 0) {
+      setKillMessage({ type: 'error', text: 'No events to export' });
+      return;
+    }
+    try {
+      const path = exportTimeline([...timelineEvents].reverse());
+      const noun = timelineEvents.length === 1 ? 'event' : 'events';
+      setKillMessage({ type: 'success', text: `Exported ${timelineEvents.length} ${noun} to ${basename(path)}` });
+    } catch (err) {
+      setKillMessage({ type: 'error', text: `Export failed: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  /**
+   * Selects the first row of the port typed in the go-to-port prompt, however
+   * far from the viewport it is, and closes the prompt. A port inside a
+   * collapsed group expands that group; a port hidden by the filter, or with
+   * no listener at all, is reported instead.
+   */
+  const goToPort = () => {
+    setPortPrompt(null);
+    if (!portPrompt) return;
+    const port = Number(portPrompt);
+    const target = liveFilteredPorts.find(p => p.port === port);
+    if (!target) {
+      const hidden = ports.some(p => p.port === port);
+      setKillMessage({ type: 'error', text: hidden ? `Port ${port} is hidden by the filter` : `Nothing listens on port ${port}` });
+      return;
+    }
+    const collapsed = rows.find(r => r.type === 'group' && r.collapsed && r.group.ports.includes(target));
+    if (collapsed) {
+      setCollapsedGroups(keys => new Set([...keys].filter(key => key !== rowKey(collapsed))));
+    }
+    setSelectedKey(portKey(target));
+  };
+
+  /**
+   * The group the selected row belongs to: the selected header, or the
+   * nearest header above the selected port. Null without grouping.
+   */
+  const currentGroupRow = (): Extract<ListRow, { type: 'group' }> | null => {
+    for (let i = clampedIndex; i >= 0; i--) {
+      const row = rows[i];
+      if (row.type === 'group') return row;
+    }
+    return null;
+  };
+
+  /**
+   * Collapses or expands groups, keeping the cursor on the header of the
+   * group it was in, since its row may be about to disappear.
+   */
+  const updateCollapsed = (update: (keys: ReadonlySet<string>, groupKey: string) => ReadonlySet<string>) => {
+    const current = currentGroupRow();
+    if (!current) return;
+    setCollapsedGroups(keys => update(keys, current.group.key));
+    setSelectedKey(current.group.key);
   };
 
+  /** Terminal rows taken by the open panels; PortList's viewport, and so a page, shrinks by this much. */
+  const reservedRows = (showDetails && !showTimeline ? DETAIL_PANE_HEIGHT : 0)
+    + (showSignalMenu && selectedPort ? SIGNAL_MENU_HEIGHT : 0)
+    + (showFilterMenu ? filterMenuHeight(searchStore.filters.length) : 0);
+
+  /** Rows PortList shows at once. */
+  const pageSize = visibleRowCount(stdout?.rows, reservedRows);
+
+  /**
+   * Asks to confirm a kill of the selected row (or the marked ones), or kills
+   * straight away when confirmation is turned off. No-op with nothing to kill.
+   */
+  const requestKill = () => {
+    if (!selectedPort && !selectedGroup && markedPorts.length === 0) return;
+    if (!settings.confirmKill) {
+      executeKill();
+      return;
+    }
+    setConfirmKill(true);
+  };
+
+  /**
+   * Mouse input, while no menu, prompt or overlay is open. A click on a
+   * column header sorts by that column (again reverses it), a click on a row
+   * selects it and a double-click there asks to kill it, like the kill key.
+   * The wheel moves the selection, which scrolls the centered window; in the
+   * timeline view it is all the mouse does.
+   */
+  useMouse({
+    onClick: (x, y, double) => {
+      if (showTimeline) return;
+      const line = y - 1;
+      if (line === COLUMN_HEADER_LINE) {
+        const key = sortKeyAt(x - 1, stdout?.columns, settings.columns);
+        if (key === sortKey) setSortOrder(order => (order === 'asc' ? 'desc' : 'asc'));
+        else if (key) setSortKey(key);
+        return;
+      }
+      const { start, end } = visibleWindow(rows.length, clampedIndex, pageSize);
+      const index = start + line - COLUMN_HEADER_LINE - 1;
+      if (index < start || index >= end) return;
+      // The first click of a double-click selected the row, so the kill is
+      // for the row under the pointer.
+      if (double && index === clampedIndex) {
+        requestKill();
+        return;
+      }
+      setSelectedKey(rowKey(rows[index]));
+      setSelectedIndex(index);
+    },
+    onWheel: delta => (showTimeline ? moveTimelineBy : moveBy)(delta * WHEEL_ROWS),
+  }, !showHelp && !showSignalMenu && !showFilterMenu && filterName === null && portPrompt === null && !confirmKill);
+
   /**
    * Keyboard input handler. Extracted to custom hook for clarity and testability.
    * All state mutations are delegated via callbacks to maintain single-source-of-truth
@@ -200,33 +775,208 @@ export function App({ _killMessageTimeoutMs = KILL_MESSAGE_TIMEOUT_MS }: AppProp
     mode,
     showHelp,
     confirmKill,
+    pendingSignal,
+    showSignalMenu,
+    showFilterMenu,
+    filterCount: searchStore.filters.length,
+    filterName,
     searchQuery,
+    historyLength: searchStore.history.length,
+    historyIndex,
     selectedPort,
+    selectedGroup,
+    markedCount: markedPorts.length,
+    count,
+    pageSize,
+    portPrompt,
+    showTimeline,
+    keymap,
     exit,
     executeKill,
+    executeSignal,
+    openSignalMenu: () => {
+      setSignalMenuIndex(0);
+      setShowSignalMenu(true);
+    },
+    closeSignalMenu: () => setShowSignalMenu(false),
+    moveSignalMenu: delta => setSignalMenuIndex(i => clampIndex(i + delta, SIGNAL_OPTIONS.length - 1)),
+    chooseSignal: () => {
+      const { signal } = SIGNAL_OPTIONS[signalMenuIndex];
+      setShowSignalMenu(false);
+      if (!settings.confirmKill) {
+        executeSignal(signal);
+        return;
+      }
+      setPendingSignal(signal);
+      setConfirmKill(true);
+    },
+    openFilterMenu: () => {
+      setFilterMenuIndex(0);
+      setShowFilterMenu(true);
+    },
+    closeFilterMenu: () => setShowFilterMenu(false),
+    moveFilterMenu: delta => setFilterMenuIndex(i => clampIndex(i + delta, searchStore.filters.length - 1)),
+    applyFilter,
+    deleteFilter: () => {
+      updateSearchStore(store => ({ ...store, filters: store.filters.filter((_, i) => i !== filterMenuIndex) }));
+      setFilterMenuIndex(i => clampIndex(i, searchStore.filters.length - 2));
+    },
+    startSavingFilter: () => {
+      if (!searchQuery) {
+        setKillMessage({ type: 'error', text: 'No search query to save' });
+        return;
+      }
+      setFilterName(activeFilter?.name ?? '');
+    },
+    setFilterName,
+    saveFilter: saveNamedFilter,
     toggleHelp: () => setShowHelp(s => !s),
+    toggleDetails: () => setShowDetails(s => !s),
     closeHelp: () => setShowHelp(false),
-    setConfirmKill,
+    setConfirmKill: value => {
+      // With confirmation turned off, the request to confirm is the kill itself.
+      if (value) {
+        requestKill();
+        return;
+      }
+      setConfirmKill(false);
+      setPendingSignal(null);
+    },
     setMode,
-    setSearchQuery,
-    moveUp,
-    moveDown,
+    setSearchQuery: value => {
+      setHistoryIndex(null);
+      setSearchQuery(value);
+    },
+    cycleSearchMode: () => setSearchMode(m => SEARCH_MODES[(SEARCH_MODES.indexOf(m) + 1) % SEARCH_MODES.length]),
+    recallHistory: step => {
+      const index = (historyIndex ?? -1) + step;
+      if (index < 0) {
+        setHistoryIndex(null);
+        setSearchQuery('');
+      } else if (index < searchStore.history.length) {
+        setHistoryIndex(index);
+        setSearchQuery(searchStore.history[index]);
+      }
+    },
+    rememberQuery: () => {
+      setHistoryIndex(null);
+      if (!queryError) updateSearchStore(store => ({ ...store, history: rememberQuery(store.history, searchQuery) }));
+    },
+    toggleMark: () => {
+      // On a group header, every port of the group is marked, or unmarked if all already are.
+      const keys = selectedGroup ? selectedGroup.ports.map(portKey) : selectedPort ? [portKey(selectedPort)] : [];
+      setMarkedKeys(marked => {
+        const next = new Set(marked);
+        const unmark = keys.every(key => marked.has(key));
+        for (const key of keys) {
+          if (unmark) next.delete(key);
+          else next.add(key);
+        }
+        return next;
+      });
+    },
+    markAll: () => setMarkedKeys(keys => new Set([...keys, ...liveFilteredPorts.map(portKey)])),
+    invertMarks: () => setMarkedKeys(keys => {
+      const next = new Set(keys);
+      for (const key of liveFilteredPorts.map(portKey)) {
+        if (!next.delete(key)) next.add(key);
+      }
+      return next;
+    }),
+    clearMarks: () => setMarkedKeys(new Set()),
+    moveUp: showTimeline ? () => moveTimelineBy(-1) : moveUp,
+    moveDown: showTimeline ? () => moveTimelineBy(1) : moveDown,
+    moveBy: showTimeline ? moveTimelineBy : moveBy,
+    moveTo: showTimeline ? moveTimelineTo : moveTo,
+    setCount,
+    setPortPrompt,
+    goToPort,
     refresh,
+    cycleProtocol: () => setProtocolFilter(f =>
+      PROTOCOL_FILTER_CYCLE[(PROTOCOL_FILTER_CYCLE.indexOf(f) + 1) % PROTOCOL_FILTER_CYCLE.length]
+    ),
+    // Only visible columns are offered: sorting by a hidden one would look random.
+    cycleSort: () => setSortKey(key => nextSortKey(key, SORT_KEYS.filter(k => settings.columns.includes(k)))),
+    reverseSort: () => setSortOrder(order => (order === 'asc' ? 'desc' : 'asc')),
+    cycleGroupBy: () => setGroupBy(by => GROUP_BYS[(GROUP_BYS.indexOf(by) + 1) % GROUP_BYS.length]),
+    toggleCollapse: () => updateCollapsed((keys, groupKey) => {
+      const next = new Set(keys);
+      if (!next.delete(groupKey)) next.add(groupKey);
+      return next;
+    }),
+    toggleCollapseAll: () => updateCollapsed(keys => {
+      const groupKeys = rows.flatMap(r => (r.type === 'group' ? [r.group.key] : []));
+      return groupKeys.every(key => keys.has(key)) ? new Set() : new Set([...keys, ...groupKeys]);
+    }),
+    toggleTimeline: () => {
+      setTimelineIndex(0);
+      setShowTimeline(s => !s);
+    },
+    exportTimeline: exportShownTimeline,
   });
 
   /**
    * Component tree (top to bottom, column flex layout):
    *   SearchBar   — app title + filter input on one line
-   *   PortList    — scrollable table of filteredPorts with the selected row highlighted
+   *   PortList    — scrollable table of filteredPorts with the selected row highlighted,
+   *                 or Timeline — the session's opened / closed events (toggled by `t`)
+   *   DetailPane  — optional fixed-height panel about selectedPort (toggled by `d`)
+   *   SignalMenu  — optional fixed-height list of signals to send (opened by `s`)
    *   StatusBar   — context-sensitive footer: mode indicator, kill confirm, kill message
    *   HelpOverlay — full-screen modal rendered on top when showHelp is true
    */
   return (
     <Box flexDirection='column'>
-      <SearchBar value={searchQuery} isActive={mode === 'search'} />
-      <PortList ports={filteredPorts} selectedIndex={clampedIndex} />
-      <StatusBar mode={mode} confirmKill={confirmKill} killMessage={killMessage} selectedPort={selectedPort} />
-      {showHelp && <HelpOverlay />}
+      <SearchBar
+        value={searchQuery}
+        isActive={mode === 'search'}
+        protocol={protocolFilter}
+        searchMode={searchMode}
+        filterName={activeFilter?.name ?? null}
+        error={queryError}
+      />
+      {showTimeline ? (
+        <Timeline
+          events={timelineEvents}
+          selectedIndex={clampedTimelineIndex}
+          totalCount={events.length}
+          reservedRows={reservedRows}
+        />
+      ) : (
+        <PortList
+          ports={filteredPorts}
+          selectedIndex={clampedIndex}
+          markedKeys={markedKeys}
+          changes={changes}
+          columns={settings.columns}
+          sort={sortKey}
+          sortOrder={sortOrder}
+          groupBy={groupBy}
+          collapsedGroups={collapsedGroups}
+          highlight={highlight}
+          loading={loading}
+          reservedRows={reservedRows}
+        />
+      )}
+      {showDetails && !showTimeline && <DetailPane port={detailPort} info={processInfo} ports={ports} />}
+      {showSignalMenu && selectedPort && <SignalMenu port={selectedPort} selectedIndex={signalMenuIndex} keymap={keymap} />}
+      {showFilterMenu && <FilterMenu filters={searchStore.filters} selectedIndex={filterMenuIndex} keymap={keymap} />}
+      <StatusBar
+        mode={mode}
+        confirmKill={confirmKill}
+        pendingSignal={pendingSignal}
+        markedPorts={markedPorts}
+        killMessage={killMessage}
+        selectedPort={selectedPort}
+        selectedGroup={selectedGroup}
+        filterName={filterName}
+        portPrompt={portPrompt}
+        count={count}
+        changeCounts={{ opened: openedCount, closed: closed.length }}
+        timelineCount={showTimeline ? timelineEvents.length : null}
+        keymap={keymap}
+      />
+      {showHelp && <HelpOverlay keymap={keymap} />}
     </Box>
   );
 }
@@ -0,0 +1,178 @@
+/**
+ * @module cli/args
+ *
+ * Minimal argument parser for the non-interactive subcommands. Hand-rolled
+ * rather than `util.parseArgs` because that only became available in Node
+ * 18.3 and `engines` allows any Node 18.
+ */
+import type { ProtocolFilter, SearchMode } from '../types.js';
+import { parseDurationMs } from '../utils/parseDuration.js';
+import { PROTOCOL_FILTERS } from '../utils/filterPorts.js';
+import { parseQuery, QueryError } from '../utils/parseQuery.js';
+
+/**
+ * Thrown for invalid command-line usage: an unknown option, a missing option
+ * value, or a value a command cannot accept. Commands report it on stderr and
+ * exit with {@link USAGE_EXIT_CODE}, which scripts can tell apart from the
+ * command's own failure code.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/** Exit code for a {@link UsageError}, following the shell builtin convention. */
+export const USAGE_EXIT_CODE = 2;
+
+/** Highest valid TCP/UDP port number. */
+const MAX_PORT = 65535;
+
+/**
+ * Parses a port number argument.
+ *
+ * @throws {UsageError} Unless `value` is an integer from 1 to 65535
+ */
+export function parsePort(value: string): number {
+  const port = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (!(port >= 1 && port <= MAX_PORT)) {
+    throw new UsageError(`invalid port "${value}" (expected 1-${MAX_PORT})`);
+  }
+  return port;
+}
+
+/** An inclusive range of ports, as given to `--range`. */
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parses a `--range` value such as `3000-3999`. Both ends are inclusive and
+ * may be equal.
+ *
+ * @throws {UsageError} For any other shape, an invalid port or a reversed range
+ */
+export function parsePortRange(value: string): PortRange {
+  const match = /^(\d+)-(\d+)$/.exec(value);
+  if (!match) throw new UsageError(`invalid --range "${value}" (expected e.g. 3000-3999)`);
+  const start = parsePort(match[1]);
+  const end = parsePort(match[2]);
+  if (start > end) throw new UsageError(`invalid --range "${value}" (${start} is above ${end})`);
+  return { start, end };
+}
+
+/**
+ * Parses a `--protocol` value.
+ *
+ * @throws {UsageError} Unless `value` is `all`, `tcp` or `udp`
+ */
+export function parseProtocolFilter(value: string): ProtocolFilter {
+  const protocol = PROTOCOL_FILTERS.find(p => p === value);
+  if (!protocol) throw new UsageError(`invalid --protocol "${value}" (expected ${PROTOCOL_FILTERS.join(', ')})`);
+  return protocol;
+}
+
+/**
+ * Validates a `--filter` query with the search bar's parser, so a typo is a
+ * usage error rather than a filter that matches nothing.
+ *
+ * @param mode - Search mode the query will be matched in; a regex can only
+ *   be invalid in regex mode
+ * @returns The query, unchanged
+ * @throws {UsageError} When {@link parseQuery} rejects it
+ */
+export function parseFilter(value: string, mode: SearchMode = 'substring'): string {
+  try {
+    parseQuery(value, mode);
+  } catch (err) {
+    if (!(err instanceof QueryError)) throw err;
+    throw new UsageError(`invalid --filter "${value}": ${err.message}`);
+  }
+  return value;
+}
+
+/**
+ * Parses a duration option such as `--timeout 30s` with {@link parseDurationMs}.
+ *
+ * @returns The duration in milliseconds
+ * @throws {UsageError} For anything but a non-negative duration
+ */
+export function parseDuration(value: string): number {
+  const ms = parseDurationMs(value);
+  if (ms === null) throw new UsageError(`invalid duration "${value}" (expected e.g. 500ms, 30s, 2m)`);
+  return ms;
+}
+
+/** Options a command accepts. Names are given without the leading `--`. */
+export interface ArgSpec {
+  /** Boolean options, e.g. `json` for `--json`. */
+  flags?: string[];
+  /** Options taking a value, e.g. `format` for `--format csv` or `--format=csv`. */
+  options?: string[];
+  /** Single-letter aliases, e.g. `{ y: 'yes' }` for `-y`. */
+  aliases?: Record<string, string>;
+}
+
+/** Result of {@link parseArgs}. */
+export interface ParsedArgs {
+  /** Arguments that are not options, in order. */
+  positionals: string[];
+  /** Boolean options that were given. */
+  flags: Set<string>;
+  /** Value options that were given; a repeated option keeps its last value. */
+  options: Map<string, string>;
+}
+
+/**
+ * Parses `args` according to `spec`.
+ *
+ * Accepts `--name value`, `--name=value`, boolean `--name`, the aliases in
+ * `spec.aliases`, and `--` to end option parsing. A lone `-` and negative
+ * numbers are treated as positionals.
+ *
+ * @throws {UsageError} For an unknown option, a missing value, or a value
+ *         given to a boolean option
+ */
+export function parseArgs(args: string[], spec: ArgSpec): ParsedArgs {
+  const flags = new Set(spec.flags ?? []);
+  const options = new Set(spec.options ?? []);
+  const parsed: ParsedArgs = { positionals: [], flags: new Set(), options: new Map() };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      parsed.positionals.push(...args.slice(i + 1));
+      break;
+    }
+
+    let name: string;
+    let inlineValue: string | undefined;
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+      inlineValue = eq === -1 ? undefined : arg.slice(eq + 1);
+    } else if (/^-\D/.test(arg)) {
+      const alias = arg.length === 2 ? spec.aliases?.[arg[1]] : undefined;
+      if (alias === undefined) throw new UsageError(`unknown option ${arg}`);
+      name = alias;
+    } else {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    if (flags.has(name)) {
+      if (inlineValue !== undefined) throw new UsageError(`--${name} does not take a value`);
+      parsed.flags.add(name);
+    } else if (options.has(name)) {
+      const value = inlineValue ?? args[++i];
+      if (value === undefined) throw new UsageError(`--${name} requires a value`);
+      parsed.options.set(name, value);
+    } else {
+      throw new UsageError(`unknown option --${name}`);
+    }
+  }
+
+  return parsed;
+}
@@ -0,0 +1,94 @@
+/**
+ * @module cli/check
+ *
+ * `ports check <port>`: reports whether anything is listening on a port and
+ * encodes the answer in the exit status, so CI scripts can branch on it
+ * without parsing output (`ports check 5432 || start-postgres`).
+ */
+import type { PortEntry, ProtocolFilter } from '../types.js';
+import { getPorts } from '../utils/getPorts.js';
+import { parseArgs, parsePort, parseProtocolFilter, UsageError, USAGE_EXIT_CODE } from './args.js';
+import { processIO } from './io.js';
+import type { CliIO } from './io.js';
+
+/**
+ * Exit status when ports could not be collected. Distinct from 1 so that a
+ * failed check never reads as "free" to a script.
+ */
+export const CHECK_FAILED_EXIT_CODE = 2;
+
+/** Options of `ports check` after validation. */
+interface CheckOptions {
+  port: number;
+  protocol: ProtocolFilter;
+  json: boolean;
+}
+
+/** Validates the arguments of `ports check`. */
+function parseCheckArgs(args: string[]): CheckOptions {
+  const parsed = parseArgs(args, { flags: ['json'], options: ['protocol'] });
+  if (parsed.positionals.length !== 1) throw new UsageError('expected exactly one port');
+
+  return {
+    port: parsePort(parsed.positionals[0]),
+    protocol: parseProtocolFilter(parsed.options.get('protocol') ?? 'all'),
+    json: parsed.flags.has('json'),
+  };
+}
+
+/**
+ * Returns the entries bound to `port`, restricted to `protocol` unless it is
+ * `'all'`. Shared with `ports wait`, which polls until this becomes empty or
+ * non-empty.
+ */
+export function findListeners(ports: PortEntry[], port: number, protocol: ProtocolFilter): PortEntry[] {
+  return ports.filter(p => p.port === port && (protocol === 'all' || p.protocol === protocol));
+}
+
+/** "postgres (400) on 127.0.0.1/tcp" */
+function describeListener(entry: PortEntry): string {
+  return `${entry.process} (${entry.pid}) on ${entry.address}/${entry.protocol}`;
+}
+
+/** ":5432 is in use by postgres (400) on 127.0.0.1/tcp" or ":5432 is free" */
+export function describePortState(port: number, listeners: PortEntry[]): string {
+  return listeners.length > 0
+    ? `:${port} is in use by ${listeners.map(describeListener).join(', ')}`
+    : `:${port} is free`;
+}
+
+/**
+ * Runs `ports check` with the arguments following the subcommand name.
+ *
+ * @returns The process exit code: 0 when something is listening on the port,
+ *          1 when nothing is, {@link CHECK_FAILED_EXIT_CODE} when ports
+ *          could not be collected, {@link USAGE_EXIT_CODE} for invalid
+ *          arguments
+ */
+export async function runCheck(args: string[], io: CliIO = processIO): Promise<number> {
+  let options: CheckOptions;
+  try {
+    options = parseCheckArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    io.stderr(`ports check: ${err.message}\n`);
+    return USAGE_EXIT_CODE;
+  }
+
+  let listeners: PortEntry[];
+  try {
+    // Only the JSON owners include the command line, cwd and executable.
+    listeners = findListeners(await getPorts(undefined, { details: options.json }), options.port, options.protocol);
+  } catch (err) {
+    io.stderr(`ports: ${err instanceof Error ? err.message : String(err)}\n`);
+    return CHECK_FAILED_EXIT_CODE;
+  }
+
+  const listening = listeners.length > 0;
+  if (options.json) {
+    io.stdout(JSON.stringify({ port: options.port, listening, owners: listeners }, null, 2) + '\n');
+  } else {
+    io.stdout(`${describePortState(options.port, listeners)}\n`);
+  }
+  return listening ? 0 : 1;
+}
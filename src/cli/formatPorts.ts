@@ -0,0 +1,81 @@
+/**
+ * @module cli/formatPorts
+ *
+ * Renders a port list for `ports list` in the formats scripts consume:
+ * aligned text for humans, TSV and CSV for shell pipelines and spreadsheets,
+ * and JSON carrying every {@link PortEntry} field.
+ */
+import type { PortEntry } from '../types.js';
+
+/** Output formats accepted by `--format`. */
+export const OUTPUT_FORMATS = ['table', 'tsv', 'csv', 'json'] as const;
+
+/** An output format of `ports list`. */
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Columns of the TSV and CSV formats, named after the {@link PortEntry} fields
+ * so a header row maps directly onto the JSON output. Unknown optional
+ * fields are written as empty cells.
+ */
+const DELIMITED_COLUMNS = ['port', 'protocol', 'process', 'pid', 'user', 'address', 'command', 'cwd', 'exe'] as const;
+
+/** Columns of the table format, mirroring the TUI's list. */
+const TABLE_COLUMNS: Array<[header: string, value: (p: PortEntry) => string]> = [
+  ['PORT', p => String(p.port)],
+  ['PROTO', p => p.protocol.toUpperCase()],
+  ['PROCESS', p => p.process],
+  ['PID', p => p.pid],
+  ['USER', p => p.user],
+  ['ADDRESS', p => p.address],
+  ['COMMAND', p => p.command ?? ''],
+];
+
+/** Type guard for `--format` values. */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/** Quotes a CSV field when it contains a delimiter, quote or line break (RFC 4180). */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** TSV has no quoting, so tabs and line breaks inside a field become spaces. */
+function tsvField(value: string): string {
+  return value.replace(/[\t\r\n]/g, ' ');
+}
+
+/**
+ * Formats `ports` as aligned columns separated by two spaces. The last
+ * column (COMMAND) is not padded, so lines carry no trailing whitespace.
+ */
+function formatTable(ports: PortEntry[]): string {
+  const rows = [TABLE_COLUMNS.map(([header]) => header), ...ports.map(p => TABLE_COLUMNS.map(([, value]) => value(p)))];
+  const widths = TABLE_COLUMNS.map((_, col) => Math.max(...rows.map(row => row[col].length)));
+  return rows
+    .map(row => row.map((cell, col) => col === row.length - 1 ? cell : cell.padEnd(widths[col])).join('  ').trimEnd())
+    .join('\n') + '\n';
+}
+
+/**
+ * Formats `ports` in `format`. Every format ends with a newline; the
+ * delimited formats start with a header row even when `ports` is empty.
+ */
+export function formatPorts(ports: PortEntry[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(ports, null, 2) + '\n';
+    case 'table':
+      return formatTable(ports);
+    case 'tsv':
+    case 'csv': {
+      const [field, separator] = format === 'csv' ? [csvField, ','] : [tsvField, '\t'];
+      const lines = [
+        DELIMITED_COLUMNS.join(separator),
+        ...ports.map(p => DELIMITED_COLUMNS.map(col => field(String(p[col] ?? ''))).join(separator)),
+      ];
+      return lines.join('\n') + '\n';
+    }
+  }
+}
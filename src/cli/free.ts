@@ -0,0 +1,97 @@
+/**
+ * @module cli/free
+ *
+ * `ports free --range 3000-3999`: prints ports in a range that nothing is
+ * using, so dev tooling can pick one instead of trying ports until a server
+ * starts.
+ *
+ * A candidate must pass two checks. The collector rules out ports it sees in
+ * use (over TCP, the protocol servers bind) without touching them; every
+ * remaining candidate is then bound for real with {@link isPortBindable},
+ * because the collector can miss sockets owned by other users.
+ */
+import { getPorts } from '../utils/getPorts.js';
+import { isPortBindable } from '../utils/probePort.js';
+import { parseArgs, parsePortRange, UsageError, USAGE_EXIT_CODE } from './args.js';
+import type { PortRange } from './args.js';
+import { processIO } from './io.js';
+import type { CliIO } from './io.js';
+
+/** Options of `ports free` after validation. */
+interface FreeOptions {
+  range: PortRange;
+  count: number;
+  /** Address to bind when probing; undefined binds every interface. */
+  host: string | undefined;
+  json: boolean;
+}
+
+/** Validates the arguments of `ports free`. */
+function parseFreeArgs(args: string[]): FreeOptions {
+  const parsed = parseArgs(args, { flags: ['json'], options: ['range', 'count', 'host'] });
+  if (parsed.positionals.length > 0) {
+    throw new UsageError(`unexpected argument "${parsed.positionals[0]}"`);
+  }
+
+  const range = parsed.options.get('range');
+  if (range === undefined) throw new UsageError('--range is required, e.g. --range 3000-3999');
+
+  const countArg = parsed.options.get('count') ?? '1';
+  const count = /^\d+$/.test(countArg) ? parseInt(countArg, 10) : 0;
+  if (count < 1) throw new UsageError(`invalid --count "${countArg}" (expected a positive integer)`);
+
+  return { range: parsePortRange(range), count, host: parsed.options.get('host'), json: parsed.flags.has('json') };
+}
+
+/**
+ * Returns up to `options.count` free ports of the range in ascending order,
+ * probing candidates one at a time so that at most one test socket is open.
+ */
+async function findFreePorts(options: FreeOptions, inUse: ReadonlySet<number>): Promise<number[]> {
+  const found: number[] = [];
+  for (let port = options.range.start; port <= options.range.end && found.length < options.count; port++) {
+    if (!inUse.has(port) && await isPortBindable(port, options.host)) found.push(port);
+  }
+  return found;
+}
+
+/**
+ * Runs `ports free` with the arguments following the subcommand name.
+ *
+ * Prints one port per line, or a JSON array of numbers with `--json`.
+ * Nothing is printed unless all `--count` ports were found, so scripts never
+ * consume a partial answer.
+ *
+ * @returns The process exit code: 0 when enough free ports were found, 1
+ *          when the range has too few or probing failed,
+ *          {@link USAGE_EXIT_CODE} for invalid arguments
+ */
+export async function runFree(args: string[], io: CliIO = processIO): Promise<number> {
+  let options: FreeOptions;
+  try {
+    options = parseFreeArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    io.stderr(`ports free: ${err.message}\n`);
+    return USAGE_EXIT_CODE;
+  }
+
+  let found: number[];
+  try {
+    const ports = await getPorts(undefined, { details: false });
+    const inUse = new Set(ports.filter(p => p.protocol === 'tcp').map(p => p.port));
+    found = await findFreePorts(options, inUse);
+  } catch (err) {
+    io.stderr(`ports: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 1;
+  }
+
+  const { start, end } = options.range;
+  if (found.length < options.count) {
+    io.stderr(`ports free: found ${found.length} of ${options.count} free ports in ${start}-${end}\n`);
+    return 1;
+  }
+
+  io.stdout(options.json ? JSON.stringify(found) + '\n' : found.map(p => `${p}\n`).join(''));
+  return 0;
+}
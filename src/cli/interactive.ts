@@ -0,0 +1,89 @@
+/**
+ * @module cli/interactive
+ *
+ * Options of the interactive UI (`ports` without a subcommand). Each one
+ * overrides the matching config file setting, so a flag always wins over
+ * `.portsrc` and the personal config.
+ */
+import { COLUMN_IDS, MIN_REFRESH_INTERVAL_MS } from '../utils/config.js';
+import type { PortsConfig } from '../utils/config.js';
+import { SEARCH_MODES } from '../utils/filterPorts.js';
+import { KILL_SIGNALS, parseSignalName } from '../utils/killPort.js';
+import { SORT_KEYS } from '../utils/sortPorts.js';
+import { GROUP_BYS } from '../utils/groupPorts.js';
+import { parseQuery, QueryError } from '../utils/parseQuery.js';
+import { parseArgs, parseDuration, parseFilter, parseProtocolFilter, UsageError } from './args.js';
+
+/**
+ * Applies the interactive options in `args` on top of `config`.
+ *
+ * @throws {UsageError} For unknown options, positionals or invalid values
+ */
+export function applyInteractiveArgs(args: string[], config: PortsConfig): PortsConfig {
+  const parsed = parseArgs(args, {
+    flags: ['reverse', 'no-confirm', 'no-mouse'],
+    options: ['interval', 'filter', 'search-mode', 'protocol', 'sort', 'group', 'columns', 'signal', 'grace'],
+  });
+  if (parsed.positionals.length > 0) {
+    throw new UsageError(`unexpected argument "${parsed.positionals[0]}"`);
+  }
+
+  const result = { ...config };
+  const option = (name: string, apply: (value: string) => void): void => {
+    const value = parsed.options.get(name);
+    if (value !== undefined) apply(value);
+  };
+
+  option('interval', value => {
+    result.refreshIntervalMs = parseDuration(value);
+    if (result.refreshIntervalMs < MIN_REFRESH_INTERVAL_MS) {
+      throw new UsageError(`--interval must be at least ${MIN_REFRESH_INTERVAL_MS}ms`);
+    }
+  });
+  option('search-mode', value => {
+    const mode = SEARCH_MODES.find(m => m === value);
+    if (!mode) throw new UsageError(`invalid --search-mode "${value}" (expected ${SEARCH_MODES.join(', ')})`);
+    result.searchMode = mode;
+  });
+  option('filter', value => { result.filter = parseFilter(value, result.searchMode); });
+  // A new mode can invalidate the configured filter: "a|(" is fine as a
+  // substring but not as a regex.
+  if (parsed.options.has('search-mode') && !parsed.options.has('filter')) {
+    try {
+      parseQuery(result.filter, result.searchMode);
+    } catch (err) {
+      if (!(err instanceof QueryError)) throw err;
+      throw new UsageError(`--search-mode ${result.searchMode} does not accept the configured filter "${result.filter}": ${err.message}`);
+    }
+  }
+  option('protocol', value => { result.protocol = parseProtocolFilter(value); });
+  option('sort', value => {
+    const sort = SORT_KEYS.find(k => k === value);
+    if (!sort) throw new UsageError(`invalid --sort "${value}" (expected ${SORT_KEYS.join(', ')})`);
+    result.sort = sort;
+  });
+  option('group', value => {
+    const groupBy = GROUP_BYS.find(g => g === value);
+    if (!groupBy) throw new UsageError(`invalid --group "${value}" (expected ${GROUP_BYS.join(', ')})`);
+    result.groupBy = groupBy;
+  });
+  option('columns', value => {
+    const columns = value.split(',').map(c => c.trim());
+    const unknown = columns.find(c => !COLUMN_IDS.some(id => id === c));
+    if (unknown !== undefined) {
+      throw new UsageError(`invalid --columns entry "${unknown}" (expected ${COLUMN_IDS.join(', ')})`);
+    }
+    result.columns = COLUMN_IDS.filter(id => columns.includes(id));
+  });
+  option('signal', value => {
+    const signal = KILL_SIGNALS.find(s => s === parseSignalName(value));
+    if (!signal) throw new UsageError(`invalid --signal "${value}" (expected ${KILL_SIGNALS.join(', ')})`);
+    result.killSignal = signal;
+  });
+  option('grace', value => { result.killGraceMs = parseDuration(value); });
+
+  if (parsed.flags.has('reverse')) result.sortOrder = config.sortOrder === 'asc' ? 'desc' : 'asc';
+  if (parsed.flags.has('no-confirm')) result.confirmKill = false;
+  if (parsed.flags.has('no-mouse')) result.mouse = false;
+  return result;
+}
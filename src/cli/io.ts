@@ -0,0 +1,38 @@
+/**
+ * @module cli/io
+ *
+ * Input and output channels for the non-interactive subcommands. Commands
+ * write through a {@link CliIO} instead of `console` so tests can capture
+ * output and answer prompts without spying on globals.
+ */
+import { createInterface } from 'readline';
+
+/** Where a command writes its output. Each call writes `text` verbatim. */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /**
+   * Asks a yes/no question and resolves true for "y" or "yes". Undefined when
+   * nobody can answer — stdin is not a terminal, as in CI or a pipeline — so
+   * commands must require an explicit flag (such as `--yes`) instead.
+   */
+  confirm?: (question: string) => Promise<boolean>;
+}
+
+/** Prompts on stderr, keeping stdout clean for the command's result. */
+function askOnTerminal(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise(resolve => {
+    rl.question(`${question} [y/N] `, answer => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+/** The real process streams. */
+export const processIO: CliIO = {
+  stdout: text => { process.stdout.write(text); },
+  stderr: text => { process.stderr.write(text); },
+  confirm: process.stdin.isTTY ? askOnTerminal : undefined,
+};
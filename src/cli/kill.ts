@@ -0,0 +1,147 @@
+/**
+ * @module cli/kill
+ *
+ * `ports kill <port...>`: resolves each port to the processes listening on it
+ * and signals them — a replacement for `lsof -ti :3000 | xargs kill -9` in
+ * npm scripts that also works where lsof is missing, since it goes through
+ * the same collector as the TUI.
+ *
+ * Without `--yes` the command asks for confirmation on the terminal, and
+ * refuses to run when there is no terminal to ask on.
+ */
+import type { PortEntry, SignalName } from '../types.js';
+import { getPorts } from '../utils/getPorts.js';
+import { sendSignal, parseSignalName, SIGNAL_NAMES } from '../utils/killPort.js';
+import { parseArgs, parsePort, UsageError, USAGE_EXIT_CODE } from './args.js';
+import { processIO } from './io.js';
+import type { CliIO } from './io.js';
+
+/** Signal sent when `--signal` is not given; matches `kill -9` in the scripts this replaces. */
+const DEFAULT_SIGNAL: SignalName = 'SIGKILL';
+
+/** Options of `ports kill` after validation. */
+interface KillOptions {
+  ports: number[];
+  signal: SignalName;
+  yes: boolean;
+  dryRun: boolean;
+}
+
+/** One process to signal, with every requested port it listens on. */
+interface KillTarget {
+  pid: string;
+  process: string;
+  ports: number[];
+}
+
+/** Validates the arguments of `ports kill`. */
+function parseKillArgs(args: string[]): KillOptions {
+  const parsed = parseArgs(args, {
+    flags: ['yes', 'dry-run'],
+    options: ['signal'],
+    aliases: { y: 'yes', s: 'signal', n: 'dry-run' },
+  });
+  if (parsed.positionals.length === 0) throw new UsageError('expected at least one port');
+
+  const signalArg = parsed.options.get('signal');
+  const signal = signalArg === undefined ? DEFAULT_SIGNAL : parseSignalName(signalArg);
+  if (signal === null) {
+    throw new UsageError(`unsupported --signal "${signalArg}" (expected one of ${SIGNAL_NAMES.join(', ')})`);
+  }
+
+  return {
+    ports: [...new Set(parsed.positionals.map(parsePort))],
+    signal,
+    yes: parsed.flags.has('yes'),
+    dryRun: parsed.flags.has('dry-run'),
+  };
+}
+
+/**
+ * Groups the entries listening on `ports` by PID, so a process bound to
+ * several of them (or to one port over both TCP and UDP) is signalled once.
+ */
+function resolveTargets(entries: PortEntry[], ports: number[]): KillTarget[] {
+  const targets = new Map<string, KillTarget>();
+  for (const entry of entries) {
+    if (!ports.includes(entry.port)) continue;
+    const target = targets.get(entry.pid) ?? { pid: entry.pid, process: entry.process, ports: [] };
+    if (!target.ports.includes(entry.port)) target.ports.push(entry.port);
+    targets.set(entry.pid, target);
+  }
+  return [...targets.values()];
+}
+
+/** "node (100) on :3000, :9229" */
+function describeTarget(target: KillTarget): string {
+  return `${target.process} (${target.pid}) on ${target.ports.map(p => `:${p}`).join(', ')}`;
+}
+
+/**
+ * Runs `ports kill` with the arguments following the subcommand name.
+ *
+ * Ports nothing listens on are reported on stderr but are not an error:
+ * the goal — the port being free — already holds.
+ *
+ * @returns The process exit code: 0 when every process was signalled (or
+ *          nothing needed to be), 1 when any signal failed or ports could
+ *          not be collected, {@link USAGE_EXIT_CODE} for invalid arguments
+ *          or a missing confirmation
+ */
+export async function runKill(args: string[], io: CliIO = processIO): Promise<number> {
+  let options: KillOptions;
+  try {
+    options = parseKillArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    io.stderr(`ports kill: ${err.message}\n`);
+    return USAGE_EXIT_CODE;
+  }
+
+  let targets: KillTarget[];
+  try {
+    targets = resolveTargets(await getPorts(undefined, { details: false }), options.ports);
+  } catch (err) {
+    io.stderr(`ports: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 1;
+  }
+
+  const claimed = new Set(targets.flatMap(t => t.ports));
+  for (const port of options.ports.filter(p => !claimed.has(p))) {
+    io.stderr(`ports kill: nothing is listening on :${port}\n`);
+  }
+  if (targets.length === 0) return 0;
+
+  if (options.dryRun) {
+    for (const target of targets) io.stdout(`Would send ${options.signal} to ${describeTarget(target)}\n`);
+    return 0;
+  }
+
+  if (!options.yes) {
+    if (!io.confirm) {
+      io.stderr('ports kill: not running in a terminal; pass --yes to skip the confirmation\n');
+      return USAGE_EXIT_CODE;
+    }
+    // With several targets the prompt only counts them, so list them first.
+    if (targets.length > 1) {
+      for (const target of targets) io.stderr(`  ${describeTarget(target)}\n`);
+    }
+    const summary = targets.length === 1 ? describeTarget(targets[0]) : `${targets.length} processes`;
+    if (!await io.confirm(`Send ${options.signal} to ${summary}?`)) {
+      io.stderr('ports kill: cancelled\n');
+      return 1;
+    }
+  }
+
+  let failed = false;
+  for (const target of targets) {
+    const result = sendSignal(target.pid, options.signal);
+    if (result.success) {
+      io.stdout(`Sent ${result.signal} to ${describeTarget(target)}\n`);
+    } else {
+      failed = true;
+      io.stderr(`Failed to signal ${describeTarget(target)}: ${result.error}\n`);
+    }
+  }
+  return failed ? 1 : 0;
+}
@@ -0,0 +1,70 @@
+/**
+ * @module cli/list
+ *
+ * `ports list`: prints the current port list and exits, for shell pipelines
+ * and CI checks. Uses the same collector as the TUI (including `--source`)
+ * and the same filter semantics as its search bar.
+ */
+import type { ProtocolFilter } from '../types.js';
+import { getPorts } from '../utils/getPorts.js';
+import { filterPorts } from '../utils/filterPorts.js';
+import { formatPorts, isOutputFormat, OUTPUT_FORMATS } from './formatPorts.js';
+import type { OutputFormat } from './formatPorts.js';
+import { parseArgs, parseFilter, parseProtocolFilter, UsageError, USAGE_EXIT_CODE } from './args.js';
+import { processIO } from './io.js';
+import type { CliIO } from './io.js';
+
+/** Options of `ports list` after validation. */
+interface ListOptions {
+  format: OutputFormat;
+  filter: string;
+  protocol: ProtocolFilter;
+}
+
+/** Validates the arguments of `ports list`. */
+function parseListArgs(args: string[]): ListOptions {
+  const parsed = parseArgs(args, { flags: ['json'], options: ['format', 'filter', 'protocol'] });
+  if (parsed.positionals.length > 0) {
+    throw new UsageError(`unexpected argument "${parsed.positionals[0]}"`);
+  }
+
+  const format = parsed.options.get('format') ?? (parsed.flags.has('json') ? 'json' : 'table');
+  if (!isOutputFormat(format)) {
+    throw new UsageError(`invalid --format "${format}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  if (parsed.flags.has('json') && format !== 'json') {
+    throw new UsageError(`--json conflicts with --format ${format}`);
+  }
+
+  return {
+    format,
+    filter: parseFilter(parsed.options.get('filter') ?? ''),
+    protocol: parseProtocolFilter(parsed.options.get('protocol') ?? 'all'),
+  };
+}
+
+/**
+ * Runs `ports list` with the arguments following the subcommand name.
+ *
+ * @returns The process exit code: 0 on success, 1 when ports could not be
+ *          collected, {@link USAGE_EXIT_CODE} for invalid arguments
+ */
+export async function runList(args: string[], io: CliIO = processIO): Promise<number> {
+  let options: ListOptions;
+  try {
+    options = parseListArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    io.stderr(`ports list: ${err.message}\n`);
+    return USAGE_EXIT_CODE;
+  }
+
+  try {
+    const ports = filterPorts(await getPorts(), options.filter, options.protocol);
+    io.stdout(formatPorts(ports, options.format));
+    return 0;
+  } catch (err) {
+    io.stderr(`ports: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 1;
+  }
+}
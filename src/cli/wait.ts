@@ -0,0 +1,117 @@
+/**
+ * @module cli/wait
+ *
+ * `ports wait <port>`: blocks until something listens on a port (or, with
+ * `--free`, until nothing does), for orchestration scripts that start a
+ * service in the background and must not race it.
+ *
+ * Polls through {@link createPortPoller}, the same loop that refreshes the
+ * TUI, so a slow collection never overlaps the next one and the in-flight
+ * lsof is killed when the wait ends.
+ */
+import type { PortEntry, ProtocolFilter } from '../types.js';
+import { createPortPoller, DEFAULT_POLL_INTERVAL_MS } from '../utils/portPoller.js';
+import { findListeners, describePortState } from './check.js';
+import { parseArgs, parseDuration, parsePort, parseProtocolFilter, UsageError, USAGE_EXIT_CODE } from './args.js';
+import { processIO } from './io.js';
+import type { CliIO } from './io.js';
+
+/** Options of `ports wait` after validation. */
+interface WaitOptions {
+  port: number;
+  protocol: ProtocolFilter;
+  /** Wait for the port to be released instead of bound. */
+  free: boolean;
+  /** Milliseconds before giving up, or null to wait indefinitely. */
+  timeoutMs: number | null;
+  intervalMs: number;
+}
+
+/** Validates the arguments of `ports wait`. */
+function parseWaitArgs(args: string[]): WaitOptions {
+  const parsed = parseArgs(args, {
+    flags: ['free'],
+    options: ['timeout', 'interval', 'protocol'],
+    aliases: { t: 'timeout' },
+  });
+  if (parsed.positionals.length !== 1) throw new UsageError('expected exactly one port');
+
+  const timeout = parsed.options.get('timeout');
+  const interval = parsed.options.get('interval');
+  const intervalMs = interval === undefined ? DEFAULT_POLL_INTERVAL_MS : parseDuration(interval);
+  if (intervalMs === 0) throw new UsageError('--interval must be greater than 0');
+
+  return {
+    port: parsePort(parsed.positionals[0]),
+    protocol: parseProtocolFilter(parsed.options.get('protocol') ?? 'all'),
+    free: parsed.flags.has('free'),
+    timeoutMs: timeout === undefined ? null : parseDuration(timeout),
+    intervalMs,
+  };
+}
+
+/**
+ * Polls until the condition holds or the timeout expires.
+ *
+ * @returns The listeners of the last snapshot when the condition held (empty
+ *          for `--free`), or null on timeout
+ */
+function waitForPort(options: WaitOptions, onError: (err: unknown) => void): Promise<PortEntry[] | null> {
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = (result: PortEntry[] | null): void => {
+      clearTimeout(timer);
+      poller.stop();
+      resolve(result);
+    };
+
+    const poller = createPortPoller({
+      intervalMs: options.intervalMs,
+      details: false,
+      onSnapshot: ports => {
+        const listeners = findListeners(ports, options.port, options.protocol);
+        if ((listeners.length === 0) === options.free) finish(listeners);
+      },
+      onError,
+    });
+    if (options.timeoutMs !== null) timer = setTimeout(() => finish(null), options.timeoutMs);
+  });
+}
+
+/**
+ * Runs `ports wait` with the arguments following the subcommand name.
+ *
+ * Collection errors do not end the wait — lsof failing once while a service
+ * starts up is not a reason to abort — but the last one is reported if the
+ * wait times out.
+ *
+ * @returns The process exit code: 0 once the port is listening (or free with
+ *          `--free`), 1 on timeout, {@link USAGE_EXIT_CODE} for invalid
+ *          arguments
+ */
+export async function runWait(args: string[], io: CliIO = processIO): Promise<number> {
+  let options: WaitOptions;
+  try {
+    options = parseWaitArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    io.stderr(`ports wait: ${err.message}\n`);
+    return USAGE_EXIT_CODE;
+  }
+
+  let lastError: unknown = null;
+  const listeners = await waitForPort(options, err => { lastError = err; });
+
+  if (listeners === null) {
+    const state = options.free ? 'free' : 'in use';
+    const seconds = parseFloat(((options.timeoutMs ?? 0) / 1000).toFixed(3));
+    io.stderr(`ports wait: timed out after ${seconds}s waiting for :${options.port} to be ${state}\n`);
+    if (lastError !== null) {
+      io.stderr(`ports: ${lastError instanceof Error ? lastError.message : String(lastError)}\n`);
+    }
+    return 1;
+  }
+
+  io.stdout(`${describePortState(options.port, listeners)}\n`);
+  return 0;
+}
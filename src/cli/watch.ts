@@ -0,0 +1,123 @@
+/**
+ * @module cli/watch
+ *
+ * `ports watch`: runs headless and prints a line whenever a port is opened
+ * or closed, until interrupted. With `--json` each line is a JSON object
+ * (NDJSON), for dashboards and test harnesses that need to know when a
+ * server comes up or dies.
+ *
+ * Successive snapshots from {@link createPortPoller} are compared with
+ * {@link diffPorts}. The first snapshot is the baseline and produces no
+ * events unless `--initial` is given.
+ */
+import type { PortEntry, ProtocolFilter } from '../types.js';
+import { createPortPoller, DEFAULT_POLL_INTERVAL_MS } from '../utils/portPoller.js';
+import { diffPorts } from '../utils/diffPorts.js';
+import { filterPorts } from '../utils/filterPorts.js';
+import { toPortEvent } from '../utils/timeline.js';
+import type { PortEvent } from '../utils/timeline.js';
+import { parseArgs, parseDuration, parseFilter, parseProtocolFilter, UsageError, USAGE_EXIT_CODE } from './args.js';
+import { processIO } from './io.js';
+import type { CliIO } from './io.js';
+
+/** Options of `ports watch` after validation. */
+interface WatchOptions {
+  json: boolean;
+  /** Report the ports of the first snapshot as opened. */
+  initial: boolean;
+  intervalMs: number;
+  filter: string;
+  protocol: ProtocolFilter;
+}
+
+/** One line of `ports watch --json`; the TUI's timeline export writes the same objects. */
+export type WatchEvent = PortEvent;
+
+/** Validates the arguments of `ports watch`. */
+function parseWatchArgs(args: string[]): WatchOptions {
+  const parsed = parseArgs(args, { flags: ['json', 'initial'], options: ['interval', 'filter', 'protocol'] });
+  if (parsed.positionals.length > 0) {
+    throw new UsageError(`unexpected argument "${parsed.positionals[0]}"`);
+  }
+
+  const interval = parsed.options.get('interval');
+  const intervalMs = interval === undefined ? DEFAULT_POLL_INTERVAL_MS : parseDuration(interval);
+  if (intervalMs === 0) throw new UsageError('--interval must be greater than 0');
+
+  return {
+    json: parsed.flags.has('json'),
+    initial: parsed.flags.has('initial'),
+    intervalMs,
+    filter: parseFilter(parsed.options.get('filter') ?? ''),
+    protocol: parseProtocolFilter(parsed.options.get('protocol') ?? 'all'),
+  };
+}
+
+/** "2026-01-01T12:00:00.000Z  opened  :3000/tcp  node (100) on 127.0.0.1" */
+function formatEvent(e: WatchEvent): string {
+  return `${e.ts}  ${e.event.padEnd(6)}  :${e.port}/${e.protocol}  ${e.process} (${e.pid}) on ${e.address}`;
+}
+
+/** An AbortSignal that fires on Ctrl+C or `kill`, ending the watch cleanly. */
+function interruptSignal(): AbortSignal {
+  const controller = new AbortController();
+  const abort = (): void => controller.abort();
+  process.once('SIGINT', abort);
+  process.once('SIGTERM', abort);
+  return controller.signal;
+}
+
+/**
+ * Runs `ports watch` with the arguments following the subcommand name.
+ *
+ * Closed entries are reported before opened ones, so a restart reads in
+ * order. Collection errors are reported on stderr and polling continues;
+ * the next successful snapshot is diffed against the last good one.
+ *
+ * @param signal - Ends the watch when aborted; defaults to SIGINT/SIGTERM
+ * @returns The process exit code: 0 once interrupted,
+ *          {@link USAGE_EXIT_CODE} for invalid arguments
+ */
+export async function runWatch(
+  args: string[],
+  io: CliIO = processIO,
+  signal: AbortSignal = interruptSignal(),
+): Promise<number> {
+  let options: WatchOptions;
+  try {
+    options = parseWatchArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    io.stderr(`ports watch: ${err.message}\n`);
+    return USAGE_EXIT_CODE;
+  }
+
+  let previous: PortEntry[] | null = options.initial ? [] : null;
+  const emit = (event: WatchEvent): void => {
+    io.stdout((options.json ? JSON.stringify(event) : formatEvent(event)) + '\n');
+  };
+
+  const poller = createPortPoller({
+    intervalMs: options.intervalMs,
+    // Events carry no command line; only a filter may need one to match.
+    details: options.filter !== '',
+    onSnapshot: snapshot => {
+      const ports = filterPorts(snapshot, options.filter, options.protocol);
+      if (previous !== null) {
+        const { opened, closed } = diffPorts(previous, ports);
+        const ts = new Date().toISOString();
+        for (const entry of closed) emit(toPortEvent('closed', entry, ts));
+        for (const entry of opened) emit(toPortEvent('opened', entry, ts));
+      }
+      previous = ports;
+    },
+    onError: err => io.stderr(`ports: ${err instanceof Error ? err.message : String(err)}\n`),
+  });
+
+  await new Promise<void>(resolve => {
+    if (signal.aborted) resolve();
+    else signal.addEventListener('abort', () => resolve(), { once: true });
+  });
+  poller.stop();
+  return 0;
+}
@@ -0,0 +1,98 @@
+/**
+ * Bottom panel with everything known about the selected port's process.
+ *
+ * Toggled with "d". The per-row columns only have room for a name and a PID;
+ * this pane adds the full command line, working directory, executable path,
+ * owner, parent, start time, every address the process is bound to, and its live
+ * connection count.
+ *
+ * The pane always renders exactly DETAIL_PANE_HEIGHT rows — long values are
+ * truncated rather than wrapped — so PortList can subtract a fixed amount
+ * from its viewport while the pane is open.
+ */
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { PortEntry, ProcessInfo } from '../types.js';
+import { abbreviateHome } from '../utils/abbreviateHome.js';
+import { formatDuration } from '../utils/formatDuration.js';
+
+/** Width of the label column ("Command", "Listening", ...). */
+const LABEL_WIDTH = 12;
+/** Shown for a value that could not be determined. */
+const UNKNOWN = '–';
+/** Shown while the process info lookup for a newly selected PID is pending. */
+const PENDING = '…';
+
+/**
+ * Number of terminal rows the pane occupies: eight detail lines plus the top
+ * and bottom border. App passes this to PortList as reserved space.
+ */
+export const DETAIL_PANE_HEIGHT = 10;
+
+/**
+ * Props for the DetailPane component.
+ */
+interface DetailPaneProps {
+  /** The selected entry, or null when the list is empty. */
+  port: PortEntry | null;
+  /** Process info for `port.pid`, or null while it is being looked up. */
+  info: ProcessInfo | null;
+  /**
+   * Every entry in the unfiltered snapshot, used to list all addresses the
+   * selected PID holds — including ones hidden by the current filter.
+   */
+  ports: PortEntry[];
+  /** Current time in epoch ms, for the uptime. Defaults to Date.now(). @internal */
+  now?: number;
+}
+
+/** Formats epoch ms as local `YYYY-MM-DD HH:MM:SS`. */
+function formatTimestamp(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ` +
+    `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+/**
+ * Renders the detail pane for `port`.
+ *
+ * Values from {@link ProcessInfo} read "…" until the first lookup for the
+ * PID resolves and "–" when the lookup could not determine them, so a
+ * permission problem is distinguishable from a slow lookup.
+ */
+export function DetailPane({ port, info, ports, now = Date.now() }: DetailPaneProps): React.JSX.Element {
+  const fromInfo = <T,>(pick: (i: ProcessInfo) => T | undefined, format: (v: T) => string): string => {
+    if (!info) return PENDING;
+    const value = pick(info);
+    return value === undefined ? UNKNOWN : format(value);
+  };
+
+  const rows: Array<[label: string, value: string]> = port
+    ? [
+      ['Command', port.command ?? port.process],
+      ['Cwd', port.cwd ? abbreviateHome(port.cwd) : UNKNOWN],
+      ['Exe', port.exe ? abbreviateHome(port.exe) : UNKNOWN],
+      ['User', port.user],
+      ['Parent', fromInfo(i => i.ppid, ppid => info?.parentName ? `${ppid} (${info.parentName})` : ppid)],
+      ['Started', fromInfo(i => i.startTime, t => `${formatTimestamp(t)}  (up ${formatDuration(now - t)})`)],
+      ['Listening', ports
+        .filter(p => p.pid === port.pid)
+        .map(p => `${p.address}:${p.port}/${p.protocol}`)
+        .join(', ')],
+      ['Connections', fromInfo(i => i.established, n => `${n} established`)],
+    ]
+    : [['', 'No port selected'], ['', ''], ['', ''], ['', ''], ['', ''], ['', ''], ['', ''], ['', '']];
+
+  return (
+    <Box borderStyle='round' borderColor='gray' flexDirection='column' paddingX={1}>
+      {rows.map(([label, value], i) => (
+        // truncate-end keeps every row to one line so the pane height is fixed.
+        <Text key={i} wrap='truncate-end'>
+          <Text bold color='gray'>{label.padEnd(LABEL_WIDTH)}</Text>
+          {port ? value : <Text dimColor>{value}</Text>}
+        </Text>
+      ))}
+    </Box>
+  );
+}
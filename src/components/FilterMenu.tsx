@@ -0,0 +1,65 @@
+/**
+ * Menu of the saved filters, opened with "f" in navigate mode.
+ *
+ * Each entry is numbered 1–9; pressing its number applies it straight away,
+ * as does enter on the highlighted one. Filters are created from the current
+ * query with "F" and removed here with delete.
+ *
+ * Like SignalMenu, the menu's height only depends on the number of filters,
+ * so PortList can reserve {@link filterMenuHeight} rows of its viewport
+ * while it is open.
+ */
+import React from 'react';
+import { Box, Text } from 'ink';
+import { DEFAULT_KEYMAP, hintKey } from '../utils/keymap.js';
+import type { Keymap } from '../utils/keymap.js';
+import type { SavedFilter } from '../utils/searchStore.js';
+
+/**
+ * Number of terminal rows the menu occupies: the title, one row per filter
+ * (or the empty-state row), the hint line and the top and bottom border.
+ */
+export function filterMenuHeight(count: number): number {
+  return Math.max(count, 1) + 4;
+}
+
+/**
+ * Props for the FilterMenu component.
+ */
+interface FilterMenuProps {
+  filters: readonly SavedFilter[];
+  /** 0-based index into `filters` of the highlighted entry. */
+  selectedIndex: number;
+  /** Bindings the hints are generated from; defaults to the built-in keymap. */
+  keymap?: Keymap;
+}
+
+/**
+ * Renders the saved filters with the entry at `selectedIndex` highlighted.
+ * Navigation, applying and deleting are handled by useKeyboardInput.
+ */
+export function FilterMenu({ filters, selectedIndex, keymap = DEFAULT_KEYMAP }: FilterMenuProps): React.JSX.Element {
+  const choose = [hintKey(keymap, 'moveUp'), hintKey(keymap, 'moveDown')].filter(k => k !== null).join('/');
+  const cancel = hintKey(keymap, 'cancel');
+  const save = hintKey(keymap, 'saveFilter');
+  const maxNameLen = Math.max(0, ...filters.map(f => f.name.length));
+  return (
+    <Box borderStyle='round' borderColor='green' flexDirection='column' paddingX={1}>
+      <Text bold color='green'>Saved filters</Text>
+      {filters.length === 0 && (
+        <Text dimColor>None yet{save && `: ${save} saves the current search query`}</Text>
+      )}
+      {filters.map(({ name, query }, i) => (
+        <Text key={name} wrap='truncate-end' color={i === selectedIndex ? 'cyan' : undefined}>
+          {i === selectedIndex ? '▶ ' : '  '}
+          <Text color='yellow'>{i + 1}</Text>{'  '}
+          <Text bold>{name.padEnd(maxNameLen)}</Text>{'  '}
+          <Text dimColor={i !== selectedIndex}>{query}</Text>
+        </Text>
+      ))}
+      <Text dimColor>
+        {choose && `${choose} choose  `}1-9/enter apply  delete remove{cancel && `  ${cancel} close`}
+      </Text>
+    </Box>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Renders the header row of a group in the port table, shown while the list
+ * is grouped with "b".
+ *
+ * The header names the group and summarises it on one line: how many
+ * processes and ports it has and which port numbers, so a collapsed group
+ * still tells what it is listening on. A "▾" marks an expanded group and a
+ * "▸" a collapsed one. The selected header gets the same blue highlight and
+ * "▶" arrow as a selected PortRow; killing from it kills the whole group.
+ */
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { PortGroup } from '../utils/groupPorts.js';
+import { HighlightBox, SELECTION_ARROW } from './PortRow.js';
+
+/**
+ * Props for the GroupRow component.
+ */
+interface GroupRowProps {
+  group: PortGroup;
+  /** Whether the group's ports are hidden. */
+  collapsed: boolean;
+  /** Whether this header is the selected row. */
+  isSelected: boolean;
+}
+
+/** `"2 PIDs · 4 ports: 80, 443, 53/udp"`; a single PID is not counted. */
+function summary({ ports, pids }: PortGroup): string {
+  const numbers = [...new Set(ports.map(p => (p.protocol === 'udp' ? `${p.port}/udp` : String(p.port))))];
+  const count = `${ports.length} ${ports.length === 1 ? 'port' : 'ports'}: ${numbers.join(', ')}`;
+  return pids.length > 1 ? `${pids.length} PIDs · ${count}` : count;
+}
+
+/**
+ * Renders one group header, truncated to a single line so the viewport
+ * math in PortList can count it as one row.
+ */
+export function GroupRow({ group, collapsed, isSelected }: GroupRowProps): React.JSX.Element {
+  const toggle = collapsed ? '▸' : '▾';
+  if (isSelected) {
+    return (
+      <HighlightBox backgroundColor='blue'>
+        <Text color='cyan' wrap='truncate-end'>
+          {SELECTION_ARROW} {toggle} <Text bold>{group.label}</Text>  {summary(group)}
+        </Text>
+      </HighlightBox>
+    );
+  }
+  return (
+    <Box>
+      <Text wrap='truncate-end'>
+        {'  '}<Text color='gray'>{toggle}</Text> <Text bold color='magenta'>{group.label}</Text>
+        {'  '}<Text dimColor>{summary(group)}</Text>
+      </Text>
+    </Box>
+  );
+}
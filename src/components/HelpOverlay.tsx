@@ -8,35 +8,29 @@
  */
 import React from 'react';
 import { Box, Text } from 'ink';
+import { DEFAULT_KEYMAP, KEY_ACTIONS, QUIT_CHORD, formatChord, formatKeys } from '../utils/keymap.js';
+import type { Keymap } from '../utils/keymap.js';
 
 /**
- * Complete list of application keybindings shown in the help overlay.
- *
- * Data-driven design: adding or renaming a shortcut only requires editing
- * this array. The rendering loop computes column widths dynamically, so
- * alignment stays correct regardless of label length.
- *
- * Each entry contains:
- * - key: Visual representation of the keystroke (e.g., "↑ / k", "ctrl+c")
- * - desc: Brief plain-English description of what the key does
- *
- * IMPORTANT: Keep this list in sync with the actual keyboard handler in
- * src/hooks/useKeyboardInput.ts. Changes to keybindings must be reflected here.
+ * Props for the HelpOverlay component.
  */
-const KEYBINDINGS: Array<{ key: string; desc: string }> = [
-  { key: '↑ / k',    desc: 'Move up' },
-  { key: '↓ / j',    desc: 'Move down' },
-  { key: 'enter',    desc: 'Kill selected port (with confirm)' },
-  { key: 'ctrl+k',   desc: 'Kill selected port (no confirm)' },
-  { key: '/ + type', desc: 'Filter by name, port, or address' },
-  { key: 'ESC',      desc: 'Clear filter / exit search' },
-  { key: 'r / R',    desc: 'Refresh port list' },
-  { key: '?',        desc: 'Toggle this help' },
-  { key: 'q',        desc: 'Quit' },
-  { key: 'ctrl+c',   desc: 'Quit' },
-];
+interface HelpOverlayProps {
+  /** Bindings to list; defaults to the built-in keymap. */
+  keymap?: Keymap;
+}
 
-const maxKeyLen = Math.max(...KEYBINDINGS.map(b => b.key.length));
+/**
+ * One row per bound action of the keymap registry, plus ctrl+c, which always
+ * quits. Generated rather than written out so the overlay always shows the
+ * keys useKeyboardInput actually reacts to, including ones rebound in the
+ * config. Unbound actions are left out.
+ */
+function keybindingRows(keymap: Keymap): Array<{ key: string; desc: string }> {
+  const rows = KEY_ACTIONS
+    .filter(({ action }) => keymap[action].length > 0)
+    .map(({ action, desc }) => ({ key: formatKeys(keymap, action), desc }));
+  return [...rows, { key: formatChord(QUIT_CHORD), desc: 'Quit' }];
+}
 
 /**
  * Renders the help overlay with a complete keybinding reference.
@@ -48,20 +42,23 @@ const maxKeyLen = Math.max(...KEYBINDINGS.map(b => b.key.length));
  * - This component is purely presentational
  * - App controls visibility via showHelp state
  * - Closure is handled in app.tsx (any keypress when showHelp=true)
- * - Keybindings are defined in KEYBINDINGS constant for easy maintenance
+ * - Rows come from the keymap registry (utils/keymap), the same data the
+ *   keyboard handler uses
  *
  * Layout uses Ink's Box with cyan rounded border and proper padding for
  * visual separation from the main port list.
  *
  * @returns Full-screen help overlay with keybinding table
  */
-export function HelpOverlay(): React.JSX.Element {
+export function HelpOverlay({ keymap = DEFAULT_KEYMAP }: HelpOverlayProps): React.JSX.Element {
+  const rows = keybindingRows(keymap);
+  const maxKeyLen = Math.max(...rows.map(b => b.key.length));
   return (
     <Box borderStyle='round' borderColor='cyan' flexDirection='column' paddingX={2} paddingY={1}>
       <Text bold color='cyan'>  Keybindings</Text>
       <Text> </Text>
-      {KEYBINDINGS.map(({ key, desc }) => (
-        <Text key={key}>
+      {rows.map(({ key, desc }) => (
+        <Text key={`${key} ${desc}`}>
           <Text color='cyan' bold>{key.padEnd(maxKeyLen)}</Text>{'  '}{desc}
         </Text>
       ))}
@@ -3,22 +3,40 @@
  *
  * Delegates individual row rendering to PortRow and imports the shared
  * COL_* constants from it to guarantee header and row columns stay aligned.
+ * While the list is grouped, a GroupRow header precedes each group's ports.
  */
 import React from 'react';
 import { Box, Text, useStdout } from 'ink';
-import type { PortEntry } from '../types.js';
-import { PortRow, COL_PORT, COL_PID, COL_USER, UNSELECTED_PREFIX } from './PortRow.js';
+import type { ColumnId, GroupBy, PortChange, PortEntry, SortKey, SortOrder } from '../types.js';
+import { portKey } from '../utils/normalizePorts.js';
+import { COLUMN_IDS } from '../utils/config.js';
+import { listRows, rowKey } from '../utils/groupPorts.js';
+import type { Highlighter } from '../utils/parseQuery.js';
+import { GroupRow } from './GroupRow.js';
+import { PortRow, COL_PORT, COL_PROTO, COL_PID, COL_USER, COL_ADDRESS, UNSELECTED_PREFIX } from './PortRow.js';
 
 /** Fallback terminal width when stdout.columns is not available. */
 const DEFAULT_TERMINAL_WIDTH = 80;
-/** Width of the row prefix glyph ("  " or "▶ ") in characters. */
+/** Fallback terminal height when stdout.rows is not available. */
+const DEFAULT_TERMINAL_ROWS = 24;
+/** Width of the row prefix ("  ", "▶ ", " ●" or "▶●") in characters. */
 const ROW_PREFIX_WIDTH = 2;
+/** Default for `markedKeys` and `collapsedGroups`; shared so the default is not a new Set per render. */
+const NO_KEYS: ReadonlySet<string> = new Set();
+/** Default for `changes`, shared for the same reason. */
+const NO_CHANGES: ReadonlyMap<string, PortChange> = new Map();
 /** Minimum characters reserved for the ADDRESS column at the right edge. */
 const ADDRESS_COL_MIN_WIDTH = 20;
 /** Minimum character width for the PROCESS column before it starts truncating. */
 const MIN_PROCESS_COL_WIDTH = 16;
 /** Maximum character width for the PROCESS column on very wide terminals. */
 const MAX_PROCESS_COL_WIDTH = 40;
+/** Narrowest COMMAND column worth showing; below this it is omitted entirely. */
+const MIN_COMMAND_COL_WIDTH = 20;
+/** Horizontal padding of the header row (1 column on each side), the widest line. */
+const LIST_PADDING_WIDTH = 2;
+/** Appended to the header of the sort column. */
+const SORT_ARROWS: Record<SortOrder, string> = { asc: ' ↑', desc: ' ↓' };
 
 /**
  * UI overhead constants for viewport calculation.
@@ -30,32 +48,155 @@ const STATUS_BAR_HEIGHT = 1;  // Bottom status bar
 const BUFFER_HEIGHT = 1;       // Prevents content from touching bottom edge
 const TOTAL_UI_OVERHEAD = SEARCH_BAR_HEIGHT + HEADER_ROW_HEIGHT + STATUS_BAR_HEIGHT + BUFFER_HEIGHT;
 
+/**
+ * 0-based screen line of the column headers, with the UI drawn from the top
+ * of the screen; the first visible row is on the line below. Used to map
+ * mouse clicks to rows.
+ */
+export const COLUMN_HEADER_LINE = SEARCH_BAR_HEIGHT;
+
+/**
+ * How many rows fit in the viewport: the terminal height minus the UI
+ * overhead (search bar, header, status bar, buffer) and any open panels.
+ * App sizes page and half-page moves with the same number.
+ *
+ * @param terminalRows - Terminal height (from stdout.rows); 24 when unknown
+ * @param reservedRows - Rows taken by open panels, as passed to PortList
+ */
+export function visibleRowCount(terminalRows: number | undefined, reservedRows = 0): number {
+  return Math.max(1, (terminalRows ?? DEFAULT_TERMINAL_ROWS) - TOTAL_UI_OVERHEAD - reservedRows);
+}
+
+/**
+ * The window of rows on screen, `[start, end)` into the list: all of them
+ * when they fit, otherwise `maxVisible` rows centered on the selection where
+ * possible, or the last `maxVisible` near the end.
+ */
+export function visibleWindow(rowCount: number, selectedIndex: number, maxVisible: number): { start: number; end: number } {
+  if (rowCount <= maxVisible) return { start: 0, end: rowCount };
+  const start = Math.min(Math.max(0, selectedIndex - Math.floor(maxVisible / 2)), rowCount - maxVisible);
+  return { start, end: start + maxVisible };
+}
+
+/**
+ * Total width of the fixed-width columns among `columns` (PORT, PROTO, USER,
+ * PID), plus `addressWidth` when ADDRESS is shown.
+ */
+function fixedColumnsWidth(columns: readonly ColumnId[], addressWidth: number): number {
+  const widths: Array<[ColumnId, number]> = [
+    ['port', COL_PORT], ['protocol', COL_PROTO], ['user', COL_USER], ['pid', COL_PID], ['address', addressWidth],
+  ];
+  return widths.reduce((sum, [column, width]) => sum + (columns.includes(column) ? width : 0), 0);
+}
+
 /**
  * Calculates the dynamic width for the PROCESS column based on terminal width.
  *
  * The PROCESS column receives whatever space remains after allocating fixed
- * widths for PORT, USER, PID, and ADDRESS columns, clamped between min/max bounds.
+ * widths for the visible PORT, PROTO, USER, PID, and ADDRESS columns, clamped
+ * between min/max bounds.
  *
  * @param terminalWidth - Current terminal width in characters (from stdout.columns)
+ * @param columns - Visible columns
  * @returns Character width for PROCESS column, clamped to [MIN_PROCESS_COL_WIDTH, MAX_PROCESS_COL_WIDTH]
  */
-function calculateProcessColWidth(terminalWidth: number): number {
-  // Allocate space: row prefix (2) + PORT + USER + PID + ADDRESS reserve
-  const reserved = ROW_PREFIX_WIDTH + COL_PORT + COL_USER + COL_PID + ADDRESS_COL_MIN_WIDTH;
+function calculateProcessColWidth(terminalWidth: number, columns: readonly ColumnId[]): number {
+  // Allocate space: row prefix (2) + visible fixed columns + ADDRESS reserve
+  const reserved = ROW_PREFIX_WIDTH + fixedColumnsWidth(columns, ADDRESS_COL_MIN_WIDTH);
   const available = terminalWidth - reserved;
 
   // Clamp to min/max bounds so column doesn't become unusably narrow or wastefully wide
   return Math.min(MAX_PROCESS_COL_WIDTH, Math.max(MIN_PROCESS_COL_WIDTH, available));
 }
 
+/**
+ * Calculates the width of the trailing COMMAND column.
+ *
+ * The column only gets what is left after every other column, with PROCESS
+ * already at its maximum, so it never squeezes the core columns. On a
+ * standard 80-column terminal nothing is left and the column is hidden.
+ *
+ * @param terminalWidth - Current terminal width in characters
+ * @param colProcess - Width already granted to the PROCESS column
+ * @param columns - Visible columns
+ * @returns Character width for COMMAND, or 0 when it does not fit or is hidden
+ */
+function calculateCommandColWidth(terminalWidth: number, colProcess: number, columns: readonly ColumnId[]): number {
+  if (!columns.includes('command')) return 0;
+  const used = LIST_PADDING_WIDTH + ROW_PREFIX_WIDTH + fixedColumnsWidth(columns, COL_ADDRESS) +
+    (columns.includes('process') ? colProcess : 0);
+  const available = terminalWidth - used;
+  return available >= MIN_COMMAND_COL_WIDTH ? available : 0;
+}
+
+/**
+ * The sortable column whose header covers the 0-based screen column `x`, or
+ * null for the row prefix, the COMMAND column and the empty space past the
+ * last header.
+ *
+ * @param x - 0-based screen column
+ * @param terminalWidth - Current terminal width (from stdout.columns); 80 when unknown
+ * @param columns - Visible columns, in table order
+ */
+export function sortKeyAt(x: number, terminalWidth: number | undefined, columns: readonly ColumnId[]): SortKey | null {
+  const widths: Record<SortKey, number> = {
+    port: COL_PORT,
+    protocol: COL_PROTO,
+    process: calculateProcessColWidth(terminalWidth ?? DEFAULT_TERMINAL_WIDTH, columns),
+    user: COL_USER,
+    pid: COL_PID,
+    address: COL_ADDRESS,
+  };
+  // The header row starts after its left padding and the row prefix.
+  let start = LIST_PADDING_WIDTH / 2 + ROW_PREFIX_WIDTH;
+  for (const column of columns) {
+    if (column === 'command') return null;
+    if (x >= start && x < start + widths[column]) return column;
+    start += widths[column];
+  }
+  return null;
+}
+
 /**
  * Props for the PortList component.
  */
 interface PortListProps {
   /** The list of port entries to render, already filtered and sorted by App. */
   ports: PortEntry[];
-  /** Index into `ports` of the currently selected row. */
+  /**
+   * Index of the currently selected row: into `ports`, or while grouped into
+   * the rows shown, group headers included (see {@link listRows}).
+   */
   selectedIndex: number;
+  /** {@link portKey}s of the rows marked for a batch kill. */
+  markedKeys?: ReadonlySet<string>;
+  /**
+   * Entries that changed in a recent refresh, by {@link portKey}. Closed
+   * entries must be included in `ports` by App to be shown as ghosts.
+   */
+  changes?: ReadonlyMap<string, PortChange>;
+  /** Columns to show, from the `columns` setting. Defaults to all. */
+  columns?: readonly ColumnId[];
+  /** Column `ports` is ordered by; its header gets an arrow. Defaults to port. */
+  sort?: SortKey;
+  /** Direction of `sort`, shown by the arrow. */
+  sortOrder?: SortOrder;
+  /** What the rows are grouped by. Defaults to no grouping. */
+  groupBy?: GroupBy;
+  /** Keys of the groups shown as their header only. */
+  collapsedGroups?: ReadonlySet<string>;
+  /** Where the search query matched; passed on to every row. */
+  highlight?: Highlighter;
+  /**
+   * True until the first port collection settles. Replaces the empty-state
+   * message so a slow first scan is not mistaken for "nothing is listening".
+   */
+  loading?: boolean;
+  /**
+   * Terminal rows taken by optional panels (e.g. the detail pane) on top of
+   * the fixed TOTAL_UI_OVERHEAD; the viewport shrinks by this much.
+   */
+  reservedRows?: number;
 }
 
 /**
@@ -68,56 +209,64 @@ interface PortListProps {
  *
  * Implements a scrolling viewport that keeps the selected item visible:
  * calculates how many rows fit in the terminal and only renders that window
- * of ports, centered around the selection when possible.
+ * of rows, centered around the selection when possible. Group headers are
+ * rows like any other, one line each, so they count against the viewport.
  */
-export function PortList({ ports, selectedIndex }: PortListProps): React.JSX.Element {
+export function PortList({
+  ports,
+  selectedIndex,
+  markedKeys = NO_KEYS,
+  changes = NO_CHANGES,
+  columns = COLUMN_IDS,
+  sort = 'port',
+  sortOrder = 'asc',
+  groupBy = 'none',
+  collapsedGroups = NO_KEYS,
+  highlight,
+  loading = false,
+  reservedRows = 0,
+}: PortListProps): React.JSX.Element {
   const { stdout } = useStdout();
-  // Reserve space for the row prefix (2), PORT, USER, PID, and a ~20-char
+  // Reserve space for the row prefix (2), PORT, PROTO, USER, PID, and a ~20-char
   // ADDRESS column at the end. Whatever remains goes to PROCESS so it expands
   // naturally on wider terminals instead of truncating at a fixed character limit.
-  const colProcess = calculateProcessColWidth(stdout?.columns ?? DEFAULT_TERMINAL_WIDTH);
+  const terminalWidth = stdout?.columns ?? DEFAULT_TERMINAL_WIDTH;
+  const colProcess = calculateProcessColWidth(terminalWidth, columns);
+  const colCommand = calculateCommandColWidth(terminalWidth, colProcess, columns);
+  const show = (column: ColumnId) => columns.includes(column);
+
+  const rows = listRows(ports, groupBy, collapsedGroups);
 
-  // Calculate how many port rows can fit in the terminal by subtracting
-  // UI overhead (search bar, header, status bar, buffer) from available rows.
-  const terminalRows = stdout?.rows ?? 24; // Fallback to 24 if rows unavailable
-  const maxVisiblePorts = Math.max(1, terminalRows - TOTAL_UI_OVERHEAD);
+  const maxVisiblePorts = visibleRowCount(stdout?.rows, reservedRows);
 
-  // Calculate the visible window of ports to display.
+  // Calculate the visible window of rows to display.
   // Strategy: keep the selected item roughly centered in the viewport when scrolling.
-  let startIndex = 0;
-  let endIndex = ports.length;
-
-  if (ports.length > maxVisiblePorts) {
-    // Try to center the selected item in the viewport
-    const halfWindow = Math.floor(maxVisiblePorts / 2);
-    startIndex = Math.max(0, selectedIndex - halfWindow);
-    endIndex = startIndex + maxVisiblePorts;
-
-    // If we're near the end, adjust to show the last N ports
-    if (endIndex > ports.length) {
-      endIndex = ports.length;
-      startIndex = Math.max(0, endIndex - maxVisiblePorts);
-    }
-  }
+  const { start: startIndex, end: endIndex } = visibleWindow(rows.length, selectedIndex, maxVisiblePorts);
 
-  const visiblePorts = ports.slice(startIndex, endIndex);
+  const visibleRows = rows.slice(startIndex, endIndex);
 
   // Headers use the same widths as PortRow so column labels always sit
-  // directly above their corresponding data values.
-  const portHeader = 'PORT'.padEnd(COL_PORT);
-  const processHeader = 'PROCESS'.padEnd(colProcess);
-  const userHeader = 'USER'.padEnd(COL_USER);
-  const pidHeader = 'PID'.padEnd(COL_PID);
+  // directly above their corresponding data values. The sort column's label
+  // carries an arrow pointing in the sort direction.
+  const label = (column: ColumnId, text: string) => (column === sort ? text + SORT_ARROWS[sortOrder] : text);
+  const portHeader = label('port', 'PORT').padEnd(COL_PORT);
+  const protoHeader = label('protocol', 'PROTO').padEnd(COL_PROTO);
+  const processHeader = label('process', 'PROCESS').padEnd(colProcess);
+  const userHeader = label('user', 'USER').padEnd(COL_USER);
+  const pidHeader = label('pid', 'PID').padEnd(COL_PID);
+  const addressHeader = label('address', 'ADDRESS');
 
   return (
     <Box flexDirection='column'>
       <Box paddingX={1}>
         <Text>{UNSELECTED_PREFIX}</Text>
-        <Text bold color='gray'>{portHeader}</Text>
-        <Text bold color='gray'>{processHeader}</Text>
-        <Text bold color='gray'>{userHeader}</Text>
-        <Text bold color='gray'>{pidHeader}</Text>
-        <Text bold color='gray'>ADDRESS</Text>
+        {show('port') && <Text bold color='gray'>{portHeader}</Text>}
+        {show('protocol') && <Text bold color='gray'>{protoHeader}</Text>}
+        {show('process') && <Text bold color='gray'>{processHeader}</Text>}
+        {show('user') && <Text bold color='gray'>{userHeader}</Text>}
+        {show('pid') && <Text bold color='gray'>{pidHeader}</Text>}
+        {show('address') && <Text bold color='gray'>{colCommand > 0 ? addressHeader.padEnd(COL_ADDRESS) : addressHeader}</Text>}
+        {colCommand > 0 && <Text bold color='gray'>COMMAND</Text>}
       </Box>
       {ports.length === 0 ? (
         // Empty state: shown when the filtered or unfiltered port list is empty.
@@ -125,22 +274,39 @@ export function PortList({ ports, selectedIndex }: PortListProps): React.JSX.Ele
         // lsof exited without output (e.g. insufficient permissions). Keeping
         // the message generic avoids a false "no servers running" claim.
         <Box paddingX={1}>
-          <Text dimColor>No listening ports found.</Text>
+          <Text dimColor>{loading ? 'Scanning ports…' : 'No listening ports found.'}</Text>
         </Box>
       ) : (
-        visiblePorts.map((port, i) => {
-          // The actual index in the full ports array (not the visible slice)
+        visibleRows.map((row, i) => {
+          // The actual index in the full rows array (not the visible slice)
           const actualIndex = startIndex + i;
+          if (row.type === 'group') {
+            return (
+              <GroupRow
+                key={rowKey(row)}
+                group={row.group}
+                collapsed={row.collapsed}
+                isSelected={actualIndex === selectedIndex}
+              />
+            );
+          }
+          const { port } = row;
           return (
             <PortRow
-              // Key combines pid, port number, and address because port number
-              // alone is not unique — two processes can bind the same port number
-              // on different interfaces (e.g. 0.0.0.0:3000 and 127.0.0.1:3000).
-              // All three fields together form a stable, unique identifier.
-              key={`${port.pid}-${port.port}-${port.address}`}
+              // Key combines pid, protocol, port number, and address because port
+              // number alone is not unique — two processes can bind the same port
+              // number on different interfaces (e.g. 0.0.0.0:3000 and 127.0.0.1:3000),
+              // and one process can bind it for both TCP and UDP (e.g. DNS on 53).
+              // All four fields together form a stable, unique identifier.
+              key={`${port.pid}-${port.protocol}-${port.port}-${port.address}`}
               port={port}
               isSelected={actualIndex === selectedIndex}
+              isMarked={markedKeys.has(portKey(port))}
               colProcess={colProcess}
+              colCommand={colCommand}
+              columns={columns}
+              highlight={highlight}
+              change={changes.get(portKey(port))}
             />
           );
         })
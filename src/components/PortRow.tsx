@@ -1,25 +1,58 @@
 /**
  * Renders a single port entry row in the port table.
  *
- * Each row displays port number, process name, PID, and address in fixed-width
- * columns. The currently selected row receives a full blue background highlight
- * and a "▶" arrow indicator so it stands out clearly from the rest of the list.
+ * Each row displays port number, protocol, process name, PID, and address in fixed-width
+ * columns, followed on wide terminals by the full command line and working directory.
+ * The currently selected row receives a full blue background highlight and a
+ * "▶" arrow indicator so it stands out clearly from the rest of the list.
+ * Rows marked for a batch kill carry a "●" next to the arrow position.
+ * Columns left out of the `columns` setting are not rendered at all.
+ * While a search is active, the characters the query matched are shown in
+ * bold yellow, so it is clear why each row is in the list.
+ * After a refresh, rows that just appeared are shown in green and rows that
+ * just disappeared linger as dimmed, struck-through ghosts.
  */
 import React from 'react';
 import { Box, Text } from 'ink';
-import type { PortEntry } from '../types.js';
+import type { TextProps } from 'ink';
+import type { ColumnId, PortChange, PortEntry } from '../types.js';
+import { abbreviateHome } from '../utils/abbreviateHome.js';
+import { COLUMN_IDS } from '../utils/config.js';
+import type { HighlightField, Highlighter } from '../utils/parseQuery.js';
 
 /**
- * Fixed character widths for PORT, PID, and USER columns. These are stable
- * regardless of terminal size: port numbers top out at 5 digits, PIDs at 7,
- * and macOS usernames are typically well under 14 characters.
+ * Fixed character widths for PORT, PROTO, PID, and USER columns. These are
+ * stable regardless of terminal size: port numbers top out at 5 digits,
+ * protocols are 3 letters (the header needs room for "PROTO ↑" when it is
+ * the sort column), PIDs top out at 7, and macOS usernames are typically
+ * well under 14 characters.
  */
 export const COL_PORT = 8;
+export const COL_PROTO = 8;
 export const COL_PID = 8;
 export const COL_USER = 14;
 
-const SELECTION_ARROW = '▶ ';
+/**
+ * Width of the ADDRESS column when a COMMAND column follows it. Wide enough
+ * for any IPv4 address; longer IPv6 addresses are truncated so the commands
+ * stay aligned. The full address is in the detail pane.
+ */
+export const COL_ADDRESS = 20;
+
+export const SELECTION_ARROW = '▶';
+/** Shown in the second prefix column of rows marked for a batch kill. */
+const MARK_INDICATOR = '●';
 export const UNSELECTED_PREFIX = '  ';
+/** Color of characters matched by the search query. */
+const MATCH_COLOR = 'yellow';
+/**
+ * Style of every cell of an unselected row that recently changed; it
+ * replaces the per-column colors and dimming.
+ */
+const CHANGE_STYLES: Record<PortChange, TextProps> = {
+  opened: { color: 'green', dimColor: false },
+  closed: { color: undefined, dimColor: true, strikethrough: true },
+};
 
 /**
  * Box with backgroundColor support. Ink's BoxProps type definition does not
@@ -27,7 +60,7 @@ export const UNSELECTED_PREFIX = '  ';
  * Applied to Box (not Text) so the highlight covers the full row width rather
  * than only the text content.
  */
-const HighlightBox = Box as React.ComponentType<
+export const HighlightBox = Box as React.ComponentType<
   React.ComponentProps<typeof Box> & { backgroundColor?: string }
 >;
 
@@ -39,12 +72,46 @@ interface PortRowProps {
   port: PortEntry;
   /** Whether this row is the currently focused/selected row in the list. */
   isSelected: boolean;
+  /** Whether this row is marked for a batch kill. */
+  isMarked?: boolean;
   /**
    * Character width allocated to the PROCESS column. Computed dynamically by
    * PortList based on the current terminal width so the column expands on
    * wider terminals rather than always truncating at a fixed 16-character limit.
    */
   colProcess: number;
+  /**
+   * Character width allocated to the COMMAND column, or 0 to omit it. PortList
+   * only grants it on terminals wide enough to fit it after the fixed columns.
+   */
+  colCommand?: number;
+  /** Columns to render; PortList passes the `columns` setting. Defaults to all. */
+  columns?: readonly ColumnId[];
+  /** Where the search query matched each cell; omitted when there is no query. */
+  highlight?: Highlighter;
+  /** How the entry changed in a recent refresh, if it did. A closed entry is a ghost row. */
+  change?: PortChange;
+}
+
+/**
+ * One cell's text in its own style, with the characters at `matches` picked
+ * out in bold {@link MATCH_COLOR}. Positions past the end of `text` (cut off
+ * by a narrow column) are ignored.
+ */
+function Cell({ text, matches, ...style }: TextProps & { text: string; matches: readonly number[] }): React.JSX.Element {
+  if (matches.length === 0) return <Text {...style}>{text}</Text>;
+  const matched = new Set(matches);
+  const runs: Array<{ text: string; matched: boolean }> = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last.matched === matched.has(i)) last.text += text[i];
+    else runs.push({ text: text[i], matched: matched.has(i) });
+  }
+  return (
+    <Text {...style}>
+      {runs.map((run, i) => (run.matched ? <Text key={i} bold color={MATCH_COLOR}>{run.text}</Text> : run.text))}
+    </Text>
+  );
 }
 
 /**
@@ -54,41 +121,96 @@ interface PortRowProps {
  * (blue background, cyan text, arrow indicator) and a plain layout for all
  * other rows. The column values are padded to fixed widths for alignment.
  */
-export function PortRow({ port, isSelected, colProcess }: PortRowProps): React.JSX.Element {
+export function PortRow({
+  port,
+  isSelected,
+  isMarked = false,
+  colProcess,
+  colCommand = 0,
+  columns = COLUMN_IDS,
+  highlight,
+  change,
+}: PortRowProps): React.JSX.Element {
+  const show = (column: ColumnId) => columns.includes(column);
+  /** Matched positions in `text`, shown in `field` starting `offset` characters into its cell. */
+  const matches = (field: HighlightField, text: string | undefined, offset = 0): number[] =>
+    highlight && text ? highlight(field, text).map(i => i + offset) : [];
   // padEnd() pads each value to its column's fixed character width so all rows
   // line up vertically in a monospace terminal regardless of content length.
   const portStr = String(port.port).padEnd(COL_PORT);
+  const protoStr = port.protocol.toUpperCase().padEnd(COL_PROTO);
   // slice() truncates long process names before padEnd() to prevent overflow
   // into the next column. colProcess is computed dynamically by PortList based
   // on the current terminal width, so this truncation point grows with the window.
   const processStr = port.process.slice(0, colProcess).padEnd(colProcess);
   const userStr = port.user.slice(0, COL_USER).padEnd(COL_USER);
   const pidStr = String(port.pid).padEnd(COL_PID);
-  const addressStr = port.address;
+  // With a COMMAND column following, ADDRESS is cut and padded to a fixed
+  // width so commands line up; the trailing space keeps the address from
+  // touching the command.
+  const addressStr = colCommand > 0
+    ? port.address.slice(0, COL_ADDRESS - 1).padEnd(COL_ADDRESS - 1) + ' '
+    : port.address;
+  // The command line comes first, then the working directory (dimmed) in
+  // whatever width is left — together they identify which project a
+  // generic "node" or "python3" belongs to.
+  const commandStr = (port.command ?? '').slice(0, colCommand);
+  const cwdStr = port.cwd && colCommand > 0
+    ? `  ${abbreviateHome(port.cwd)}`.slice(0, colCommand - commandStr.length)
+    : '';
+
+  // The two-character prefix is "<arrow><mark>", so marking never shifts the
+  // columns and the selected row can show both at once.
+  const mark = <Text color='yellow'>{isMarked ? MARK_INDICATOR : ' '}</Text>;
+
+  const portMatches = matches('port', String(port.port));
+  const processMatches = matches('process', port.process);
+  const userMatches = matches('user', port.user);
+  const pidMatches = matches('pid', String(port.pid));
+  const addressMatches = matches('address', port.address);
+  const commandMatches = matches('command', port.command);
+  // cwdStr starts with the two spaces separating it from the command
+  const cwdMatches = matches('cwd', port.cwd && abbreviateHome(port.cwd), 2);
 
   if (isSelected) {
+    // A selected ghost keeps the selection colors, struck through.
+    const struck = change === 'closed';
     return (
       <HighlightBox backgroundColor='blue'>
         {/* "▶" provides an unambiguous visual marker of the current selection
             position — more scannable than background color alone. */}
         <Text color='cyan'>{SELECTION_ARROW}</Text>
-        <Text color='cyan'>{portStr}</Text>
-        <Text color='cyan'>{processStr}</Text>
-        <Text color='cyan'>{userStr}</Text>
-        <Text color='cyan'>{pidStr}</Text>
-        <Text color='cyan'>{addressStr}</Text>
+        {mark}
+        {show('port') && <Cell color='cyan' strikethrough={struck} text={portStr} matches={portMatches} />}
+        {show('protocol') && <Text color='cyan' strikethrough={struck}>{protoStr}</Text>}
+        {show('process') && <Cell color='cyan' strikethrough={struck} text={processStr} matches={processMatches} />}
+        {show('user') && <Cell color='cyan' strikethrough={struck} text={userStr} matches={userMatches} />}
+        {show('pid') && <Cell color='cyan' strikethrough={struck} text={pidStr} matches={pidMatches} />}
+        {show('address') && <Cell color='cyan' strikethrough={struck} text={addressStr} matches={addressMatches} />}
+        <Cell color='cyan' strikethrough={struck} text={commandStr} matches={commandMatches} />
+        <Cell color='cyan' strikethrough={struck} text={cwdStr} matches={cwdMatches} />
       </HighlightBox>
     );
   }
 
+  const changeStyle = change ? CHANGE_STYLES[change] : {};
   return (
     <Box>
-      <Text>{UNSELECTED_PREFIX}</Text>
-      <Text>{portStr}</Text>
-      <Text>{processStr}</Text>
-      <Text dimColor>{userStr}</Text>
-      <Text>{pidStr}</Text>
-      <Text dimColor>{addressStr}</Text>
+      <Text> </Text>
+      {mark}
+      {show('port') && <Cell text={portStr} matches={portMatches} {...changeStyle} />}
+      {/* UDP is tinted so the rarer protocol stands out in a mostly-TCP list. */}
+      {show('protocol') && (
+        <Text color={port.protocol === 'udp' ? 'magenta' : undefined} dimColor={port.protocol === 'tcp'} {...changeStyle}>
+          {protoStr}
+        </Text>
+      )}
+      {show('process') && <Cell text={processStr} matches={processMatches} {...changeStyle} />}
+      {show('user') && <Cell dimColor text={userStr} matches={userMatches} {...changeStyle} />}
+      {show('pid') && <Cell text={pidStr} matches={pidMatches} {...changeStyle} />}
+      {show('address') && <Cell dimColor text={addressStr} matches={addressMatches} {...changeStyle} />}
+      <Cell text={commandStr} matches={commandMatches} {...changeStyle} />
+      <Cell dimColor text={cwdStr} matches={cwdMatches} {...changeStyle} />
     </Box>
   );
 }
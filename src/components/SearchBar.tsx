@@ -8,6 +8,7 @@
  */
 import React from 'react';
 import { Box, Text } from 'ink';
+import type { ProtocolFilter, SearchMode } from '../types.js';
 
 const CURSOR_CHAR = '█';
 
@@ -19,6 +20,26 @@ interface SearchBarProps {
   value: string;
   /** Whether the app is currently in search mode (i.e. the user pressed "/" to start filtering). */
   isActive: boolean;
+  /**
+   * Protocols currently shown. A badge is rendered when only one protocol is
+   * visible, so a narrowed list is never mistaken for the full one.
+   */
+  protocol?: ProtocolFilter;
+  /**
+   * How the query is matched. Shown as a badge while searching, so the mode
+   * tab switched to is visible, and whenever it is not plain substring matching.
+   */
+  searchMode?: SearchMode;
+  /**
+   * Name of the saved filter whose query is `value`, or null. Shown after the
+   * query, so an applied filter is recognisable by name.
+   */
+  filterName?: string | null;
+  /**
+   * Why `value` is not a valid query, or null. Shown in red after the query
+   * while the list stays unfiltered, so a typo never looks like an empty result.
+   */
+  error?: string | null;
 }
 
 /**
@@ -32,11 +53,26 @@ interface SearchBarProps {
  * - **Active + empty**: cyan "/", dimmed placeholder, cursor
  * - **Inactive + value**: yellow "/" and value — signals an active filter
  * - **Inactive + empty**: gray "/", dimmed "to search" hint
+ *
+ * A magenta `TCP` / `UDP` badge follows the title while the protocol filter
+ * hides one of the two protocols, and a blue `substring` / `fuzzy` / `regex`
+ * badge shows the search mode. A green `★ name` follows a query that is a
+ * saved filter's. An invalid query turns the border red and
+ * is followed by the parser's error message.
  */
-export function SearchBar({ value, isActive }: SearchBarProps): React.JSX.Element {
+export function SearchBar({
+  value,
+  isActive,
+  protocol = 'all',
+  searchMode = 'substring',
+  filterName = null,
+  error = null,
+}: SearchBarProps): React.JSX.Element {
   return (
-    <Box borderStyle='round' borderColor={isActive ? 'cyan' : value ? 'yellow' : 'gray'} paddingX={1}>
+    <Box borderStyle='round' borderColor={error ? 'red' : isActive ? 'cyan' : value ? 'yellow' : 'gray'} paddingX={1}>
       <Text bold color='cyan'>ports</Text>
+      {protocol !== 'all' && <Text color='magenta'> {protocol.toUpperCase()}</Text>}
+      {(isActive || searchMode !== 'substring') && <Text color='blue'> {searchMode}</Text>}
       <Text color={isActive ? 'cyan' : value ? 'yellow' : 'gray'}>{'  / '}</Text>
       {isActive
         ? value
@@ -46,6 +82,8 @@ export function SearchBar({ value, isActive }: SearchBarProps): React.JSX.Elemen
           ? <Text color='yellow'>{value}</Text>
           : <Text dimColor>to search</Text>
       }
+      {filterName && <Text color='green'>  ★ {filterName}</Text>}
+      {error && <Text color='red' wrap='truncate-end'>  ✗ {error}</Text>}
     </Box>
   );
 }
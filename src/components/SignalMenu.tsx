@@ -0,0 +1,76 @@
+/**
+ * Menu of signals that can be sent to the selected port's process.
+ *
+ * Opened with "s" in navigate mode. Killing is only one of the things worth
+ * doing to a server: nginx reloads its config on SIGHUP, Node opens its
+ * inspector on SIGUSR1, and SIGSTOP/SIGCONT pause and resume a process that
+ * is hogging the machine. Choosing an entry hands the signal to the regular
+ * confirmation prompt in the StatusBar; nothing is sent from here.
+ *
+ * Like DetailPane, the menu renders a fixed number of rows so PortList can
+ * reserve SIGNAL_MENU_HEIGHT rows of its viewport while it is open.
+ */
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { PortEntry, SignalName } from '../types.js';
+import { DEFAULT_KEYMAP, hintKey } from '../utils/keymap.js';
+import type { Keymap } from '../utils/keymap.js';
+
+/**
+ * Entries of the menu, in display order. Data-driven like the HelpOverlay
+ * keybindings: adding a signal only requires extending this array (and
+ * {@link SignalName}).
+ */
+export const SIGNAL_OPTIONS: ReadonlyArray<{ signal: SignalName; desc: string }> = [
+  { signal: 'SIGTERM', desc: 'Terminate; lets the process clean up' },
+  { signal: 'SIGKILL', desc: 'Kill immediately; cannot be caught' },
+  { signal: 'SIGHUP',  desc: 'Hang up; many daemons reload their config' },
+  { signal: 'SIGINT',  desc: 'Interrupt, as if ctrl+c were pressed' },
+  { signal: 'SIGUSR1', desc: 'User signal 1; e.g. Node inspector, debug dump' },
+  { signal: 'SIGUSR2', desc: 'User signal 2; e.g. log rotation, heap dump' },
+  { signal: 'SIGSTOP', desc: 'Pause the process; cannot be caught' },
+  { signal: 'SIGCONT', desc: 'Resume a paused process' },
+];
+
+/**
+ * Number of terminal rows the menu occupies: the title, one row per signal,
+ * the hint line and the top and bottom border.
+ */
+export const SIGNAL_MENU_HEIGHT = SIGNAL_OPTIONS.length + 4;
+
+const maxSignalLen = Math.max(...SIGNAL_OPTIONS.map(o => o.signal.length));
+
+/**
+ * Props for the SignalMenu component.
+ */
+interface SignalMenuProps {
+  /** The process the signal will be sent to; shown in the title. */
+  port: PortEntry;
+  /** 0-based index into {@link SIGNAL_OPTIONS} of the highlighted entry. */
+  selectedIndex: number;
+  /** Bindings the hint line is generated from; defaults to the built-in keymap. */
+  keymap?: Keymap;
+}
+
+/**
+ * Renders the signal menu with the entry at `selectedIndex` highlighted.
+ * Navigation and selection are handled by useKeyboardInput.
+ */
+export function SignalMenu({ port, selectedIndex, keymap = DEFAULT_KEYMAP }: SignalMenuProps): React.JSX.Element {
+  const choose = [hintKey(keymap, 'moveUp'), hintKey(keymap, 'moveDown')].filter(k => k !== null).join('/');
+  const cancel = hintKey(keymap, 'cancel');
+  return (
+    <Box borderStyle='round' borderColor='yellow' flexDirection='column' paddingX={1}>
+      <Text bold color='yellow'>Send signal to {port.process} ({port.pid})</Text>
+      {SIGNAL_OPTIONS.map(({ signal, desc }, i) => (
+        <Text key={signal} wrap='truncate-end' color={i === selectedIndex ? 'cyan' : undefined}>
+          {i === selectedIndex ? '▶ ' : '  '}
+          <Text bold>{signal.padEnd(maxSignalLen)}</Text>{'  '}{desc}
+        </Text>
+      ))}
+      <Text dimColor>
+        {choose && `${choose} choose  `}enter send{cancel && `  ${cancel} cancel`}
+      </Text>
+    </Box>
+  );
+}
@@ -3,11 +3,15 @@
  *
  * The right side of the bar cycles through three states in priority order:
  * confirm kill prompt > transient kill feedback > passive port info.
- * The left side always shows mode-appropriate keyboard hints.
+ * The left side always shows mode-appropriate keyboard hints. After a refresh
+ * that added or removed ports, a "+2 / −1" counter precedes the right side.
  */
 import React from 'react';
 import { Box, Text } from 'ink';
-import type { AppMode, KillMessage, PortEntry } from '../types.js';
+import type { AppMode, KeyAction, KillMessage, PortEntry, SignalName } from '../types.js';
+import { DEFAULT_KEYMAP, hintKey } from '../utils/keymap.js';
+import type { Keymap } from '../utils/keymap.js';
+import type { PortGroup } from '../utils/groupPorts.js';
 
 /**
  * Props for the StatusBar component.
@@ -20,15 +24,28 @@ interface StatusBarProps {
    * When true, the entire status bar is replaced with the confirmation prompt —
    * this is the highest-priority display state.
    *
-   * **Invariant:** `confirmKill === true` must only be passed when `selectedPort`
-   * is non-null. App enforces this at the call-site (`if (selectedPort) setConfirmKill(true)`).
-   * Passing `confirmKill={true}` with `selectedPort={null}` is a programmer error
-   * and will silently render nothing for the confirmation prompt.
+   * **Invariant:** `confirmKill === true` must only be passed when there is
+   * something to confirm: a `selectedPort`, non-empty `markedPorts` or a
+   * `selectedGroup`. App only opens the prompt in those cases. Otherwise the
+   * confirmation prompt silently renders nothing.
    */
   confirmKill: boolean;
   /**
-   * Transient feedback message after a kill attempt. Shown on the right side
-   * of the bar until cleared by App (typically after a short timeout).
+   * Signal chosen from the signal menu that the confirmation prompt is for.
+   * Null (the default) means the prompt is for a regular kill.
+   */
+  pendingSignal?: SignalName | null;
+  /**
+   * Marked rows the list shows, the targets of a batch kill. When non-empty,
+   * the kill confirmation is for all of their processes rather than the
+   * selected port, and the passive right-hand side shows how many rows are
+   * marked.
+   */
+  markedPorts?: PortEntry[];
+  /**
+   * Feedback message during or after a kill attempt. Shown on the right side
+   * of the bar until cleared by App (typically after a short timeout) or, for
+   * a progress message, until the kill settles.
    * Null when no recent kill action has occurred.
    */
   killMessage: KillMessage | null;
@@ -37,35 +54,201 @@ interface StatusBarProps {
    * and in the kill confirmation prompt. Null when the list is empty.
    */
   selectedPort: PortEntry | null;
+  /**
+   * The group whose header is selected, or null. Its processes are what a
+   * kill confirmed now would kill, unless rows are marked.
+   */
+  selectedGroup?: PortGroup | null;
+  /**
+   * Name typed so far in the "save filter as" prompt, or null while it is
+   * closed. The prompt replaces the bar until it is saved or cancelled.
+   */
+  filterName?: string | null;
+  /**
+   * Port typed so far in the go-to-port prompt, or null while it is closed.
+   * Like the name prompt, it replaces the bar.
+   */
+  portPrompt?: string | null;
+  /** Count prefix typed so far (the 5 of `5j`), shown on the right until a motion uses it. */
+  count?: number | null;
+  /**
+   * Ports that recently appeared and disappeared, i.e. the green and ghost
+   * rows of the list. The counter is hidden while both are 0.
+   */
+  changeCounts?: { opened: number; closed: number };
+  /**
+   * Number of events shown while the timeline view replaces the list, or
+   * null in the list. The timeline has its own hints, and the count takes
+   * the place of the selection info.
+   */
+  timelineCount?: number | null;
+  /** Bindings the hints are generated from; defaults to the built-in keymap. */
+  keymap?: Keymap;
+}
+
+/** StatusBar color for each kind of kill feedback. */
+const KILL_MESSAGE_COLORS: Record<KillMessage['type'], string> = {
+  success: 'green',
+  error: 'red',
+  progress: 'yellow',
+};
+
+/**
+ * Hints shown in navigate mode, in order. Each shows the first key of its
+ * actions, joined with "/" (`↑/↓ navigate`); a hint whose actions are all
+ * unbound is left out.
+ */
+const NAVIGATE_HINTS: ReadonlyArray<{ actions: readonly KeyAction[]; label: string }> = [
+  { actions: ['moveUp', 'moveDown'], label: 'navigate' },
+  { actions: ['search'], label: 'search' },
+  { actions: ['kill'], label: 'kill' },
+  { actions: ['refresh'], label: 'refresh' },
+  { actions: ['help'], label: 'help' },
+  { actions: ['quit'], label: 'quit' },
+];
+
+/** Hints shown in navigate mode while the timeline view is open, like {@link NAVIGATE_HINTS}. */
+const TIMELINE_HINTS: typeof NAVIGATE_HINTS = [
+  { actions: ['moveUp', 'moveDown'], label: 'navigate' },
+  { actions: ['search'], label: 'search' },
+  { actions: ['exportTimeline'], label: 'export' },
+  { actions: ['timeline'], label: 'list' },
+  { actions: ['help'], label: 'help' },
+  { actions: ['quit'], label: 'quit' },
+];
+
+/**
+ * Hints of the search bar. Its keys are not rebindable (printable keys are
+ * text there), so this line is fixed.
+ */
+const SEARCH_HINTS = (
+  <Text dimColor>
+    type to filter  <Text color='cyan'>↑↓</Text> navigate  <Text color='cyan'>tab</Text> mode
+    {'  '}<Text color='cyan'>enter</Text> done  <Text color='cyan'>ESC</Text> clear
+  </Text>
+);
+
+/** The navigate mode hint line for `keymap`, from `entries`. */
+function navigateHints(keymap: Keymap, entries: typeof NAVIGATE_HINTS): React.JSX.Element {
+  const hints = entries.flatMap(({ actions, label }) => {
+    const keys = actions.map(a => hintKey(keymap, a)).filter(k => k !== null);
+    return keys.length > 0 ? [{ keys: keys.join('/'), label }] : [];
+  });
+  return (
+    <Text dimColor>
+      {hints.map(({ keys, label }, i) => (
+        <Text key={label}>{i > 0 ? '  ' : ''}<Text color='cyan'>{keys}</Text> {label}</Text>
+      ))}
+    </Text>
+  );
+}
+
+/**
+ * The "y confirm  ESC cancel" end of a confirmation prompt, from the first
+ * confirm and cancel keys.
+ */
+function ConfirmHints({ keymap }: { keymap: Keymap }): React.JSX.Element {
+  const confirm = hintKey(keymap, 'confirm');
+  const cancel = hintKey(keymap, 'cancel');
+  return (
+    <>
+      {confirm && <><Text color='green'>{confirm} </Text><Text dimColor>confirm  </Text></>}
+      {cancel && <><Text color='gray'>{cancel} </Text><Text dimColor>cancel</Text></>}
+    </>
+  );
+}
+
+/**
+ * Suffix appended after the port number for UDP entries ("5353/udp"), so the
+ * prompt and status text cannot be mistaken for a TCP listener on the same
+ * port. TCP, the common case, gets no suffix.
+ */
+function protocolSuffix(port: PortEntry): string {
+  return port.protocol === 'udp' ? '/udp' : '';
 }
 
 /**
  * Renders the bottom status bar with hints and contextual state information.
  *
  * Display priority for the right-hand side (highest to lowest):
- * 1. Kill confirmation prompt — replaces the entire bar; user must decide now
- * 2. Kill result message — transient success/error feedback after an action
- * 3. Selected port info — passive "what's selected" context
- * 4. Empty — nothing to show
+ * 1. Kill / signal confirmation, "save filter as" or go-to-port prompt — replaces the entire bar
+ * 2. Pending count prefix — echoed while it is typed, as vi does
+ * 3. Kill result message — transient success/error feedback after an action
+ * 4. Event count — in the timeline view, in place of the list's context below
+ * 5. Marked row count — while rows are marked for a batch kill
+ * 6. Selected port or group info — passive "what's selected" context
+ * 7. Empty — nothing to show
  *
  * Hints on the left are always shown but change based on mode because
  * different keys are active in search vs. navigate mode (e.g. typing
  * characters filters in search mode but does nothing in navigate mode).
  */
-export function StatusBar({ mode, confirmKill, killMessage, selectedPort }: StatusBarProps): React.JSX.Element {
+export function StatusBar({
+  mode,
+  confirmKill,
+  pendingSignal = null,
+  markedPorts = [],
+  killMessage,
+  selectedPort,
+  selectedGroup = null,
+  filterName = null,
+  portPrompt = null,
+  count = null,
+  changeCounts = { opened: 0, closed: 0 },
+  timelineCount = null,
+  keymap = DEFAULT_KEYMAP,
+}: StatusBarProps): React.JSX.Element {
+  // The name and go-to-port prompts capture every key until enter or ESC, like
+  // the search bar, so their fixed hints are the only ones that apply.
+  if (filterName !== null) {
+    return (
+      <Box paddingX={1}>
+        <Text color='green'>Save filter as: </Text>
+        <Text bold>{filterName}</Text><Text color='cyan'>█</Text>
+        <Text dimColor>  <Text color='green'>enter</Text> save  <Text color='gray'>ESC</Text> cancel</Text>
+      </Box>
+    );
+  }
+
+  if (portPrompt !== null) {
+    return (
+      <Box paddingX={1}>
+        <Text color='cyan'>Go to port: </Text>
+        <Text bold>{portPrompt}</Text><Text color='cyan'>█</Text>
+        <Text dimColor>  <Text color='green'>enter</Text> go  <Text color='gray'>ESC</Text> cancel</Text>
+      </Box>
+    );
+  }
+
   // Confirm kill takes highest priority and replaces the entire bar layout.
   // The user must respond (y or ESC) before any other interaction is possible,
   // so showing anything else here would be distracting and misleading.
-  if (confirmKill && selectedPort) {
+  // A batch kill confirms once for every marked process, or for every process
+  // of the selected group. PIDs owning several ports are counted once,
+  // matching what App will actually kill.
+  const killGroup = markedPorts.length === 0 ? selectedGroup : null;
+  if (confirmKill && !pendingSignal && (markedPorts.length > 0 || killGroup)) {
+    const targets = killGroup ? killGroup.ports : markedPorts;
+    const processes = new Set(targets.map(p => p.pid)).size;
     return (
       <Box paddingX={1}>
         <Text color='red'>Kill </Text>
+        <Text bold>{processes} {processes === 1 ? 'process' : 'processes'}</Text>
+        {processes !== targets.length && <Text dimColor> ({targets.length} ports)</Text>}
+        {killGroup && <><Text color='red'> in group </Text><Text bold>{killGroup.label}</Text></>}
+        <Text color='red'>?  </Text>
+        <ConfirmHints keymap={keymap} />
+      </Box>
+    );
+  }
+
+  if (confirmKill && selectedPort) {
+    return (
+      <Box paddingX={1}>
+        <Text color='red'>{pendingSignal ? `Send ${pendingSignal} to ` : 'Kill '}</Text>
         <Text bold>{selectedPort.process}</Text>
-        <Text color='red'>:{selectedPort.port}?  </Text>
-        <Text color='green'>y </Text>
-        <Text dimColor>confirm  </Text>
-        <Text color='gray'>ESC </Text>
-        <Text dimColor>cancel</Text>
+        <Text color='red'>:{selectedPort.port}{protocolSuffix(selectedPort)}?  </Text>
+        <ConfirmHints keymap={keymap} />
       </Box>
     );
   }
@@ -73,25 +256,43 @@ export function StatusBar({ mode, confirmKill, killMessage, selectedPort }: Stat
   // Right-side content: kill feedback takes priority over passive port info.
   // killMessage is set transiently by App after a kill attempt and cleared
   // after a short delay, so it naturally disappears without user action.
-  const rightContent = killMessage
-    ? <Text color={killMessage.type === 'success' ? 'green' : 'red'}>{killMessage.text}</Text>
+  const rightContent = count !== null
+    ? <Text color='cyan'>{count}</Text>
+    : killMessage
+    ? <Text color={KILL_MESSAGE_COLORS[killMessage.type]}>{killMessage.text}</Text>
+    : timelineCount !== null
+    ? <Text dimColor>{timelineCount} {timelineCount === 1 ? 'event' : 'events'}</Text>
+    : markedPorts.length > 0
+    ? <Text color='yellow'>{markedPorts.length} marked</Text>
     : selectedPort
-    ? <Text dimColor>{selectedPort.process}:{selectedPort.port}</Text>
+    ? <Text dimColor>{selectedPort.process}:{selectedPort.port}{protocolSuffix(selectedPort)}</Text>
+    : selectedGroup
+    ? <Text dimColor>{selectedGroup.label}: {selectedGroup.ports.length} {selectedGroup.ports.length === 1 ? 'port' : 'ports'}</Text>
     : null;
 
   // Hints change based on mode because the active keyset changes:
-  // - In search mode, typing characters goes to the filter; navigation still works.
-  // - In navigate mode, typing "/" enters search; "enter" triggers kill.
+  // - In search mode, typing characters goes to the filter; arrows still navigate.
+  // - In navigate mode, the keymap decides: "/" enters search, "enter" kills, …
   const hints = mode === 'search'
-    ? <Text dimColor>type to filter  <Text color='cyan'>↑↓/j k</Text> navigate  <Text color='cyan'>enter</Text> done  <Text color='cyan'>ESC</Text> clear</Text>
-    : <Text dimColor><Text color='cyan'>↑↓/j k</Text> navigate  <Text color='cyan'>/</Text> search  <Text color='cyan'>enter</Text> kill  <Text color='cyan'>r</Text> refresh  <Text color='cyan'>?</Text> help  <Text color='cyan'>q</Text> quit</Text>;
+    ? SEARCH_HINTS
+    : navigateHints(keymap, timelineCount !== null ? TIMELINE_HINTS : NAVIGATE_HINTS);
+
+  // Colored like the rows it counts: green for new ports, red for gone ones.
+  const changeCounter = (changeCounts.opened > 0 || changeCounts.closed > 0) && (
+    <Text>
+      <Text color='green'>+{changeCounts.opened}</Text>
+      <Text dimColor> / </Text>
+      <Text color='red'>−{changeCounts.closed}</Text>
+      {rightContent && '  '}
+    </Text>
+  );
 
   return (
     // justifyContent="space-between" pins hints to the left edge and status
     // content to the right edge, making both scannable without crowding.
     <Box justifyContent='space-between' paddingX={1}>
       <Box>{hints}</Box>
-      <Box>{rightContent}</Box>
+      <Box>{changeCounter}{rightContent}</Box>
     </Box>
   );
 }
@@ -0,0 +1,108 @@
+/**
+ * The session timeline, shown in place of the port list with "t": every
+ * port opened or closed since the UI started, newest first, with when it
+ * happened, the process and its PID.
+ *
+ * The view has PortList's shape — a header line, then one line per event in
+ * a window of the same height, with the same padding — so the search bar,
+ * status bar and page keys work on it unchanged and the views line up.
+ */
+import React from 'react';
+import { Box, Text, useStdout } from 'ink';
+import type { PortChange } from '../types.js';
+import { formatDuration } from '../utils/formatDuration.js';
+import type { TimelineEvent } from '../utils/timeline.js';
+import { visibleRowCount, visibleWindow } from './PortList.js';
+import { COL_PID, COL_PORT, COL_PROTO, HighlightBox, SELECTION_ARROW, UNSELECTED_PREFIX } from './PortRow.js';
+
+/** Widths of the columns PortRow does not have: "12:00:00", "59m 59s ago", "opened". */
+const COL_TIME = 10;
+const COL_AGO = 13;
+const COL_EVENT = 8;
+/** PROCESS is fixed here; the address, last, takes what is left of the line. */
+const COL_PROCESS = 18;
+
+/** Color of the EVENT column, as in the list's new and ghost rows. */
+const CHANGE_COLORS: Record<PortChange, string> = { opened: 'green', closed: 'red' };
+
+/** `at` as a local wall-clock time, e.g. `"14:05:09"`. */
+export function formatClock(at: number): string {
+  const date = new Date(at);
+  return [date.getHours(), date.getMinutes(), date.getSeconds()].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+/**
+ * Props for the Timeline component.
+ */
+interface TimelineProps {
+  /** Events to show, newest first: already filtered by App. */
+  events: readonly TimelineEvent[];
+  /** Index into `events` of the selected line. */
+  selectedIndex: number;
+  /** Events recorded in the session, before filtering; picks the empty-state message. */
+  totalCount: number;
+  /** Current time for the AGO column, in epoch milliseconds. Defaults to now. */
+  now?: number;
+  /** Rows taken by open panels, as for PortList. */
+  reservedRows?: number;
+}
+
+/**
+ * Renders the header and the window of events around the selection. Each
+ * event is truncated to one line, so the viewport math matches PortList's.
+ */
+export function Timeline({
+  events,
+  selectedIndex,
+  totalCount,
+  now = Date.now(),
+  reservedRows = 0,
+}: TimelineProps): React.JSX.Element {
+  const { stdout } = useStdout();
+  const { start, end } = visibleWindow(events.length, selectedIndex, visibleRowCount(stdout?.rows, reservedRows));
+
+  return (
+    <Box flexDirection='column'>
+      <Box paddingX={1}>
+        <Text bold color='gray' wrap='truncate-end'>
+          {UNSELECTED_PREFIX}
+          {'TIME'.padEnd(COL_TIME)}{'AGO'.padEnd(COL_AGO)}{'EVENT'.padEnd(COL_EVENT)}
+          {'PORT'.padEnd(COL_PORT)}{'PROTO'.padEnd(COL_PROTO)}{'PROCESS'.padEnd(COL_PROCESS)}{'PID'.padEnd(COL_PID)}ADDRESS
+        </Text>
+      </Box>
+      {events.length === 0 ? (
+        <Box paddingX={1}>
+          <Text dimColor>
+            {totalCount === 0 ? 'No ports opened or closed since ports started.' : 'No events match the search.'}
+          </Text>
+        </Box>
+      ) : (
+        events.slice(start, end).map(({ change, port, at }, i) => {
+          const isSelected = start + i === selectedIndex;
+          const cells = (
+            <>
+              {formatClock(at).padEnd(COL_TIME)}
+              <Text dimColor={!isSelected}>{`${formatDuration(now - at)} ago`.padEnd(COL_AGO)}</Text>
+              <Text color={isSelected ? undefined : CHANGE_COLORS[change]}>{change.padEnd(COL_EVENT)}</Text>
+              {String(port.port).padEnd(COL_PORT)}
+              {port.protocol.toUpperCase().padEnd(COL_PROTO)}
+              {port.process.slice(0, COL_PROCESS - 1).padEnd(COL_PROCESS)}
+              {port.pid.padEnd(COL_PID)}
+              <Text dimColor={!isSelected}>{port.address}</Text>
+            </>
+          );
+          // Events have no identity of their own; an entry can open and close
+          // several times, but never twice at the same moment.
+          const key = `${at}-${change}-${port.protocol}-${port.address}-${port.port}-${port.pid}`;
+          return isSelected ? (
+            <HighlightBox key={key} backgroundColor='blue'>
+              <Text color='cyan' wrap='truncate-end'>{SELECTION_ARROW} {cells}</Text>
+            </HighlightBox>
+          ) : (
+            <Text key={key} wrap='truncate-end'>{UNSELECTED_PREFIX}{cells}</Text>
+          );
+        })
+      )}
+    </Box>
+  );
+}
@@ -7,7 +7,27 @@
 import type { Dispatch, SetStateAction } from 'react';
 import { useInput } from 'ink';
 
-import type { AppMode, PortEntry } from '../types.js';
+import type { AppMode, KeyAction, PortEntry, SignalName } from '../types.js';
+import { KEY_ACTION_NAMES, QUIT_CHORD, matchesChord, withEdgeKeys } from '../utils/keymap.js';
+import type { Keymap } from '../utils/keymap.js';
+import type { PortGroup } from '../utils/groupPorts.js';
+import { isMouseReport } from '../utils/mouse.js';
+import { useRawInput } from './useRawInput.js';
+
+/** Largest count prefix; more digits are ignored rather than growing it further. */
+const MAX_COUNT = 9999;
+
+/** Digits of the highest port number, the most the go-to-port prompt takes. */
+const MAX_PORT_DIGITS = 5;
+
+/**
+ * Actions on the rows of the port list. They do nothing while the timeline
+ * view replaces the list, since their target would be out of sight.
+ */
+const LIST_ROW_ACTIONS: readonly KeyAction[] = [
+  'goToPort', 'kill', 'signal', 'mark', 'markAll', 'invertMarks', 'details',
+  'sort', 'reverseSort', 'group', 'collapse', 'collapseAll',
+];
 
 /**
  * Props for the useKeyboardInput hook.
@@ -22,27 +42,123 @@ export interface UseKeyboardInputProps {
   /** Whether the kill confirmation dialog is active. */
   confirmKill: boolean;
 
+  /**
+   * Signal chosen from the signal menu and awaiting confirmation, or null when
+   * the confirmation dialog (if active) is for a regular kill.
+   */
+  pendingSignal: SignalName | null;
+
+  /** Whether the signal menu is open. */
+  showSignalMenu: boolean;
+
+  /** Whether the saved filters menu is open. */
+  showFilterMenu: boolean;
+
+  /** Number of saved filters, i.e. of entries in the saved filters menu. */
+  filterCount: number;
+
+  /**
+   * Name being typed for a filter about to be saved, or null when the name
+   * prompt is not shown.
+   */
+  filterName: string | null;
+
   /** Current search filter string. */
   searchQuery: string;
 
-  /** Currently selected port entry (null if list is empty). */
+  /** Number of queries in the search history. */
+  historyLength: number;
+
+  /**
+   * Position in the search history of the query recalled into the search
+   * bar, or null when the query was typed.
+   */
+  historyIndex: number | null;
+
+  /** Currently selected port entry (null if list is empty or a group header is selected). */
   selectedPort: PortEntry | null;
 
+  /** Group whose header is selected, or null when a port row is (or nothing is). */
+  selectedGroup: PortGroup | null;
+
+  /** Number of rows marked for a batch kill. */
+  markedCount: number;
+
+  /** Count typed before a motion (the 5 of `5j`), or null when none is pending. */
+  count: number | null;
+
+  /** Rows PortList shows at once; the page keys move by this many, the half-page keys by half. */
+  pageSize: number;
+
+  /** Port typed so far in the go-to-port prompt, or null while it is closed. */
+  portPrompt: string | null;
+
+  /**
+   * Whether the timeline view replaces the port list. The motion callbacks
+   * then move through the timeline, and actions on list rows are ignored.
+   */
+  showTimeline: boolean;
+
+  /** Keys bound to each action; see utils/keymap. */
+  keymap: Keymap;
+
   // --- Action callbacks (all state mutations delegated to parent) ---
 
   /** Exit the application. */
   exit: () => void;
 
-  /** Execute kill on the selected port. */
+  /** Execute kill on the marked ports, or on the selected port when none are marked. */
   executeKill: () => void;
 
+  /** Send `signal` to the selected port's process. */
+  executeSignal: (signal: SignalName) => void;
+
+  /** Open the signal menu for the selected port. */
+  openSignalMenu: () => void;
+
+  /** Close the signal menu without choosing a signal. */
+  closeSignalMenu: () => void;
+
+  /** Move the signal menu highlight by `delta` entries. */
+  moveSignalMenu: (delta: number) => void;
+
+  /** Choose the highlighted signal: closes the menu and asks for confirmation. */
+  chooseSignal: () => void;
+
+  /** Open the saved filters menu. */
+  openFilterMenu: () => void;
+
+  /** Close the saved filters menu without applying a filter. */
+  closeFilterMenu: () => void;
+
+  /** Move the saved filters menu highlight by `delta` entries. */
+  moveFilterMenu: (delta: number) => void;
+
+  /** Apply the saved filter at `index`, or the highlighted one, and close the menu. */
+  applyFilter: (index?: number) => void;
+
+  /** Delete the highlighted saved filter. */
+  deleteFilter: () => void;
+
+  /** Show the name prompt for saving the current query as a filter. */
+  startSavingFilter: () => void;
+
+  /** Set the name being typed in the name prompt; null closes the prompt. */
+  setFilterName: Dispatch<SetStateAction<string | null>>;
+
+  /** Save the current query under the typed name and close the prompt. */
+  saveFilter: () => void;
+
   /** Toggle help overlay visibility. */
   toggleHelp: () => void;
 
   /** Close the help overlay. */
   closeHelp: () => void;
 
-  /** Set kill confirmation dialog state. */
+  /** Open or close the detail pane for the selected port. */
+  toggleDetails: () => void;
+
+  /** Set kill confirmation dialog state; clearing it also drops any pending signal. */
   setConfirmKill: (value: boolean) => void;
 
   /** Set the current mode (navigate or search). */
@@ -51,62 +167,194 @@ export interface UseKeyboardInputProps {
   /** Set the search query string. */
   setSearchQuery: Dispatch<SetStateAction<string>>;
 
+  /** Switch to the next search mode (substring → fuzzy → regex). */
+  cycleSearchMode: () => void;
+
+  /**
+   * Replace the query with an entry of the search history: `step` 1 recalls
+   * an older query, -1 a newer one, and stepping past the newest clears it.
+   */
+  recallHistory: (step: 1 | -1) => void;
+
+  /** Add the current query to the search history. */
+  rememberQuery: () => void;
+
+  /** Mark the selected row, or unmark it if it is already marked. */
+  toggleMark: () => void;
+
+  /** Mark every row currently visible (i.e. matching the filter). */
+  markAll: () => void;
+
+  /** Mark every unmarked visible row and unmark every marked one. */
+  invertMarks: () => void;
+
+  /** Unmark all rows. */
+  clearMarks: () => void;
+
   /** Move selection up one row. */
   moveUp: () => void;
 
   /** Move selection down one row. */
   moveDown: () => void;
 
+  /** Move selection by `delta` rows, clamped at the ends of the list. */
+  moveBy: (delta: number) => void;
+
+  /** Select row `index`, clamped; a negative index counts from the end (-1 is the last row). */
+  moveTo: (index: number) => void;
+
+  /** Set the pending count prefix; null drops it. */
+  setCount: Dispatch<SetStateAction<number | null>>;
+
+  /** Set the port typed in the go-to-port prompt; null closes the prompt. */
+  setPortPrompt: Dispatch<SetStateAction<string | null>>;
+
+  /** Select the row of the port typed in the prompt and close the prompt. */
+  goToPort: () => void;
+
   /** Manually refresh the port list. */
   refresh: () => void;
+
+  /** Advance the protocol filter to the next state (both → TCP → UDP). */
+  cycleProtocol: () => void;
+
+  /** Sort by the next visible column. */
+  cycleSort: () => void;
+
+  /** Flip the sort order between ascending and descending. */
+  reverseSort: () => void;
+
+  /** Group the rows by the next field (none → PID → process → user). */
+  cycleGroupBy: () => void;
+
+  /** Collapse the group of the selected row, or expand it if it is collapsed. */
+  toggleCollapse: () => void;
+
+  /** Collapse every group, or expand them all if they are all collapsed. */
+  toggleCollapseAll: () => void;
+
+  /** Switch between the port list and the timeline view. */
+  toggleTimeline: () => void;
+
+  /** Write the events shown in the timeline to a JSON file. */
+  exportTimeline: () => void;
 }
 
 /**
  * Custom hook that handles all keyboard input for the application.
  *
  * Implements a priority-based input handler:
- * 1. Global shortcuts (Ctrl+C, Ctrl+K) - always active
+ * 1. Global shortcuts (Ctrl+C, force kill) - always active
  * 2. Help toggle / help overlay catch-all
- * 3. Kill confirmation dialog
- * 4. Navigate mode bindings
- * 5. Search mode bindings
+ * 3. Signal menu and saved filters menu
+ * 4. Filter name and go-to-port prompts
+ * 5. Kill / signal confirmation dialog
+ * 6. Navigate mode bindings, with count prefixes; in the timeline view only
+ *    those that do not act on list rows
+ * 7. Search mode bindings
  *
  * This hook was extracted from app.tsx into its own module. It delegates all
  * state mutations back to the parent via callbacks, maintaining the
- * single-source-of-truth state architecture.
+ * single-source-of-truth state architecture. Apart from ctrl+c and the
+ * editing keys of the search bar and the name prompt, every key is looked
+ * up in `keymap`.
  */
 export function useKeyboardInput(props: UseKeyboardInputProps): void {
   const {
     mode,
     showHelp,
     confirmKill,
+    pendingSignal,
+    showSignalMenu,
+    showFilterMenu,
+    filterCount,
+    filterName,
     searchQuery,
+    historyLength,
+    historyIndex,
     selectedPort,
+    selectedGroup,
+    markedCount,
+    count,
+    pageSize,
+    portPrompt,
+    showTimeline,
+    keymap,
     exit,
     executeKill,
+    executeSignal,
+    openSignalMenu,
+    closeSignalMenu,
+    moveSignalMenu,
+    chooseSignal,
+    openFilterMenu,
+    closeFilterMenu,
+    moveFilterMenu,
+    applyFilter,
+    deleteFilter,
+    startSavingFilter,
+    setFilterName,
+    saveFilter,
     toggleHelp,
     closeHelp,
+    toggleDetails,
     setConfirmKill,
     setMode,
     setSearchQuery,
+    cycleSearchMode,
+    recallHistory,
+    rememberQuery,
+    toggleMark,
+    markAll,
+    invertMarks,
+    clearMarks,
     moveUp,
     moveDown,
+    moveBy,
+    moveTo,
+    setCount,
+    setPortPrompt,
+    goToPort,
     refresh,
+    cycleProtocol,
+    cycleSort,
+    reverseSort,
+    cycleGroupBy,
+    toggleCollapse,
+    toggleCollapseAll,
+    toggleTimeline,
+    exportTimeline,
   } = props;
 
-  useInput((input, key) => {
+  // Ink parses Home and End but does not report them, so withEdgeKeys adds
+  // them from the raw sequence. Mouse reports are left to useMouse.
+  const rawInput = useRawInput();
+
+  useInput((input, inkKey) => {
+    if (isMouseReport(rawInput.current)) return;
+    const key = withEdgeKeys(inkKey, rawInput.current);
+
+    /** Whether this keypress is one of the keys bound to `action`. */
+    const is = (action: KeyAction): boolean =>
+      keymap[action].some(chord => matchesChord(chord, input, key));
+
     // --- Global shortcuts (always active, checked before any mode logic) ---
-    // Ctrl+C is the universal "quit" chord; checked first so it always works.
-    // Ctrl+K is a power-user shortcut that kills without requiring Enter + y confirmation.
-    if (key.ctrl && input === 'c') { exit(); return; }
-    if (key.ctrl && input === 'k') { executeKill(); return; }
+    // Ctrl+C is the universal "quit" chord; checked first and never rebindable
+    // so it always works.
+    // Force kill (Ctrl+K by default) is a power-user shortcut that kills without
+    // requiring Enter + y confirmation. It works while typing a search query or
+    // a filter name only when bound to a ctrl/meta chord; a plain key there is text.
+    // It does nothing in the timeline view, where the selection is out of sight.
+    const typing = mode === 'search' || filterName !== null || portPrompt !== null;
+    if (matchesChord(QUIT_CHORD, input, key)) { exit(); return; }
+    if (is('forceKill') && !showTimeline && (!typing || key.ctrl || key.meta)) { executeKill(); return; }
 
     // --- Help toggle ---
-    // `?` only toggles help in navigate mode so that typing `?` in a search query
+    // Help only toggles in navigate mode so that typing `?` in a search query
     // (e.g. filtering for "nginx?") does not accidentally open the overlay.
     // confirmKill is also excluded: the confirmation prompt is a sub-state of navigate
     // mode and the `?` character could otherwise flicker the overlay open and closed.
-    if (input === '?' && mode === 'navigate' && !confirmKill) {
+    if (is('help') && !typing && !confirmKill) {
       toggleHelp();
       return;
     }
@@ -120,18 +368,90 @@ export function useKeyboardInput(props: UseKeyboardInputProps): void {
       return;
     }
 
+    // --- Signal menu ---
+    // Opened with the signal key. Acts as a modal like the help overlay, but only
+    // the menu's own keys do something; everything else is swallowed. The
+    // cancel, quit and signal keys all close it.
+    if (showSignalMenu) {
+      if (is('moveUp')) {
+        moveSignalMenu(-1);
+      } else if (is('moveDown')) {
+        moveSignalMenu(1);
+      } else if (key.return) {
+        chooseSignal();
+      } else if (is('cancel') || is('quit') || is('signal')) {
+        closeSignalMenu();
+      }
+      return;
+    }
+
+    // --- Saved filters menu ---
+    // Opened with the filters key; modal like the signal menu. A number key
+    // applies that entry directly.
+    if (showFilterMenu) {
+      const number = parseInt(input, 10);
+      if (is('moveUp')) {
+        moveFilterMenu(-1);
+      } else if (is('moveDown')) {
+        moveFilterMenu(1);
+      } else if (key.return) {
+        applyFilter();
+      } else if (/^[1-9]$/.test(input) && number <= filterCount) {
+        applyFilter(number - 1);
+      } else if (key.delete || key.backspace) {
+        deleteFilter();
+      } else if (is('cancel') || is('quit') || is('filters')) {
+        closeFilterMenu();
+      }
+      return;
+    }
+
+    // --- Filter name prompt ---
+    // Shown in the StatusBar after the save filter key. Like the search bar,
+    // every printable key is text, so its keys are fixed.
+    if (filterName !== null) {
+      if (key.escape) {
+        setFilterName(null);
+      } else if (key.return) {
+        saveFilter();
+      } else if (key.backspace || key.delete) {
+        setFilterName(name => (name ?? '').slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        setFilterName(name => (name ?? '') + input);
+      }
+      return;
+    }
+
+    // --- Go-to-port prompt ---
+    // Shown in the StatusBar after the go-to-port key. Only digits are taken,
+    // so a stray letter cannot turn into a port that does not exist.
+    if (portPrompt !== null) {
+      if (key.escape) {
+        setPortPrompt(null);
+      } else if (key.return) {
+        goToPort();
+      } else if (key.backspace || key.delete) {
+        setPortPrompt(port => (port ?? '').slice(0, -1));
+      } else if (/^\d+$/.test(input)) {
+        setPortPrompt(port => ((port ?? '') + input).slice(0, MAX_PORT_DIGITS));
+      }
+      return;
+    }
+
     // --- Kill confirmation dialog ---
-    // Active when the user pressed Enter on a port row. The dialog shows
-    // "Kill process:port? [y/ESC]" in the StatusBar.
-    // `y`       → execute the kill, dismiss dialog
-    // `n`/ESC   → cancel, dismiss dialog (no destructive action)
+    // Active when the user pressed the kill key on a port row, or chose a signal
+    // from the signal menu. The dialog shows "Kill process:port? y confirm ESC
+    // cancel" (or "Send SIGHUP to process:port?") in the StatusBar.
+    // confirm (`y`)      → execute the kill or send the chosen signal, dismiss dialog
+    // cancel (`n`/ESC)   → cancel, dismiss dialog (no destructive action)
     // All other keys are swallowed so the user cannot accidentally navigate
     // while the confirmation prompt is visible.
     if (confirmKill) {
-      if (input === 'y') {
-        executeKill();
+      if (is('confirm')) {
+        if (pendingSignal) executeSignal(pendingSignal);
+        else executeKill();
         setConfirmKill(false);
-      } else if (key.escape || input === 'n') {
+      } else if (is('cancel')) {
         setConfirmKill(false);
       }
       return;
@@ -140,41 +460,175 @@ export function useKeyboardInput(props: UseKeyboardInputProps): void {
     // --- Navigate mode ---
     // Default mode. The cursor is always visible; selection moves with arrows or vi keys.
     if (mode === 'navigate') {
-      // Up arrow / k — move selection up, clamped at top of list
-      if (key.upArrow || input === 'k') {
-        moveUp();
+      // Count prefix — as in vi, digits typed before a motion repeat it (`5j`)
+      // or pick the row to jump to (`20G`). A leading 0 is not a count, and a
+      // digit bound to an action runs it instead. Any other key uses up the count.
+      if (/^[0-9]$/.test(input) && (input !== '0' || count !== null) && !KEY_ACTION_NAMES.some(is)) {
+        setCount(c => Math.min((c ?? 0) * 10 + Number(input), MAX_COUNT));
+        return;
+      }
+      if (count !== null) setCount(null);
+      // Saved filter by number — the Nth applyFilter key (meta+N by default)
+      // applies the Nth filter, as N does in the saved filters menu
+      const slot = keymap.applyFilter.findIndex(chord => matchesChord(chord, input, key));
+      if (slot !== -1) {
+        if (slot < filterCount) applyFilter(slot);
+        return;
+      }
+      if (showTimeline && LIST_ROW_ACTIONS.some(is)) return;
+      const repeat = count ?? 1;
+      const halfPage = Math.max(1, Math.floor(pageSize / 2));
+
+      // Move selection up / down, clamped at the ends of the list
+      if (is('moveUp')) {
+        if (count === null) moveUp();
+        else moveBy(-count);
+        return;
+      }
+      if (is('moveDown')) {
+        if (count === null) moveDown();
+        else moveBy(count);
         return;
       }
-      // Down arrow / j — move selection down, clamped at bottom of list
-      if (key.downArrow || input === 'j') {
-        moveDown();
+      // Jump to the first / last row, or with a count to that row (1-based)
+      if (is('top')) {
+        moveTo(count === null ? 0 : count - 1);
         return;
       }
-      // `/` — enter search mode; cursor moves to SearchBar and subsequent printable
+      if (is('bottom')) {
+        moveTo(count === null ? -1 : count - 1);
+        return;
+      }
+      // Scroll by a page or half a page of the visible window, times the count
+      if (is('pageUp')) {
+        moveBy(-pageSize * repeat);
+        return;
+      }
+      if (is('pageDown')) {
+        moveBy(pageSize * repeat);
+        return;
+      }
+      if (is('halfPageUp')) {
+        moveBy(-halfPage * repeat);
+        return;
+      }
+      if (is('halfPageDown')) {
+        moveBy(halfPage * repeat);
+        return;
+      }
+      // Go to port — open the prompt; enter selects that port's row wherever it is
+      if (is('goToPort')) {
+        setPortPrompt('');
+        return;
+      }
+      // Search — cursor moves to SearchBar and subsequent printable
       // keystrokes are appended to searchQuery
-      if (input === '/') {
+      if (is('search')) {
         setMode('search');
         return;
       }
-      // Enter — open the kill confirmation dialog for the currently selected port.
-      // No-ops when the list is empty (selectedPort is null).
-      if (key.return) {
-        if (selectedPort) setConfirmKill(true);
+      // Saved filters — open the menu, or save the current query under a name
+      if (is('filters')) {
+        openFilterMenu();
+        return;
+      }
+      if (is('saveFilter')) {
+        startSavingFilter();
+        return;
+      }
+      // Search mode — how the query's text is matched; also tab while typing
+      if (is('searchMode')) {
+        cycleSearchMode();
+        return;
+      }
+      // Kill — open the kill confirmation dialog for the marked rows, or for the
+      // currently selected port or group when nothing is marked.
+      // No-ops when the list is empty and nothing is marked.
+      if (is('kill')) {
+        if (selectedPort || selectedGroup || markedCount > 0) setConfirmKill(true);
+        return;
+      }
+      // Mark — mark / unmark the selected row (or every row of the selected
+      // group) and step to the next one, so a run of rows can be marked by
+      // holding the key
+      if (is('mark')) {
+        if (selectedPort || selectedGroup) {
+          toggleMark();
+          moveDown();
+        }
+        return;
+      }
+      // Mark every visible row, or invert the marks of visible rows
+      if (is('markAll')) {
+        markAll();
+        return;
+      }
+      if (is('invertMarks')) {
+        invertMarks();
+        return;
+      }
+      // Open the signal menu for the selected port; no-op on an empty list
+      if (is('signal')) {
+        if (selectedPort) openSignalMenu();
+        return;
+      }
+      // Toggle the detail pane for the selected port
+      if (is('details')) {
+        toggleDetails();
+        return;
+      }
+      // Switch to the timeline of opened and closed ports and back, and export
+      // what it shows
+      if (is('timeline')) {
+        toggleTimeline();
+        return;
+      }
+      if (is('exportTimeline')) {
+        if (showTimeline) exportTimeline();
+        return;
+      }
+      // Cycle the protocol filter: both → TCP only → UDP only → both
+      if (is('protocol')) {
+        cycleProtocol();
+        return;
+      }
+      // Sort by the next column (`o`) or reverse the order (`O`)
+      if (is('sort')) {
+        cycleSort();
+        return;
+      }
+      if (is('reverseSort')) {
+        reverseSort();
+        return;
+      }
+      // Group by the next field, and collapse / expand one group or all of them
+      if (is('group')) {
+        cycleGroupBy();
+        return;
+      }
+      if (is('collapse')) {
+        toggleCollapse();
+        return;
+      }
+      if (is('collapseAll')) {
+        toggleCollapseAll();
         return;
       }
-      // `r` / `R` — manual refresh; fetches lsof immediately outside the 2s cycle
-      if (input === 'r' || input === 'R') {
+      // Manual refresh; collects immediately outside the polling cycle
+      if (is('refresh')) {
         refresh();
         return;
       }
-      // ESC — if a search filter is active, clear it and show all ports again.
-      // Does nothing when searchQuery is already empty.
-      if (key.escape) {
-        if (searchQuery) setSearchQuery('');
+      // Clear (ESC) — unmark all rows if any are marked; otherwise, if a search
+      // filter is active, clear it and show all ports again. Marks go first so a
+      // filter used to find the rows is not lost before the batch kill.
+      if (is('clear')) {
+        if (markedCount > 0) clearMarks();
+        else if (searchQuery) setSearchQuery('');
         return;
       }
-      // `q` — graceful quit (same effect as Ctrl+C)
-      if (input === 'q') {
+      // Graceful quit (same effect as Ctrl+C)
+      if (is('quit')) {
         exit();
         return;
       }
@@ -182,7 +636,8 @@ export function useKeyboardInput(props: UseKeyboardInputProps): void {
     }
 
     // --- Search mode ---
-    // Activated by `/` in navigate mode. Printable keystrokes build the filter string.
+    // Activated by the search key in navigate mode. Printable keystrokes build the
+    // filter string, so apart from the global shortcuts its keys are fixed.
     if (mode === 'search') {
       // ESC — clear the query and return to navigate mode (one keystroke undo)
       if (key.escape) {
@@ -195,20 +650,30 @@ export function useKeyboardInput(props: UseKeyboardInputProps): void {
         setSearchQuery(q => q.slice(0, -1));
         return;
       }
-      // Up arrow — move selection up while staying in search mode so the user can
-      // refine which result they want without leaving the search field
+      // Up / down arrows — like a shell prompt, recall earlier queries while the
+      // search bar is empty or shows a recalled query. Once the user types, they
+      // move the selection instead, so the user can refine which result they
+      // want without leaving the search field.
       if (key.upArrow) {
-        moveUp();
+        if (historyIndex !== null || (searchQuery === '' && historyLength > 0)) recallHistory(1);
+        else moveUp();
         return;
       }
-      // Down arrow — same as above but downward
       if (key.downArrow) {
-        moveDown();
+        if (historyIndex !== null) recallHistory(-1);
+        else moveDown();
+        return;
+      }
+      // Tab — cycle the search mode without leaving the search bar
+      if (key.tab) {
+        cycleSearchMode();
         return;
       }
-      // Enter — commit the current filter and return to navigate mode.
-      // The searchQuery is intentionally NOT cleared so the filter remains visible.
+      // Enter — commit the current filter, remember it in the history and return
+      // to navigate mode. The searchQuery is intentionally NOT cleared so the
+      // filter remains visible.
       if (key.return) {
+        rememberQuery();
         setMode('navigate');
         return;
       }
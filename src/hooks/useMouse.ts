@@ -0,0 +1,52 @@
+/**
+ * @module useMouse
+ *
+ * Delivers the mouse reports the terminal sends while mouse mode is on (see
+ * utils/mouse) as clicks, double-clicks and wheel steps.
+ */
+import { useRef } from 'react';
+import { useInput } from 'ink';
+
+import { parseMouseEvents } from '../utils/mouse.js';
+import { useRawInput } from './useRawInput.js';
+
+/** Milliseconds within which a second click on the same cell is a double-click. */
+export const DOUBLE_CLICK_MS = 400;
+
+/** Callbacks of {@link useMouse}. Coordinates are 1-based screen cells. */
+export interface MouseHandlers {
+  /** A left click; `double` when it follows a click on the same cell within {@link DOUBLE_CLICK_MS}. */
+  onClick: (x: number, y: number, double: boolean) => void;
+  /** One step of the wheel: -1 up, 1 down. */
+  onWheel: (delta: 1 | -1, x: number, y: number) => void;
+}
+
+/**
+ * Calls `handlers` for every mouse report on stdin. Reports that arrive
+ * while `isActive` is false (a modal is open) are dropped, and do not count
+ * towards a double-click.
+ *
+ * The reports are read from the raw input (see useRawInput) but handled in
+ * a useInput callback, so state updates made by the handlers are batched
+ * like those of a keypress.
+ */
+export function useMouse({ onClick, onWheel }: MouseHandlers, isActive = true): void {
+  const rawInput = useRawInput();
+  const lastClick = useRef<{ x: number; y: number; at: number } | null>(null);
+
+  useInput(() => {
+    for (const event of parseMouseEvents(rawInput.current)) {
+      if (event.type === 'wheel') {
+        onWheel(event.delta, event.x, event.y);
+        continue;
+      }
+      const { x, y } = event;
+      const now = Date.now();
+      const previous = lastClick.current;
+      const double = previous !== null && previous.x === x && previous.y === y && now - previous.at <= DOUBLE_CLICK_MS;
+      // A double-click is not the first half of another one.
+      lastClick.current = double ? null : { x, y, at: now };
+      onClick(x, y, double);
+    }
+  }, { isActive });
+}
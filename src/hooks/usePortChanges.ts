@@ -0,0 +1,94 @@
+/**
+ * @module usePortChanges
+ *
+ * Tracks which entries appeared and disappeared between successive port
+ * snapshots (see {@link diffPorts}), so the list can point out a server that
+ * just came up or died instead of silently replacing its rows every poll,
+ * and records every change of the session for the timeline view.
+ */
+import { useState, useEffect, useMemo } from 'react';
+
+import type { PortChange, PortEntry } from '../types.js';
+import { diffPorts } from '../utils/diffPorts.js';
+import { portKey } from '../utils/normalizePorts.js';
+import { appendEvents } from '../utils/timeline.js';
+import type { TimelineEvent } from '../utils/timeline.js';
+
+/** Milliseconds a new or vanished entry stays highlighted. */
+export const CHANGE_HIGHLIGHT_MS = 5000;
+
+/**
+ * Return value of the usePortChanges hook.
+ */
+export interface PortChanges {
+  /** How each recently changed entry changed, by {@link portKey}. */
+  changes: ReadonlyMap<string, PortChange>;
+  /**
+   * Entries that disappeared recently, oldest change first. They are no
+   * longer in the snapshot, so the list adds them back as ghost rows.
+   */
+  closed: PortEntry[];
+  /** Number of entries in `changes` that appeared. */
+  openedCount: number;
+  /**
+   * Every change since the first snapshot, oldest first, up to
+   * MAX_TIMELINE_EVENTS; unlike `changes`, these never expire.
+   */
+  events: TimelineEvent[];
+}
+
+/**
+ * Diffs every new `ports` snapshot against the previous one and reports the
+ * entries that changed within the last `highlightMs` milliseconds.
+ *
+ * The first snapshot after `loading` is only the baseline: everything in it
+ * would otherwise count as new. An entry that changes again while still
+ * highlighted (a server restarting on the same PID) keeps only its latest
+ * change.
+ *
+ * The diff is taken while rendering rather than in an effect, so the render
+ * that drops a vanished entry from `ports` already has its ghost: App never
+ * sees the entry missing and keeps the selection on it.
+ *
+ * @param ports - Latest snapshot from usePorts
+ * @param loading - True until the first collection settles
+ * @param highlightMs - How long a change is reported
+ */
+export function usePortChanges(ports: PortEntry[], loading: boolean, highlightMs = CHANGE_HIGHLIGHT_MS): PortChanges {
+  const [recent, setRecent] = useState<TimelineEvent[]>([]);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [previous, setPrevious] = useState<PortEntry[] | null>(null);
+
+  if (!loading && ports !== previous) {
+    setPrevious(ports);
+    const { opened, closed } = previous === null ? { opened: [], closed: [] } : diffPorts(previous, ports);
+    if (opened.length > 0 || closed.length > 0) {
+      const at = Date.now();
+      const latest: TimelineEvent[] = [
+        ...closed.map(port => ({ port, change: 'closed' as const, at })),
+        ...opened.map(port => ({ port, change: 'opened' as const, at })),
+      ];
+      const keys = new Set(latest.map(c => portKey(c.port)));
+      setRecent(current => [...current.filter(c => !keys.has(portKey(c.port))), ...latest]);
+      setEvents(current => appendEvents(current, latest));
+    }
+  }
+
+  // Changes are appended in time order, so only the first one needs a timer;
+  // dropping it schedules the next.
+  useEffect(() => {
+    if (recent.length === 0) return;
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setRecent(current => current.filter(c => now - c.at < highlightMs));
+    }, recent[0].at + highlightMs - Date.now());
+    return () => clearTimeout(timer);
+  }, [recent, highlightMs]);
+
+  return useMemo(() => ({
+    changes: new Map(recent.map(c => [portKey(c.port), c.change])),
+    closed: recent.filter(c => c.change === 'closed').map(c => c.port),
+    openedCount: recent.filter(c => c.change === 'opened').length,
+    events,
+  }), [recent, events]);
+}
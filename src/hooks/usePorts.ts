@@ -0,0 +1,64 @@
+/**
+ * @module usePorts
+ *
+ * React binding for {@link createPortPoller}: owns the port list state and
+ * keeps it fresh without ever blocking input handling or rendering.
+ */
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+import type { PortEntry } from '../types.js';
+import { createPortPoller, type PortPoller } from '../utils/portPoller.js';
+
+/**
+ * Return value of the usePorts hook.
+ */
+export interface UsePortsResult {
+  /** Latest successfully collected snapshot. Empty until the first one arrives. */
+  ports: PortEntry[];
+
+  /**
+   * True until the first collection settles (successfully or not), so the UI
+   * can say "scanning" instead of claiming nothing is listening.
+   */
+  loading: boolean;
+
+  /** Requests an immediate collection; joins the one in flight, if any. */
+  refresh: () => void;
+}
+
+/**
+ * Polls the active port source every `intervalMs` milliseconds.
+ *
+ * A failed collection leaves `ports` untouched, so the list keeps showing
+ * the last good snapshot while a slow or broken backend recovers. The poller
+ * is stopped on unmount, which aborts any running child process.
+ *
+ * @param intervalMs - Milliseconds between automatic polls
+ */
+export function usePorts(intervalMs: number): UsePortsResult {
+  const [ports, setPorts] = useState<PortEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const pollerRef = useRef<PortPoller | null>(null);
+
+  useEffect(() => {
+    const poller = createPortPoller({
+      intervalMs,
+      onSnapshot: snapshot => {
+        setPorts(snapshot);
+        setLoading(false);
+      },
+      onError: () => setLoading(false),
+    });
+    pollerRef.current = poller;
+    return () => {
+      poller.stop();
+      pollerRef.current = null;
+    };
+  }, [intervalMs]);
+
+  const refresh = useCallback(() => {
+    void pollerRef.current?.refresh();
+  }, []);
+
+  return { ports, loading, refresh };
+}
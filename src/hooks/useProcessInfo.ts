@@ -0,0 +1,41 @@
+/**
+ * @module useProcessInfo
+ *
+ * Loads {@link ProcessInfo} for the selected process while the detail pane
+ * is open, and reloads it on every port snapshot so the pane stays live.
+ */
+import { useState, useEffect } from 'react';
+
+import type { PortEntry, ProcessInfo } from '../types.js';
+import { getProcessInfo } from '../sources/processInfo.js';
+
+/**
+ * Returns process info for `pid`, or null while the first lookup for that
+ * PID is pending (or when `pid` is null).
+ *
+ * `snapshot` is the latest port list from usePorts; a new array identity
+ * means a poll completed, which triggers a fresh lookup. While that lookup
+ * runs the previous result stays on screen, so the pane does not flicker
+ * every two seconds. Selecting a different PID clears it immediately,
+ * because showing the old process's facts under a new header would mislead.
+ *
+ * An outdated lookup is aborted when the PID or snapshot changes and on
+ * unmount.
+ *
+ * @param pid - Selected process, or null to disable lookups (pane closed)
+ * @param snapshot - Latest port list; only its identity is used
+ */
+export function useProcessInfo(pid: string | null, snapshot: PortEntry[]): ProcessInfo | null {
+  const [info, setInfo] = useState<{ pid: string; info: ProcessInfo } | null>(null);
+
+  useEffect(() => {
+    if (pid === null) return;
+    const controller = new AbortController();
+    void getProcessInfo(pid, process.platform, controller.signal).then(result => {
+      if (!controller.signal.aborted) setInfo({ pid, info: result });
+    });
+    return () => controller.abort();
+  }, [pid, snapshot]);
+
+  return info !== null && info.pid === pid ? info.info : null;
+}
@@ -0,0 +1,56 @@
+/**
+ * @module useRawInput
+ *
+ * Access to the raw data behind the input Ink's useInput reports. Ink parses
+ * stdin into an input string and a Key, which drops what it does not model:
+ * the Home and End keys, and mouse reports.
+ */
+import { useEffect, useRef } from 'react';
+import type { EventEmitter } from 'events';
+import type { RefObject } from 'react';
+import { useStdin } from 'ink';
+
+/** Where the chunks of stdin are announced, and under which event. */
+interface InputSource {
+  emitter: EventEmitter;
+  event: 'input' | 'data';
+}
+
+/**
+ * Picks the emitter to record chunks from.
+ *
+ * Ink 4 hands every chunk it reads to useInput through `internal_eventEmitter`,
+ * which useStdin exposes but does not document. Listening there, ahead of
+ * useInput's own listeners, is what keeps the recorded chunk in step with the
+ * useInput callback. Should an Ink release drop it, stdin's 'data' event
+ * carries the same chunks: a stream emits it from inside every `read()`, so
+ * still before Ink handles the chunk.
+ */
+export function inputSource(context: { stdin: NodeJS.ReadStream; internal_eventEmitter?: unknown }): InputSource {
+  const internal = context.internal_eventEmitter as Partial<EventEmitter> | undefined;
+  return typeof internal?.prependListener === 'function' && typeof internal.removeListener === 'function'
+    ? { emitter: internal as EventEmitter, event: 'input' }
+    : { emitter: context.stdin, event: 'data' };
+}
+
+/**
+ * Returns a ref holding the raw stdin data of the input being handled.
+ *
+ * The data is recorded by a listener placed ahead of every useInput handler,
+ * so inside a useInput handler the ref holds exactly the chunk that handler
+ * was called for.
+ */
+export function useRawInput(): RefObject<string> {
+  const { emitter, event } = inputSource(useStdin());
+  const lastData = useRef('');
+  useEffect(() => {
+    const record = (data: string | Buffer) => {
+      lastData.current = String(data);
+    };
+    emitter.prependListener(event, record);
+    return () => {
+      emitter.removeListener(event, record);
+    };
+  }, [emitter, event]);
+  return lastData;
+}
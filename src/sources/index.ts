@@ -0,0 +1,70 @@
+/**
+ * @module sources
+ *
+ * Registry of port collection backends and the auto-detection that picks
+ * one. Each backend lives in its own module with its own parser; this module
+ * only knows their order of preference.
+ */
+import type { PortEntry, PortSource, PortSourceName } from '../types.js';
+import { lsofSource } from './lsof.js';
+import { ssSource } from './ss.js';
+import { netstatSource } from './netstat.js';
+import { procfsSource } from './procfs.js';
+
+/**
+ * All known backends, in auto-detection order.
+ *
+ * lsof comes first because it was the original (and best-tested) backend and
+ * reports everything we need in one call. ss and netstat are the native
+ * fallbacks on Linux and macOS respectively. procfs is last: it needs no
+ * binary at all, but scanning every `/proc/<pid>/fd` is the slowest option
+ * on busy hosts.
+ */
+export const PORT_SOURCES: readonly PortSource[] = [lsofSource, ssSource, netstatSource, procfsSource];
+
+/** Names accepted by `--source`, in auto-detection order. */
+export const PORT_SOURCE_NAMES: readonly PortSourceName[] = PORT_SOURCES.map(s => s.name);
+
+/**
+ * Looks up a backend by name.
+ *
+ * @throws Error when the name is unknown or the backend's output format is
+ *         not supported on `platform` (e.g. `ss` on macOS).
+ */
+export function getPortSource(name: string, platform: NodeJS.Platform = process.platform): PortSource {
+  const source = PORT_SOURCES.find(s => s.name === name);
+  if (!source) {
+    throw new Error(`Unknown source "${name}" (expected one of: ${PORT_SOURCE_NAMES.join(', ')})`);
+  }
+  if (!source.platforms.includes(platform)) {
+    throw new Error(`Source "${name}" is not supported on ${platform}`);
+  }
+  return source;
+}
+
+/**
+ * Tries every backend supported on `platform`, in registry order, and returns
+ * the first one whose `collect()` succeeds together with the ports it found.
+ * Returning the ports avoids running the winning backend twice.
+ *
+ * Backends are probed one at a time rather than in parallel so a working
+ * lsof does not pay for spawning every fallback on each detection.
+ *
+ * @throws Error when no backend works on this machine, or the abort reason
+ *         when `signal` is aborted mid-detection.
+ */
+export async function detectPortSource(
+  platform: NodeJS.Platform = process.platform,
+  signal?: AbortSignal,
+): Promise<{ source: PortSource; ports: PortEntry[] }> {
+  for (const source of PORT_SOURCES) {
+    if (!source.platforms.includes(platform)) continue;
+    try {
+      return { source, ports: await source.collect(signal) };
+    } catch {
+      // Aborts must not be mistaken for "backend unavailable".
+      signal?.throwIfAborted();
+    }
+  }
+  throw new Error(`No working port source found on ${platform}`);
+}
@@ -0,0 +1,146 @@
+/**
+ * @module sources/lsof
+ *
+ * Port source backed by `lsof`, the default on both macOS and Linux. Parses
+ * its output to produce a deduplicated list of all TCP ports currently in the
+ * LISTEN state and all bound UDP ports on the local machine.
+ *
+ * **Why `lsof -nP -iTCP -sTCP:LISTEN -iUDP +c 0`?**
+ * - `-n`  Skip DNS reverse lookups. Without this, lsof queries DNS for every
+ *         address it finds, which can add several seconds of latency.
+ * - `-P`  Use numeric port numbers instead of looking up service names in
+ *         /etc/services (e.g. `3000` instead of `hbci`).
+ * - `-iTCP`       Select TCP sockets; ignores pipes, files, etc.
+ * - `-sTCP:LISTEN` Further filter TCP sockets to the LISTEN state only;
+ *                  excludes ESTABLISHED, TIME_WAIT, and other transient states.
+ *                  The state filter names TCP, so it leaves UDP untouched.
+ * - `-iUDP` Also select UDP sockets. UDP has no LISTEN state, so connected
+ *           sockets (NAME contains `->`) are dropped while parsing, leaving
+ *           only sockets bound to a local port.
+ * - `+c 0` Remove lsof's default 9-character truncation of the COMMAND column
+ *          so long process names like "com.docker.backend" are shown in full.
+ *
+ * **Why a 5-second timeout?**
+ * `lsof` can hang indefinitely when the machine has stale NFS or network
+ * mount points. The timeout ensures the CLI stays responsive even in those
+ * environments. Because lsof runs asynchronously, a slow run no longer
+ * blocks the UI, but the timeout still bounds how stale a refresh can get.
+ * On failure or timeout the source rejects, which lets source auto-detection
+ * move on to the next backend.
+ */
+import type { PortEntry, PortSource } from '../types.js';
+import { normalizeAddress, dedupePorts } from '../utils/normalizePorts.js';
+import { runCommand, CommandError } from '../utils/runCommand.js';
+
+/** Maximum milliseconds to wait for lsof before giving up on it. */
+const LSOF_TIMEOUT_MS = 5000;
+
+/**
+ * Parses raw `lsof -nP -iTCP -sTCP:LISTEN -iUDP` output.
+ *
+ * @param output - Full stdout of lsof, including the header row
+ * @returns Array of {@link PortEntry} objects sorted by port number ascending
+ */
+export function parseLsof(output: string): PortEntry[] {
+  const lines = output.trim().split('\n');
+
+  // slice(1) skips the lsof header row:
+  // "COMMAND  PID  USER  FD  TYPE  DEVICE  SIZE/OFF  NODE  NAME"
+  const dataLines = lines.slice(1);
+
+  const ports: PortEntry[] = [];
+
+  for (const line of dataLines) {
+    // Skip empty lines that may appear in lsof output when processes exit
+    // between the time lsof starts and when it writes output
+    if (!line.trim()) continue;
+
+    const parts = line.trim().split(/\s+/);
+
+    // lsof columns (0-indexed):
+    //   0:COMMAND  1:PID  2:USER  3:FD  4:TYPE  5:DEVICE  6:SIZE/OFF  7:NODE  8:NAME
+    // NAME (index 8) holds the address:port string we need to parse.
+    // Any line with fewer than 9 columns is malformed; skip it.
+    //
+    // Malformed lines can occur when:
+    // - The process name contains whitespace (lsof would split it incorrectly)
+    // - A process exits mid-query and produces incomplete output
+    // - lsof hits an error reading a socket (e.g., permission denied)
+    if (parts.length < 9) continue;
+
+    const processName = parts[0];
+    const pid = parts[1];
+    const user = parts[2];
+    const addrPort = parts[8];
+
+    // NODE (index 7) names the protocol. Anything else (e.g. a raw socket
+    // that slipped through) is not a port we can display.
+    const protocol = parts[7] === 'TCP' ? 'tcp' : parts[7] === 'UDP' ? 'udp' : null;
+    if (!protocol) continue;
+
+    // A connected UDP socket prints "local->remote"; it is a client talking
+    // to a peer, not a bound listener, so it is skipped.
+    if (addrPort.includes('->')) continue;
+
+    // Use lastIndexOf instead of indexOf to correctly split IPv6 addresses.
+    // An IPv6 NAME field looks like `[::1]:3000` — the host portion itself
+    // contains colons, so indexOf(':') would land inside the address rather
+    // than at the separator before the port number.
+    //
+    // Examples:
+    // - IPv4: "127.0.0.1:3000" → lastIndexOf finds the only colon
+    // - IPv6: "[::1]:8080" → lastIndexOf finds the colon after "]"
+    // - IPv6 wildcard: "[::]:5432" → lastIndexOf finds the final colon
+    const lastColon = addrPort.lastIndexOf(':');
+    if (lastColon === -1) continue; // No colon = malformed; skip
+
+    const rawAddr = addrPort.slice(0, lastColon);
+    const port = parseInt(addrPort.slice(lastColon + 1), 10);
+
+    if (isNaN(port)) continue;
+
+    ports.push({
+      port,
+      protocol,
+      process: processName,
+      pid,
+      user,
+      address: normalizeAddress(rawAddr),
+    });
+  }
+
+  return dedupePorts(ports);
+}
+
+/**
+ * Runs `lsof` and returns a sorted, deduplicated list of listening ports.
+ *
+ * lsof exits with status 1 both when it fails and when one of its `-i`
+ * selections finds no matching sockets — with two selections (TCP and UDP)
+ * that happens whenever either protocol has nothing bound, while the other's
+ * rows are still printed. Status 1 is therefore read as "these are all the
+ * sockets there are" (possibly none); any other failure (including a missing
+ * binary) is rethrown.
+ */
+async function collect(signal?: AbortSignal): Promise<PortEntry[]> {
+  let output: string;
+  try {
+    // +c 0 removes lsof's default 9-character truncation on the COMMAND column
+    // so process names like "com.docker.backend" are not clipped to "com.docke".
+    output = await runCommand('lsof', ['-nP', '-iTCP', '-sTCP:LISTEN', '-iUDP', '+c', '0'], {
+      timeoutMs: LSOF_TIMEOUT_MS,
+      signal,
+    });
+  } catch (err) {
+    if (!(err instanceof CommandError) || err.status !== 1) throw err;
+    output = err.stdout;
+  }
+  return parseLsof(output);
+}
+
+/** The lsof backend. */
+export const lsofSource: PortSource = {
+  name: 'lsof',
+  platforms: ['darwin', 'linux'],
+  collect,
+};
@@ -0,0 +1,137 @@
+/**
+ * @module sources/netstat
+ *
+ * Port source backed by the BSD `netstat` that ships with macOS. Useful when
+ * `lsof` is slow (it stats every open file on the machine) or restricted.
+ *
+ * **Why `netstat -anv`?**
+ * - `-a` Include listening (server) sockets.
+ * - `-n` Numeric addresses and ports.
+ * - `-v` Verbose: adds the `pid` column (`name:pid` on recent macOS).
+ *
+ * Column positions differ between macOS releases (newer ones insert
+ * `rxbytes`/`txbytes` before `rhiwat`), so the PID column is located from the
+ * header row rather than hard-coded. UDP rows leave the `(state)` cell blank,
+ * so every column after it sits one position further left than in TCP rows.
+ * The output has no user column, so owners
+ * (and names, where only a PID is printed) are resolved with `ps`.
+ */
+import type { PortEntry, PortSource } from '../types.js';
+import { normalizeAddress, dedupePorts } from '../utils/normalizePorts.js';
+import { runCommand } from '../utils/runCommand.js';
+import { lookupProcessOwners } from './ps.js';
+
+/** Maximum milliseconds to wait for netstat. */
+const NETSTAT_TIMEOUT_MS = 5000;
+
+/**
+ * Index of the PID column in data rows when no header is present: the layout
+ * used by macOS up to 12 (Proto Recv-Q Send-Q Local Foreign state rhiwat shiwat pid).
+ */
+const DEFAULT_PID_COLUMN = 8;
+
+/**
+ * Locates the PID column from the `Proto Recv-Q ...` header row.
+ *
+ * The header labels "Local Address" and "Foreign Address" are two words each
+ * while their data cells are one token, so the header index is shifted back
+ * by two to line up with data rows.
+ */
+function findPidColumn(lines: string[]): number {
+  const header = lines.find(l => l.startsWith('Proto'));
+  if (!header) return DEFAULT_PID_COLUMN;
+  const index = header.trim().split(/\s+/).findIndex(t => t === 'pid' || t.endsWith(':pid'));
+  return index === -1 ? DEFAULT_PID_COLUMN : index - 2;
+}
+
+/**
+ * Splits a BSD `host.port` address. The port follows the LAST dot, because
+ * IPv4 hosts contain dots too (`127.0.0.1.3000`). IPv6 hosts are bracketed so
+ * they match the lsof form that {@link normalizeAddress} understands.
+ */
+function splitAddress(addrPort: string): { address: string; port: number } | null {
+  const lastDot = addrPort.lastIndexOf('.');
+  if (lastDot === -1) return null;
+
+  const port = parseInt(addrPort.slice(lastDot + 1), 10);
+  if (isNaN(port)) return null;
+
+  // Drop the interface scope ("fe80::1%lo0") which lsof does not print.
+  const host = addrPort.slice(0, lastDot).replace(/%.*$/, '');
+  return { address: normalizeAddress(host.includes(':') ? `[${host}]` : host), port };
+}
+
+/**
+ * Parses raw `netstat -anv` output, keeping TCP sockets in the LISTEN state
+ * and UDP sockets that are bound but not connected (foreign address `*.*`).
+ *
+ * Row layout (whitespace-separated, 0-indexed):
+ *   0:Proto  1:Recv-Q  2:Send-Q  3:Local Address  4:Foreign Address  5:(state)  ...  N:pid
+ * UDP rows have no state token, so their PID is at N-1.
+ *
+ * The PID cell is either a bare PID or `name:pid`. When only a PID is given
+ * the process name is left empty for {@link netstatSource} to fill in, and
+ * `user` is always left empty for the same reason.
+ *
+ * @param output - Full stdout of netstat, including preamble and header rows
+ * @returns Array of {@link PortEntry} objects sorted by port number ascending
+ */
+export function parseNetstat(output: string): PortEntry[] {
+  const lines = output.trim().split('\n');
+  const pidColumn = findPidColumn(lines);
+  const ports: PortEntry[] = [];
+
+  for (const line of lines) {
+    const parts = line.trim().split(/\s+/);
+    // Skips the preamble, header, non-listening TCP rows, connected UDP rows,
+    // and the unix-domain socket section that follows the internet sockets.
+    const protocol = parts[0].startsWith('tcp') && parts[5] === 'LISTEN' ? 'tcp'
+      : parts[0].startsWith('udp') && parts[4] === '*.*' ? 'udp'
+      : null;
+    if (!protocol) continue;
+
+    const column = protocol === 'udp' ? pidColumn - 1 : pidColumn;
+    if (parts.length <= column) continue;
+
+    const local = splitAddress(parts[3]);
+    if (!local) continue;
+
+    const cell = parts[column];
+    const sep = cell.lastIndexOf(':');
+    const pid = cell.slice(sep + 1);
+    if (!/^\d+$/.test(pid) || pid === '0') continue;
+
+    ports.push({
+      port: local.port,
+      protocol,
+      process: sep === -1 ? '' : cell.slice(0, sep),
+      pid,
+      user: '',
+      address: local.address,
+    });
+  }
+
+  return dedupePorts(ports);
+}
+
+/**
+ * Runs `netstat -anv` and resolves owners (and missing names) through `ps`.
+ * Rejects when netstat is missing or fails.
+ */
+async function collect(signal?: AbortSignal): Promise<PortEntry[]> {
+  const output = await runCommand('netstat', ['-anv'], { timeoutMs: NETSTAT_TIMEOUT_MS, signal });
+
+  const ports = parseNetstat(output);
+  const owners = await lookupProcessOwners([...new Set(ports.map(p => p.pid))], signal);
+  return ports.map(p => {
+    const owner = owners.get(p.pid);
+    return { ...p, process: p.process || owner?.process || '?', user: owner?.user ?? '?' };
+  });
+}
+
+/** The netstat backend. */
+export const netstatSource: PortSource = {
+  name: 'netstat',
+  platforms: ['darwin'],
+  collect,
+};
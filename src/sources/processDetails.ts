@@ -0,0 +1,196 @@
+/**
+ * @module sources/processDetails
+ *
+ * Resolves the full command line, working directory and executable path of
+ * the processes behind a port list. Every backend reports only a short
+ * process name (`node`, `python3`), which says nothing about which project a
+ * listener belongs to; these details do.
+ *
+ * **Where the data comes from**
+ * - Linux: `/proc/<pid>/cmdline` (NUL-separated argv), and the `cwd` and
+ *   `exe` symlinks next to it. No child process is spawned.
+ * - Elsewhere (macOS): `ps -o pid=,command=` for the argv and
+ *   `lsof -a -d cwd,txt -Fpfn` for the directory and executable, one call
+ *   each for the whole batch of PIDs.
+ *
+ * Lookups are best-effort: a field the current user may not read (the `cwd`
+ * of another user's process, for example) is simply left undefined.
+ *
+ * A process's command line, directory and executable rarely change while it
+ * runs, so {@link enrichPorts} can keep them in a {@link ProcessDetailsCache}
+ * and inspect only the processes that are new since the previous snapshot.
+ */
+import { readFile, readlink } from 'fs/promises';
+import type { PortEntry } from '../types.js';
+import { runCommand, CommandError } from '../utils/runCommand.js';
+
+/** Maximum milliseconds to wait for each of the ps / lsof lookups. */
+const DETAILS_TIMEOUT_MS = 5000;
+
+/** Command line, working directory and executable of one process. */
+export type ProcessDetails = Pick<PortEntry, 'command' | 'cwd' | 'exe'>;
+
+/**
+ * Details from earlier snapshots, keyed by {@link cacheKey}. Owned by the
+ * caller, which passes the same map to every {@link enrichPorts} call.
+ */
+export type ProcessDetailsCache = Map<string, ProcessDetails>;
+
+/**
+ * Cache key of an entry's process. The process name is part of it so that a
+ * PID the kernel has handed to a different program is inspected again.
+ */
+function cacheKey(entry: PortEntry): string {
+  return `${entry.pid} ${entry.process}`;
+}
+
+/**
+ * Parses `ps -o pid=,command=` output into a PID → command line map.
+ * The command is everything after the PID, so arguments keep their spaces.
+ */
+export function parsePsCommands(output: string): Map<string, string> {
+  const commands = new Map<string, string>();
+  for (const line of output.split('\n')) {
+    const match = /^\s*(\d+)\s+(.+?)\s*$/.exec(line);
+    if (match) commands.set(match[1], match[2]);
+  }
+  return commands;
+}
+
+/**
+ * Parses `lsof -Fpfn` field output into PID → `{ cwd, exe }`.
+ *
+ * Each record starts with `p<pid>`, followed by `f<fd>` / `n<name>` pairs.
+ * The `cwd` descriptor is the working directory; the first `txt` entry is the
+ * program's own executable (later ones are shared libraries).
+ */
+export function parseLsofFields(output: string): Map<string, ProcessDetails> {
+  const details = new Map<string, ProcessDetails>();
+  let current: ProcessDetails | null = null;
+  let fd = '';
+
+  for (const line of output.split('\n')) {
+    const value = line.slice(1);
+    switch (line[0]) {
+      case 'p':
+        current = {};
+        details.set(value, current);
+        break;
+      case 'f':
+        fd = value;
+        break;
+      case 'n':
+        if (!current) break;
+        if (fd === 'cwd') current.cwd = value;
+        else if (fd === 'txt' && current.exe === undefined) current.exe = value;
+        break;
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Turns the raw bytes of `/proc/<pid>/cmdline` into a display string.
+ * Arguments are NUL-terminated; kernel threads have an empty cmdline, for
+ * which undefined is returned.
+ */
+export function formatProcCmdline(raw: string): string | undefined {
+  const args = raw.split('\0').filter(arg => arg !== '');
+  return args.length > 0 ? args.join(' ') : undefined;
+}
+
+/** Reads one process's details from procfs; unreadable fields stay undefined. */
+async function readProcDetails(pid: string): Promise<ProcessDetails> {
+  const [cmdline, cwd, exe] = await Promise.all([
+    readFile(`/proc/${pid}/cmdline`, 'utf8').catch(() => ''),
+    readlink(`/proc/${pid}/cwd`).catch(() => undefined),
+    readlink(`/proc/${pid}/exe`).catch(() => undefined),
+  ]);
+  return { command: formatProcCmdline(cmdline), cwd, exe };
+}
+
+/**
+ * Runs a lookup command and returns whatever it printed. ps and lsof exit 1
+ * when some PIDs have already exited but still print the rest, so partial
+ * output is used rather than discarded.
+ */
+async function readCommandOutput(command: string, args: string[], signal?: AbortSignal): Promise<string> {
+  try {
+    return await runCommand(command, args, { timeoutMs: DETAILS_TIMEOUT_MS, signal });
+  } catch (err) {
+    return err instanceof CommandError ? err.stdout : '';
+  }
+}
+
+/**
+ * Resolves details for a batch of PIDs.
+ *
+ * Rejects only when `signal` is aborted, so an abandoned poll is not taken
+ * for a result. Otherwise, like {@link lookupProcessOwners}, a missing
+ * binary or a process that exited mid-lookup just yields fewer fields, and
+ * the port list is still valid without them.
+ *
+ * @param pids - PIDs to look up; duplicates are harmless
+ * @param platform - Selects procfs (Linux) or ps + lsof (everything else)
+ * @param signal - Aborting kills any running lookup command
+ * @throws The abort reason when `signal` is aborted
+ */
+export async function lookupProcessDetails(
+  pids: string[],
+  platform: NodeJS.Platform = process.platform,
+  signal?: AbortSignal,
+): Promise<Map<string, ProcessDetails>> {
+  const unique = [...new Set(pids)];
+  if (unique.length === 0) return new Map();
+
+  if (platform === 'linux') {
+    const details = await Promise.all(unique.map(readProcDetails));
+    signal?.throwIfAborted();
+    return new Map(unique.map((pid, i) => [pid, details[i]]));
+  }
+
+  const list = unique.join(',');
+  const [psOutput, lsofOutput] = await Promise.all([
+    readCommandOutput('ps', ['-o', 'pid=,command=', '-p', list], signal),
+    readCommandOutput('lsof', ['-a', '-p', list, '-d', 'cwd,txt', '-Fpfn'], signal),
+  ]);
+  // readCommandOutput swallows an abort along with real failures.
+  signal?.throwIfAborted();
+  const commands = parsePsCommands(psOutput);
+  const files = parseLsofFields(lsofOutput);
+
+  return new Map(unique.map(pid => [pid, { command: commands.get(pid), ...files.get(pid) }]));
+}
+
+/**
+ * Returns `ports` with {@link ProcessDetails} merged into every entry.
+ * Entries whose process could not be inspected are returned unchanged.
+ *
+ * With a `cache`, only processes missing from it are looked up, and the
+ * cache is then left holding exactly the processes in `ports`, so exited
+ * ones do not accumulate. A process whose command line could not be read is
+ * not cached and is tried again on the next call.
+ *
+ * @param cache - Details from the previous call; updated in place
+ * @throws The abort reason when `signal` is aborted; `cache` is then unchanged
+ */
+export async function enrichPorts(
+  ports: PortEntry[],
+  platform: NodeJS.Platform = process.platform,
+  signal?: AbortSignal,
+  cache?: ProcessDetailsCache,
+): Promise<PortEntry[]> {
+  const missing = ports.filter(p => !cache?.has(cacheKey(p)));
+  const details = await lookupProcessDetails(missing.map(p => p.pid), platform, signal);
+  const detailsOf = (entry: PortEntry) => cache?.get(cacheKey(entry)) ?? details.get(entry.pid);
+
+  if (cache) {
+    const current = new Map(ports.map(p => [cacheKey(p), detailsOf(p)]));
+    cache.clear();
+    for (const [key, value] of current) {
+      if (value?.command !== undefined) cache.set(key, value);
+    }
+  }
+  return ports.map(p => ({ ...p, ...detailsOf(p) }));
+}
@@ -0,0 +1,172 @@
+/**
+ * @module sources/processInfo
+ *
+ * On-demand lookup of the facts the detail pane shows for one process:
+ * parent, start time and established connection count. Unlike
+ * {@link enrichPorts}, which runs for every new PID a poll finds, this is
+ * only done for the selected row, so it may afford a few extra reads.
+ *
+ * **Where the data comes from**
+ * - Linux: `/proc/<pid>/stat` for the parent PID and start time (in clock
+ *   ticks since boot, anchored with `btime` from `/proc/stat`), the parent's
+ *   `comm`, and `/proc/net/tcp{,6}` rows in state `01` (ESTABLISHED) whose
+ *   inode is one of the process's socket descriptors.
+ * - Elsewhere (macOS): `ps -o ppid=,lstart=` and `ps -o comm=` for the parent
+ *   and start time, and `lsof -a -p <pid> -iTCP -sTCP:ESTABLISHED` for the
+ *   connections.
+ */
+import { readFile, readdir, readlink } from 'fs/promises';
+import { basename } from 'path';
+import type { ProcessInfo } from '../types.js';
+import { runCommand, CommandError } from '../utils/runCommand.js';
+import { parseProcNetTcp } from './procfs.js';
+
+/** Maximum milliseconds to wait for each ps / lsof lookup. */
+const INFO_TIMEOUT_MS = 5000;
+
+/**
+ * Clock ticks per second used by `/proc/<pid>/stat` start times. The kernel
+ * exports USER_HZ, which is 100 on every mainstream architecture.
+ */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/** Hex state code the kernel uses for TCP_ESTABLISHED in /proc/net/tcp. */
+const TCP_ESTABLISHED_STATE = '01';
+
+/**
+ * Extracts the parent PID and start time (in clock ticks since boot) from
+ * the contents of `/proc/<pid>/stat`.
+ *
+ * The second field is the process name in parentheses and may itself contain
+ * spaces or parentheses, so fields are counted from the LAST `)`.
+ */
+export function parseProcStat(content: string): { ppid: string; startTicks: number } | null {
+  const close = content.lastIndexOf(')');
+  if (close === -1) return null;
+
+  // After "pid (comm) ": 0:state 1:ppid ... 19:starttime
+  const fields = content.slice(close + 2).trim().split(/\s+/);
+  const startTicks = parseInt(fields[19], 10);
+  if (!/^\d+$/.test(fields[1] ?? '') || isNaN(startTicks)) return null;
+  return { ppid: fields[1], startTicks };
+}
+
+/** Reads the boot time (epoch seconds) from the `btime` line of `/proc/stat`. */
+export function parseBootTime(content: string): number | null {
+  const match = /^btime\s+(\d+)$/m.exec(content);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/** Reads a procfs file, resolving null instead of rejecting. */
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Counts the ESTABLISHED TCP sockets held by `pid` by matching its socket
+ * descriptors against the kernel's connection tables.
+ */
+async function countProcEstablished(pid: string): Promise<number | undefined> {
+  let fds: string[];
+  try {
+    fds = await readdir(`/proc/${pid}/fd`);
+  } catch {
+    return undefined;
+  }
+
+  const targets = await Promise.all(fds.map(fd => readlink(`/proc/${pid}/fd/${fd}`).catch(() => '')));
+  const inodes = new Set(targets.map(t => /^socket:\[(\d+)\]$/.exec(t)?.[1]).filter(Boolean));
+
+  let count = 0;
+  for (const path of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    const content = await readOptional(path);
+    if (!content) continue;
+    count += parseProcNetTcp(content, TCP_ESTABLISHED_STATE).filter(s => inodes.has(s.inode)).length;
+  }
+  return count;
+}
+
+/** Linux implementation of {@link getProcessInfo}. */
+async function getProcInfo(pid: string): Promise<ProcessInfo> {
+  const [stat, procStat, established] = await Promise.all([
+    readOptional(`/proc/${pid}/stat`),
+    readOptional('/proc/stat'),
+    countProcEstablished(pid),
+  ]);
+
+  const parsed = stat ? parseProcStat(stat) : null;
+  const bootTime = procStat ? parseBootTime(procStat) : null;
+  const parentName = parsed ? (await readOptional(`/proc/${parsed.ppid}/comm`))?.trim() : undefined;
+
+  return {
+    ppid: parsed?.ppid,
+    parentName: parentName || undefined,
+    startTime: parsed && bootTime !== null
+      ? (bootTime + parsed.startTicks / CLOCK_TICKS_PER_SECOND) * 1000
+      : undefined,
+    established,
+  };
+}
+
+/**
+ * Parses `ps -o ppid=,lstart=` output: the parent PID followed by a
+ * `ctime`-style date such as `Mon Oct 19 09:15:02 2026`, which `Date`
+ * parses in local time.
+ */
+export function parsePsStart(output: string): { ppid: string; startTime?: number } | null {
+  const match = /^\s*(\d+)\s+(.+?)\s*$/.exec(output);
+  if (!match) return null;
+  const startTime = Date.parse(match[2]);
+  return { ppid: match[1], startTime: isNaN(startTime) ? undefined : startTime };
+}
+
+/** Runs a lookup command, resolving null on any failure. */
+async function runOptional(command: string, args: string[], signal?: AbortSignal): Promise<string | null> {
+  try {
+    return await runCommand(command, args, { timeoutMs: INFO_TIMEOUT_MS, signal });
+  } catch (err) {
+    // lsof exits 1 with no output when the process has no matching sockets.
+    return err instanceof CommandError && err.status === 1 ? err.stdout : null;
+  }
+}
+
+/** ps/lsof implementation of {@link getProcessInfo}. */
+async function getPsInfo(pid: string, signal?: AbortSignal): Promise<ProcessInfo> {
+  const [psOutput, lsofOutput] = await Promise.all([
+    runOptional('ps', ['-o', 'ppid=,lstart=', '-p', pid], signal),
+    runOptional('lsof', ['-a', '-p', pid, '-iTCP', '-sTCP:ESTABLISHED', '-nP', '-Fn'], signal),
+  ]);
+
+  const start = psOutput ? parsePsStart(psOutput) : null;
+  const parentComm = start ? await runOptional('ps', ['-o', 'comm=', '-p', start.ppid], signal) : null;
+
+  return {
+    ppid: start?.ppid,
+    parentName: parentComm?.trim() ? basename(parentComm.trim()) : undefined,
+    startTime: start?.startTime,
+    // With -Fn every connection contributes exactly one "n<address>" line.
+    established: lsofOutput === null ? undefined : lsofOutput.split('\n').filter(l => l.startsWith('n')).length,
+  };
+}
+
+/**
+ * Looks up parent, start time and established connection count for `pid`.
+ *
+ * Never rejects: fields that cannot be determined are left undefined, and a
+ * process that has exited resolves an empty object.
+ *
+ * @param pid - Process to inspect
+ * @param platform - Selects procfs (Linux) or ps + lsof (everything else)
+ * @param signal - Aborting kills any running lookup command
+ */
+export async function getProcessInfo(
+  pid: string,
+  platform: NodeJS.Platform = process.platform,
+  signal?: AbortSignal,
+): Promise<ProcessInfo> {
+  return platform === 'linux' ? getProcInfo(pid) : getPsInfo(pid, signal);
+}
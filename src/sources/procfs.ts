@@ -0,0 +1,314 @@
+/**
+ * @module sources/procfs
+ *
+ * Linux-native port source that reads the kernel's socket tables from
+ * procfs instead of shelling out to `lsof`, which is frequently missing on
+ * minimal containers and CI images.
+ *
+ * **How it works**
+ * 1. `/proc/net/tcp` and `/proc/net/tcp6` list every TCP socket along with its
+ *    hex-encoded local address, state, owning UID, and socket inode. Rows in
+ *    state `0A` (TCP_LISTEN) are the listeners we care about. `/proc/net/udp`
+ *    and `udp6` share the layout; bound UDP sockets without a peer sit in
+ *    state `07` (TCP_CLOSE — the kernel reuses TCP state names for UDP).
+ * 2. The socket tables do not record PIDs. Every open descriptor under
+ *    `/proc/<pid>/fd` is a symlink; sockets read as `socket:[<inode>]`, so
+ *    scanning those links maps each listening inode back to its owner(s).
+ * 3. The UID is resolved to a user name via `/etc/passwd`, and the process
+ *    name comes from `/proc/<pid>/comm`.
+ *
+ * Only sockets whose owning process is visible to the current user are
+ * returned — `/proc/<pid>/fd` is unreadable for other users' processes unless
+ * running as root. This mirrors what a non-root `lsof` reports.
+ */
+import { readFile, readdir, readlink } from 'fs/promises';
+import { endianness } from 'os';
+import type { PortEntry, PortProtocol, PortSource } from '../types.js';
+import { normalizeAddress, dedupePorts } from '../utils/normalizePorts.js';
+
+/** Socket tables read in order; IPv4 first so dual-stack dedup keeps the IPv4 row, like lsof. */
+const PROC_NET_TCP_FILES = ['/proc/net/tcp', '/proc/net/tcp6'];
+
+/** UDP socket tables, in the same IPv4-first order. */
+const PROC_NET_UDP_FILES = ['/proc/net/udp', '/proc/net/udp6'];
+
+/** Hex state code the kernel uses for TCP_LISTEN in /proc/net/tcp. */
+const TCP_LISTEN_STATE = '0A';
+
+/** Hex state code of an unconnected UDP socket (TCP_CLOSE) in /proc/net/udp. */
+const UDP_UNCONNECTED_STATE = '07';
+
+/**
+ * A listening socket as described by one row of `/proc/net/{tcp,udp}{,6}`.
+ */
+export interface ProcSocket {
+  /** Which table the row came from. */
+  protocol: PortProtocol;
+  /** Raw (un-normalized) local address, formatted the way lsof prints it. */
+  address: string;
+  /** Local port number. */
+  port: number;
+  /** Numeric UID of the socket owner, as a string. */
+  uid: string;
+  /** Socket inode, used to find the owning PID(s) via `/proc/<pid>/fd`. */
+  inode: string;
+}
+
+/**
+ * Decodes a hex address from `/proc/net/tcp{,6}` into printable form.
+ *
+ * The kernel prints the raw in-memory address as 32-bit words in host byte
+ * order, so on little-endian machines each 4-byte word must be reversed
+ * before it reads as network order.
+ *
+ * IPv6 addresses are wrapped in brackets (`[::1]`) to match lsof's NAME
+ * column, which lets both collectors share {@link normalizeAddress}.
+ *
+ * @param hex - 8 hex chars (IPv4) or 32 hex chars (IPv6)
+ * @returns e.g. `"127.0.0.1"`, `"[::]"`, `"[fe80::1]"`, `"[::ffff:10.0.0.1]"`
+ */
+export function decodeProcAddress(hex: string): string {
+  const bytes: number[] = [];
+  for (let word = 0; word < hex.length; word += 8) {
+    const wordBytes: number[] = [];
+    for (let i = 0; i < 8; i += 2) {
+      wordBytes.push(parseInt(hex.slice(word + i, word + i + 2), 16));
+    }
+    if (endianness() === 'LE') wordBytes.reverse();
+    bytes.push(...wordBytes);
+  }
+
+  if (bytes.length === 4) return bytes.join('.');
+
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d) — printed with a dotted tail like lsof does.
+  if (bytes.slice(0, 10).every(b => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return `[::ffff:${bytes.slice(12).join('.')}]`;
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push((bytes[i] << 8) | bytes[i + 1]);
+
+  // RFC 5952 compression: replace the longest run (>= 2) of zero groups with "::".
+  let bestStart = -1;
+  let bestLen = 0;
+  for (let i = 0; i < groups.length; i++) {
+    if (groups[i] !== 0) continue;
+    let len = 0;
+    while (i + len < groups.length && groups[i + len] === 0) len++;
+    if (len > bestLen && len >= 2) {
+      bestStart = i;
+      bestLen = len;
+    }
+    i += len;
+  }
+
+  const hexGroups = groups.map(g => g.toString(16));
+  if (bestStart === -1) return `[${hexGroups.join(':')}]`;
+
+  const head = hexGroups.slice(0, bestStart).join(':');
+  const tail = hexGroups.slice(bestStart + bestLen).join(':');
+  return `[${head}::${tail}]`;
+}
+
+/**
+ * Parses one `/proc/net` socket table, keeping rows in the given state.
+ *
+ * Row layout (whitespace-separated, 0-indexed), shared by the TCP and UDP tables:
+ *   0:sl  1:local_address  2:rem_address  3:st  4:tx_queue:rx_queue
+ *   5:tr:tm->when  6:retrnsmt  7:uid  8:timeout  9:inode  ...
+ */
+function parseProcNetTable(content: string, state: string, protocol: PortProtocol): ProcSocket[] {
+  const sockets: ProcSocket[] = [];
+
+  // slice(1) skips the "sl local_address rem_address ..." header row
+  for (const line of content.trim().split('\n').slice(1)) {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 10) continue;
+    if (parts[3] !== state) continue;
+
+    const local = parts[1];
+    const colon = local.indexOf(':');
+    if (colon === -1) continue;
+
+    const port = parseInt(local.slice(colon + 1), 16);
+    // Port 0 means the UDP socket was never bound (e.g. a send-only client).
+    if (isNaN(port) || port === 0) continue;
+
+    sockets.push({
+      protocol,
+      address: decodeProcAddress(local.slice(0, colon)),
+      port,
+      uid: parts[7],
+      inode: parts[9],
+    });
+  }
+
+  return sockets;
+}
+
+/**
+ * Parses the contents of `/proc/net/tcp` or `/proc/net/tcp6` and returns the
+ * sockets in the LISTEN state, or in `state` when given (e.g. `'01'` for
+ * ESTABLISHED connections).
+ *
+ * @param content - Full file contents, including the header row
+ * @param state - Two-digit hex TCP state to keep
+ * @returns Matching sockets in file order
+ */
+export function parseProcNetTcp(content: string, state: string = TCP_LISTEN_STATE): ProcSocket[] {
+  return parseProcNetTable(content, state, 'tcp');
+}
+
+/**
+ * Parses the contents of `/proc/net/udp` or `/proc/net/udp6` and returns the
+ * bound, unconnected sockets. Connected UDP sockets (state `01`) are clients
+ * with a fixed peer and are not listeners.
+ *
+ * @param content - Full file contents, including the header row
+ * @returns Bound sockets in file order
+ */
+export function parseProcNetUdp(content: string): ProcSocket[] {
+  return parseProcNetTable(content, UDP_UNCONNECTED_STATE, 'udp');
+}
+
+/**
+ * Scans `/proc/<pid>/fd` for every visible process and returns, for each
+ * requested socket inode, the PIDs holding a descriptor to it.
+ *
+ * A listening socket can legitimately belong to several processes — e.g. a
+ * pre-fork server whose workers inherit the parent's socket — so each inode
+ * maps to a list, and each owner yields its own row (as with lsof).
+ *
+ * Processes that exit mid-scan or whose fd directory is unreadable (other
+ * users' processes when not root) are skipped silently. The scan checks
+ * `signal` between processes, since it is the slow part on busy hosts.
+ */
+async function findSocketOwners(inodes: Set<string>, signal?: AbortSignal): Promise<Map<string, string[]>> {
+  const owners = new Map<string, string[]>();
+
+  for (const pid of await readdir('/proc')) {
+    if (!/^\d+$/.test(pid)) continue;
+    signal?.throwIfAborted();
+
+    let fds: string[];
+    try {
+      fds = await readdir(`/proc/${pid}/fd`);
+    } catch {
+      continue;
+    }
+
+    // Descriptors closed mid-scan resolve to '' and simply never match.
+    const targets = await Promise.all(
+      fds.map(fd => readlink(`/proc/${pid}/fd/${fd}`).catch(() => '')),
+    );
+
+    for (const target of targets) {
+      const match = /^socket:\[(\d+)\]$/.exec(target);
+      if (!match || !inodes.has(match[1])) continue;
+
+      const pids = owners.get(match[1]) ?? [];
+      // A process may hold the same socket on several fds (e.g. after dup2).
+      if (!pids.includes(pid)) pids.push(pid);
+      owners.set(match[1], pids);
+    }
+  }
+
+  return owners;
+}
+
+/**
+ * Reads `/etc/passwd` into a UID → user name map.
+ * Returns an empty map when the file is missing (some distroless images).
+ */
+async function readUserNames(): Promise<Map<string, string>> {
+  const users = new Map<string, string>();
+  try {
+    for (const line of (await readFile('/etc/passwd', 'utf8')).split('\n')) {
+      // name:password:uid:gid:gecos:home:shell
+      const fields = line.split(':');
+      if (fields.length >= 3 && !users.has(fields[2])) users.set(fields[2], fields[0]);
+    }
+  } catch {
+    // Fall back to numeric UIDs below.
+  }
+  return users;
+}
+
+/**
+ * Reads the process name from `/proc/<pid>/comm`.
+ * The kernel caps comm at 15 characters, the same limit lsof hits on Linux.
+ */
+async function readProcessName(pid: string): Promise<string> {
+  try {
+    return (await readFile(`/proc/${pid}/comm`, 'utf8')).trim();
+  } catch {
+    return '?';
+  }
+}
+
+/**
+ * Reads an optional socket table, resolving an empty list when it is missing.
+ * The kernel omits the IPv6 tables when built without IPv6, and the UDP
+ * tables can be hidden by sandboxes that still expose TCP.
+ */
+async function readOptionalTable(path: string, parse: (content: string) => ProcSocket[]): Promise<ProcSocket[]> {
+  try {
+    return parse(await readFile(path, 'utf8'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Collects listening TCP and bound UDP ports by reading procfs directly.
+ *
+ * Rejects when `/proc/net/tcp` itself is unreadable (non-Linux system or a
+ * sandbox without procfs), or when `signal` is aborted. The other tables
+ * are optional (see {@link readOptionalTable}).
+ *
+ * @returns Array of {@link PortEntry} objects sorted by port number ascending,
+ *          normalized and deduplicated with the same rules as the lsof parser.
+ */
+async function collect(signal?: AbortSignal): Promise<PortEntry[]> {
+  const [tcp, tcp6] = PROC_NET_TCP_FILES;
+  const [udp, udp6] = PROC_NET_UDP_FILES;
+  const sockets = [
+    ...parseProcNetTcp(await readFile(tcp, 'utf8')),
+    ...await readOptionalTable(tcp6, parseProcNetTcp),
+    ...await readOptionalTable(udp, parseProcNetUdp),
+    ...await readOptionalTable(udp6, parseProcNetUdp),
+  ];
+  if (sockets.length === 0) return [];
+
+  const owners = await findSocketOwners(new Set(sockets.map(s => s.inode)), signal);
+  const users = await readUserNames();
+  const names = new Map<string, string>();
+
+  const ports: PortEntry[] = [];
+  for (const socket of sockets) {
+    for (const pid of owners.get(socket.inode) ?? []) {
+      let name = names.get(pid);
+      if (name === undefined) {
+        name = await readProcessName(pid);
+        names.set(pid, name);
+      }
+      ports.push({
+        port: socket.port,
+        protocol: socket.protocol,
+        process: name,
+        pid,
+        user: users.get(socket.uid) ?? socket.uid,
+        address: normalizeAddress(socket.address),
+      });
+    }
+  }
+
+  return dedupePorts(ports);
+}
+
+/** The procfs backend. */
+export const procfsSource: PortSource = {
+  name: 'procfs',
+  platforms: ['linux'],
+  collect,
+};
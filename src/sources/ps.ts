@@ -0,0 +1,60 @@
+/**
+ * @module sources/ps
+ *
+ * Looks up process owner and name via `ps` for sources whose native output
+ * lacks them: `ss` reports no user, and `netstat -anv` reports only a PID (or
+ * a truncated `name:pid`).
+ *
+ * `ps -o pid=,user=,comm= -p <list>` is understood by both the BSD (macOS)
+ * and procps (Linux) implementations; the trailing `=` suppresses headers.
+ */
+import { basename } from 'path';
+import { runCommand, CommandError } from '../utils/runCommand.js';
+
+/** Maximum milliseconds to wait for ps. */
+const PS_TIMEOUT_MS = 5000;
+
+/** Owner and name of a running process. */
+export interface ProcessOwner {
+  /** Login name of the process owner. */
+  user: string;
+  /** Executable name, without directory (macOS `comm` is a full path). */
+  process: string;
+}
+
+/**
+ * Parses `ps -o pid=,user=,comm=` output into a PID → owner map.
+ * `comm` is the last column and may contain spaces (macOS app bundles), so
+ * only the first two fields are split off.
+ */
+export function parsePs(output: string): Map<string, ProcessOwner> {
+  const owners = new Map<string, ProcessOwner>();
+  for (const line of output.split('\n')) {
+    const match = /^\s*(\d+)\s+(\S+)\s+(.+?)\s*$/.exec(line);
+    if (!match) continue;
+    owners.set(match[1], { user: match[2], process: basename(match[3]) });
+  }
+  return owners;
+}
+
+/**
+ * Resolves owner and name for a batch of PIDs with a single `ps` call.
+ *
+ * Never rejects: a missing `ps` binary, a timeout, or PIDs that exited in the
+ * meantime simply yield fewer map entries, and callers fall back to
+ * placeholders. Enrichment is best-effort; the port list itself is still
+ * valid without it.
+ */
+export async function lookupProcessOwners(pids: string[], signal?: AbortSignal): Promise<Map<string, ProcessOwner>> {
+  if (pids.length === 0) return new Map();
+  try {
+    const output = await runCommand('ps', ['-o', 'pid=,user=,comm=', '-p', pids.join(',')], {
+      timeoutMs: PS_TIMEOUT_MS,
+      signal,
+    });
+    return parsePs(output);
+  } catch (err) {
+    // ps exits 1 when some of the PIDs no longer exist but still prints the rest.
+    return err instanceof CommandError ? parsePs(err.stdout) : new Map();
+  }
+}
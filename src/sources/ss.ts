@@ -0,0 +1,93 @@
+/**
+ * @module sources/ss
+ *
+ * Port source backed by `ss` from iproute2, which ships with virtually every
+ * modern Linux distribution even where `lsof` is not installed.
+ *
+ * **Why `ss -ltunp`?**
+ * - `-l` Only listening sockets. For UDP these are the bound, unconnected
+ *        sockets, which ss reports in the `UNCONN` state.
+ * - `-t` `-u` TCP and UDP; with both, ss prefixes each row with a Netid column.
+ * - `-n` Numeric addresses and ports; no DNS or /etc/services lookups.
+ * - `-p` Include the owning process(es) as `users:(("name",pid=N,fd=M),...)`.
+ *
+ * `ss` does not print the owning user, so it is resolved afterwards with a
+ * single `ps` call (see {@link lookupProcessOwners}).
+ */
+import type { PortEntry, PortSource } from '../types.js';
+import { normalizeAddress, dedupePorts } from '../utils/normalizePorts.js';
+import { runCommand } from '../utils/runCommand.js';
+import { lookupProcessOwners } from './ps.js';
+
+/** Maximum milliseconds to wait for ss. */
+const SS_TIMEOUT_MS = 5000;
+
+/** Matches one `("name",pid=N,fd=M)` tuple inside the users:(...) column. */
+const SS_USER_PATTERN = /\("((?:[^"\\]|\\.)*)",pid=(\d+),fd=\d+\)/g;
+
+/**
+ * Parses raw `ss -ltunp` output.
+ *
+ * Row layout (whitespace-separated, 0-indexed):
+ *   0:Netid  1:State  2:Recv-Q  3:Send-Q  4:Local Address:Port  5:Peer Address:Port  6:Process
+ *
+ * Only `tcp` rows in `LISTEN` and `udp` rows in `UNCONN` are kept, so the
+ * parser stays correct even if ss lists other socket kinds.
+ *
+ * A socket held by several processes (pre-fork servers) lists several tuples
+ * in the Process column; each produces its own row, matching lsof. Sockets
+ * with no Process column belong to other users and are invisible without
+ * root — they are skipped, as lsof would not report them either.
+ *
+ * The `user` field is left empty here; {@link ssSource} fills it in.
+ *
+ * @param output - Full stdout of ss, including the header row
+ * @returns Array of {@link PortEntry} objects sorted by port number ascending
+ */
+export function parseSs(output: string): PortEntry[] {
+  const ports: PortEntry[] = [];
+
+  for (const line of output.trim().split('\n')) {
+    const parts = line.trim().split(/\s+/);
+    const protocol = parts[0] === 'tcp' && parts[1] === 'LISTEN' ? 'tcp'
+      : parts[0] === 'udp' && parts[1] === 'UNCONN' ? 'udp'
+      : null;
+    if (!protocol || parts.length < 7) continue;
+
+    const local = parts[4];
+    const lastColon = local.lastIndexOf(':');
+    if (lastColon === -1) continue;
+
+    const port = parseInt(local.slice(lastColon + 1), 10);
+    if (isNaN(port)) continue;
+
+    // ss appends the interface scope to bound addresses ("127.0.0.53%lo",
+    // "[fe80::1%eth0]"); lsof omits it, so strip it for consistent output.
+    const address = normalizeAddress(local.slice(0, lastColon).replace(/%[^\]]*/, ''));
+
+    for (const match of parts.slice(6).join(' ').matchAll(SS_USER_PATTERN)) {
+      ports.push({ port, protocol, process: match[1], pid: match[2], user: '', address });
+    }
+  }
+
+  return dedupePorts(ports);
+}
+
+/**
+ * Runs `ss -ltunp` and resolves the owning users through `ps`.
+ * Rejects when ss is missing or fails.
+ */
+async function collect(signal?: AbortSignal): Promise<PortEntry[]> {
+  const output = await runCommand('ss', ['-ltunp'], { timeoutMs: SS_TIMEOUT_MS, signal });
+
+  const ports = parseSs(output);
+  const owners = await lookupProcessOwners([...new Set(ports.map(p => p.pid))], signal);
+  return ports.map(p => ({ ...p, user: owners.get(p.pid)?.user ?? '?' }));
+}
+
+/** The ss backend. */
+export const ssSource: PortSource = {
+  name: 'ss',
+  platforms: ['linux'],
+  collect,
+};
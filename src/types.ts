@@ -13,12 +13,131 @@
  */
 
 /**
- * Represents a single listening TCP port entry returned by lsof.
+ * Transport protocol of a port entry.
+ * - `'tcp'` — a TCP socket in the LISTEN state
+ * - `'udp'` — a bound, unconnected UDP socket (UDP has no LISTEN state; a
+ *             socket bound to a local port without a fixed peer is the
+ *             equivalent of a listener)
+ */
+export type PortProtocol = 'tcp' | 'udp';
+
+/**
+ * Which protocols the port list currently shows. Cycled with `p`.
+ * `'all'` shows TCP and UDP entries together.
+ */
+export type ProtocolFilter = 'all' | PortProtocol;
+
+/**
+ * Field the port list is ordered by. Ports are the default; ties are always
+ * broken by port so the order is stable across polls.
+ */
+export type SortKey = 'port' | 'protocol' | 'process' | 'pid' | 'user' | 'address';
+
+/** Direction of a {@link SortKey}. */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * How an entry changed between two snapshots: it is new, or it is gone. The
+ * list highlights both for a few seconds after a refresh.
+ */
+export type PortChange = 'opened' | 'closed';
+
+/**
+ * How the text of a search query is matched. Cycled with tab.
+ * - `'substring'` — case-insensitive substring (the default)
+ * - `'fuzzy'` — the characters in order with gaps allowed, tolerating a
+ *               typo in longer words; results are ranked best match first
+ * - `'regex'` — a case-insensitive JavaScript regular expression
+ */
+export type SearchMode = 'substring' | 'fuzzy' | 'regex';
+
+/**
+ * What the port list is grouped by. Cycled with `b`.
+ * - `'none'` — one row per port (the default)
+ * - `'pid'` — one group per process
+ * - `'process'` — one group per process name, e.g. an nginx master and its workers
+ * - `'user'` — one group per user
+ */
+export type GroupBy = 'none' | 'pid' | 'process' | 'user';
+
+/**
+ * A column of the port table, as named in the `columns` config setting.
+ * COMMAND also needs a wide enough terminal to be shown.
+ */
+export type ColumnId = 'port' | 'protocol' | 'process' | 'user' | 'pid' | 'address' | 'command';
+
+/**
+ * Something a key can be bound to in the interactive UI. Each action has
+ * default keys in the keymap registry (utils/keymap) that the `keys` config
+ * setting can replace.
+ */
+export type KeyAction =
+  | 'moveUp'
+  | 'moveDown'
+  | 'top'
+  | 'bottom'
+  | 'pageUp'
+  | 'pageDown'
+  | 'halfPageUp'
+  | 'halfPageDown'
+  | 'goToPort'
+  | 'kill'
+  | 'forceKill'
+  | 'signal'
+  | 'mark'
+  | 'markAll'
+  | 'invertMarks'
+  | 'search'
+  | 'searchMode'
+  | 'filters'
+  | 'applyFilter'
+  | 'saveFilter'
+  | 'clear'
+  | 'details'
+  | 'protocol'
+  | 'sort'
+  | 'reverseSort'
+  | 'group'
+  | 'collapse'
+  | 'collapseAll'
+  | 'timeline'
+  | 'exportTimeline'
+  | 'refresh'
+  | 'help'
+  | 'quit'
+  | 'confirm'
+  | 'cancel';
+
+/**
+ * Signals that can be sent from the UI: the two that terminate a process,
+ * plus the ones servers commonly handle — SIGHUP to reload configuration,
+ * SIGINT as if ctrl+c were pressed, SIGUSR1/SIGUSR2 for debug dumps or log
+ * rotation, and SIGSTOP/SIGCONT to pause and resume.
+ */
+export type SignalName =
+  | 'SIGTERM'
+  | 'SIGKILL'
+  | 'SIGHUP'
+  | 'SIGINT'
+  | 'SIGUSR1'
+  | 'SIGUSR2'
+  | 'SIGSTOP'
+  | 'SIGCONT';
+
+/**
+ * Represents a single listening port entry returned by a port source.
  */
 export interface PortEntry {
-  /** Numeric TCP port number the process is listening on. */
+  /** Numeric port number the process is listening on. */
   port: number;
 
+  /**
+   * Transport protocol of the socket. The same port number can be bound
+   * independently for TCP and UDP (e.g. a DNS server on 53), producing two
+   * distinct entries.
+   */
+  protocol: PortProtocol;
+
   /**
    * Process name as reported by lsof (the COMMAND column).
    * Note: macOS truncates long process names in lsof output; this value
@@ -44,6 +163,71 @@ export interface PortEntry {
 
   /** OS user account that owns the process, as reported by lsof's USER column. */
   user: string;
+
+  /**
+   * Full command line (argv joined with spaces), e.g. `node server.js --port 3000`.
+   * Unlike `process`, this usually tells apart two listeners that are both
+   * `node`. Undefined when the process could not be inspected.
+   */
+  command?: string;
+
+  /** Working directory of the process — typically the project root. Undefined when unreadable. */
+  cwd?: string;
+
+  /** Absolute path of the running executable. Undefined when unreadable. */
+  exe?: string;
+}
+
+/**
+ * Process-level facts shown in the detail pane that no port source reports.
+ * Looked up on demand for the selected PID only; every field is optional
+ * because each lookup can fail independently (e.g. permissions).
+ */
+export interface ProcessInfo {
+  /** Parent process ID. */
+  ppid?: string;
+
+  /** Short name of the parent process. */
+  parentName?: string;
+
+  /** When the process started, as epoch milliseconds. */
+  startTime?: number;
+
+  /** Number of ESTABLISHED TCP connections the process currently holds. */
+  established?: number;
+}
+
+/**
+ * Identifier of a port collection backend, as accepted by `--source`.
+ * - `'lsof'`    — `lsof -nP -iTCP -sTCP:LISTEN -iUDP` (macOS and Linux)
+ * - `'ss'`      — `ss -ltunp` from iproute2 (Linux)
+ * - `'netstat'` — `netstat -anv` in its BSD flavour (macOS)
+ * - `'procfs'`  — reads `/proc/net/{tcp,udp}{,6}` directly, no external binary (Linux)
+ */
+export type PortSourceName = 'lsof' | 'ss' | 'netstat' | 'procfs';
+
+/**
+ * A backend that can enumerate listening TCP ports and bound UDP ports.
+ *
+ * Every source produces the same normalized, deduplicated, port-sorted
+ * `PortEntry[]`, so the rest of the app never needs to know which one ran.
+ */
+export interface PortSource {
+  /** Registry key, also the value accepted by `--source`. */
+  name: PortSourceName;
+
+  /** Platforms the backend's output format is understood on. */
+  platforms: NodeJS.Platform[];
+
+  /**
+   * Collects the current listening ports without blocking the event loop.
+   *
+   * Rejects when the backend is unusable (binary missing, permission denied,
+   * timeout) or when `signal` is aborted. Auto-detection relies on this: a
+   * source that rejects is skipped in favour of the next one, whereas an
+   * empty array is a valid answer.
+   */
+  collect(signal?: AbortSignal): Promise<PortEntry[]>;
 }
 
 /**
@@ -55,13 +239,16 @@ export interface PortEntry {
 export type AppMode = 'navigate' | 'search';
 
 /**
- * Transient feedback message displayed in the StatusBar after a kill attempt.
- * Auto-clears after 2 seconds via a useEffect timer.
+ * Feedback message displayed in the StatusBar during and after a kill attempt.
+ * Success and error messages auto-clear after 2 seconds via a useEffect timer;
+ * a progress message stays until the kill settles and replaces it.
  *
- * @property type - `'success'` renders green; `'error'` renders red
- * @property text - Human-readable description, e.g. "Killed nginx (1234)" or "Failed: EPERM"
+ * @property type - `'success'` renders green; `'error'` renders red;
+ *                  `'progress'` renders yellow while a graceful kill is waiting
+ * @property text - Human-readable description, e.g. "Killed nginx (1234) with SIGTERM",
+ *                  "Terminating nginx (1234)…" or "Failed: EPERM"
  */
 export interface KillMessage {
-  type: 'success' | 'error';
+  type: 'success' | 'error' | 'progress';
   text: string;
 }
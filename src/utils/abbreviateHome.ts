@@ -0,0 +1,32 @@
+/**
+ * @module abbreviateHome
+ *
+ * Display helper for filesystem paths shown in the port table.
+ */
+import { homedir } from 'os';
+
+/**
+ * Replaces the current user's home directory prefix with `~`.
+ *
+ * Working directories are almost always under the home directory, and the
+ * prefix is pure noise in a narrow column: `/Users/alice/code/api` reads
+ * better as `~/code/api`. Only whole path segments are replaced, so a
+ * sibling such as `/Users/alice2` is left alone.
+ *
+ * @param path - Absolute path
+ * @param home - Home directory to abbreviate; defaults to `os.homedir()`
+ * @returns The abbreviated path, or `path` unchanged when outside `home`
+ *
+ * @example
+ * ```typescript
+ * abbreviateHome('/home/alice/code/api', '/home/alice')  // => '~/code/api'
+ * abbreviateHome('/home/alice', '/home/alice')           // => '~'
+ * abbreviateHome('/srv/app', '/home/alice')              // => '/srv/app'
+ * ```
+ */
+export function abbreviateHome(path: string, home: string = homedir()): string {
+  if (!home || home === '/') return path;
+  if (path === home) return '~';
+  if (path.startsWith(home + '/')) return '~' + path.slice(home.length);
+  return path;
+}
@@ -0,0 +1,283 @@
+/**
+ * @module config
+ *
+ * Settings for the interactive UI, read from two optional JSON files:
+ *
+ * - `$XDG_CONFIG_HOME/ports-cli/config.json` (`~/.config/...` when the
+ *   variable is unset) for personal defaults;
+ * - `.portsrc` in the current directory or the nearest parent that has one,
+ *   for settings a project wants everyone to share.
+ *
+ * Project settings override personal ones key by key, and command-line
+ * flags override both (see cli/interactive). Files are validated in full
+ * at startup: a typo in a key or value stops the UI with a message naming
+ * the file and the setting rather than being silently ignored.
+ */
+import { readFileSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { ColumnId, GroupBy, ProtocolFilter, SearchMode, SortKey, SortOrder } from '../types.js';
+import { KILL_SIGNALS, parseSignalName } from './killPort.js';
+import type { KillSignal } from './killPort.js';
+import { PROTOCOL_FILTERS, SEARCH_MODES } from './filterPorts.js';
+import { SORT_KEYS } from './sortPorts.js';
+import { GROUP_BYS } from './groupPorts.js';
+import { DEFAULT_POLL_INTERVAL_MS } from './portPoller.js';
+import { parseDurationMs } from './parseDuration.js';
+import { parseQuery } from './parseQuery.js';
+import { KEY_ACTION_NAMES, createKeymap, parseChord } from './keymap.js';
+import type { KeyBindings } from './keymap.js';
+
+/** Resolved settings of the interactive UI. */
+export interface PortsConfig {
+  /** Milliseconds between automatic polls. */
+  refreshIntervalMs: number;
+  /** Search query the UI starts with. */
+  filter: string;
+  /** How the search query's text is matched. */
+  searchMode: SearchMode;
+  /** Protocol filter the UI starts with. */
+  protocol: ProtocolFilter;
+  /** Column the list is ordered by. */
+  sort: SortKey;
+  sortOrder: SortOrder;
+  /** What the rows are grouped by. */
+  groupBy: GroupBy;
+  /** Columns to show, rendered in table order whatever order they are listed in. */
+  columns: ColumnId[];
+  /** Signal a kill starts with; SIGKILL skips the grace period. */
+  killSignal: KillSignal;
+  /**
+   * Milliseconds to wait after `killSignal` before escalating to SIGKILL.
+   * 0 sends SIGKILL immediately.
+   */
+  killGraceMs: number;
+  /** Whether kills and signals ask for confirmation first. */
+  confirmKill: boolean;
+  /** Whether the mouse selects, scrolls and sorts; see utils/mouse. */
+  mouse: boolean;
+  /** Key bindings that replace the defaults of the keymap registry. */
+  keys: KeyBindings;
+}
+
+/** Every {@link ColumnId}, in table order. */
+export const COLUMN_IDS: readonly ColumnId[] = ['port', 'protocol', 'process', 'user', 'pid', 'address', 'command'];
+
+/** Settings used where neither a config file nor a flag says otherwise. */
+export const DEFAULT_CONFIG: PortsConfig = {
+  refreshIntervalMs: DEFAULT_POLL_INTERVAL_MS,
+  filter: '',
+  searchMode: 'substring',
+  protocol: 'all',
+  sort: 'port',
+  sortOrder: 'asc',
+  groupBy: 'none',
+  columns: [...COLUMN_IDS],
+  killSignal: 'SIGTERM',
+  killGraceMs: 3000,
+  confirmKill: true,
+  mouse: true,
+  keys: {},
+};
+
+/**
+ * Shortest accepted refresh interval. Each poll runs lsof (or an equivalent)
+ * in a child process; polling faster than this mostly burns CPU.
+ */
+export const MIN_REFRESH_INTERVAL_MS = 250;
+
+/** File name of the personal config, inside `$XDG_CONFIG_HOME/ports-cli`. */
+const CONFIG_FILE_NAME = 'config.json';
+/** File name of the project config, looked up from the working directory upwards. */
+export const PROJECT_CONFIG_FILE_NAME = '.portsrc';
+
+/**
+ * Thrown when a config file cannot be read, is not valid JSON or contains an
+ * invalid setting. The message names the file.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/** `"a", "b" or "c"` */
+function quoteList(values: readonly string[]): string {
+  const quoted = values.map(v => JSON.stringify(v));
+  return quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}` : quoted.join('');
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[]): T {
+  const match = allowed.find(a => a === value);
+  if (match === undefined) throw new Error(`must be ${quoteList(allowed)} (got ${JSON.stringify(value)})`);
+  return match;
+}
+
+/** Durations are written like `--timeout`: `"500ms"`, `"2s"`, or a number of seconds. */
+function duration(value: unknown, minMs: number): number {
+  const ms = typeof value === 'number' || typeof value === 'string' ? parseDurationMs(String(value)) : null;
+  if (ms === null) throw new Error(`must be a duration such as "2s" or "500ms" (got ${JSON.stringify(value)})`);
+  if (ms < minMs) throw new Error(`must be at least ${minMs}ms (got ${JSON.stringify(value)})`);
+  return ms;
+}
+
+/**
+ * Validators for each key of a config file, producing the {@link PortsConfig}
+ * fields it sets. Keys are named for the user: durations drop the `Ms`
+ * suffix because they accept units.
+ */
+const SETTINGS: Record<string, (value: unknown) => Partial<PortsConfig>> = {
+  refreshInterval: value => ({ refreshIntervalMs: duration(value, MIN_REFRESH_INTERVAL_MS) }),
+  // Whether the query parses depends on the search mode, which another file
+  // may set; loadConfig checks it once both files are merged.
+  filter: value => {
+    if (typeof value !== 'string') throw new Error(`must be a string (got ${JSON.stringify(value)})`);
+    return { filter: value };
+  },
+  searchMode: value => ({ searchMode: oneOf(value, SEARCH_MODES) }),
+  protocol: value => ({ protocol: oneOf(value, PROTOCOL_FILTERS) }),
+  sort: value => ({ sort: oneOf(value, SORT_KEYS) }),
+  sortOrder: value => ({ sortOrder: oneOf(value, ['asc', 'desc'] as const) }),
+  groupBy: value => ({ groupBy: oneOf(value, GROUP_BYS) }),
+  columns: value => {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error(`must be a non-empty array of ${quoteList(COLUMN_IDS)}`);
+    }
+    const columns = value.map(v => oneOf(v, COLUMN_IDS));
+    return { columns: COLUMN_IDS.filter(c => columns.includes(c)) };
+  },
+  killSignal: value => {
+    const signal = typeof value === 'string' ? parseSignalName(value) : null;
+    const killSignal = KILL_SIGNALS.find(s => s === signal);
+    if (!killSignal) throw new Error(`must be ${quoteList(KILL_SIGNALS)} (got ${JSON.stringify(value)})`);
+    return { killSignal };
+  },
+  killGrace: value => ({ killGraceMs: duration(value, 0) }),
+  confirmKill: value => {
+    if (typeof value !== 'boolean') throw new Error(`must be true or false (got ${JSON.stringify(value)})`);
+    return { confirmKill: value };
+  },
+  mouse: value => {
+    if (typeof value !== 'boolean') throw new Error(`must be true or false (got ${JSON.stringify(value)})`);
+    return { mouse: value };
+  },
+  keys: value => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error('must be an object mapping actions to keys, e.g. { "quit": "x" }');
+    }
+    const keys: KeyBindings = {};
+    for (const [name, chords] of Object.entries(value)) {
+      const action = KEY_ACTION_NAMES.find(a => a === name);
+      if (!action) throw new Error(`has an unknown action "${name}" (expected one of ${KEY_ACTION_NAMES.join(', ')})`);
+      const list: unknown[] = Array.isArray(chords) ? chords : [chords];
+      keys[action] = list.map(text => {
+        const chord = typeof text === 'string' ? parseChord(text) : null;
+        if (chord === null) {
+          throw new Error(`has an invalid key ${JSON.stringify(text)} for ${action} (expected e.g. "x", "enter", "up" or "ctrl+k")`);
+        }
+        return chord;
+      });
+    }
+    createKeymap(keys);
+    return { keys };
+  },
+};
+
+/** Keys accepted in a config file. */
+export const CONFIG_KEYS: readonly string[] = Object.keys(SETTINGS);
+
+/**
+ * Validates the parsed contents of a config file.
+ *
+ * @param json - Result of `JSON.parse`
+ * @param source - File the contents came from, for error messages
+ * @returns The settings the file sets; keys it omits are absent
+ * @throws {ConfigError} Naming the first unknown key or invalid value
+ */
+export function parseConfig(json: unknown, source: string): Partial<PortsConfig> {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new ConfigError(`${source}: expected a JSON object`);
+  }
+  let config: Partial<PortsConfig> = {};
+  for (const [key, value] of Object.entries(json)) {
+    const validate = Object.hasOwn(SETTINGS, key) ? SETTINGS[key] : undefined;
+    if (!validate) {
+      throw new ConfigError(`${source}: unknown setting "${key}" (expected one of ${CONFIG_KEYS.join(', ')})`);
+    }
+    try {
+      config = { ...config, ...validate(value) };
+    } catch (err) {
+      throw new ConfigError(`${source}: "${key}" ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return config;
+}
+
+/** Path of the personal config file, whether or not it exists. */
+export function globalConfigPath(env: NodeJS.ProcessEnv = process.env, home: string = homedir()): string {
+  return join(env.XDG_CONFIG_HOME || join(home, '.config'), 'ports-cli', CONFIG_FILE_NAME);
+}
+
+/** Path of the nearest `.portsrc` in `cwd` or one of its parents, or null. */
+export function findProjectConfig(cwd: string = process.cwd()): string | null {
+  for (let dir = cwd; ; dir = dirname(dir)) {
+    const path = join(dir, PROJECT_CONFIG_FILE_NAME);
+    if (existsSync(path)) return path;
+    if (dirname(dir) === dir) return null;
+  }
+}
+
+/** Reads and validates one config file; a missing file sets nothing. */
+function readConfigFile(path: string): Partial<PortsConfig> {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf-8');
+  } catch (err) {
+    if (err instanceof Error && 'code' in err && err.code === 'ENOENT') return {};
+    throw new ConfigError(`${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    throw new ConfigError(`${path}: invalid JSON (${err instanceof Error ? err.message : String(err)})`);
+  }
+  return parseConfig(json, path);
+}
+
+/** Where {@link loadConfig} looks; defaults to the real environment. */
+export interface ConfigLocation {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  home?: string;
+}
+
+/**
+ * Reads the personal and project config files and merges them over
+ * {@link DEFAULT_CONFIG}. The `filter` setting is checked against the merged
+ * `searchMode`, so a regex filter is validated as a regex.
+ *
+ * @throws {ConfigError} When either file exists but is invalid
+ */
+export function loadConfig({ cwd, env, home }: ConfigLocation = {}): PortsConfig {
+  const project = findProjectConfig(cwd);
+  const globalSettings = readConfigFile(globalConfigPath(env, home));
+  const projectSettings = project ? readConfigFile(project) : {};
+  // Key bindings merge action by action, so a project can rebind one key
+  // without dropping the personal bindings.
+  const keys = { ...globalSettings.keys, ...projectSettings.keys };
+  try {
+    createKeymap(keys);
+  } catch (err) {
+    throw new ConfigError(`${project}: "keys" ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const config = { ...DEFAULT_CONFIG, ...globalSettings, ...projectSettings, keys };
+  try {
+    parseQuery(config.filter, config.searchMode);
+  } catch (err) {
+    const source = projectSettings.filter !== undefined ? project : globalConfigPath(env, home);
+    throw new ConfigError(`${source}: "filter" must be a valid ${config.searchMode} search query (${err instanceof Error ? err.message : String(err)})`);
+  }
+  return config;
+}
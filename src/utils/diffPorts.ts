@@ -0,0 +1,30 @@
+/**
+ * @module diffPorts
+ *
+ * Compares two port snapshots. Entries are matched by {@link portKey}, the
+ * identity collectors already deduplicate on, so a server that restarts
+ * under a new PID shows up as one binding closed and another opened.
+ */
+import type { PortEntry } from '../types.js';
+import { portKey } from './normalizePorts.js';
+
+/** Bindings that appeared and disappeared between two snapshots. */
+export interface PortDiff {
+  /** Entries of the next snapshot missing from the previous one, in snapshot order. */
+  opened: PortEntry[];
+  /** Entries of the previous snapshot missing from the next one, in snapshot order. */
+  closed: PortEntry[];
+}
+
+/**
+ * Diffs `previous` against `next`. Entries present in both are ignored,
+ * even if details such as the command line changed.
+ */
+export function diffPorts(previous: readonly PortEntry[], next: readonly PortEntry[]): PortDiff {
+  const previousKeys = new Set(previous.map(portKey));
+  const nextKeys = new Set(next.map(portKey));
+  return {
+    opened: next.filter(p => !previousKeys.has(portKey(p))),
+    closed: previous.filter(p => !nextKeys.has(portKey(p))),
+  };
+}
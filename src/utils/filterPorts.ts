@@ -0,0 +1,47 @@
+/**
+ * @module filterPorts
+ *
+ * The search semantics shared by the TUI's search bar and the `--filter`
+ * option of the `ports list` command, so a query typed interactively selects
+ * exactly the rows a script would get.
+ */
+import type { PortEntry, ProtocolFilter, SearchMode } from '../types.js';
+import { compileQuery } from './parseQuery.js';
+
+/** Every {@link ProtocolFilter}, as accepted by `--protocol` and the config file. */
+export const PROTOCOL_FILTERS: readonly ProtocolFilter[] = ['all', 'tcp', 'udp'];
+
+/** Every {@link SearchMode}, in the order tab cycles through them. */
+export const SEARCH_MODES: readonly SearchMode[] = ['substring', 'fuzzy', 'regex'];
+
+/**
+ * Returns the entries matching `query` and `protocol`.
+ *
+ * `query` uses the query language of {@link compileQuery}: free text matches
+ * the process name, port, address, command line, working directory and
+ * executable path case-insensitively — so "api" finds the `node` whose cwd
+ * is ~/code/api — and `port:`, `user:`, `pid:`, `proc:` and `addr:` terms
+ * narrow by one field. Returns the full list when `query` is empty and
+ * `protocol` is `'all'`.
+ *
+ * In fuzzy mode the result is ranked best match first; entries that score
+ * the same keep their order, so a sorted list stays sorted among equals.
+ *
+ * @param ports - Entries to filter; not modified
+ * @param query - Search query; empty matches everything
+ * @param protocol - Restrict to one protocol, or `'all'`
+ * @param mode - How the query's text is matched
+ * @throws {QueryError} When `query` is invalid
+ */
+export function filterPorts(
+  ports: PortEntry[],
+  query: string,
+  protocol: ProtocolFilter = 'all',
+  mode: SearchMode = 'substring',
+): PortEntry[] {
+  const { matches, score } = compileQuery(query, mode);
+  const matching = ports.filter(p => (protocol === 'all' || p.protocol === protocol) && matches(p));
+  if (mode !== 'fuzzy') return matching;
+  const scores = new Map(matching.map(p => [p, score(p)]));
+  return matching.sort((a, b) => scores.get(b)! - scores.get(a)!);
+}
@@ -0,0 +1,48 @@
+/**
+ * @module formatDuration
+ *
+ * Compact human-readable durations for the detail pane's uptime.
+ */
+
+/** Milliseconds per unit, largest first, with the suffix printed for each. */
+const UNITS: Array<[suffix: string, ms: number]> = [
+  ['d', 86_400_000],
+  ['h', 3_600_000],
+  ['m', 60_000],
+  ['s', 1000],
+];
+
+/**
+ * Formats a duration as its two most significant units.
+ *
+ * Two units keep the value short enough for a one-line pane while staying
+ * precise where it matters: "3d 4h" for a long-running daemon, "2m 5s" for a
+ * dev server that just restarted.
+ *
+ * @param ms - Duration in milliseconds; negative values are treated as 0
+ * @returns e.g. `"3d 4h"`, `"2h"`, `"5m 3s"`, `"0s"`
+ *
+ * @example
+ * ```typescript
+ * formatDuration(93_784_000)  // => '1d 2h'
+ * formatDuration(7_200_000)   // => '2h'
+ * formatDuration(999)         // => '0s'
+ * ```
+ */
+export function formatDuration(ms: number): string {
+  let remaining = Math.max(0, Math.floor(ms));
+  const parts: string[] = [];
+
+  for (const [suffix, size] of UNITS) {
+    const value = Math.floor(remaining / size);
+    remaining -= value * size;
+    // Start at the first non-zero unit; after that, take the next unit even
+    // when it is zero so "2h" is not followed by a more precise "3s".
+    if (value > 0 || parts.length > 0) parts.push(`${value}${suffix}`);
+    if (parts.length === 2) break;
+  }
+
+  // Drop a trailing zero unit ("2h 0m" → "2h").
+  if (parts.length === 2 && parts[1].startsWith('0')) parts.pop();
+  return parts.length > 0 ? parts.join(' ') : '0s';
+}
@@ -1,144 +1,99 @@
 /**
  * @module getPorts
  *
- * Parses `lsof` output to produce a deduplicated list of all TCP ports
- * currently in the LISTEN state on the local machine.
+ * Entry point the UI uses to read the current listening ports. Delegates to
+ * one of the backends in the {@link PORT_SOURCES} registry: either the one
+ * chosen with `--source`, or the first one that works on this machine.
  *
- * **Why `lsof -nP -iTCP -sTCP:LISTEN +c 0`?**
- * - `-n`  Skip DNS reverse lookups. Without this, lsof queries DNS for every
- *         address it finds, which can add several seconds of latency.
- * - `-P`  Use numeric port numbers instead of looking up service names in
- *         /etc/services (e.g. `3000` instead of `hbci`).
- * - `-iTCP`       Filter to TCP sockets only; ignores UDP, pipes, files, etc.
- * - `-sTCP:LISTEN` Further filter to sockets in the LISTEN state only;
- *                  excludes ESTABLISHED, TIME_WAIT, and other transient states.
- * - `+c 0` Remove lsof's default 9-character truncation of the COMMAND column
- *          so long process names like "com.docker.backend" are shown in full.
+ * Auto-detection runs lazily on the first call and its winner is remembered,
+ * so the 2-second poll does not re-probe missing binaries every cycle. If the
+ * remembered backend later fails, the choice is forgotten and the next call
+ * detects again.
  *
- * **Why a 5-second timeout?**
- * `lsof` can hang indefinitely when the machine has stale NFS or network
- * mount points. The timeout ensures the CLI stays responsive even in those
- * environments. On failure or timeout we return an empty array rather than
- * crashing.
+ * Whatever the backend, every entry is then enriched with the command line,
+ * working directory and executable of its process (see {@link enrichPorts}).
+ * Those are remembered per process, so a poll only inspects processes that
+ * appeared since the previous one. Callers that never show them can skip the
+ * enrichment altogether.
  */
-import { execSync } from 'child_process';
-import type { PortEntry } from '../types.js';
-
-/** Maximum milliseconds to wait for lsof before treating the output as empty. */
-const LSOF_TIMEOUT_MS = 5000;
+import type { PortEntry, PortSource, PortSourceName } from '../types.js';
+import { detectPortSource, getPortSource } from '../sources/index.js';
+import { enrichPorts } from '../sources/processDetails.js';
+import type { ProcessDetailsCache } from '../sources/processDetails.js';
+
+/** Backend explicitly requested via {@link setPortSource}; null means auto-detect. */
+let requestedSource: PortSource | null = null;
+
+/** Backend that answered the last successful auto-detection. */
+let detectedSource: PortSource | null = null;
+
+/** Process details of the last enriched snapshot, reused by the next one. */
+const detailsCache: ProcessDetailsCache = new Map();
+
+/** Options for {@link getPorts}. */
+export interface GetPortsOptions {
+  /**
+   * Whether to add each process's command line, working directory and
+   * executable path. Defaults to true; commands that only need ports and
+   * PIDs pass false to save the lookups.
+   */
+  details?: boolean;
+}
 
 /**
- * Runs `lsof` and returns a sorted, deduplicated list of listening TCP ports.
+ * Selects the backend used by subsequent {@link getPorts} calls.
  *
- * @returns Array of {@link PortEntry} objects sorted by port number ascending.
- *          Returns an empty array if lsof is unavailable, times out, or
- *          produces no output.
+ * Accepts any string so CLI input can be passed straight through; validation
+ * happens in {@link getPortSource}.
+ *
+ * @param name - A registry name, or `'auto'` to restore auto-detection
+ * @throws Error when the name is unknown or unsupported on this platform
  */
-export function getPorts(): PortEntry[] {
-  try {
-    // +c 0 removes lsof's default 9-character truncation on the COMMAND column
-    // so process names like "com.docker.backend" are not clipped to "com.docke".
-    const output = execSync('lsof -nP -iTCP -sTCP:LISTEN +c 0 2>/dev/null', {
-      encoding: 'utf8',
-      timeout: LSOF_TIMEOUT_MS,
-    });
-
-    const lines = output.trim().split('\n');
-
-    // slice(1) skips the lsof header row:
-    // "COMMAND  PID  USER  FD  TYPE  DEVICE  SIZE/OFF  NODE  NAME"
-    const dataLines = lines.slice(1);
-
-    const seen = new Set<string>();
-    const ports: PortEntry[] = [];
-
-    for (const line of dataLines) {
-      // Skip empty lines that may appear in lsof output when processes exit
-      // between the time lsof starts and when it writes output
-      if (!line.trim()) continue;
-
-      const parts = line.trim().split(/\s+/);
-
-      // lsof columns (0-indexed):
-      //   0:COMMAND  1:PID  2:USER  3:FD  4:TYPE  5:DEVICE  6:SIZE/OFF  7:NODE  8:NAME
-      // NAME (index 8) holds the address:port string we need to parse.
-      // Any line with fewer than 9 columns is malformed; skip it.
-      //
-      // Malformed lines can occur when:
-      // - The process name contains whitespace (lsof would split it incorrectly)
-      // - A process exits mid-query and produces incomplete output
-      // - lsof hits an error reading a socket (e.g., permission denied)
-      if (parts.length < 9) continue;
-
-      const processName = parts[0];
-      const pid = parts[1];
-      const user = parts[2];
-      const addrPort = parts[8];
-
-      // Use lastIndexOf instead of indexOf to correctly split IPv6 addresses.
-      // An IPv6 NAME field looks like `[::1]:3000` — the host portion itself
-      // contains colons, so indexOf(':') would land inside the address rather
-      // than at the separator before the port number.
-      //
-      // Examples:
-      // - IPv4: "127.0.0.1:3000" → lastIndexOf finds the only colon
-      // - IPv6: "[::1]:8080" → lastIndexOf finds the colon after "]"
-      // - IPv6 wildcard: "[::]:5432" → lastIndexOf finds the final colon
-      const lastColon = addrPort.lastIndexOf(':');
-      if (lastColon === -1) continue; // No colon = malformed; skip
-
-      const rawAddr = addrPort.slice(0, lastColon);
-      const port = parseInt(addrPort.slice(lastColon + 1), 10);
-
-      if (isNaN(port)) continue;
+export function setPortSource(name: string): void {
+  requestedSource = name === 'auto' ? null : getPortSource(name);
+  detectedSource = null;
+}
 
-      // Normalize wildcard address variants to 0.0.0.0.
-      // lsof may report wildcard listeners as `*`, `0.0.0.0`, `[::]`, or `::`.
-      // All four mean "listening on all interfaces"; unify them so the UI can
-      // display and deduplicate them consistently.
-      //
-      // Why this matters:
-      // - Prevents duplicate rows for dual-stack processes (IPv4 + IPv6)
-      // - Gives users a consistent address representation
-      // - Simplifies filtering logic (search for "0.0.0.0" finds all wildcards)
-      let address = rawAddr;
-      if (address === '*' || address === '0.0.0.0' || address === '[::]' || address === '::') {
-        address = '0.0.0.0';
-      }
-      // Normalize IPv6 loopback to the equivalent IPv4 loopback address.
-      // `[::1]` and `::1` are the IPv6 form of 127.0.0.1; treating them as
-      // identical avoids confusing users who see two "localhost" rows.
-      if (address === '[::1]' || address === '::1') {
-        address = '127.0.0.1';
-      }
+/**
+ * Name of the backend currently in use, or null when auto-detection has not
+ * run yet (or found nothing).
+ */
+export function getActivePortSource(): PortSourceName | null {
+  return (requestedSource ?? detectedSource)?.name ?? null;
+}
 
-      // Deduplicate by address + port + PID.
-      // Many processes (e.g. node, python) bind dual-stack: they open one
-      // socket on `0.0.0.0` (IPv4) and another on `[::]` (IPv6) for the same
-      // port. After normalization both produce the same key, so we only keep
-      // the first row lsof reports rather than showing a duplicate entry.
-      //
-      // Edge case: Different PIDs on the same address:port are NOT duplicates
-      // (e.g., nginx master vs worker processes). The PID in the key ensures
-      // these are treated as distinct entries.
-      const key = `${address}:${port}:${pid}`;
-      if (seen.has(key)) continue;
-      seen.add(key);
+/**
+ * Collects a sorted, deduplicated list of listening TCP and bound UDP ports.
+ *
+ * Rejects instead of resolving an empty list on failure, so callers can tell
+ * "nothing is listening" apart from "the backend broke" — the UI keeps the
+ * last good snapshot in the latter case.
+ *
+ * @param signal - Aborting kills any running backend command
+ * @param options - See {@link GetPortsOptions}
+ * @returns Array of {@link PortEntry} objects sorted by port number ascending
+ * @throws When the selected backend fails, no backend works on this machine,
+ *         or `signal` is aborted
+ */
+export async function getPorts(signal?: AbortSignal, { details = true }: GetPortsOptions = {}): Promise<PortEntry[]> {
+  const ports = await collectPorts(signal);
+  return details ? enrichPorts(ports, process.platform, signal, detailsCache) : ports;
+}
 
-      ports.push({
-        port,
-        process: processName,
-        pid,
-        user,
-        address,
-      });
+/** Runs the requested, remembered or newly detected backend. */
+async function collectPorts(signal?: AbortSignal): Promise<PortEntry[]> {
+  const source = requestedSource ?? detectedSource;
+  if (source) {
+    try {
+      return await source.collect(signal);
+    } catch (err) {
+      // An abort says nothing about the backend's health; keep it.
+      if (source === detectedSource && !signal?.aborted) detectedSource = null;
+      throw err;
     }
-
-    // Sort numerically by port ascending
-    ports.sort((a, b) => a.port - b.port);
-
-    return ports;
-  } catch {
-    return [];
   }
+
+  const detected = await detectPortSource(process.platform, signal);
+  detectedSource = detected.source;
+  return detected.ports;
 }
@@ -0,0 +1,86 @@
+/**
+ * @module groupPorts
+ *
+ * Grouping of the port list by PID, process name or user. A group becomes a
+ * header row above its ports, or replaces them while it is collapsed, so one
+ * nginx with eight workers or a Node process bound to five ports takes a
+ * single line.
+ *
+ * App and PortList both turn the same filtered list into the same
+ * {@link ListRow}s: App to know what is selected, PortList to draw it.
+ */
+import type { GroupBy, PortEntry } from '../types.js';
+import { portKey } from './normalizePorts.js';
+
+/** Every {@link GroupBy}, in the order `b` cycles through them. */
+export const GROUP_BYS: readonly GroupBy[] = ['none', 'pid', 'process', 'user'];
+
+/** Ports sharing a PID, process name or user. */
+export interface PortGroup {
+  /** Identifies the group across refreshes, e.g. `process:nginx`; see {@link rowKey}. */
+  key: string;
+  /** Shown in the header: the process name and PID, the process name or the user. */
+  label: string;
+  /** Members, in list order. Never empty. */
+  ports: PortEntry[];
+  /** Distinct PIDs among `ports`, in list order. */
+  pids: string[];
+}
+
+/** A line of the port list: a group header or a port. */
+export type ListRow =
+  | { type: 'group'; group: PortGroup; collapsed: boolean }
+  | { type: 'port'; port: PortEntry };
+
+/** Value a port is grouped on, and the header label of its group. */
+const GROUP_FIELDS: Record<Exclude<GroupBy, 'none'>, (port: PortEntry) => { value: string; label: string }> = {
+  pid: p => ({ value: p.pid, label: `${p.process} (${p.pid})` }),
+  process: p => ({ value: p.process, label: p.process }),
+  user: p => ({ value: p.user, label: p.user }),
+};
+
+/**
+ * Splits `ports` into groups. Groups are ordered by their first member, so
+ * the list's sort order (or fuzzy ranking) carries over to the groups.
+ */
+export function groupPorts(ports: readonly PortEntry[], by: Exclude<GroupBy, 'none'>): PortGroup[] {
+  const groups = new Map<string, PortGroup>();
+  for (const port of ports) {
+    const { value, label } = GROUP_FIELDS[by](port);
+    const key = `${by}:${value}`;
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { key, label, ports: [port], pids: [port.pid] });
+      continue;
+    }
+    group.ports.push(port);
+    if (!group.pids.includes(port.pid)) group.pids.push(port.pid);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * The rows of the port list: one per port without grouping, otherwise each
+ * group's header followed by its ports unless its key is in `collapsed`.
+ */
+export function listRows(
+  ports: readonly PortEntry[],
+  by: GroupBy,
+  collapsed: ReadonlySet<string> = new Set(),
+): ListRow[] {
+  if (by === 'none') return ports.map(port => ({ type: 'port', port }));
+  return groupPorts(ports, by).flatMap((group): ListRow[] => {
+    const isCollapsed = collapsed.has(group.key);
+    const header: ListRow = { type: 'group', group, collapsed: isCollapsed };
+    return isCollapsed ? [header] : [header, ...group.ports.map(port => ({ type: 'port' as const, port }))];
+  });
+}
+
+/**
+ * Identity of a row across refreshes and re-sorts: the {@link portKey} of a
+ * port, or the group key of a header. Cannot collide, since port keys start
+ * with a protocol.
+ */
+export function rowKey(row: ListRow): string {
+  return row.type === 'port' ? portKey(row.port) : row.group.key;
+}
@@ -0,0 +1,245 @@
+/**
+ * @module keymap
+ *
+ * Registry of the interactive UI's key bindings. Every rebindable action is
+ * listed once in {@link KEY_ACTIONS} with its description and default keys;
+ * useKeyboardInput matches keypresses against the resolved {@link Keymap},
+ * and HelpOverlay, StatusBar and SignalMenu render their key hints from the
+ * same map, so the documentation on screen cannot drift from what the keys
+ * actually do.
+ *
+ * Keys are written as chords: a single character (`"x"`, `"R"`, `"?"`), a
+ * named key (`"enter"`, `"escape"`, `"up"`, `"home"`, `"space"`, …), optionally
+ * prefixed with `ctrl+` and/or `meta+`. ctrl+c is not in the registry: it
+ * always quits, so a broken config can never trap the user in the UI.
+ * Typing into the search bar is not rebindable either, since every printable
+ * key there is text.
+ */
+import type { Key } from 'ink';
+import type { KeyAction } from '../types.js';
+
+/**
+ * Where an action is available. Keys only have to be unique within one
+ * context: ESC clears the filter in the list but cancels a prompt.
+ * - `'list'` — navigate mode
+ * - `'prompt'` — the kill / signal confirmation
+ */
+type KeyContext = 'list' | 'prompt';
+
+/** An entry of {@link KEY_ACTIONS}. */
+export interface KeyActionInfo {
+  action: KeyAction;
+  /** Shown in the help overlay. */
+  desc: string;
+  /** Canonical chords bound when the config does not rebind the action. */
+  defaults: readonly string[];
+  context: KeyContext;
+}
+
+/**
+ * Default keys of `applyFilter`: meta+1 to meta+9, since the bare digits are
+ * count prefixes. The Nth key of the action applies the Nth saved filter.
+ */
+const FILTER_KEYS: readonly string[] = Array.from({ length: 9 }, (_, i) => `meta+${i + 1}`);
+
+/** Every rebindable action, in help overlay order. */
+export const KEY_ACTIONS: readonly KeyActionInfo[] = [
+  { action: 'moveUp',         desc: 'Move up',                                       defaults: ['up', 'k'],     context: 'list' },
+  { action: 'moveDown',       desc: 'Move down',                                     defaults: ['down', 'j'],   context: 'list' },
+  { action: 'top',            desc: 'Jump to the first row (with a count: row N)',   defaults: ['g', 'home'],   context: 'list' },
+  { action: 'bottom',         desc: 'Jump to the last row (with a count: row N)',    defaults: ['G', 'end'],    context: 'list' },
+  { action: 'pageUp',         desc: 'Page up',                                       defaults: ['pageup'],      context: 'list' },
+  { action: 'pageDown',       desc: 'Page down',                                     defaults: ['pagedown'],    context: 'list' },
+  { action: 'halfPageUp',     desc: 'Half a page up',                                defaults: ['ctrl+u'],      context: 'list' },
+  { action: 'halfPageDown',   desc: 'Half a page down',                              defaults: ['ctrl+d'],      context: 'list' },
+  { action: 'goToPort',       desc: 'Go to a port (:3000)',                          defaults: [':'],           context: 'list' },
+  { action: 'kill',           desc: 'Kill selected port (with confirm)',             defaults: ['enter', 'x'],  context: 'list' },
+  { action: 'forceKill',      desc: 'Kill selected port (no confirm)',               defaults: ['ctrl+k'],      context: 'list' },
+  { action: 'signal',         desc: 'Send a signal (HUP, INT, USR1, STOP…)',         defaults: ['s'],           context: 'list' },
+  { action: 'mark',           desc: 'Mark / unmark row for a batch kill',            defaults: ['space'],       context: 'list' },
+  { action: 'markAll',        desc: 'Mark all visible rows',                         defaults: ['a'],           context: 'list' },
+  { action: 'invertMarks',    desc: 'Invert marks of visible rows',                  defaults: ['i'],           context: 'list' },
+  { action: 'search',         desc: 'Filter by name, port, address, command or cwd', defaults: ['/'],           context: 'list' },
+  { action: 'searchMode',     desc: 'Cycle search mode: substring / fuzzy / regex',  defaults: ['tab'],         context: 'list' },
+  { action: 'filters',        desc: 'Saved filters (1-9 to apply)',                  defaults: ['f'],           context: 'list' },
+  { action: 'applyFilter',    desc: 'Apply saved filter 1-9 without the menu',       defaults: FILTER_KEYS,     context: 'list' },
+  { action: 'saveFilter',     desc: 'Save the search query as a named filter',       defaults: ['F'],           context: 'list' },
+  { action: 'clear',          desc: 'Clear marks / filter',                          defaults: ['escape'],      context: 'list' },
+  { action: 'details',        desc: 'Toggle details for selected port',              defaults: ['d'],           context: 'list' },
+  { action: 'protocol',       desc: 'Show TCP / UDP / both',                         defaults: ['p'],           context: 'list' },
+  { action: 'sort',           desc: 'Sort by the next column',                       defaults: ['o'],           context: 'list' },
+  { action: 'reverseSort',    desc: 'Reverse the sort order',                        defaults: ['O'],           context: 'list' },
+  { action: 'group',          desc: 'Group rows by PID / process / user',            defaults: ['b'],           context: 'list' },
+  { action: 'collapse',       desc: 'Collapse / expand the selected group',          defaults: ['z'],           context: 'list' },
+  { action: 'collapseAll',    desc: 'Collapse / expand every group',                 defaults: ['Z'],           context: 'list' },
+  { action: 'timeline',       desc: 'Toggle the timeline of opened / closed ports',  defaults: ['t'],           context: 'list' },
+  { action: 'exportTimeline', desc: 'Export the timeline as JSON',                   defaults: ['e'],           context: 'list' },
+  { action: 'refresh',        desc: 'Refresh port list',                             defaults: ['r', 'R'],      context: 'list' },
+  { action: 'help',           desc: 'Toggle this help',                              defaults: ['?'],           context: 'list' },
+  { action: 'quit',           desc: 'Quit',                                          defaults: ['q'],           context: 'list' },
+  { action: 'confirm',        desc: 'Confirm a kill or signal',                      defaults: ['y'],           context: 'prompt' },
+  { action: 'cancel',         desc: 'Cancel a kill, signal or menu',                 defaults: ['escape', 'n'], context: 'prompt' },
+];
+
+/** Every {@link KeyAction}, in help overlay order. */
+export const KEY_ACTION_NAMES: readonly KeyAction[] = KEY_ACTIONS.map(a => a.action);
+
+/** Resolved bindings: the canonical chords of every action. */
+export type Keymap = Readonly<Record<KeyAction, readonly string[]>>;
+
+/** Bindings set by the config; actions not listed keep their defaults. */
+export type KeyBindings = Partial<Record<KeyAction, string[]>>;
+
+/** Always quits; not part of any {@link Keymap}. */
+export const QUIT_CHORD = 'ctrl+c';
+
+/**
+ * A keypress as useKeyboardInput sees it: Ink's Key, plus Home and End,
+ * which Ink recognises but reports as an empty input with no flag set.
+ * See {@link withEdgeKeys}.
+ */
+export interface KeyPress extends Key {
+  home?: boolean;
+  end?: boolean;
+}
+
+/** What terminals send for Home and End: xterm, its application mode, and rxvt / the Linux console. */
+const HOME_SEQUENCES: ReadonlySet<string> = new Set(['\x1b[H', '\x1bOH', '\x1b[1~', '\x1b[7~']);
+const END_SEQUENCES: ReadonlySet<string> = new Set(['\x1b[F', '\x1bOF', '\x1b[4~', '\x1b[8~']);
+
+/** Ink's `key` with the Home and End flags of the raw `sequence` it was parsed from. */
+export function withEdgeKeys(key: Key, sequence: string): KeyPress {
+  return { ...key, home: HOME_SEQUENCES.has(sequence), end: END_SEQUENCES.has(sequence) };
+}
+
+/** Keys with a name instead of a printable character, with their on-screen label. */
+const NAMED_KEYS: Record<string, { label: string; matches: (input: string, key: KeyPress) => boolean }> = {
+  up:        { label: '↑',         matches: (_, key) => key.upArrow },
+  down:      { label: '↓',         matches: (_, key) => key.downArrow },
+  left:      { label: '←',         matches: (_, key) => key.leftArrow },
+  right:     { label: '→',         matches: (_, key) => key.rightArrow },
+  pageup:    { label: 'pgup',      matches: (_, key) => key.pageUp },
+  pagedown:  { label: 'pgdn',      matches: (_, key) => key.pageDown },
+  home:      { label: 'home',      matches: (_, key) => key.home === true },
+  end:       { label: 'end',       matches: (_, key) => key.end === true },
+  enter:     { label: 'enter',     matches: (_, key) => key.return },
+  escape:    { label: 'ESC',       matches: (_, key) => key.escape },
+  tab:       { label: 'tab',       matches: (_, key) => key.tab },
+  backspace: { label: 'backspace', matches: (_, key) => key.backspace },
+  delete:    { label: 'delete',    matches: (_, key) => key.delete },
+  space:     { label: 'space',     matches: input => input === ' ' },
+};
+
+/** Alternative spellings accepted for {@link NAMED_KEYS}. */
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  return: 'enter',
+  pgup: 'pageup',
+  pgdn: 'pagedown',
+  del: 'delete',
+};
+
+/** `"ctrl+meta+x"` → modifiers and the key name. Modifiers are always lowercase. */
+const CHORD_PATTERN = /^((?:(?:ctrl|meta)\+)*)(.+)$/i;
+
+/**
+ * Normalises a user-written chord such as `"Ctrl+K"`, `"esc"` or `" "` to its
+ * canonical form (`"ctrl+k"`, `"escape"`, `"space"`).
+ *
+ * @returns The canonical chord, or null if `text` is not a key this UI can tell apart
+ */
+export function parseChord(text: string): string | null {
+  const match = CHORD_PATTERN.exec(text);
+  if (!match) return null;
+  const modifiers = match[1].toLowerCase();
+  const ctrl = modifiers.includes('ctrl+');
+  const meta = modifiers.includes('meta+');
+  let name = match[2];
+  if (name === ' ') {
+    name = 'space';
+  } else if (name.length === 1) {
+    // Terminals send ctrl+K and ctrl+k as the same byte.
+    if (ctrl) name = name.toLowerCase();
+  } else {
+    name = name.toLowerCase();
+    name = KEY_ALIASES[name] ?? name;
+    if (!Object.hasOwn(NAMED_KEYS, name)) return null;
+  }
+  return `${ctrl ? 'ctrl+' : ''}${meta ? 'meta+' : ''}${name}`;
+}
+
+/** Splits a canonical chord into its modifiers and key name. */
+function splitChord(chord: string): { ctrl: boolean; meta: boolean; name: string } {
+  const [, modifiers, name] = CHORD_PATTERN.exec(chord)!;
+  return { ctrl: modifiers.includes('ctrl+'), meta: modifiers.includes('meta+'), name };
+}
+
+/**
+ * Whether an Ink keypress is the given canonical chord.
+ *
+ * A chord without `meta+` also matches when meta is held: Ink reports ESC
+ * itself as a meta keypress, and alt+x is close enough to x.
+ */
+export function matchesChord(chord: string, input: string, key: KeyPress): boolean {
+  const { ctrl, meta, name } = splitChord(chord);
+  if (ctrl !== key.ctrl || (meta && !key.meta)) return false;
+  const named = Object.hasOwn(NAMED_KEYS, name) ? NAMED_KEYS[name] : undefined;
+  return named ? named.matches(input, key) : input === name;
+}
+
+/** On-screen label of a canonical chord: `"↑"`, `"ESC"`, `"ctrl+k"`. */
+export function formatChord(chord: string): string {
+  const { ctrl, meta, name } = splitChord(chord);
+  const label = Object.hasOwn(NAMED_KEYS, name) ? NAMED_KEYS[name].label : name;
+  return `${ctrl ? 'ctrl+' : ''}${meta ? 'meta+' : ''}${label}`;
+}
+
+/**
+ * Every key of `action`, as shown in the help overlay: `"↑ / k"`. Empty if
+ * unbound. The numbered keys of `applyFilter` are shown as a range,
+ * `"meta+1 … meta+9"`.
+ */
+export function formatKeys(keymap: Keymap, action: KeyAction): string {
+  const labels = keymap[action].map(formatChord);
+  if (action === 'applyFilter' && labels.length > 2) return `${labels[0]} … ${labels[labels.length - 1]}`;
+  return labels.join(' / ');
+}
+
+/** The first key of `action`, as shown in a hint line, or null if unbound. */
+export function hintKey(keymap: Keymap, action: KeyAction): string | null {
+  const chord = keymap[action][0];
+  return chord === undefined ? null : formatChord(chord);
+}
+
+/**
+ * Resolves config bindings over the defaults.
+ *
+ * An action listed in `bindings` gets exactly those keys (an empty list
+ * unbinds it). A key rebound this way is taken away from any action it was
+ * a default of, so moving quit to `x` needs no second setting to free `x`
+ * from kill.
+ *
+ * @param bindings - Canonical chords per action, as produced by {@link parseChord}
+ * @throws {Error} When two actions of the same context are given the same key,
+ *   or a key is bound to ctrl+c
+ */
+export function createKeymap(bindings: KeyBindings = {}): Keymap {
+  const claimed = new Map<string, KeyAction>();
+  for (const { action, context } of KEY_ACTIONS) {
+    for (const chord of bindings[action] ?? []) {
+      if (chord === QUIT_CHORD) throw new Error(`cannot bind "${QUIT_CHORD}": it always quits`);
+      const other = claimed.get(`${context}:${chord}`);
+      if (other && other !== action) throw new Error(`"${chord}" is bound to both ${other} and ${action}`);
+      claimed.set(`${context}:${chord}`, action);
+    }
+  }
+  const keymap = {} as Record<KeyAction, readonly string[]>;
+  for (const { action, defaults, context } of KEY_ACTIONS) {
+    const chords = bindings[action] ?? defaults.filter(chord => !claimed.has(`${context}:${chord}`));
+    keymap[action] = [...new Set(chords)];
+  }
+  return keymap;
+}
+
+/** The bindings used when the config does not set `keys`. */
+export const DEFAULT_KEYMAP: Keymap = createKeymap();
@@ -1,46 +1,92 @@
 /**
  * @module killPort
  *
- * Sends SIGKILL to a process by PID, immediately terminating it.
+ * Sends signals to the process behind a port. {@link sendSignal} delivers any
+ * supported signal (SIGHUP to reload a config, SIGUSR1 for a debug dump, ...);
+ * the kill helpers below build on it to terminate a process, either
+ * immediately or gracefully.
  *
- * **Why SIGKILL (`kill -9`) instead of SIGTERM?**
- * SIGTERM gives the target process a chance to catch the signal and perform
- * graceful cleanup (flushing buffers, closing DB connections, etc.). For a
- * port-management tool the user has already made the decision to forcibly
- * reclaim a port — waiting for a process to clean up voluntarily would make
- * the tool feel unreliable. SIGKILL is unblockable and unignorable, so the
- * port is guaranteed to be free immediately after the call succeeds.
+ * **Immediate: {@link killPort}**
+ * Sends SIGKILL (`kill -9`). SIGKILL is unblockable and unignorable, so the
+ * port is guaranteed to be free immediately after the call succeeds — but
+ * the target gets no opportunity to clean up: temporary files, lock files,
+ * open connections and in-flight writes (SQLite, Postgres) may be left in an
+ * inconsistent state.
  *
- * **Safety implication:** The target process gets no opportunity to clean up.
- * Temporary files, open connections, and in-flight writes may be left in an
- * inconsistent state. This is an acceptable trade-off for an interactive
- * developer tool where speed and certainty are more important than graceful
- * shutdown.
+ * **Graceful: {@link gracefulKill}**
+ * Sends SIGTERM first, which lets the process catch the signal and shut down
+ * cleanly, then waits for it to exit or release its port. Only a process
+ * that is still alive after the grace period is escalated to SIGKILL, so the
+ * port is still reclaimed with certainty, just not instantly.
  */
 import { execSync } from 'child_process';
+import { constants } from 'os';
+import type { SignalName } from '../types.js';
+
+/** Signals a kill attempt can start or end with. */
+export type KillSignal = Extract<SignalName, 'SIGTERM' | 'SIGINT' | 'SIGHUP' | 'SIGKILL'>;
+
+/**
+ * Every {@link KillSignal}: the signals whose default action terminates a
+ * process, so a kill can be configured to start with any of them.
+ */
+export const KILL_SIGNALS: readonly KillSignal[] = ['SIGTERM', 'SIGINT', 'SIGHUP', 'SIGKILL'];
 
 /**
- * The result of a kill attempt.
+ * The result of sending a signal.
  *
  * Modelled as a discriminated union so the compiler guarantees that
  * `error` is present when `success` is `false` and absent when `success`
  * is `true`. This makes it impossible to represent an inconsistent state
  * such as `{ success: true, error: "..." }`.
+ *
+ * On success, `signal` records which signal was delivered.
  */
-export type KillResult =
-  | { success: true }
+export type SignalResult<S extends SignalName = SignalName> =
+  | { success: true; signal: S }
   | { success: false; error: string };
 
 /**
- * Sends SIGKILL to the process identified by `pid`.
+ * The result of a kill attempt. A graceful kill reports its first signal
+ * (`'SIGTERM'` by default) when the process exited on its own and
+ * `'SIGKILL'` when it had to be escalated.
+ */
+export type KillResult = SignalResult<KillSignal>;
+
+/** Every {@link SignalName}, for validating user input. */
+export const SIGNAL_NAMES: readonly SignalName[] = [
+  'SIGTERM', 'SIGKILL', 'SIGHUP', 'SIGINT', 'SIGUSR1', 'SIGUSR2', 'SIGSTOP', 'SIGCONT',
+];
+
+/**
+ * Resolves a user-supplied signal name the way `kill -s` does: case-insensitive
+ * and with or without the `SIG` prefix, so `term`, `TERM` and `SIGTERM` all
+ * name SIGTERM. Returns null for anything that is not a {@link SignalName}.
+ */
+export function parseSignalName(value: string): SignalName | null {
+  const upper = value.trim().toUpperCase();
+  const name = upper.startsWith('SIG') ? upper : `SIG${upper}`;
+  return SIGNAL_NAMES.find(s => s === name) ?? null;
+}
+
+/** Milliseconds between liveness checks while waiting for a graceful exit. */
+const KILL_POLL_INTERVAL_MS = 100;
+
+/**
+ * Sends `signal` to the process identified by `pid`.
  *
- * @param pid - The process ID to kill, as a string. Accepts a string because
+ * The signal is passed to `kill` by number, looked up for the running
+ * platform: SIGUSR1 is 10 on Linux but 30 on macOS, and `kill -s USR1` is not
+ * understood by every `/bin/sh` builtin.
+ *
+ * @param pid - The process ID to signal, as a string. Accepts a string because
  *              `PortEntry.pid` (from lsof output) is already a string; this
  *              avoids forcing callers to parse it only to have it stringified
  *              again when building the shell command.
- * @returns A {@link KillResult} indicating whether the kill succeeded.
+ * @param signal - The signal to deliver
+ * @returns A {@link SignalResult} indicating whether the signal was delivered.
  */
-export function killPort(pid: string): KillResult {
+export function sendSignal<S extends SignalName>(pid: string, signal: S): SignalResult<S> {
   try {
     // parseInt with explicit radix 10 prevents octal interpretation.
     // Without the radix, a PID string like '0777' would be parsed as octal
@@ -50,13 +96,13 @@ export function killPort(pid: string): KillResult {
     // Guard against dangerous PID values before touching the shell.
     // PID 0 is the swapper/scheduler (a kernel pseudo-process on most Unixes).
     // Negative PIDs are interpreted by kill(2) as process group IDs, which
-    // would broadcast SIGKILL to an entire group — far wider than intended.
+    // would broadcast the signal to an entire group — far wider than intended.
     if (isNaN(safePid) || safePid <= 0) {
       return { success: false, error: 'Invalid PID' };
     }
 
-    execSync(`kill -9 ${safePid}`);
-    return { success: true };
+    execSync(`kill -${constants.signals[signal]} ${safePid}`);
+    return { success: true, signal };
   } catch (err) {
     // execSync throws on non-zero exit (e.g. process already gone, permission
     // denied). TypeScript types catch-clause bindings as `unknown` in strict
@@ -64,3 +110,109 @@ export function killPort(pid: string): KillResult {
     return { success: false, error: err instanceof Error ? err.message : String(err) };
   }
 }
+
+/**
+ * Sends SIGKILL to the process identified by `pid`.
+ *
+ * @param pid - The process ID to kill (see {@link sendSignal})
+ * @returns A {@link KillResult} indicating whether the kill succeeded.
+ */
+export function killPort(pid: string): KillResult {
+  return sendSignal(pid, 'SIGKILL');
+}
+
+/**
+ * Options for {@link gracefulKill}.
+ */
+export interface GracefulKillOptions {
+  /** Milliseconds to wait after the first signal before escalating to SIGKILL. */
+  graceMs: number;
+
+  /**
+   * Signal sent first; defaults to SIGTERM. SIGINT suits dev servers that
+   * only clean up on ctrl+c.
+   */
+  firstSignal?: Exclude<KillSignal, 'SIGKILL'>;
+
+  /**
+   * Optional check that the port has been released. Some servers close their
+   * listener long before the process exits (draining connections); once the
+   * port is free the kill has achieved its purpose and no escalation is needed.
+   */
+  isReleased?: () => Promise<boolean>;
+
+  /**
+   * Milliseconds between `isReleased` checks; defaults to every liveness
+   * check. A check that needs a port collection should not run more often
+   * than the collection itself, while the cheap liveness probe keeps its pace.
+   */
+  releaseCheckMs?: number;
+
+  /** Called right before SIGKILL is sent, so the UI can report the escalation. */
+  onEscalate?: () => void;
+
+  /**
+   * Aborting stops waiting and resolves a failure without escalating — used
+   * when the UI unmounts mid-wait. The first signal has already been sent by then.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Reports whether `pid` still exists. Signal 0 performs the permission and
+ * existence checks of kill(2) without delivering anything; EPERM means the
+ * process exists but belongs to someone else.
+ */
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return err instanceof Error && 'code' in err && err.code === 'EPERM';
+  }
+}
+
+/**
+ * Sends SIGTERM (or `firstSignal`) to `pid`, waits up to `graceMs` for it to
+ * exit (or for `isReleased` to report the port free), then escalates to
+ * SIGKILL. Liveness is probed with signal 0 every {@link KILL_POLL_INTERVAL_MS};
+ * `isReleased` runs every `releaseCheckMs`.
+ *
+ * Never rejects; failures are reported through {@link KillResult} like
+ * {@link killPort}.
+ *
+ * @param pid - The process ID to terminate, as a string (see {@link killPort})
+ * @returns `{ success: true, signal: firstSignal }` when the process went
+ *          away within the grace period, the {@link killPort} result after an
+ *          escalation, or a failure when the first signal could not be delivered
+ */
+export async function gracefulKill(pid: string, options: GracefulKillOptions): Promise<KillResult> {
+  const { graceMs, firstSignal = 'SIGTERM', isReleased, releaseCheckMs = KILL_POLL_INTERVAL_MS, onEscalate, signal } = options;
+  const safePid = parseInt(pid, 10);
+  // Same guard as killPort: never signal PID 0 or a process group.
+  if (isNaN(safePid) || safePid <= 0) {
+    return { success: false, error: 'Invalid PID' };
+  }
+
+  try {
+    process.kill(safePid, firstSignal);
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  const deadline = Date.now() + graceMs;
+  let nextReleaseCheck = Date.now() + releaseCheckMs;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, KILL_POLL_INTERVAL_MS));
+    if (signal?.aborted) return { success: false, error: 'Aborted' };
+    if (!isAlive(safePid)) return { success: true, signal: firstSignal };
+    if (isReleased && Date.now() >= nextReleaseCheck) {
+      if (await isReleased().catch(() => false)) return { success: true, signal: firstSignal };
+      nextReleaseCheck = Date.now() + releaseCheckMs;
+    }
+  }
+
+  if (signal?.aborted) return { success: false, error: 'Aborted' };
+  onEscalate?.();
+  return killPort(pid);
+}
@@ -0,0 +1,171 @@
+/**
+ * @module matchText
+ *
+ * Matching of one piece of query text against one field, in each
+ * {@link SearchMode}. Every match reports the character positions it covered,
+ * so the port table can highlight why a row matched, and a score, so fuzzy
+ * results can be ranked.
+ */
+import type { SearchMode } from '../types.js';
+
+/** A successful match of query text in a field. */
+export interface TextMatch {
+  /** Higher is better. Only fuzzy matching grades its matches; the other modes score 0. */
+  score: number;
+  /** Positions of the matched characters, in ascending order. */
+  indices: number[];
+}
+
+/** Matches a field's text, returning null when it does not match. */
+export type TextMatcher = (text: string) => TextMatch | null;
+
+/** Added for every matched character that directly follows the previous one. */
+const CONSECUTIVE_BONUS = 4;
+/** Added for every matched character at the start of a word. */
+const BOUNDARY_BONUS = 3;
+/** Subtracted for every typo a fuzzy match had to tolerate. */
+const TYPO_PENALTY = 10;
+
+/** Characters after which a new word starts: `/home/alice`, `billing-api`, `server.js`. */
+const WORD_SEPARATOR = /[\s/\\._:@-]/;
+
+/** `[start, start + length)`. */
+function span(start: number, length: number): number[] {
+  return Array.from({ length }, (_, i) => start + i);
+}
+
+/**
+ * Grades a fuzzy match: one point per matched character, bonuses for runs of
+ * consecutive characters and word starts, one point off for every skipped
+ * character between the first and last match. "api" therefore ranks
+ * `billing-api` above `a/p/i`.
+ */
+function scoreIndices(text: string, indices: readonly number[]): number {
+  let score = 0;
+  indices.forEach((index, i) => {
+    score += 1;
+    if (i > 0 && index === indices[i - 1] + 1) score += CONSECUTIVE_BONUS;
+    if (index === 0 || WORD_SEPARATOR.test(text[index - 1])) score += BOUNDARY_BONUS;
+  });
+  const gaps = indices.length > 0 ? indices[indices.length - 1] - indices[0] + 1 - indices.length : 0;
+  return score - gaps;
+}
+
+/**
+ * The best-scoring way to find every character of `needle` in `text`, in
+ * order. Each occurrence of the first character is tried as a start and the
+ * rest is matched greedily from there.
+ */
+function subsequence(needle: string, text: string): number[] | null {
+  let best: number[] | null = null;
+  let bestScore = -Infinity;
+  for (let start = text.indexOf(needle[0]); start !== -1; start = text.indexOf(needle[0], start + 1)) {
+    const indices = [start];
+    for (let i = 1, from = start + 1; i < needle.length; i++, from = indices[i - 1] + 1) {
+      const index = text.indexOf(needle[i], from);
+      if (index === -1) return best;
+      indices.push(index);
+    }
+    const score = scoreIndices(text, indices);
+    if (score > bestScore) {
+      best = indices;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Typos a fuzzy match may contain: none up to 4 characters, then one per 4. */
+function allowedTypos(needle: string): number {
+  return Math.floor((needle.length - 1) / 4);
+}
+
+/**
+ * The substring of `text` closest to `needle` within `maxTypos` edits, where
+ * an edit inserts, deletes or replaces a character or swaps two neighbours
+ * (so "dokcer" finds "docker"). The classic approximate-substring table: row
+ * `i` holds, for every end position in `text`, the fewest edits that turn
+ * `needle[0, i)` into some substring ending there, along with where that
+ * substring starts. Only three rows are kept, and the search stops at the
+ * first row whose every cell is over `maxTypos`.
+ */
+function approximate(needle: string, text: string, maxTypos: number): { start: number; end: number; typos: number } | null {
+  const n = text.length;
+  // Rows i - 2, i - 1 and i of the table, recycled as i advances: the
+  // transposition looks two rows back. Row 0 costs nothing anywhere, since
+  // the substring may start at any position.
+  let [cost2, cost1, cost] = [new Int32Array(n + 1), new Int32Array(n + 1), new Int32Array(n + 1)];
+  let [from2, from1, from] = [new Int32Array(n + 1), Int32Array.from(span(0, n + 1)), new Int32Array(n + 1)];
+  for (let i = 1; i <= needle.length; i++) {
+    cost[0] = i;
+    from[0] = 0;
+    let rowMin = i;
+    for (let j = 1; j <= n; j++) {
+      // The cheapest of replace (or match), delete, insert and swap; ties
+      // keep the earlier option.
+      cost[j] = cost1[j - 1] + (needle[i - 1] === text[j - 1] ? 0 : 1);
+      from[j] = from1[j - 1];
+      if (cost1[j] + 1 < cost[j]) {
+        cost[j] = cost1[j] + 1;
+        from[j] = from1[j];
+      }
+      if (cost[j - 1] + 1 < cost[j]) {
+        cost[j] = cost[j - 1] + 1;
+        from[j] = from[j - 1];
+      }
+      if (i > 1 && j > 1 && needle[i - 1] === text[j - 2] && needle[i - 2] === text[j - 1] && cost2[j - 2] + 1 < cost[j]) {
+        cost[j] = cost2[j - 2] + 1;
+        from[j] = from2[j - 2];
+      }
+      rowMin = Math.min(rowMin, cost[j]);
+    }
+    // No row costs less than the one above it, so the whole needle cannot
+    // come in under the limit either.
+    if (rowMin > maxTypos) return null;
+    [cost2, cost1, cost] = [cost1, cost, cost2];
+    [from2, from1, from] = [from1, from, from2];
+  }
+  let best: { start: number; end: number; typos: number } | null = null;
+  for (let end = 1; end <= n; end++) {
+    const typos = cost1[end];
+    if (typos <= maxTypos && (!best || typos < best.typos)) best = { start: from1[end], end, typos };
+  }
+  return best;
+}
+
+/** Fuzzy matching of `needle`, which is already lowercase. */
+function fuzzy(needle: string): TextMatcher {
+  if (!needle) return () => ({ score: 0, indices: [] });
+  const maxTypos = allowedTypos(needle);
+  return text => {
+    const lower = text.toLowerCase();
+    const indices = subsequence(needle, lower);
+    if (indices) return { score: scoreIndices(lower, indices), indices };
+    if (maxTypos === 0) return null;
+    const match = approximate(needle, lower, maxTypos);
+    if (!match) return null;
+    const matched = span(match.start, match.end - match.start);
+    return { score: scoreIndices(lower, matched) - match.typos * TYPO_PENALTY, indices: matched };
+  };
+}
+
+/**
+ * Creates a matcher for `needle` in `mode`. Every mode ignores case.
+ *
+ * @throws {SyntaxError} In regex mode, when `needle` is not a valid regular expression
+ */
+export function createTextMatcher(needle: string, mode: SearchMode): TextMatcher {
+  if (mode === 'regex') {
+    const pattern = new RegExp(needle, 'i');
+    return text => {
+      const match = pattern.exec(text);
+      return match ? { score: 0, indices: span(match.index, match[0].length) } : null;
+    };
+  }
+  const lower = needle.toLowerCase();
+  if (mode === 'fuzzy') return fuzzy(lower);
+  return text => {
+    const index = text.toLowerCase().indexOf(lower);
+    return index === -1 ? null : { score: 0, indices: span(index, lower.length) };
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * @module mouse
+ *
+ * Mouse support of the interactive UI. While the UI runs, the terminal is
+ * asked for SGR mouse reports (`ESC [ < button ; x ; y M`), which arrive on
+ * stdin like keypresses; useMouse turns them into clicks and wheel steps and
+ * useKeyboardInput ignores them.
+ *
+ * Reports carry screen coordinates, so the UI also switches to the alternate
+ * screen: drawn from the top-left corner, its rows are at known lines.
+ */
+
+/** Switches to the alternate screen, homes the cursor and turns on SGR mouse reports. */
+export const MOUSE_MODE_ON = '\x1b[?1049h\x1b[H\x1b[?1000h\x1b[?1006h';
+
+/** Undoes {@link MOUSE_MODE_ON}: mouse reports off, back to the normal screen. */
+export const MOUSE_MODE_OFF = '\x1b[?1006l\x1b[?1000l\x1b[?1049l';
+
+/** Signals that end the process while the UI runs, without an 'exit' event. */
+const TERMINATING_SIGNALS: readonly NodeJS.Signals[] = ['SIGTERM', 'SIGHUP'];
+
+/**
+ * Writes {@link MOUSE_MODE_ON} to `stdout` and makes sure
+ * {@link MOUSE_MODE_OFF} follows however the process ends: a normal exit,
+ * SIGTERM or SIGHUP (re-raised once the terminal is restored, so the exit
+ * status still names the signal) or an uncaught exception or rejection
+ * (restored before Node prints it). Otherwise the shell would be left on the
+ * alternate screen, with every click typing escape sequences.
+ *
+ * @returns Restores the terminal and removes the handlers; safe to call twice
+ */
+export function enableMouseMode(stdout: NodeJS.WritableStream = process.stdout): () => void {
+  let restored = false;
+  const restore = (): void => {
+    if (restored) return;
+    restored = true;
+    stdout.write(MOUSE_MODE_OFF);
+    process.removeListener('exit', restore);
+    process.removeListener('uncaughtExceptionMonitor', restore);
+    for (const signal of TERMINATING_SIGNALS) process.removeListener(signal, reraise);
+  };
+  const reraise = (signal: NodeJS.Signals): void => {
+    restore();
+    process.kill(process.pid, signal);
+  };
+
+  stdout.write(MOUSE_MODE_ON);
+  process.once('exit', restore);
+  process.once('uncaughtExceptionMonitor', restore);
+  for (const signal of TERMINATING_SIGNALS) process.once(signal, reraise);
+  return restore;
+}
+
+/** A mouse action the UI reacts to. Coordinates are 1-based, like the terminal's. */
+export type MouseEvent =
+  | { type: 'click'; x: number; y: number }
+  | { type: 'wheel'; delta: 1 | -1; x: number; y: number };
+
+/** An SGR report: button code, column, line and M (press) or m (release). */
+const SGR_REPORT = /\x1b\[<(\d+);(\d+);(\d+)([Mm])/g;
+
+/** Bits of the button code: the low two pick the button, 32 flags motion, 64 the wheel. */
+const BUTTON_MASK = 3;
+const MOTION_FLAG = 32;
+const WHEEL_FLAG = 64;
+
+/** Whether raw input is a mouse report rather than a keypress. */
+export function isMouseReport(data: string): boolean {
+  return data.startsWith('\x1b[<');
+}
+
+/**
+ * The clicks and wheel steps in a chunk of raw input; a fast wheel can send
+ * several reports at once. Releases, drags and the middle and right buttons
+ * are dropped.
+ */
+export function parseMouseEvents(data: string): MouseEvent[] {
+  const events: MouseEvent[] = [];
+  for (const [, code, column, line, kind] of data.matchAll(SGR_REPORT)) {
+    const button = Number(code);
+    const x = Number(column);
+    const y = Number(line);
+    if (button & WHEEL_FLAG) {
+      events.push({ type: 'wheel', delta: (button & BUTTON_MASK) === 0 ? -1 : 1, x, y });
+    } else if (kind === 'M' && (button & (BUTTON_MASK | MOTION_FLAG)) === 0) {
+      events.push({ type: 'click', x, y });
+    }
+  }
+  return events;
+}
@@ -0,0 +1,81 @@
+/**
+ * @module normalizePorts
+ *
+ * Address normalization and deduplication rules shared by every port
+ * collector. Keeping them in one place guarantees that the lsof parser and
+ * the Linux procfs reader produce identical `PortEntry` lists for the same
+ * set of sockets.
+ */
+import type { PortEntry } from '../types.js';
+
+/**
+ * Normalizes a raw bind address into its display form.
+ *
+ * Wildcard variants (`*`, `0.0.0.0`, `[::]`, `::`) all mean "listening on all
+ * interfaces"; they are unified to `0.0.0.0` so the UI can display and
+ * deduplicate them consistently:
+ * - Prevents duplicate rows for dual-stack processes (IPv4 + IPv6)
+ * - Gives users a consistent address representation
+ * - Simplifies filtering logic (search for "0.0.0.0" finds all wildcards)
+ *
+ * IPv6 loopback (`[::1]`, `::1`) is the IPv6 form of 127.0.0.1; treating them
+ * as identical avoids confusing users who see two "localhost" rows.
+ *
+ * Any other address is returned unchanged.
+ *
+ * @param rawAddr - Host portion of an `address:port` pair, e.g. `"[::1]"`
+ * @returns The normalized address string
+ */
+export function normalizeAddress(rawAddr: string): string {
+  if (rawAddr === '*' || rawAddr === '0.0.0.0' || rawAddr === '[::]' || rawAddr === '::') {
+    return '0.0.0.0';
+  }
+  if (rawAddr === '[::1]' || rawAddr === '::1') {
+    return '127.0.0.1';
+  }
+  return rawAddr;
+}
+
+/**
+ * Identity of a port entry across polls: protocol + address + port + PID.
+ * Two entries with the same key describe the same binding, so the key is
+ * used both to deduplicate a snapshot and to keep per-row UI state (such as
+ * marks) attached to the right row when the list refreshes.
+ */
+export function portKey(entry: PortEntry): string {
+  return `${entry.protocol}:${entry.address}:${entry.port}:${entry.pid}`;
+}
+
+/**
+ * Deduplicates entries by protocol + address + port + PID and sorts them by
+ * port ascending.
+ *
+ * Many processes (e.g. node, python) bind dual-stack: they open one socket on
+ * `0.0.0.0` (IPv4) and another on `[::]` (IPv6) for the same port. After
+ * normalization both produce the same key, so only the first entry is kept
+ * rather than showing a duplicate row.
+ *
+ * Different PIDs on the same address:port are NOT duplicates (e.g. nginx
+ * master vs worker processes). The PID in the key ensures these are treated
+ * as distinct entries. Likewise a TCP and a UDP socket on the same port are
+ * independent bindings and both kept.
+ *
+ * @param entries - Entries with already-normalized addresses, in collector order
+ * @returns A new array with duplicates removed, sorted by port ascending
+ */
+export function dedupePorts(entries: PortEntry[]): PortEntry[] {
+  const seen = new Set<string>();
+  const ports: PortEntry[] = [];
+
+  for (const entry of entries) {
+    const key = portKey(entry);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    ports.push(entry);
+  }
+
+  // Array.prototype.sort is stable, so entries sharing a port keep collector order.
+  ports.sort((a, b) => a.port - b.port);
+
+  return ports;
+}
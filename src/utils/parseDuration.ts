@@ -0,0 +1,21 @@
+/**
+ * @module parseDuration
+ *
+ * Reads durations written by users, on the command line (`--timeout 30s`)
+ * and in the config file (`"refreshInterval": "500ms"`), with one syntax.
+ */
+
+/** Milliseconds per unit accepted by {@link parseDurationMs}. */
+const UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Parses a duration such as `30s`, `500ms`, `2m` or `1h`; a bare number is
+ * taken as seconds, so `30` and `30s` agree.
+ *
+ * @returns The duration in milliseconds, or null for anything else,
+ *          including negative durations
+ */
+export function parseDurationMs(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(value);
+  return match ? Math.round(parseFloat(match[1]) * UNITS[match[2] ?? 's']) : null;
+}
@@ -0,0 +1,216 @@
+/**
+ * @module parseQuery
+ *
+ * The query language of the search bar and of `--filter`. A query is a list
+ * of whitespace-separated terms, all of which must match (implicit AND):
+ *
+ * - `node` — free text: a case-insensitive substring of the process name,
+ *   port, address, command line, working directory or executable path
+ * - `port:3000`, `port:3000-3999`, `port:80,443` — port numbers and ranges
+ * - `pid:1234` — PIDs, with lists and ranges like `port:`
+ * - `user:root`, `proc:node`, `addr:127.0.0.1` — a case-insensitive
+ *   substring of that one field
+ * - `-term` — any of the above, negated: `-user:root` hides root's ports
+ * - `"…"` — quotes keep spaces, colons and a leading `-` inside a term
+ *
+ * In fuzzy and regex {@link SearchMode}s the text of free-text, `user:`,
+ * `proc:` and `addr:` terms is matched fuzzily or as a regular expression;
+ * ports and PIDs are always numbers.
+ *
+ * An invalid term is an error rather than a term that matches nothing, so a
+ * typo such as `prot:80` is reported instead of emptying the list.
+ */
+import type { PortEntry, SearchMode } from '../types.js';
+import { createTextMatcher } from './matchText.js';
+import type { TextMatcher } from './matchText.js';
+
+/** Whether an entry matches a parsed query. */
+export type PortMatcher = (port: PortEntry) => boolean;
+
+/**
+ * Thrown for a query that cannot be parsed. The message describes the
+ * offending term, e.g. `invalid port "30o0" (expected e.g. 3000 or 3000-3999)`.
+ */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+/** Highest TCP/UDP port number. */
+const MAX_PORT = 65535;
+
+/** An inclusive range of numbers; a single number is a range of one. */
+type NumberRange = [start: number, end: number];
+
+/** A numeric field: its name in error messages, largest value and an example. */
+interface NumberField {
+  name: string;
+  max: number;
+  example: string;
+}
+
+const PORT_FIELD: NumberField = { name: 'port', max: MAX_PORT, example: '3000 or 3000-3999' };
+const PID_FIELD: NumberField = { name: 'pid', max: Number.MAX_SAFE_INTEGER, example: '1234 or 1000-1999' };
+
+/** Parses a comma-separated list of numbers and ranges (`80,443,3000-3999`). */
+function parseRanges(value: string, { name, max, example }: NumberField): NumberRange[] {
+  return value.split(',').map(part => {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    const start = match ? parseInt(match[1], 10) : NaN;
+    const end = match?.[2] !== undefined ? parseInt(match[2], 10) : start;
+    if (!(start >= 1 && end <= max)) {
+      throw new QueryError(`invalid ${name} "${part}" (expected e.g. ${example})`);
+    }
+    if (start > end) throw new QueryError(`invalid ${name} range "${part}" (${start} is above ${end})`);
+    return [start, end];
+  });
+}
+
+/** A column of the port table that a query can highlight matches in. */
+export type HighlightField = 'port' | 'process' | 'user' | 'pid' | 'address' | 'command' | 'cwd';
+
+/**
+ * Positions of the characters of `text`, as shown in `field`, that the query
+ * matched; empty when nothing in it matched.
+ */
+export type Highlighter = (field: HighlightField, text: string) => number[];
+
+/** A field a text term can match, with how to read it from an entry. */
+interface TextField {
+  /** The column it is shown in, if any; `exe` is only searched. */
+  column?: HighlightField;
+  value: (port: PortEntry) => string | undefined;
+}
+
+const PROCESS: TextField = { column: 'process', value: p => p.process };
+const USER: TextField = { column: 'user', value: p => p.user };
+const ADDRESS: TextField = { column: 'address', value: p => p.address };
+
+/** Fields searched by free text. */
+const FREE_TEXT: readonly TextField[] = [
+  PROCESS,
+  { column: 'port', value: p => String(p.port) },
+  ADDRESS,
+  { column: 'command', value: p => p.command },
+  { column: 'cwd', value: p => p.cwd },
+  { value: p => p.exe },
+];
+
+/** One compiled term, without its negation. */
+interface Term {
+  /** Score of the best match in `port`, or null when the term does not match it. */
+  score: (port: PortEntry) => number | null;
+  highlight: Highlighter;
+}
+
+/** Matches `field(port)` against a list of {@link parseRanges} ranges; a match highlights the whole cell. */
+function inRanges(value: string, spec: NumberField, column: HighlightField, field: (port: PortEntry) => number): Term {
+  const ranges = parseRanges(value, spec);
+  const includes = (n: number) => ranges.some(([start, end]) => n >= start && n <= end);
+  return {
+    score: port => (includes(field(port)) ? 0 : null),
+    highlight: (shown, text) => (shown === column && includes(parseInt(text, 10)) ? Array.from(text, (_, i) => i) : []),
+  };
+}
+
+/**
+ * Matches `needle` in any of `fields`, as {@link createTextMatcher} does in
+ * `mode`. An entry scores its best-matching field.
+ */
+function contains(needle: string, mode: SearchMode, fields: readonly TextField[]): Term {
+  let match: TextMatcher;
+  try {
+    match = createTextMatcher(needle, mode);
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) throw err;
+    // V8 words it "Invalid regular expression: /(/i: Unterminated group"
+    const reason = err.message.split(': ').pop();
+    throw new QueryError(`invalid regex "${needle}": ${reason}`);
+  }
+  return {
+    score: port => fields.reduce<number | null>((best, { value }) => {
+      const text = value(port);
+      const found = text === undefined ? null : match(text);
+      return found && (best === null || found.score > best) ? found.score : best;
+    }, null),
+    highlight: (shown, text) => (fields.some(f => f.column === shown) ? match(text)?.indices ?? [] : []),
+  };
+}
+
+/** Builds the term of each `field:value` from its value. */
+const FIELDS: Record<string, (value: string, mode: SearchMode) => Term> = {
+  port: value => inRanges(value, PORT_FIELD, 'port', p => p.port),
+  pid: value => inRanges(value, PID_FIELD, 'pid', p => parseInt(p.pid, 10)),
+  user: (value, mode) => contains(value, mode, [USER]),
+  proc: (value, mode) => contains(value, mode, [PROCESS]),
+  addr: (value, mode) => contains(value, mode, [ADDRESS]),
+};
+
+/** Field names accepted before a `:`. */
+export const QUERY_FIELDS: readonly string[] = Object.keys(FIELDS);
+
+/** A term, with quoted sections kept together: `proc:"my app"`. */
+const TERM_PATTERN = /(?:"[^"]*"|[^\s"])+/g;
+
+/** Unquoted `field:` prefix of a term. */
+const FIELD_PATTERN = /^([a-z]+):/i;
+
+/** Parses one term, without its negation. */
+function parseTerm(term: string, mode: SearchMode): Term {
+  const field = FIELD_PATTERN.exec(term);
+  if (!field) return contains(term.replace(/"/g, ''), mode, FREE_TEXT);
+  const name = field[1].toLowerCase();
+  const build = Object.hasOwn(FIELDS, name) ? FIELDS[name] : undefined;
+  if (!build) {
+    throw new QueryError(`unknown field "${field[1]}:" (expected ${QUERY_FIELDS.map(f => `${f}:`).join(', ')})`);
+  }
+  const value = term.slice(field[0].length).replace(/"/g, '');
+  if (!value) throw new QueryError(`"${name}:" needs a value`);
+  return build(value, mode);
+}
+
+/** A parsed query. */
+export interface Query {
+  /** Whether an entry matches every term. */
+  matches: PortMatcher;
+  /**
+   * How well an entry matches, higher is better: the sum of its terms' best
+   * scores. Only fuzzy terms are graded; in the other modes every entry scores 0.
+   */
+  score: (port: PortEntry) => number;
+  /** Where the query matched a cell; negated terms highlight nothing. */
+  highlight: Highlighter;
+}
+
+/**
+ * Parses a query, matching its text in `mode`. An empty or blank query
+ * matches everything.
+ *
+ * @throws {QueryError} For an unknown field, a field without a value, an
+ *   invalid port, PID or regular expression, a lone `-` or an unterminated quote
+ */
+export function compileQuery(query: string, mode: SearchMode = 'substring'): Query {
+  if ((query.match(/"/g) ?? []).length % 2 !== 0) throw new QueryError('unterminated quote');
+  const terms = (query.match(TERM_PATTERN) ?? []).map(term => {
+    if (!term.startsWith('-')) return { negated: false, ...parseTerm(term, mode) };
+    if (term === '-') throw new QueryError('"-" needs a term to exclude, e.g. -user:root');
+    return { negated: true, ...parseTerm(term.slice(1), mode) };
+  });
+  const positive = terms.filter(t => !t.negated);
+  return {
+    matches: port => terms.every(({ negated, score }) => (score(port) === null) === negated),
+    score: port => positive.reduce((sum, { score }) => sum + (score(port) ?? 0), 0),
+    highlight: (field, text) => [...new Set(positive.flatMap(t => t.highlight(field, text)))].sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Parses a query into a matcher; see {@link compileQuery}.
+ *
+ * @throws {QueryError} When the query is invalid
+ */
+export function parseQuery(query: string, mode: SearchMode = 'substring'): PortMatcher {
+  return compileQuery(query, mode).matches;
+}
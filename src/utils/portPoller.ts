@@ -0,0 +1,84 @@
+/**
+ * @module portPoller
+ *
+ * Framework-agnostic polling loop around {@link getPorts}.
+ *
+ * Guarantees:
+ * - **No overlap.** At most one collection runs at a time. A poll that comes
+ *   due (or a manual refresh requested) while one is still running joins the
+ *   in-flight collection instead of spawning another lsof.
+ * - **Cancellation.** `stop()` clears the timer and aborts the in-flight
+ *   collection, killing any child process. No callback fires after `stop()`.
+ * - **Last good snapshot.** Failures are reported through `onError` and never
+ *   through `onSnapshot`, so consumers keep whatever they showed before.
+ */
+import type { PortEntry } from '../types.js';
+import { getPorts } from './getPorts.js';
+import type { GetPortsOptions } from './getPorts.js';
+
+/**
+ * Milliseconds between automatic polls unless configured otherwise: the TUI's
+ * refresh rate and the default `ports wait` interval.
+ */
+export const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/** Options for {@link createPortPoller}. */
+export interface PortPollerOptions extends GetPortsOptions {
+  /** Milliseconds between automatic polls. */
+  intervalMs: number;
+  /** Called with every successfully collected snapshot. */
+  onSnapshot: (ports: PortEntry[]) => void;
+  /** Called when a collection fails. The previous snapshot remains valid. */
+  onError?: (err: unknown) => void;
+}
+
+/** Handle returned by {@link createPortPoller}. */
+export interface PortPoller {
+  /**
+   * Collects immediately (or joins the collection already running).
+   * Resolves once the snapshot or error has been delivered; never rejects.
+   */
+  refresh: () => Promise<void>;
+  /** Stops polling and aborts the in-flight collection. Idempotent. */
+  stop: () => void;
+}
+
+/**
+ * Starts polling: one collection right away, then one every `intervalMs`.
+ *
+ * @returns A {@link PortPoller} handle; call `stop()` when done
+ */
+export function createPortPoller({ intervalMs, onSnapshot, onError, details }: PortPollerOptions): PortPoller {
+  const controller = new AbortController();
+  let inFlight: Promise<void> | null = null;
+
+  const refresh = (): Promise<void> => {
+    if (controller.signal.aborted) return Promise.resolve();
+    if (inFlight) return inFlight;
+
+    inFlight = getPorts(controller.signal, { details })
+      .then(
+        ports => {
+          if (!controller.signal.aborted) onSnapshot(ports);
+        },
+        err => {
+          if (!controller.signal.aborted) onError?.(err);
+        },
+      )
+      .finally(() => {
+        inFlight = null;
+      });
+    return inFlight;
+  };
+
+  void refresh();
+  const timer = setInterval(() => void refresh(), intervalMs);
+
+  return {
+    refresh,
+    stop: () => {
+      clearInterval(timer);
+      controller.abort();
+    },
+  };
+}
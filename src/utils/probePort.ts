@@ -0,0 +1,38 @@
+/**
+ * @module probePort
+ *
+ * Checks whether a TCP port can actually be bound, by binding it. The port
+ * collectors only report what they can see: lsof without root misses other
+ * users' sockets, and procfs cannot attribute them. A real bind is the only
+ * authoritative answer to "can my dev server use this port?".
+ */
+import { createServer } from 'net';
+
+/** Bind errors meaning "this port is taken or off-limits", not "the probe is broken". */
+const UNAVAILABLE_CODES = new Set(['EADDRINUSE', 'EACCES']);
+
+/**
+ * Binds `port` on `host` and releases it straight away.
+ *
+ * Without a host the socket binds every interface, as a dev server started
+ * without one would. `exclusive` keeps cluster workers from sharing a
+ * handle with the primary, which would make every port look free.
+ *
+ * @returns true if the bind succeeded, false if the port is in use or
+ *          needs privileges
+ * @throws The bind error for anything else, e.g. EADDRNOTAVAIL when `host`
+ *         is not an address of this machine
+ */
+export function isPortBindable(port: number, host?: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.unref();
+    server.once('error', (err: NodeJS.ErrnoException) => {
+      if (err.code && UNAVAILABLE_CODES.has(err.code)) resolve(false);
+      else reject(err);
+    });
+    server.listen({ port, host, exclusive: true }, () => {
+      server.close(() => resolve(true));
+    });
+  });
+}
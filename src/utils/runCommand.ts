@@ -0,0 +1,93 @@
+/**
+ * @module runCommand
+ *
+ * Promise wrapper around `child_process.spawn` used by every command-based
+ * port source.
+ *
+ * **Why spawn instead of execSync?**
+ * `execSync` blocks the Node event loop until the child exits. The port list
+ * is refreshed from a timer on the same thread that handles keyboard input
+ * and rendering, so a slow `lsof` (stale NFS mounts can stall it for
+ * seconds) used to freeze the whole TUI. `spawn` keeps the event loop free
+ * while the child runs.
+ *
+ * The command is executed directly, without a shell: arguments are passed as
+ * an array (no quoting or injection concerns) and stderr is discarded at the
+ * stdio level instead of with `2>/dev/null`.
+ */
+import { spawn } from 'child_process';
+
+/** Default maximum milliseconds a command may run before it is killed. */
+const DEFAULT_COMMAND_TIMEOUT_MS = 5000;
+
+/**
+ * Rejection reason for {@link runCommand}.
+ *
+ * Carries the same `status` / `stdout` fields as the errors thrown by
+ * `execSync`, so callers can still distinguish "exited 1 with no output"
+ * (e.g. lsof finding nothing) from a real failure.
+ */
+export class CommandError extends Error {
+  /** Exit status, or null when the process never ran, timed out, or was aborted. */
+  readonly status: number | null;
+
+  /** Whatever the process wrote to stdout before it failed. */
+  readonly stdout: string;
+
+  constructor(message: string, status: number | null, stdout: string) {
+    super(message);
+    this.name = 'CommandError';
+    this.status = status;
+    this.stdout = stdout;
+  }
+}
+
+/** Options for {@link runCommand}. */
+export interface RunCommandOptions {
+  /** Kill the child and reject after this many milliseconds. Defaults to 5000. */
+  timeoutMs?: number;
+  /** Aborting kills the child and rejects the promise. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs `command` with `args` and resolves with its stdout.
+ *
+ * @param command - Executable name, looked up on PATH
+ * @param args - Arguments passed verbatim (no shell interpretation)
+ * @returns stdout as UTF-8 text when the command exits with status 0
+ * @throws {@link CommandError} when the binary is missing, exits non-zero,
+ *         times out, or is aborted
+ */
+export function runCommand(command: string, args: string[], options: RunCommandOptions = {}): Promise<string> {
+  const { timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+
+    const child = spawn(command, args, {
+      signal,
+      timeout: timeoutMs,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      stdout += chunk;
+    });
+
+    // 'error' fires for ENOENT (binary missing) and for aborts. A promise
+    // settles only once, so the 'close' that may follow is harmless.
+    child.on('error', err => {
+      reject(new CommandError(`${command}: ${err.message}`, null, stdout));
+    });
+
+    child.on('close', (status, killSignal) => {
+      if (status === 0) {
+        resolve(stdout);
+      } else {
+        reject(new CommandError(`${command} exited with ${status ?? killSignal}`, status, stdout));
+      }
+    });
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * @module searchStore
+ *
+ * Search history and named saved filters of the interactive UI, kept in
+ * `$XDG_STATE_HOME/ports-cli/search.json` (`~/.local/state/...` when the
+ * variable is unset) so they survive restarts.
+ *
+ * Unlike the config files, this file is written by the UI and never needs
+ * editing: a missing, unreadable or malformed file starts an empty store,
+ * and a failed write only loses the update. Neither is worth stopping the
+ * UI for.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+/** A search query saved under a name, applied from the saved filters menu. */
+export interface SavedFilter {
+  name: string;
+  query: string;
+}
+
+/** Contents of the store file. */
+export interface SearchStore {
+  /** Committed queries, most recent first, without duplicates. */
+  history: string[];
+  /** Saved filters in menu order; at most {@link MAX_SAVED_FILTERS}. */
+  filters: SavedFilter[];
+}
+
+/** Queries kept in the history; older ones are dropped. */
+export const MAX_HISTORY = 50;
+
+/** Saved filters allowed: one per number key 1–9. */
+export const MAX_SAVED_FILTERS = 9;
+
+/** A store with no history and no saved filters. */
+export const EMPTY_SEARCH_STORE: SearchStore = { history: [], filters: [] };
+
+/** File name of the store, inside `$XDG_STATE_HOME/ports-cli`. */
+const STORE_FILE_NAME = 'search.json';
+
+/** Path of the store file, whether or not it exists. */
+export function searchStorePath(env: NodeJS.ProcessEnv = process.env, home: string = homedir()): string {
+  return join(env.XDG_STATE_HOME || join(home, '.local', 'state'), 'ports-cli', STORE_FILE_NAME);
+}
+
+/**
+ * Reads the store. Entries of the wrong type are skipped and the limits are
+ * applied, so a hand-edited file cannot break the UI.
+ */
+export function loadSearchStore(path: string = searchStorePath()): SearchStore {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return EMPTY_SEARCH_STORE;
+  }
+  const { history, filters } = (typeof json === 'object' && json !== null ? json : {}) as Record<string, unknown>;
+  return {
+    history: (Array.isArray(history) ? history : [])
+      .filter((q): q is string => typeof q === 'string')
+      .slice(0, MAX_HISTORY),
+    filters: (Array.isArray(filters) ? filters : [])
+      .filter((f): f is SavedFilter =>
+        typeof f === 'object' && f !== null && typeof f.name === 'string' && typeof f.query === 'string'
+      )
+      .map(({ name, query }) => ({ name, query }))
+      .slice(0, MAX_SAVED_FILTERS),
+  };
+}
+
+/** Writes the store, creating its directory. Failures are ignored; see the module comment. */
+export function saveSearchStore(store: SearchStore, path: string = searchStorePath()): void {
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(store, null, 2) + '\n');
+  } catch {
+    // The history is a convenience; a read-only home directory must not end the session.
+  }
+}
+
+/** `history` with `query` moved to the front. Blank queries are not remembered. */
+export function rememberQuery(history: readonly string[], query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [...history];
+  return [trimmed, ...history.filter(q => q !== trimmed)].slice(0, MAX_HISTORY);
+}
+
+/**
+ * `filters` with `query` saved as `name`: a filter of that name is updated in
+ * place, any other name is appended.
+ *
+ * @throws {Error} When the name is new and {@link MAX_SAVED_FILTERS} filters are saved already
+ */
+export function saveFilter(filters: readonly SavedFilter[], name: string, query: string): SavedFilter[] {
+  if (filters.some(f => f.name === name)) {
+    return filters.map(f => (f.name === name ? { name, query } : f));
+  }
+  if (filters.length >= MAX_SAVED_FILTERS) {
+    throw new Error(`${MAX_SAVED_FILTERS} filters saved; delete one first`);
+  }
+  return [...filters, { name, query }];
+}
@@ -0,0 +1,46 @@
+/**
+ * @module sortPorts
+ *
+ * Orders a port list by one {@link SortKey}. Collectors already return
+ * entries sorted by port; this re-sorts the displayed list when another
+ * order is configured or chosen with `o` / `O`.
+ */
+import type { PortEntry, SortKey, SortOrder } from '../types.js';
+
+/** Every {@link SortKey}, in the order the table shows their columns. */
+export const SORT_KEYS: readonly SortKey[] = ['port', 'protocol', 'process', 'user', 'pid', 'address'];
+
+/**
+ * The sort key after `current`, in table order, wrapping around. Only keys in
+ * `available` (the visible columns) are considered; `current` is returned
+ * unchanged when none are.
+ */
+export function nextSortKey(current: SortKey, available: readonly SortKey[] = SORT_KEYS): SortKey {
+  const keys = SORT_KEYS.filter(k => available.includes(k));
+  if (keys.length === 0) return current;
+  const position = SORT_KEYS.indexOf(current);
+  return keys.find(k => SORT_KEYS.indexOf(k) > position) ?? keys[0];
+}
+
+/** Compares two entries by `key` alone, ascending. */
+function compareBy(key: SortKey, a: PortEntry, b: PortEntry): number {
+  switch (key) {
+    case 'port':
+      return a.port - b.port;
+    case 'pid':
+      // PIDs are strings; compare them as the numbers they are.
+      return parseInt(a.pid, 10) - parseInt(b.pid, 10);
+    default:
+      return a[key].localeCompare(b[key], undefined, { sensitivity: 'base', numeric: true });
+  }
+}
+
+/**
+ * Returns a sorted copy of `ports`. Ties on `key` are broken by port, then
+ * by collector order (the sort is stable), in ascending order regardless of
+ * `order` so equal rows do not swap places when the direction is reversed.
+ */
+export function sortPorts(ports: readonly PortEntry[], key: SortKey, order: SortOrder = 'asc'): PortEntry[] {
+  const sign = order === 'asc' ? 1 : -1;
+  return [...ports].sort((a, b) => sign * compareBy(key, a, b) || a.port - b.port);
+}
@@ -0,0 +1,93 @@
+/**
+ * @module timeline
+ *
+ * The session timeline of the interactive UI: every port opened or closed
+ * since the UI started, as found by diffing successive snapshots (see
+ * usePortChanges). It answers questions like "what grabbed 8080 five
+ * minutes ago and then exited?" after the row itself is long gone.
+ *
+ * The timeline is exported in the shape of the lines of `ports watch
+ * --json`, so whatever reads one can read the other.
+ */
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+
+import type { PortChange, PortEntry, ProtocolFilter, SearchMode } from '../types.js';
+import { compileQuery } from './parseQuery.js';
+
+/** An entry that was opened or closed, and when. */
+export interface TimelineEvent {
+  change: PortChange;
+  port: PortEntry;
+  /** Epoch milliseconds of the snapshot that revealed the change. */
+  at: number;
+}
+
+/** An event as `ports watch --json` prints it and the timeline export writes it. */
+export interface PortEvent {
+  event: PortChange;
+  port: number;
+  protocol: PortEntry['protocol'];
+  address: string;
+  pid: string;
+  process: string;
+  /** ISO 8601 time of the snapshot that revealed the change. */
+  ts: string;
+}
+
+/** Events kept per session; the oldest are dropped so a long session does not grow without bound. */
+export const MAX_TIMELINE_EVENTS = 1000;
+
+/** Builds the {@link PortEvent} for one opened or closed entry. */
+export function toPortEvent(event: PortChange, entry: PortEntry, ts: string): PortEvent {
+  return {
+    event,
+    port: entry.port,
+    protocol: entry.protocol,
+    address: entry.address,
+    pid: entry.pid,
+    process: entry.process,
+    ts,
+  };
+}
+
+/** `events` followed by `latest`, keeping the newest {@link MAX_TIMELINE_EVENTS}. */
+export function appendEvents(events: readonly TimelineEvent[], latest: readonly TimelineEvent[]): TimelineEvent[] {
+  return [...events, ...latest].slice(-MAX_TIMELINE_EVENTS);
+}
+
+/**
+ * The events whose entry matches `query` and `protocol`, by the rules of
+ * filterPorts, so the search bar narrows the timeline as it does the list.
+ * Fuzzy matches are not ranked: the timeline stays in time order.
+ *
+ * @throws {QueryError} When `query` is invalid
+ */
+export function filterTimeline(
+  events: readonly TimelineEvent[],
+  query: string,
+  protocol: ProtocolFilter = 'all',
+  mode: SearchMode = 'substring',
+): TimelineEvent[] {
+  const { matches } = compileQuery(query, mode);
+  return events.filter(e => (protocol === 'all' || e.port.protocol === protocol) && matches(e.port));
+}
+
+/** Name of a file exported at `now`, e.g. `ports-timeline-2026-01-01T12-00-00Z.json`. */
+export function timelineFileName(now: Date): string {
+  return `ports-timeline-${now.toISOString().slice(0, 19).replace(/:/g, '-')}Z.json`;
+}
+
+/**
+ * Writes `events` to a new file in `dir` as a JSON array of
+ * {@link PortEvent}s, in the order given.
+ *
+ * @returns Path of the file written
+ * @throws {Error} When the file cannot be written
+ */
+export function exportTimeline(events: readonly TimelineEvent[], dir: string = process.cwd(), now: Date = new Date()): string {
+  const path = join(dir, timelineFileName(now));
+  const json = events.map(e => toPortEvent(e.change, e.port, new Date(e.at).toISOString()));
+  writeFileSync(path, JSON.stringify(json, null, 2) + '\n');
+  return path;
+}
@@ -6,21 +6,48 @@ vi.mock('../src/utils/getPorts.js', () => ({
 
 vi.mock('../src/utils/killPort.js', () => ({
   killPort: vi.fn(),
+  gracefulKill: vi.fn(),
+  sendSignal: vi.fn(),
+}))
+
+vi.mock('../src/sources/processInfo.js', () => ({
+  getProcessInfo: vi.fn(async () => ({ ppid: '1', parentName: 'launchd', established: 2 })),
+}))
+
+vi.mock('../src/utils/searchStore.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/utils/searchStore.js')>(),
+  loadSearchStore: vi.fn(() => ({ history: [], filters: [] })),
+  saveSearchStore: vi.fn(),
+}))
+
+vi.mock('../src/utils/timeline.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/utils/timeline.js')>(),
+  exportTimeline: vi.fn(() => '/work/ports-timeline.json'),
 }))
 
 import { render } from 'ink-testing-library'
 
 import { App } from '../src/app.js'
 import { getPorts } from '../src/utils/getPorts.js'
-import { killPort } from '../src/utils/killPort.js'
+import { killPort, gracefulKill, sendSignal } from '../src/utils/killPort.js'
+import type { KillResult } from '../src/utils/killPort.js'
+import { loadSearchStore, saveSearchStore } from '../src/utils/searchStore.js'
+import { exportTimeline } from '../src/utils/timeline.js'
 import { tick } from './helpers.js'
+import type { PortEntry } from '../src/types.js'
 
 const mockGetPorts = vi.mocked(getPorts)
 const mockKillPort = vi.mocked(killPort)
+const mockGracefulKill = vi.mocked(gracefulKill)
+const mockSendSignal = vi.mocked(sendSignal)
+const mockLoadSearchStore = vi.mocked(loadSearchStore)
+const mockSaveSearchStore = vi.mocked(saveSearchStore)
+const mockExportTimeline = vi.mocked(exportTimeline)
 
-const PORTS = [
+const PORTS: PortEntry[] = [
   {
     port: 3000,
+    protocol: 'tcp',
     process: 'node',
     pid: '100',
     user: 'patebry',
@@ -28,6 +55,7 @@ const PORTS = [
   },
   {
     port: 8080,
+    protocol: 'tcp',
     process: 'nginx',
     pid: '200',
     user: 'root',
@@ -39,53 +67,89 @@ describe('App', () => {
   let unmount: (() => void) | undefined
 
   beforeEach(() => {
-    mockGetPorts.mockReturnValue(PORTS)
-    mockKillPort.mockReturnValue({ success: true })
+    mockGetPorts.mockResolvedValue(PORTS)
+    mockKillPort.mockReturnValue({ success: true, signal: 'SIGKILL' })
   })
 
   afterEach(() => {
-    // Unmount to stop the 2-second lsof polling interval between tests.
+    // Unmount to stop the 2-second port polling interval between tests.
     unmount?.()
     unmount = undefined
   })
 
   // ─── Rendering ──────────────────────────────────────────────────────────────
 
-  it('renders the port list from getPorts', () => {
+  it('renders the port list from getPorts', async () => {
     const result = render(<App />)
     unmount = result.unmount
+    await tick() // let the first async port collection resolve
     expect(result.lastFrame()).toContain('3000')
     expect(result.lastFrame()).toContain('node')
     expect(result.lastFrame()).toContain('8080')
     expect(result.lastFrame()).toContain('nginx')
   })
 
-  it('renders empty state when no ports are available', () => {
-    mockGetPorts.mockReturnValue([])
+  it('renders empty state when no ports are available', async () => {
+    mockGetPorts.mockResolvedValue([])
     const result = render(<App />)
     unmount = result.unmount
+    await tick() // let the first async port collection resolve
     expect(result.lastFrame()).toContain('No listening ports found')
   })
 
-  it('renders the selection indicator on the first row by default', () => {
+  it('renders the selection indicator on the first row by default', async () => {
     const result = render(<App />)
     unmount = result.unmount
+    await tick() // let the first async port collection resolve
     expect(result.lastFrame()).toContain('▶')
   })
 
-  it('renders the app header', () => {
+  it('renders the app header', async () => {
     const result = render(<App />)
     unmount = result.unmount
+    await tick() // let the first async port collection resolve
     expect(result.lastFrame()).toContain('ports')
   })
 
-  it('renders navigate-mode keyboard hints', () => {
+  it('renders navigate-mode keyboard hints', async () => {
     const result = render(<App />)
     unmount = result.unmount
+    await tick() // let the first async port collection resolve
     expect(result.lastFrame()).toContain('search')
     expect(result.lastFrame()).toContain('quit')
   })
 
+  it('shows a scanning message until the first collection resolves', async () => {
+    mockGetPorts.mockReturnValue(new Promise(() => {}))
+    const result = render(<App />)
+    unmount = result.unmount
+    expect(result.lastFrame()).toContain('Scanning ports')
+  })
+
+  it('keeps showing the last snapshot when a refresh fails', async () => {
+    const result = render(<App />)
+    unmount = result.unmount
+    await tick()
+    mockGetPorts.mockRejectedValue(new Error('lsof timed out'))
+    result.stdin.write('r')
+    await tick()
+    expect(result.lastFrame()).toContain('node')
+    expect(result.lastFrame()).toContain('nginx')
+  })
+
+  it('keeps handling keys while a collection is still running', async () => {
+    const result = render(<App />)
+    unmount = result.unmount
+    await tick()
+    mockGetPorts.mockReturnValue(new Promise(() => {})) // a hung lsof
+    result.stdin.write('r')
+    await tick()
+    result.stdin.write('j')
+    await tick()
+    const frame = result.lastFrame() ?? ''
+    expect(frame.substring(frame.indexOf('▶'))).toContain('nginx')
+  })
+
   // ─── Search mode ────────────────────────────────────────────────────────────
 
   it('enters search mode when / is pressed', async () => {
@@ -171,8 +235,8 @@ describe('App', () => {
   // ─── Kill confirmation ───────────────────────────────────────────────────────
 
   it('Ctrl+K is a no-op when the port list is empty', async () => {
-    mockGetPorts.mockReturnValue([])
-    const result = render(<App />)
+    mockGetPorts.mockResolvedValue([])
+    const result = render(<App config={{ killGraceMs: 0 }} />)
     unmount = result.unmount
     await tick()
     mockKillPort.mockClear()
@@ -182,7 +246,7 @@ describe('App', () => {
   })
 
   it('Enter on an empty port list is a no-op (no confirmation prompt)', async () => {
-    mockGetPorts.mockReturnValue([])
+    mockGetPorts.mockResolvedValue([])
     const result = render(<App />)
     unmount = result.unmount
     await tick()
@@ -226,7 +290,7 @@ describe('App', () => {
   })
 
   it('calls killPort with the selected PID when y is pressed', async () => {
-    const result = render(<App />)
+    const result = render(<App config={{ killGraceMs: 0 }} />)
     unmount = result.unmount
     await tick()
     result.stdin.write('\r')
@@ -237,19 +301,19 @@ describe('App', () => {
   })
 
   it('shows a success message after a successful kill', async () => {
-    const result = render(<App />)
+    const result = render(<App config={{ killGraceMs: 0 }} />)
     unmount = result.unmount
     await tick()
     result.stdin.write('\r')
     await tick()
     result.stdin.write('y')
     await tick()
-    expect(result.lastFrame()).toContain('Killed node')
+    expect(result.lastFrame()).toContain('Killed node (100) with SIGKILL')
   })
 
   it('shows an error message when the kill fails', async () => {
     mockKillPort.mockReturnValue({ success: false, error: 'Permission denied' })
-    const result = render(<App />)
+    const result = render(<App config={{ killGraceMs: 0 }} />)
     unmount = result.unmount
     await tick()
     result.stdin.write('\r')
@@ -259,6 +323,453 @@ describe('App', () => {
     expect(result.lastFrame()).toContain('Failed: Permission denied')
   })
 
+  // ─── Graceful kill ───────────────────────────────────────────────────────────
+
+  describe('graceful kill', () => {
+    /** Resolves the pending gracefulKill call; set by the mock implementation. */
+    let settle: (result: KillResult) => void
+
+    beforeEach(() => {
+      mockGracefulKill.mockReset()
+      mockGracefulKill.mockImplementation(() => new Promise(resolve => { settle = resolve }))
+    })
+
+    it('sends SIGTERM with the default grace period instead of killing immediately', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      mockKillPort.mockClear()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(mockGracefulKill).toHaveBeenCalledWith('100', expect.objectContaining({ graceMs: 3000 }))
+      expect(mockKillPort).not.toHaveBeenCalled()
+    })
+
+    it('passes a custom grace period through', async () => {
+      const result = render(<App config={{ killGraceMs: 10_000 }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(mockGracefulKill).toHaveBeenCalledWith('100', expect.objectContaining({ graceMs: 10_000 }))
+    })
+
+    it('shows progress while waiting, then the signal that ended the process', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(result.lastFrame()).toContain('Terminating node (100)…')
+      settle({ success: true, signal: 'SIGTERM' })
+      await tick()
+      expect(result.lastFrame()).toContain('Killed node (100) with SIGTERM')
+    })
+
+    it('reports an escalation to SIGKILL', async () => {
+      mockGracefulKill.mockImplementation((_pid, options) => {
+        options.onEscalate?.()
+        return new Promise(resolve => { settle = resolve })
+      })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(result.lastFrame()).toContain('escalated to')
+      settle({ success: true, signal: 'SIGKILL' })
+      await tick()
+      expect(result.lastFrame()).toContain('Killed node (100) with SIGKILL')
+    })
+
+    it('shows an error when SIGTERM cannot be delivered', async () => {
+      mockGracefulKill.mockResolvedValue({ success: false, error: 'Operation not permitted' })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(result.lastFrame()).toContain('Failed: Operation not permitted')
+    })
+
+    it('does not auto-clear the progress message', async () => {
+      const result = render(<App _killMessageTimeoutMs={20} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect(result.lastFrame()).toContain('Terminating node (100)…')
+    })
+
+    it('treats the port as released once the poller no longer lists it', async () => {
+      let isReleased: (() => Promise<boolean>) | undefined
+      mockGracefulKill.mockImplementation((_pid, options) => {
+        isReleased = options.isReleased
+        return new Promise(resolve => { settle = resolve })
+      })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(mockGracefulKill).toHaveBeenCalledWith('100', expect.objectContaining({ releaseCheckMs: 2000 }))
+      const collections = mockGetPorts.mock.calls.length
+      expect(await isReleased?.()).toBe(false)
+      expect(mockGetPorts).toHaveBeenCalledTimes(collections)
+      // Same PID still listening, but on another port: 3000 itself is free.
+      mockGetPorts.mockResolvedValue([{ ...PORTS[0], port: 3001 }])
+      result.stdin.write('r')
+      await tick()
+      expect(await isReleased?.()).toBe(true)
+    })
+
+    it('aborts the wait on unmount and ignores the late result', async () => {
+      let signal: AbortSignal | undefined
+      mockGracefulKill.mockImplementation((_pid, options) => {
+        signal = options.signal
+        return new Promise(resolve => { settle = resolve })
+      })
+      const result = render(<App />)
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      result.unmount()
+      await tick()
+      expect(signal?.aborted).toBe(true)
+      settle({ success: false, error: 'Aborted' })
+      await tick()
+      expect(result.lastFrame()).not.toContain('Failed')
+    })
+  })
+
+  // ─── Signal menu ─────────────────────────────────────────────────────────────
+
+  describe('signal menu', () => {
+    beforeEach(() => {
+      mockSendSignal.mockReset()
+      mockSendSignal.mockImplementation((_pid, signal) => ({ success: true, signal }))
+    })
+
+    it('opens on s with the selected process in the title', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      expect(result.lastFrame()).toContain('Send signal to node (100)')
+      expect(result.lastFrame()).toContain('SIGHUP')
+    })
+
+    it('sends the chosen signal after confirmation', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      result.stdin.write('j') // SIGKILL
+      await tick()
+      result.stdin.write('j') // SIGHUP
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).not.toContain('Send signal to')
+      expect(result.lastFrame()).toContain('Send SIGHUP to node:3000?')
+      expect(mockSendSignal).not.toHaveBeenCalled()
+      result.stdin.write('y')
+      await tick()
+      expect(mockSendSignal).toHaveBeenCalledWith('100', 'SIGHUP')
+      expect(result.lastFrame()).toContain('Sent SIGHUP to node (100)')
+    })
+
+    it('does not move the port selection while open', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      result.stdin.write('\x1B') // close the menu
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 3000')
+    })
+
+    it('keeps the highlight within the list of signals', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      result.stdin.write('k') // already at the top
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('Send SIGTERM to node:3000?')
+    })
+
+    it('reopens with the first signal highlighted', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      result.stdin.write('s') // close
+      await tick()
+      result.stdin.write('s') // reopen
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('Send SIGTERM to')
+    })
+
+    it('falls back to a regular kill prompt after a cancelled signal', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      result.stdin.write('\x1B') // cancel the SIGTERM prompt
+      await tick()
+      result.stdin.write('\r') // regular kill prompt
+      await tick()
+      expect(result.lastFrame()).toContain('Kill node:3000?')
+    })
+
+    it('shows an error when the signal cannot be sent', async () => {
+      mockSendSignal.mockReturnValue({ success: false, error: 'Operation not permitted' })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      result.stdin.write('y')
+      await tick()
+      expect(result.lastFrame()).toContain('Failed: Operation not permitted')
+    })
+
+    it('does not open on an empty list', async () => {
+      mockGetPorts.mockResolvedValue([])
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      expect(result.lastFrame()).not.toContain('Send signal to')
+    })
+  })
+
+  // ─── Multi-select and batch kill ─────────────────────────────────────────────
+
+  describe('batch kill', () => {
+    /** node holds two ports, so four rows belong to three processes. */
+    const MANY: PortEntry[] = [
+      ...PORTS,
+      { ...PORTS[0], port: 9229 },
+      { port: 5432, protocol: 'tcp', process: 'postgres', pid: '400', user: 'pg', address: '127.0.0.1' },
+    ]
+
+    beforeEach(() => {
+      mockGetPorts.mockResolvedValue(MANY)
+      mockKillPort.mockClear()
+    })
+
+    it('marks the selected row on space and moves down', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write(' ')
+      await tick()
+      expect(result.lastFrame()).toContain(' ●3000')
+      // The list is sorted by port, so 5432 follows 3000.
+      expect(result.lastFrame()).toContain('▶ 5432')
+      expect(result.lastFrame()).toContain('1 marked')
+    })
+
+    it('unmarks a marked row on a second space', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write(' ')
+      await tick()
+      result.stdin.write('k')
+      await tick()
+      result.stdin.write(' ')
+      await tick()
+      expect(result.lastFrame()).not.toContain('●')
+    })
+
+    it('marks only the visible rows on a', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('node')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      result.stdin.write('a')
+      await tick()
+      expect(result.lastFrame()).toContain('2 marked')
+    })
+
+    it('inverts the marks of the visible rows on i', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write(' ') // mark 3000
+      await tick()
+      result.stdin.write('i')
+      await tick()
+      const frame = result.lastFrame() ?? ''
+      expect(frame).toContain('3 marked')
+      expect(frame).not.toContain('●3000')
+    })
+
+    it('clears the marks on ESC', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('a')
+      await tick()
+      result.stdin.write('\x1B')
+      await tick()
+      expect(result.lastFrame()).not.toContain('●')
+      expect(result.lastFrame()).not.toContain('marked')
+    })
+
+    it('confirms once and kills each marked process once', async () => {
+      const result = render(<App config={{ killGraceMs: 0 }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('a')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('Kill 3 processes (4 ports)?')
+      result.stdin.write('y')
+      await tick()
+      expect(mockKillPort.mock.calls.map(c => c[0]).sort()).toEqual(['100', '200', '400'])
+      expect(result.lastFrame()).toContain('Killed 3 processes')
+      expect(result.lastFrame()).not.toContain('●')
+    })
+
+    it('leaves marked rows hidden by the current filter out of a kill', async () => {
+      const result = render(<App config={{ killGraceMs: 0 }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write(' ') // mark node:3000
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('nginx')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).not.toContain('1 marked')
+      result.stdin.write('\x0B') // Ctrl+K kills the selected nginx, not the hidden node
+      await tick()
+      expect(mockKillPort).toHaveBeenCalledTimes(1)
+      expect(mockKillPort).toHaveBeenCalledWith('200')
+    })
+
+    it('counts a hidden mark again once the filter shows its row', async () => {
+      const result = render(<App config={{ killGraceMs: 0 }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write(' ') // mark node:3000
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('nginx')
+      await tick()
+      result.stdin.write('\x1B') // clear the search
+      await tick()
+      expect(result.lastFrame()).toContain('1 marked')
+    })
+
+    it('reports each PID that could not be killed', async () => {
+      mockKillPort.mockImplementation(pid => pid === '200'
+        ? { success: false, error: 'Operation not permitted' }
+        : { success: true, signal: 'SIGKILL' })
+      const result = render(<App config={{ killGraceMs: 0 }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('a')
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      const frame = result.lastFrame() ?? ''
+      expect(frame).toContain('Killed 2 of 3 processes; failed nginx (200):')
+      expect(frame).toContain('Operation not permitted')
+    })
+
+    it('terminates marked processes gracefully with a single progress message', async () => {
+      let settle: (results: KillResult) => void = () => {}
+      mockGracefulKill.mockReset()
+      mockGracefulKill.mockImplementation(pid => pid === '400'
+        ? new Promise(resolve => { settle = resolve })
+        : Promise.resolve({ success: true, signal: 'SIGTERM' }))
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('a')
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(mockGracefulKill).toHaveBeenCalledTimes(3)
+      expect(result.lastFrame()).toContain('Terminating 3 processes…')
+      settle({ success: true, signal: 'SIGKILL' })
+      await tick()
+      expect(result.lastFrame()).toContain('Killed 3 processes (1 with')
+    })
+
+    it('reports an escalation during a graceful batch kill', async () => {
+      mockGracefulKill.mockReset()
+      mockGracefulKill.mockImplementation((_pid, options) => {
+        options.onEscalate?.()
+        return new Promise(() => {})
+      })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write(' ')
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(result.lastFrame()).toContain('Terminating 1 process… escalated to')
+    })
+
+    it('ends each wait of a graceful batch kill once the poller no longer lists its ports', async () => {
+      const checks = new Map<string, () => Promise<boolean>>()
+      mockGracefulKill.mockReset()
+      mockGracefulKill.mockImplementation((pid, options) => {
+        if (options.isReleased) checks.set(pid, options.isReleased)
+        return new Promise(() => {})
+      })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('a')
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(await checks.get('100')?.()).toBe(false)
+      mockGetPorts.mockResolvedValue(PORTS.filter(p => p.pid !== '100'))
+      result.stdin.write('r')
+      await tick()
+      expect(await checks.get('100')?.()).toBe(true)
+      expect(await checks.get('200')?.()).toBe(false)
+    })
+  })
+
   // ─── Help overlay ────────────────────────────────────────────────────────────
 
   it('opens the help overlay when ? is pressed', async () => {
@@ -328,7 +839,7 @@ describe('App', () => {
   // ─── Empty-list navigation guard ─────────────────────────────────────────────
 
   it('pressing j on an empty list does not leave selectedIndex at -1 after list repopulates', async () => {
-    mockGetPorts.mockReturnValue([])
+    mockGetPorts.mockResolvedValue([])
     const result = render(<App />)
     unmount = result.unmount
     await tick()
@@ -337,7 +848,7 @@ describe('App', () => {
     // Now repopulate the list — clampedIndex must not stay at -1 (which would make
     // selectedPort null even with items present). The Math.max(0, selectedIndex)
     // floor in clampedIndex ensures the sync effect corrects selectedIndex to 0.
-    mockGetPorts.mockReturnValue(PORTS)
+    mockGetPorts.mockResolvedValue(PORTS)
     result.stdin.write('r') // manual refresh
     await tick()
     // Arrow should now appear on node (first row), not be absent entirely
@@ -474,7 +985,7 @@ describe('App', () => {
   // ─── Ctrl+K direct kill ───────────────────────────────────────────────────────
 
   it('calls killPort directly when Ctrl+K is pressed', async () => {
-    const result = render(<App />)
+    const result = render(<App config={{ killGraceMs: 0 }} />)
     unmount = result.unmount
     await tick()
     result.stdin.write('\x0B') // Ctrl+K (character code 11)
@@ -483,7 +994,7 @@ describe('App', () => {
   })
 
   it('cancels a pending post-kill refresh when a second kill fires before the timer expires', async () => {
-    const result = render(<App />)
+    const result = render(<App config={{ killGraceMs: 0 }} />)
     unmount = result.unmount
     await tick()
     mockKillPort.mockClear() // reset call counter accumulated from previous tests
@@ -620,6 +1131,110 @@ describe('App', () => {
     expect(result.lastFrame()).not.toContain('nginx')
   })
 
+  // ─── Protocol filter ────────────────────────────────────────────────────────
+
+  describe('protocol filter', () => {
+    const MIXED: PortEntry[] = [
+      ...PORTS,
+      { port: 5353, protocol: 'udp', process: 'mdnsd', pid: '300', user: 'root', address: '0.0.0.0' },
+    ]
+
+    it('shows TCP and UDP entries together by default', async () => {
+      mockGetPorts.mockResolvedValue(MIXED)
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('nginx')
+      expect(result.lastFrame()).toContain('mdnsd')
+    })
+
+    it('cycles both → TCP → UDP → both with p', async () => {
+      mockGetPorts.mockResolvedValue(MIXED)
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+
+      result.stdin.write('p')
+      await tick()
+      expect(result.lastFrame()).toContain('nginx')
+      expect(result.lastFrame()).not.toContain('mdnsd')
+
+      result.stdin.write('p')
+      await tick()
+      expect(result.lastFrame()).not.toContain('nginx')
+      expect(result.lastFrame()).toContain('mdnsd')
+
+      result.stdin.write('p')
+      await tick()
+      expect(result.lastFrame()).toContain('nginx')
+      expect(result.lastFrame()).toContain('mdnsd')
+    })
+
+    it('kills a UDP-bound process through the same confirmation flow', async () => {
+      mockGetPorts.mockResolvedValue(MIXED)
+      const result = render(<App config={{ killGraceMs: 0 }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('p')
+      await tick()
+      result.stdin.write('p') // UDP only: mdnsd is the first (and only) row
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('5353/udp?')
+      result.stdin.write('y')
+      await tick()
+      expect(mockKillPort).toHaveBeenCalledWith('300')
+    })
+  })
+
+  it('filters the port list by command line and working directory', async () => {
+    mockGetPorts.mockResolvedValue([
+      { ...PORTS[0], command: 'node server.js', cwd: '/home/u/code/billing-api' },
+      { ...PORTS[1], command: 'nginx: master process', cwd: '/' },
+    ])
+    const result = render(<App />)
+    unmount = result.unmount
+    await tick()
+    result.stdin.write('/')
+    await tick()
+    result.stdin.write('billing')
+    await tick()
+    expect(result.lastFrame()).toContain('node')
+    expect(result.lastFrame()).not.toContain('nginx')
+  })
+
+  // ─── Detail pane ────────────────────────────────────────────────────────────
+
+  it('toggles the detail pane for the selected port with d', async () => {
+    mockGetPorts.mockResolvedValue([{ ...PORTS[0], command: 'node server.js' }, PORTS[1]])
+    const result = render(<App />)
+    unmount = result.unmount
+    await tick()
+    expect(result.lastFrame()).not.toContain('Connections')
+
+    result.stdin.write('d')
+    await tick()
+    expect(result.lastFrame()).toContain('node server.js')
+    expect(result.lastFrame()).toContain('1 (launchd)')
+    expect(result.lastFrame()).toContain('2 established')
+
+    result.stdin.write('d')
+    await tick()
+    expect(result.lastFrame()).not.toContain('Connections')
+  })
+
+  it('updates the detail pane when the selection moves', async () => {
+    const result = render(<App />)
+    unmount = result.unmount
+    await tick()
+    result.stdin.write('d')
+    await tick()
+    result.stdin.write('j')
+    await tick()
+    expect(result.lastFrame()).toMatch(/Listening\s+0\.0\.0\.0:8080\/tcp/)
+  })
+
   // ─── Case-insensitive search ────────────────────────────────────────────────
 
   it('matches process names case-insensitively (uppercase query matches lowercase process)', async () => {
@@ -633,6 +1248,824 @@ describe('App', () => {
     expect(result.lastFrame()).toContain('node')
     expect(result.lastFrame()).not.toContain('nginx')
   })
+
+  // ─── Configuration ──────────────────────────────────────────────────────────
+
+  describe('structured queries', () => {
+    it('filters by a field term', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('-user:root')
+      await tick()
+      expect(result.lastFrame()).toContain('3000')
+      expect(result.lastFrame()).not.toContain('8080')
+    })
+
+    it('shows an invalid query inline and keeps every row', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('port:http')
+      await tick()
+      const frame = result.lastFrame() ?? ''
+      expect(frame).toContain('✗ invalid port "http"')
+      expect(frame).toContain('3000')
+      expect(frame).toContain('8080')
+    })
+  })
+
+  describe('search modes', () => {
+    it('cycles substring, fuzzy and regex with tab while searching', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      expect(result.lastFrame()).toContain('ports substring')
+      result.stdin.write('\t')
+      await tick()
+      expect(result.lastFrame()).toContain('ports fuzzy')
+      result.stdin.write('\t')
+      await tick()
+      expect(result.lastFrame()).toContain('ports regex')
+      result.stdin.write('\t')
+      await tick()
+      expect(result.lastFrame()).toContain('ports substring')
+    })
+
+    it('tolerates a typo in fuzzy mode', async () => {
+      const result = render(<App config={{ searchMode: 'fuzzy' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('ngnix')
+      await tick()
+      expect(result.lastFrame()).toContain('8080')
+      expect(result.lastFrame()).not.toContain('3000')
+    })
+
+    it('ranks fuzzy matches above the sort order', async () => {
+      mockGetPorts.mockResolvedValue([{ ...PORTS[0], port: 1000, process: 'engine-x' }, PORTS[1]])
+      const result = render(<App config={{ searchMode: 'fuzzy', filter: 'ngin' }} />)
+      unmount = result.unmount
+      await tick()
+      const frame = result.lastFrame() ?? ''
+      expect(frame.indexOf('8080')).toBeLessThan(frame.indexOf('1000'))
+      expect(frame).toContain('▶ 8080')
+    })
+
+    it('matches a regular expression in regex mode', async () => {
+      const result = render(<App config={{ searchMode: 'regex' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('^node$|^bun$')
+      await tick()
+      expect(result.lastFrame()).toContain('3000')
+      expect(result.lastFrame()).not.toContain('8080')
+    })
+
+    it('reports an invalid regular expression inline', async () => {
+      const result = render(<App config={{ searchMode: 'regex', filter: 'node(' }} />)
+      unmount = result.unmount
+      await tick()
+      const frame = result.lastFrame() ?? ''
+      expect(frame).toContain('✗ invalid regex "node(": Unterminated group')
+      expect(frame).toContain('8080')
+    })
+  })
+
+  describe('search history and saved filters', () => {
+    const FILTERS = [{ name: 'web', query: 'nginx' }, { name: 'mine', query: 'user:patebry' }]
+
+    beforeEach(() => {
+      mockSaveSearchStore.mockClear()
+    })
+
+    it('remembers a query committed with enter', async () => {
+      mockLoadSearchStore.mockReturnValueOnce({ history: ['deno'], filters: [] })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('nginx')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(mockSaveSearchStore).toHaveBeenCalledWith({ history: ['nginx', 'deno'], filters: [] })
+    })
+
+    it('does not remember an invalid query', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('port:x')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(mockSaveSearchStore).not.toHaveBeenCalled()
+    })
+
+    it('recalls earlier queries with the arrows in an empty search bar', async () => {
+      mockLoadSearchStore.mockReturnValueOnce({ history: ['nginx', 'node'], filters: [] })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('/')
+      await tick()
+      result.stdin.write('\x1B[A')
+      await tick()
+      expect(result.lastFrame()).toContain('/ nginx')
+      expect(result.lastFrame()).not.toContain('3000')
+      result.stdin.write('\x1B[A')
+      await tick()
+      result.stdin.write('\x1B[A') // already at the oldest query
+      await tick()
+      expect(result.lastFrame()).toContain('/ node')
+      result.stdin.write('\x1B[B')
+      await tick()
+      result.stdin.write('\x1B[B')
+      await tick()
+      expect(result.lastFrame()).toContain('type to filter')
+    })
+
+    it('saves the query under a typed name and shows it in the search bar', async () => {
+      const result = render(<App config={{ filter: 'nginx' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('F')
+      await tick()
+      expect(result.lastFrame()).toContain('Save filter as: █')
+      result.stdin.write('web')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(mockSaveSearchStore).toHaveBeenCalledWith({ history: [], filters: [{ name: 'web', query: 'nginx' }] })
+      expect(result.lastFrame()).toContain('nginx  ★ web')
+    })
+
+    it('names an unnamed filter after its query', async () => {
+      const result = render(<App config={{ filter: 'nginx' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('F')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(mockSaveSearchStore).toHaveBeenCalledWith({ history: [], filters: [{ name: 'nginx', query: 'nginx' }] })
+    })
+
+    it('refuses to save an empty query', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('F')
+      await tick()
+      expect(result.lastFrame()).toContain('No search query to save')
+      expect(result.lastFrame()).not.toContain('Save filter as')
+    })
+
+    it('reports a full filter list', async () => {
+      const full = Array.from({ length: 9 }, (_, i) => ({ name: `f${i}`, query: `pid:${i + 1}` }))
+      mockLoadSearchStore.mockReturnValueOnce({ history: [], filters: full })
+      const result = render(<App config={{ filter: 'nginx' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('F')
+      await tick()
+      result.stdin.write('new')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('9 filters saved; delete one first')
+      expect(mockSaveSearchStore).not.toHaveBeenCalled()
+    })
+
+    it('applies a saved filter from the menu by number or with enter', async () => {
+      mockLoadSearchStore.mockReturnValueOnce({ history: [], filters: FILTERS })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('f')
+      await tick()
+      expect(result.lastFrame()).toContain('Saved filters')
+      result.stdin.write('2')
+      await tick()
+      expect(result.lastFrame()).not.toContain('Saved filters')
+      expect(result.lastFrame()).toContain('user:patebry  ★ mine')
+      expect(result.lastFrame()).not.toContain('8080')
+      result.stdin.write('f')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('nginx  ★ web')
+      expect(result.lastFrame()).not.toContain('3000')
+    })
+
+    it('deletes the highlighted filter from the menu', async () => {
+      mockLoadSearchStore.mockReturnValueOnce({ history: [], filters: FILTERS })
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('f')
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      result.stdin.write('\x7F')
+      await tick()
+      expect(mockSaveSearchStore).toHaveBeenCalledWith({ history: [], filters: [FILTERS[0]] })
+      expect(result.lastFrame()).not.toContain('user:patebry')
+      result.stdin.write('\x1B')
+      await tick()
+      expect(result.lastFrame()).not.toContain('Saved filters')
+    })
+  })
+
+  describe('grouping', () => {
+    const GROUPED: PortEntry[] = [...PORTS, { ...PORTS[1], port: 8443, pid: '201' }]
+
+    beforeEach(() => {
+      mockGetPorts.mockResolvedValue(GROUPED)
+      mockKillPort.mockClear()
+    })
+
+    it('cycles PID, process, user and no grouping with b', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('b')
+      await tick()
+      expect(result.lastFrame()).toContain('▾ nginx (200)  1 port: 8080')
+      result.stdin.write('b')
+      await tick()
+      expect(result.lastFrame()).toContain('▾ nginx  2 PIDs · 2 ports: 8080, 8443')
+      result.stdin.write('b')
+      await tick()
+      expect(result.lastFrame()).toContain('▾ root  2 PIDs · 2 ports: 8080, 8443')
+      result.stdin.write('b')
+      await tick()
+      expect(result.lastFrame()).not.toContain('▾')
+    })
+
+    it('keeps the selection on its port when the grouping changes', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      result.stdin.write('b')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 8080')
+    })
+
+    it('starts with the configured grouping', async () => {
+      const result = render(<App config={{ groupBy: 'user' }} />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('▶ ▾ patebry  1 port: 3000')
+      expect(result.lastFrame()).toContain('patebry: 1 port')
+    })
+
+    it('collapses the group of the selected row with z and moves to its header', async () => {
+      const result = render(<App config={{ groupBy: 'process' }} />)
+      unmount = result.unmount
+      await tick()
+      for (const key of ['j', 'j', 'j']) {
+        result.stdin.write(key)
+        await tick()
+      }
+      expect(result.lastFrame()).toContain('▶ 8080')
+      result.stdin.write('z')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ ▸ nginx')
+      expect(result.lastFrame()).not.toContain('8443    TCP')
+      result.stdin.write('z')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ ▾ nginx')
+      expect(result.lastFrame()).toContain('8443    TCP')
+    })
+
+    it('collapses and expands every group with Z', async () => {
+      const result = render(<App config={{ groupBy: 'pid' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('Z')
+      await tick()
+      expect(result.lastFrame()).not.toContain('TCP')
+      expect((result.lastFrame() ?? '').match(/▸/g)).toHaveLength(3)
+      result.stdin.write('Z')
+      await tick()
+      expect(result.lastFrame()).not.toContain('▸')
+    })
+
+    it('does nothing on z without grouping', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('z')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 3000')
+    })
+
+    it('kills every process of a group from its header after one confirmation', async () => {
+      const result = render(<App config={{ groupBy: 'process', killGraceMs: 0 }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('Kill 2 processes in group nginx?')
+      result.stdin.write('y')
+      await tick()
+      expect(mockKillPort.mock.calls.map(c => c[0]).sort()).toEqual(['200', '201'])
+      expect(result.lastFrame()).toContain('Killed 2 processes')
+    })
+
+    it('marks every row of a group from its header', async () => {
+      const result = render(<App config={{ groupBy: 'process' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      result.stdin.write(' ')
+      await tick()
+      expect(result.lastFrame()).toContain('2 marked')
+      result.stdin.write('k')
+      await tick()
+      result.stdin.write(' ')
+      await tick()
+      expect(result.lastFrame()).not.toContain('marked')
+    })
+
+    it('shows the details of the single process behind a header', async () => {
+      const result = render(<App config={{ groupBy: 'pid' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('d')
+      await tick()
+      expect(result.lastFrame()).toContain('127.0.0.1:3000/tcp')
+    })
+  })
+
+  describe('vim-style navigation', () => {
+    // 40 listeners on 4000–4039; the 24-row default terminal shows 18 of them.
+    const MANY: PortEntry[] = Array.from({ length: 40 }, (_, i) => ({ ...PORTS[0], port: 4000 + i, pid: String(1000 + i) }))
+
+    beforeEach(() => {
+      mockGetPorts.mockResolvedValue(MANY)
+    })
+
+    /** Renders the App and types `keys`, one keypress each. */
+    async function press(keys: string[], config?: Parameters<typeof App>[0]['config']) {
+      const result = render(<App config={config} />)
+      unmount = result.unmount
+      await tick()
+      for (const key of keys) {
+        result.stdin.write(key)
+        await tick()
+      }
+      return result
+    }
+
+    it('jumps to the last and first row with G and g', async () => {
+      const result = await press(['G'])
+      expect(result.lastFrame()).toContain('▶ 4039')
+      result.stdin.write('g')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 4000')
+    })
+
+    it('pages by the visible window and half of it', async () => {
+      const result = await press(['\x1B[6~'])
+      expect(result.lastFrame()).toContain('▶ 4018')
+      result.stdin.write('\x15') // ctrl+u
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 4009')
+    })
+
+    it('repeats a motion by a count prefix, shown while typed', async () => {
+      const result = await press(['1', '2'])
+      expect(result.lastFrame()).toMatch(/12\s*$/)
+      result.stdin.write('j')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 4012')
+      result.stdin.write('j')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 4013')
+    })
+
+    it('jumps to row N with NG', async () => {
+      const result = await press(['3', '0', 'G'])
+      expect(result.lastFrame()).toContain('▶ 4029')
+    })
+
+    it('goes to a port outside the window with :', async () => {
+      const result = await press([':', '4', '0', '3', '5'])
+      expect(result.lastFrame()).toContain('Go to port: 4035█')
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 4035')
+    })
+
+    it('reports a port nothing listens on, or one the filter hides', async () => {
+      const result = await press([':', '9', '9', '\r'])
+      expect(result.lastFrame()).toContain('Nothing listens on port 99')
+      expect(result.lastFrame()).toContain('▶ 4000')
+      mockGetPorts.mockResolvedValue(PORTS)
+      const filtered = await press([':', '8', '0', '8', '0', '\r'], { filter: 'node' })
+      expect(filtered.lastFrame()).toContain('Port 8080 is hidden by the filter')
+    })
+
+    it('expands the collapsed group of the port it goes to', async () => {
+      const result = await press(['Z', ':', '4', '0', '2', '0', '\r'], { groupBy: 'user' })
+      expect(result.lastFrame()).toContain('▶ 4020')
+      expect(result.lastFrame()).not.toContain('▸ patebry')
+    })
+  })
+
+  describe('mouse', () => {
+    // Frame lines: the search bar takes 0–2, the column headers 3, rows start at 4.
+    const click = (x: number, line: number) => `\x1b[<0;${x};${line + 1}M`
+
+    async function setup() {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      return result
+    }
+
+    it('selects the clicked row', async () => {
+      const result = await setup()
+      result.stdin.write(click(5, 5))
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 8080')
+    })
+
+    it('asks to kill the row on a double-click', async () => {
+      const result = await setup()
+      result.stdin.write(click(5, 5))
+      await tick()
+      result.stdin.write(click(5, 5))
+      await tick()
+      expect(result.lastFrame()).toContain('Kill nginx:8080?')
+    })
+
+    it('ignores clicks below the rows and while a prompt is open', async () => {
+      const result = await setup()
+      result.stdin.write(click(5, 9))
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 3000')
+      result.stdin.write('\r')
+      await tick()
+      result.stdin.write(click(5, 5))
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 3000')
+      expect(result.lastFrame()).toContain('Kill node:3000?')
+    })
+
+    it('sorts by a clicked column header, and reverses it on a second click', async () => {
+      const result = await setup()
+      const x = (result.lastFrame() ?? '').split('\n')[3].indexOf('PROCESS') + 1
+      result.stdin.write(click(x, 3))
+      await tick()
+      expect(result.lastFrame()).toContain('PROCESS ↑')
+      expect(result.lastFrame()).toContain('▶ 3000') // the selection stays on node
+      result.stdin.write(click(x, 3))
+      await tick()
+      expect(result.lastFrame()).toContain('PROCESS ↓')
+    })
+
+    it('scrolls with the wheel', async () => {
+      mockGetPorts.mockResolvedValue(Array.from({ length: 40 }, (_, i) => ({ ...PORTS[0], port: 4000 + i, pid: String(1000 + i) })))
+      const result = await setup()
+      result.stdin.write('\x1b[<65;5;5M\x1b[<65;5;5M')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 4006')
+      result.stdin.write('\x1b[<64;5;5M')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 4003')
+    })
+  })
+
+  describe('port changes', () => {
+    const REDIS: PortEntry = { port: 6379, protocol: 'tcp', process: 'redis', pid: '300', user: 'patebry', address: '127.0.0.1' }
+
+    async function refreshTo(ports: PortEntry[], keys: string[] = []) {
+      const result = render(<App _changeHighlightMs={150} />)
+      unmount = result.unmount
+      await tick()
+      for (const key of keys) {
+        result.stdin.write(key)
+        await tick()
+      }
+      mockGetPorts.mockResolvedValue(ports)
+      result.stdin.write('r')
+      await tick()
+      return result
+    }
+
+    it('counts ports that appeared', async () => {
+      const result = await refreshTo([...PORTS, REDIS])
+      expect(result.lastFrame()).toContain('redis')
+      expect(result.lastFrame()).toContain('+1 / −0  node:3000')
+    })
+
+    it('keeps a port that disappeared as a ghost row until the highlight expires', async () => {
+      const result = await refreshTo([PORTS[0]])
+      expect(result.lastFrame()).toContain('nginx')
+      expect(result.lastFrame()).toContain('+0 / −1')
+      await new Promise(resolve => setTimeout(resolve, 200))
+      expect(result.lastFrame()).not.toContain('nginx')
+      expect(result.lastFrame()).not.toContain('−1')
+    })
+
+    it('does not act on a selected ghost row', async () => {
+      mockKillPort.mockClear()
+      const result = await refreshTo([PORTS[0]], ['j'])
+      expect(result.lastFrame()).toContain('▶ 8080')
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).not.toContain('Kill nginx')
+      expect(mockKillPort).not.toHaveBeenCalled()
+    })
+
+    it('leaves ghost rows out of a kill from their group header', async () => {
+      mockGetPorts.mockResolvedValue([...PORTS, REDIS])
+      const result = render(<App config={{ groupBy: 'user' }} _changeHighlightMs={150} />)
+      unmount = result.unmount
+      await tick()
+      mockGetPorts.mockResolvedValue(PORTS)
+      result.stdin.write('r')
+      await tick()
+      expect(result.lastFrame()).toContain('redis')
+      result.stdin.write('\r')
+      await tick()
+      expect(result.lastFrame()).toContain('Kill 1 process in group patebry?')
+    })
+  })
+
+  describe('timeline', () => {
+    const REDIS: PortEntry = { port: 6379, protocol: 'tcp', process: 'redis', pid: '300', user: 'patebry', address: '127.0.0.1' }
+
+    /** Renders the App, replaces nginx with redis on a refresh, then presses `keys`. */
+    async function setup(keys: string[]) {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      mockGetPorts.mockResolvedValue([PORTS[0], REDIS])
+      result.stdin.write('r')
+      await tick()
+      for (const key of keys) {
+        result.stdin.write(key)
+        await tick()
+      }
+      return result
+    }
+
+    it('replaces the list with the session events, newest first', async () => {
+      const result = await setup(['t'])
+      const lines = (result.lastFrame() ?? '').split('\n')
+      expect(lines[3]).toMatch(/TIME\s+AGO\s+EVENT/)
+      // Both changes came with one snapshot, recorded closed first
+      expect(lines[4]).toMatch(/opened\s+6379\s+TCP\s+redis/)
+      expect(lines[5]).toMatch(/closed\s+8080\s+TCP\s+nginx/)
+      expect(result.lastFrame()).toContain('2 events')
+    })
+
+    it('moves through the events and ignores keys acting on list rows', async () => {
+      const result = await setup(['t', 'j', '\r'])
+      expect(result.lastFrame()).toMatch(/▶ \S+\s+\S+ ago\s+closed\s+8080/)
+      expect(result.lastFrame()).not.toContain('Kill')
+    })
+
+    it('is filtered by the search bar', async () => {
+      const result = await setup(['t', '/', 'r', 'e', 'd', 'i', 's', '\r'])
+      expect(result.lastFrame()).toContain('redis')
+      expect(result.lastFrame()).not.toContain('nginx')
+      expect(result.lastFrame()).toContain('1 event')
+    })
+
+    it('returns to the list', async () => {
+      const result = await setup(['t', 't'])
+      expect(result.lastFrame()).toContain('PORT ↑')
+      expect(result.lastFrame()).not.toContain('EVENT')
+    })
+
+    it('exports the events shown, oldest first', async () => {
+      mockExportTimeline.mockClear()
+      const result = await setup(['t', 'e'])
+      expect(mockExportTimeline.mock.calls[0][0].map(e => e.change)).toEqual(['closed', 'opened'])
+      // The message wraps next to the hints, so its parts are checked
+      expect(result.lastFrame()).toContain('Exported 2 events to')
+      expect(result.lastFrame()).toContain('ports-timeline.json')
+    })
+
+    it('reports an export that failed', async () => {
+      mockExportTimeline.mockImplementationOnce(() => {
+        throw new Error('EACCES: permission denied')
+      })
+      const result = await setup(['t', 'e'])
+      expect(result.lastFrame()).toContain('Export failed: EACCES')
+    })
+
+    it('has nothing to export while the search hides every event', async () => {
+      const result = await setup(['t', '/', 'x', 'y', 'z', '\r', 'e'])
+      expect(result.lastFrame()).toContain('No events to export')
+    })
+  })
+
+  describe('sorting', () => {
+    it('cycles the sort column with o and shows it in the header', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('PORT ↑')
+      result.stdin.write('o') // protocol: both TCP, ties stay in port order
+      await tick()
+      expect(result.lastFrame()).toContain('PROTO ↑')
+      result.stdin.write('o') // process: nginx before node
+      await tick()
+      const frame = result.lastFrame() ?? ''
+      expect(frame).toContain('PROCESS ↑')
+      expect(frame.indexOf('8080')).toBeLessThan(frame.indexOf('3000'))
+    })
+
+    it('reverses the order with O', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('O')
+      await tick()
+      const frame = result.lastFrame() ?? ''
+      expect(frame).toContain('PORT ↓')
+      expect(frame.indexOf('8080')).toBeLessThan(frame.indexOf('3000'))
+    })
+
+    it('keeps the selection on the same entry when the order changes', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 3000')
+      result.stdin.write('O') // node moves to the second row
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 3000')
+      result.stdin.write('k') // navigation still works from the new position
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 8080')
+    })
+
+    it('keeps the selection on the same entry when a refresh inserts rows above it', async () => {
+      const result = render(<App />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('j')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 8080')
+      mockGetPorts.mockResolvedValue([{ ...PORTS[0], port: 1000, pid: '50', process: 'vite' }, ...PORTS])
+      result.stdin.write('r')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 8080')
+    })
+
+    it('only cycles through visible columns', async () => {
+      const result = render(<App config={{ columns: ['port', 'pid'] }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('o')
+      await tick()
+      expect(result.lastFrame()).toContain('PID ↑')
+      result.stdin.write('o')
+      await tick()
+      expect(result.lastFrame()).toContain('PORT ↑')
+    })
+  })
+
+  describe('configuration', () => {
+    it('starts with the configured filter', async () => {
+      const result = render(<App config={{ filter: 'nginx' }} />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('8080')
+      expect(result.lastFrame()).not.toContain('3000')
+    })
+
+    it('starts with the configured protocol', async () => {
+      mockGetPorts.mockResolvedValue([...PORTS, { ...PORTS[0], port: 5353, protocol: 'udp', process: 'mdns' }])
+      const result = render(<App config={{ protocol: 'udp' }} />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('5353')
+      expect(result.lastFrame()).not.toContain('8080')
+    })
+
+    it('orders rows by the configured sort', async () => {
+      const result = render(<App config={{ sort: 'process' }} />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 8080')
+    })
+
+    it('reverses the order with sortOrder desc', async () => {
+      const result = render(<App config={{ sortOrder: 'desc' }} />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 8080')
+    })
+
+    it('uses the configured key bindings in handler, hints and help', async () => {
+      const result = render(<App config={{ keys: { moveDown: ['n'], help: ['h'] } }} />)
+      unmount = result.unmount
+      await tick()
+      expect(result.lastFrame()).toContain('h help')
+      result.stdin.write('n')
+      await tick()
+      expect(result.lastFrame()).toContain('▶ 8080')
+      result.stdin.write('h')
+      await tick()
+      expect(result.lastFrame()).toMatch(/n\s+Move down/)
+    })
+
+    it('shows only the configured columns', async () => {
+      const result = render(<App config={{ columns: ['port', 'process'] }} />)
+      unmount = result.unmount
+      await tick()
+      const frame = result.lastFrame() ?? ''
+      expect(frame).toContain('PROCESS')
+      expect(frame).not.toContain('USER')
+      expect(frame).not.toContain('0.0.0.0')
+    })
+
+    it('polls at the configured interval', async () => {
+      const result = render(<App config={{ refreshIntervalMs: 20 }} />)
+      unmount = result.unmount
+      await new Promise(resolve => setTimeout(resolve, 150))
+      expect(mockGetPorts.mock.calls.length).toBeGreaterThan(2)
+    })
+
+    it('starts a graceful kill with the configured signal', async () => {
+      mockGracefulKill.mockReset()
+      mockGracefulKill.mockResolvedValue({ success: true, signal: 'SIGINT' })
+      const result = render(<App config={{ killSignal: 'SIGINT' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(mockGracefulKill).toHaveBeenCalledWith('100', expect.objectContaining({ firstSignal: 'SIGINT' }))
+      expect(result.lastFrame()).toContain('Killed node (100) with SIGINT')
+    })
+
+    it('kills immediately when the configured signal is SIGKILL', async () => {
+      mockGracefulKill.mockReset()
+      mockKillPort.mockClear()
+      const result = render(<App config={{ killSignal: 'SIGKILL' }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\x0B')
+      await tick()
+      expect(mockKillPort).toHaveBeenCalledWith('100')
+      expect(mockGracefulKill).not.toHaveBeenCalled()
+    })
+
+    it('kills on Enter without asking when confirmKill is false', async () => {
+      mockKillPort.mockClear()
+      const result = render(<App config={{ confirmKill: false, killGraceMs: 0 }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(mockKillPort).toHaveBeenCalledWith('100')
+      expect(result.lastFrame()).toContain('Killed node (100) with SIGKILL')
+    })
+
+    it('sends a signal from the menu without asking when confirmKill is false', async () => {
+      mockSendSignal.mockReset()
+      mockSendSignal.mockReturnValue({ success: true, signal: 'SIGTERM' })
+      const result = render(<App config={{ confirmKill: false }} />)
+      unmount = result.unmount
+      await tick()
+      result.stdin.write('s')
+      await tick()
+      result.stdin.write('\r')
+      await tick()
+      expect(mockSendSignal).toHaveBeenCalledWith('100', 'SIGTERM')
+      expect(result.lastFrame()).toContain('Sent SIGTERM to node (100)')
+    })
+  })
 })
 
 // --- kill message auto-clear ---
@@ -640,8 +2073,8 @@ describe('kill message auto-clear', () => {
   let unmount: (() => void) | undefined
 
   beforeEach(() => {
-    mockKillPort.mockReturnValue({ success: true })
-    mockGetPorts.mockReturnValue(PORTS)
+    mockKillPort.mockReturnValue({ success: true, signal: 'SIGKILL' })
+    mockGetPorts.mockResolvedValue(PORTS)
   })
 
   afterEach(() => {
@@ -652,9 +2085,9 @@ describe('kill message auto-clear', () => {
   it('clears kill message after KILL_MESSAGE_TIMEOUT_MS', async () => {
     // Use a short timeout value for testing (50ms instead of 2000ms)
     const TEST_TIMEOUT = 50
-    mockGetPorts.mockReturnValue(PORTS)
+    mockGetPorts.mockResolvedValue(PORTS)
 
-    const result = render(<App _killMessageTimeoutMs={TEST_TIMEOUT} />)
+    const result = render(<App config={{ killGraceMs: 0 }} _killMessageTimeoutMs={TEST_TIMEOUT} />)
     unmount = result.unmount
     await tick()
 
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseArgs, parseDuration, parseFilter, parsePort, parsePortRange, parseProtocolFilter, UsageError } from '../../src/cli/args.js';
+
+const SPEC = { flags: ['json', 'yes'], options: ['format', 'filter'], aliases: { y: 'yes' } };
+
+describe('parsePort', () => {
+  it('accepts 1 through 65535', () => {
+    expect(parsePort('1')).toBe(1);
+    expect(parsePort('3000')).toBe(3000);
+    expect(parsePort('65535')).toBe(65535);
+  });
+
+  it.each(['0', '65536', '-1', '30.5', '3000abc', '', ' 80'])('rejects %j', value => {
+    expect(() => parsePort(value)).toThrow(new UsageError(`invalid port "${value}" (expected 1-65535)`));
+  });
+});
+
+describe('parsePortRange', () => {
+  it('parses an inclusive range', () => {
+    expect(parsePortRange('3000-3999')).toEqual({ start: 3000, end: 3999 });
+    expect(parsePortRange('8080-8080')).toEqual({ start: 8080, end: 8080 });
+  });
+
+  it.each(['3000', '3000-', '-3999', '3000..3999', '3000 - 3999'])('rejects %j', value => {
+    expect(() => parsePortRange(value)).toThrow(new UsageError(`invalid --range "${value}" (expected e.g. 3000-3999)`));
+  });
+
+  it('rejects invalid ports at either end', () => {
+    expect(() => parsePortRange('0-100')).toThrow(new UsageError('invalid port "0" (expected 1-65535)'));
+    expect(() => parsePortRange('3000-70000')).toThrow(new UsageError('invalid port "70000" (expected 1-65535)'));
+  });
+
+  it('rejects a reversed range', () => {
+    expect(() => parsePortRange('3999-3000')).toThrow(new UsageError('invalid --range "3999-3000" (3999 is above 3000)'));
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['500ms', 500],
+    ['30s', 30_000],
+    ['30', 30_000],
+    ['1.5s', 1500],
+    ['2m', 120_000],
+    ['1h', 3_600_000],
+    ['0', 0],
+  ])('parses %j as %i ms', (value, ms) => {
+    expect(parseDuration(value)).toBe(ms);
+  });
+
+  it.each(['', 's', '-5s', '10x', '1 m', '.5s', '5S'])('rejects %j', value => {
+    expect(() => parseDuration(value)).toThrow(new UsageError(`invalid duration "${value}" (expected e.g. 500ms, 30s, 2m)`));
+  });
+});
+
+describe('parseProtocolFilter', () => {
+  it.each(['all', 'tcp', 'udp'] as const)('accepts %s', value => {
+    expect(parseProtocolFilter(value)).toBe(value);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseProtocolFilter('TCP')).toThrow(new UsageError('invalid --protocol "TCP" (expected all, tcp, udp)'));
+  });
+});
+
+describe('parseFilter', () => {
+  it.each(['', 'node', 'port:3000-3999 -user:root'])('accepts %j unchanged', value => {
+    expect(parseFilter(value)).toBe(value);
+  });
+
+  it('rejects a query the search bar cannot parse', () => {
+    expect(() => parseFilter('pid:abc')).toThrow(
+      new UsageError('invalid --filter "pid:abc": invalid pid "abc" (expected e.g. 1234 or 1000-1999)'),
+    );
+  });
+});
+
+describe('parseArgs', () => {
+  it('separates positionals, flags and options', () => {
+    const parsed = parseArgs(['3000', '--json', '--format', 'csv', '8080'], SPEC);
+    expect(parsed.positionals).toEqual(['3000', '8080']);
+    expect([...parsed.flags]).toEqual(['json']);
+    expect(parsed.options.get('format')).toBe('csv');
+  });
+
+  it('accepts --name=value, keeping any further "=" in the value', () => {
+    expect(parseArgs(['--filter=a=b'], SPEC).options.get('filter')).toBe('a=b');
+  });
+
+  it('keeps the last value of a repeated option', () => {
+    expect(parseArgs(['--format', 'csv', '--format=tsv'], SPEC).options.get('format')).toBe('tsv');
+  });
+
+  it('resolves single-letter aliases', () => {
+    expect(parseArgs(['-y'], SPEC).flags.has('yes')).toBe(true);
+  });
+
+  it('treats everything after -- as positionals', () => {
+    expect(parseArgs(['--', '--json', '-y'], SPEC).positionals).toEqual(['--json', '-y']);
+  });
+
+  it('treats a lone dash and negative numbers as positionals', () => {
+    expect(parseArgs(['-', '-5'], SPEC).positionals).toEqual(['-', '-5']);
+  });
+
+  it('accepts a value that looks like an option', () => {
+    expect(parseArgs(['--filter', '-user:root'], SPEC).options.get('filter')).toBe('-user:root');
+  });
+
+  it.each([
+    [['--nope'], 'unknown option --nope'],
+    [['-x'], 'unknown option -x'],
+    [['-json'], 'unknown option -json'],
+    [['--format'], '--format requires a value'],
+    [['--json=1'], '--json does not take a value'],
+  ])('rejects %j', (args, message) => {
+    expect(() => parseArgs(args, SPEC)).toThrow(new UsageError(message));
+  });
+
+  it('accepts an empty spec', () => {
+    expect(parseArgs(['a'], {}).positionals).toEqual(['a']);
+    expect(() => parseArgs(['--json'], {})).toThrow(UsageError);
+  });
+});
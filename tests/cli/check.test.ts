@@ -0,0 +1,110 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/utils/getPorts.js', () => ({
+  getPorts: vi.fn(),
+}));
+
+import { runCheck, findListeners, describePortState } from '../../src/cli/check.js';
+import { getPorts } from '../../src/utils/getPorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockGetPorts = vi.mocked(getPorts);
+
+/** node listens on 3000 over TCP and UDP; postgres on 5432. */
+const PORTS: PortEntry[] = [
+  { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1' },
+  { port: 3000, protocol: 'udp', process: 'node', pid: '100', user: 'alice', address: '0.0.0.0' },
+  { port: 5432, protocol: 'tcp', process: 'postgres', pid: '400', user: 'postgres', address: '127.0.0.1' },
+];
+
+/** Runs `ports check` with captured output. */
+async function run(args: string[]) {
+  const io = { stdout: vi.fn(), stderr: vi.fn() };
+  const code = await runCheck(args, io);
+  return {
+    code,
+    stdout: io.stdout.mock.calls.map(c => c[0]).join(''),
+    stderr: io.stderr.mock.calls.map(c => c[0]).join(''),
+  };
+}
+
+describe('findListeners', () => {
+  it('returns every entry on the port when protocol is all', () => {
+    expect(findListeners(PORTS, 3000, 'all')).toEqual(PORTS.slice(0, 2));
+  });
+
+  it('restricts to one protocol', () => {
+    expect(findListeners(PORTS, 3000, 'udp')).toEqual([PORTS[1]]);
+    expect(findListeners(PORTS, 5432, 'udp')).toEqual([]);
+  });
+});
+
+describe('describePortState', () => {
+  it('names every listener', () => {
+    expect(describePortState(3000, PORTS.slice(0, 2)))
+      .toBe(':3000 is in use by node (100) on 127.0.0.1/tcp, node (100) on 0.0.0.0/udp');
+  });
+
+  it('reports a free port', () => {
+    expect(describePortState(4000, [])).toBe(':4000 is free');
+  });
+});
+
+describe('runCheck', () => {
+  beforeEach(() => {
+    mockGetPorts.mockReset();
+    mockGetPorts.mockResolvedValue(PORTS);
+  });
+
+  it('exits 0 and names the owner when the port is in use', async () => {
+    const { code, stdout } = await run(['5432']);
+    expect(code).toBe(0);
+    expect(stdout).toBe(':5432 is in use by postgres (400) on 127.0.0.1/tcp\n');
+    expect(mockGetPorts).toHaveBeenCalledWith(undefined, { details: false });
+  });
+
+  it('exits 1 when nothing listens on the port', async () => {
+    const { code, stdout } = await run(['4000']);
+    expect(code).toBe(1);
+    expect(stdout).toBe(':4000 is free\n');
+  });
+
+  it('prints the owners as JSON with --json', async () => {
+    const { code, stdout } = await run(['5432', '--json']);
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({ port: 5432, listening: true, owners: [PORTS[2]] });
+    expect(mockGetPorts).toHaveBeenCalledWith(undefined, { details: true });
+  });
+
+  it('prints an empty owner list as JSON for a free port', async () => {
+    const { code, stdout } = await run(['--json', '4000']);
+    expect(code).toBe(1);
+    expect(JSON.parse(stdout)).toEqual({ port: 4000, listening: false, owners: [] });
+  });
+
+  it('honours --protocol', async () => {
+    expect((await run(['5432', '--protocol', 'udp'])).code).toBe(1);
+    expect((await run(['3000', '--protocol=udp'])).code).toBe(0);
+  });
+
+  it.each([
+    [[], 'expected exactly one port'],
+    [['3000', '8080'], 'expected exactly one port'],
+    [['http'], 'invalid port "http" (expected 1-65535)'],
+    [['3000', '--protocol', 'sctp'], 'invalid --protocol "sctp" (expected all, tcp, udp)'],
+    [['3000', '--verbose'], 'unknown option --verbose'],
+  ])('exits 2 for %j', async (args, message) => {
+    const { code, stderr } = await run(args);
+    expect(code).toBe(2);
+    expect(stderr).toBe(`ports check: ${message}\n`);
+    expect(mockGetPorts).not.toHaveBeenCalled();
+  });
+
+  it('exits 2 rather than 1 when ports cannot be collected', async () => {
+    mockGetPorts.mockRejectedValue(new Error('lsof: command not found'));
+    const { code, stdout, stderr } = await run(['5432']);
+    expect(code).toBe(2);
+    expect(stdout).toBe('');
+    expect(stderr).toBe('ports: lsof: command not found\n');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { formatPorts, isOutputFormat } from '../../src/cli/formatPorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const PORTS: PortEntry[] = [
+  { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1', command: 'node server.js', cwd: '/srv/api' },
+  { port: 5353, protocol: 'udp', process: 'mDNSResponder', pid: '300', user: '_mdns', address: '0.0.0.0' },
+];
+
+describe('isOutputFormat', () => {
+  it('accepts the documented formats only', () => {
+    expect(['table', 'tsv', 'csv', 'json'].every(isOutputFormat)).toBe(true);
+    expect(isOutputFormat('yaml')).toBe(false);
+  });
+});
+
+describe('formatPorts', () => {
+  it('prints JSON that round-trips to the entries', () => {
+    expect(JSON.parse(formatPorts(PORTS, 'json'))).toEqual(PORTS);
+  });
+
+  it('prints an empty JSON array for no ports', () => {
+    expect(formatPorts([], 'json')).toBe('[]\n');
+  });
+
+  it('aligns table columns and does not pad the last one', () => {
+    expect(formatPorts(PORTS, 'table')).toBe(
+      'PORT  PROTO  PROCESS        PID  USER   ADDRESS    COMMAND\n' +
+      '3000  TCP    node           100  alice  127.0.0.1  node server.js\n' +
+      '5353  UDP    mDNSResponder  300  _mdns  0.0.0.0\n',
+    );
+  });
+
+  it('prints tab-separated values with a header named after the fields', () => {
+    expect(formatPorts(PORTS, 'tsv').split('\n')).toEqual([
+      'port\tprotocol\tprocess\tpid\tuser\taddress\tcommand\tcwd\texe',
+      '3000\ttcp\tnode\t100\talice\t127.0.0.1\tnode server.js\t/srv/api\t',
+      '5353\tudp\tmDNSResponder\t300\t_mdns\t0.0.0.0\t\t\t',
+      '',
+    ]);
+  });
+
+  it('replaces tabs and line breaks inside TSV fields', () => {
+    const [, row] = formatPorts([{ ...PORTS[0], command: 'sh -c "a\tb\nc"' }], 'tsv').split('\n');
+    expect(row.split('\t')[6]).toBe('sh -c "a b c"');
+  });
+
+  it('quotes CSV fields containing commas, quotes or line breaks', () => {
+    const [header, row] = formatPorts([{ ...PORTS[0], command: 'node -e "a, b"' }], 'csv').split('\n');
+    expect(header).toBe('port,protocol,process,pid,user,address,command,cwd,exe');
+    expect(row).toBe('3000,tcp,node,100,alice,127.0.0.1,"node -e ""a, b""",/srv/api,');
+  });
+
+  it('prints only the header for an empty delimited list', () => {
+    expect(formatPorts([], 'csv')).toBe('port,protocol,process,pid,user,address,command,cwd,exe\n');
+  });
+});
@@ -0,0 +1,118 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/utils/getPorts.js', () => ({
+  getPorts: vi.fn(),
+}));
+
+vi.mock('../../src/utils/probePort.js', () => ({
+  isPortBindable: vi.fn(),
+}));
+
+import { runFree } from '../../src/cli/free.js';
+import { getPorts } from '../../src/utils/getPorts.js';
+import { isPortBindable } from '../../src/utils/probePort.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockGetPorts = vi.mocked(getPorts);
+const mockIsPortBindable = vi.mocked(isPortBindable);
+
+/** The collector sees TCP 3000 and UDP 3001; 3002 is held by a socket it cannot see. */
+const PORTS: PortEntry[] = [
+  { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1' },
+  { port: 3001, protocol: 'udp', process: 'dns', pid: '300', user: 'alice', address: '0.0.0.0' },
+];
+const HIDDEN = new Set([3002]);
+
+/** Runs `ports free` with captured output. */
+async function run(args: string[]) {
+  const io = { stdout: vi.fn(), stderr: vi.fn() };
+  const code = await runFree(args, io);
+  return {
+    code,
+    stdout: io.stdout.mock.calls.map(c => c[0]).join(''),
+    stderr: io.stderr.mock.calls.map(c => c[0]).join(''),
+  };
+}
+
+describe('runFree', () => {
+  beforeEach(() => {
+    mockGetPorts.mockReset();
+    mockGetPorts.mockResolvedValue(PORTS);
+    mockIsPortBindable.mockReset();
+    mockIsPortBindable.mockImplementation(async port => !HIDDEN.has(port));
+  });
+
+  it('prints the first port that is neither listed nor held', async () => {
+    const { code, stdout } = await run(['--range', '3000-3999']);
+    expect(code).toBe(0);
+    // 3001 is only bound over UDP, which does not stop a TCP server.
+    expect(stdout).toBe('3001\n');
+    expect(mockGetPorts).toHaveBeenCalledWith(undefined, { details: false });
+  });
+
+  it('does not bind ports the collector already reports', async () => {
+    await run(['--range', '3000-3001']);
+    expect(mockIsPortBindable.mock.calls.map(c => c[0])).toEqual([3001]);
+  });
+
+  it('skips ports that fail the bind test', async () => {
+    const { stdout } = await run(['--range', '3002-3999', '--count', '2']);
+    expect(stdout).toBe('3003\n3004\n');
+  });
+
+  it('stops probing once enough ports are found', async () => {
+    await run(['--range', '3000-3999', '--count=3']);
+    expect(mockIsPortBindable.mock.calls.map(c => c[0])).toEqual([3001, 3002, 3003, 3004]);
+  });
+
+  it('prints a JSON array with --json', async () => {
+    const { stdout } = await run(['--range', '3000-3999', '--count', '3', '--json']);
+    expect(JSON.parse(stdout)).toEqual([3001, 3003, 3004]);
+  });
+
+  it('test-binds on --host', async () => {
+    await run(['--range', '4000-4000', '--host', '127.0.0.1']);
+    expect(mockIsPortBindable).toHaveBeenCalledWith(4000, '127.0.0.1');
+  });
+
+  it('test-binds on all interfaces by default', async () => {
+    await run(['--range', '4000-4000']);
+    expect(mockIsPortBindable).toHaveBeenCalledWith(4000, undefined);
+  });
+
+  it('prints nothing and exits 1 when the range has too few free ports', async () => {
+    const { code, stdout, stderr } = await run(['--range', '3000-3003', '--count', '3']);
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toBe('ports free: found 2 of 3 free ports in 3000-3003\n');
+  });
+
+  it('exits 1 when ports cannot be collected', async () => {
+    mockGetPorts.mockRejectedValue(new Error('lsof: command not found'));
+    const { code, stderr } = await run(['--range', '3000-3999']);
+    expect(code).toBe(1);
+    expect(stderr).toBe('ports: lsof: command not found\n');
+    expect(mockIsPortBindable).not.toHaveBeenCalled();
+  });
+
+  it('exits 1 when the bind test itself fails', async () => {
+    mockIsPortBindable.mockRejectedValue(new Error('listen EADDRNOTAVAIL: address not available 192.0.2.1:3001'));
+    const { code, stderr } = await run(['--range', '3000-3999', '--host', '192.0.2.1']);
+    expect(code).toBe(1);
+    expect(stderr).toBe('ports: listen EADDRNOTAVAIL: address not available 192.0.2.1:3001\n');
+  });
+
+  it.each([
+    [[], '--range is required, e.g. --range 3000-3999'],
+    [['--range', '3000'], 'invalid --range "3000" (expected e.g. 3000-3999)'],
+    [['--range', '3000-3999', '--count', '0'], 'invalid --count "0" (expected a positive integer)'],
+    [['--range', '3000-3999', '--count', 'two'], 'invalid --count "two" (expected a positive integer)'],
+    [['--range', '3000-3999', '3000'], 'unexpected argument "3000"'],
+    [['--range', '3000-3999', '--host'], '--host requires a value'],
+  ])('exits 2 for %j', async (args, message) => {
+    const { code, stderr } = await run(args);
+    expect(code).toBe(2);
+    expect(stderr).toBe(`ports free: ${message}\n`);
+    expect(mockGetPorts).not.toHaveBeenCalled();
+  });
+});
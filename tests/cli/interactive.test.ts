@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { applyInteractiveArgs } from '../../src/cli/interactive.js';
+import { UsageError } from '../../src/cli/args.js';
+import { DEFAULT_CONFIG } from '../../src/utils/config.js';
+import type { PortsConfig } from '../../src/utils/config.js';
+
+/** A config as if loaded from a file that changed several defaults. */
+const FROM_FILE: PortsConfig = { ...DEFAULT_CONFIG, sort: 'user', sortOrder: 'desc', confirmKill: true, filter: 'api' };
+
+describe('applyInteractiveArgs', () => {
+  it('returns the config unchanged without options', () => {
+    expect(applyInteractiveArgs([], FROM_FILE)).toEqual(FROM_FILE);
+  });
+
+  it('does not modify the config it is given', () => {
+    const config = { ...FROM_FILE };
+    applyInteractiveArgs(['--sort', 'pid'], config);
+    expect(config).toEqual(FROM_FILE);
+  });
+
+  it('overrides every setting', () => {
+    expect(applyInteractiveArgs([
+      '--interval', '1s',
+      '--filter', 'node',
+      '--search-mode', 'fuzzy',
+      '--protocol', 'udp',
+      '--sort=process',
+      '--group', 'user',
+      '--columns', 'pid, port',
+      '--signal', 'hup',
+      '--grace', '0.5',
+      '--no-confirm',
+      '--no-mouse',
+    ], FROM_FILE)).toEqual({
+      ...FROM_FILE,
+      refreshIntervalMs: 1000,
+      filter: 'node',
+      searchMode: 'fuzzy',
+      protocol: 'udp',
+      sort: 'process',
+      groupBy: 'user',
+      columns: ['port', 'pid'],
+      killSignal: 'SIGHUP',
+      killGraceMs: 500,
+      confirmKill: false,
+      mouse: false,
+    });
+  });
+
+  it('clears the configured filter with an empty --filter', () => {
+    expect(applyInteractiveArgs(['--filter='], FROM_FILE).filter).toBe('');
+  });
+
+  it('reverses the configured sort order', () => {
+    expect(applyInteractiveArgs(['--reverse'], FROM_FILE).sortOrder).toBe('asc');
+    expect(applyInteractiveArgs(['--reverse'], DEFAULT_CONFIG).sortOrder).toBe('desc');
+  });
+
+  it('accepts --grace in seconds or with a unit', () => {
+    expect(applyInteractiveArgs(['--grace', '10'], DEFAULT_CONFIG).killGraceMs).toBe(10_000);
+    expect(applyInteractiveArgs(['--grace=0'], DEFAULT_CONFIG).killGraceMs).toBe(0);
+    expect(applyInteractiveArgs(['--grace', '1500ms'], DEFAULT_CONFIG).killGraceMs).toBe(1500);
+  });
+
+  it('checks the configured filter against a new --search-mode', () => {
+    const config = { ...DEFAULT_CONFIG, filter: 'node|(' };
+    expect(() => applyInteractiveArgs(['--search-mode', 'regex'], config)).toThrow(new UsageError(
+      '--search-mode regex does not accept the configured filter "node|(": invalid regex "node|(": Unterminated group',
+    ));
+    expect(applyInteractiveArgs(['--search-mode', 'regex', '--filter', 'node'], config).filter).toBe('node');
+  });
+
+  it.each([
+    [['--interval', '100ms'], '--interval must be at least 250ms'],
+    [['--grace', '-1'], 'invalid duration "-1" (expected e.g. 500ms, 30s, 2m)'],
+    [['--sort', 'name'], 'invalid --sort "name" (expected port, protocol, process, user, pid, address)'],
+    [['--group', 'port'], 'invalid --group "port" (expected none, pid, process, user)'],
+    [['--columns', 'port,cmd'], 'invalid --columns entry "cmd" (expected port, protocol, process, user, pid, address, command)'],
+    [['--signal', 'STOP'], 'invalid --signal "STOP" (expected SIGTERM, SIGINT, SIGHUP, SIGKILL)'],
+    [['--protocol', 'sctp'], 'invalid --protocol "sctp" (expected all, tcp, udp)'],
+    [['--filter', 'usr:root'], 'invalid --filter "usr:root": unknown field "usr:" (expected port:, pid:, user:, proc:, addr:)'],
+    [['--search-mode', 'glob'], 'invalid --search-mode "glob" (expected substring, fuzzy, regex)'],
+    [['--search-mode', 'regex', '--filter', 'node|('], 'invalid --filter "node|(": invalid regex "node|(": Unterminated group'],
+    [['--verbose'], 'unknown option --verbose'],
+    [['3000'], 'unexpected argument "3000"'],
+  ])('rejects %j', (args, message) => {
+    expect(() => applyInteractiveArgs(args, DEFAULT_CONFIG)).toThrow(new UsageError(message));
+  });
+});
@@ -0,0 +1,150 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/utils/getPorts.js', () => ({
+  getPorts: vi.fn(),
+}));
+
+vi.mock('../../src/utils/killPort.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../../src/utils/killPort.js')>(),
+  sendSignal: vi.fn(),
+}));
+
+import { runKill } from '../../src/cli/kill.js';
+import type { CliIO } from '../../src/cli/io.js';
+import { getPorts } from '../../src/utils/getPorts.js';
+import { sendSignal } from '../../src/utils/killPort.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockGetPorts = vi.mocked(getPorts);
+const mockSendSignal = vi.mocked(sendSignal);
+
+/** node listens on 3000 over TCP and UDP and on 9229; nginx on 8080. */
+const PORTS: PortEntry[] = [
+  { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1' },
+  { port: 3000, protocol: 'udp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1' },
+  { port: 9229, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1' },
+  { port: 8080, protocol: 'tcp', process: 'nginx', pid: '200', user: 'root', address: '0.0.0.0' },
+];
+
+/** Runs `ports kill` with captured output; `confirm` answers prompts (omitted = no terminal). */
+async function run(args: string[], confirm?: CliIO['confirm']) {
+  const io = { stdout: vi.fn(), stderr: vi.fn(), confirm };
+  const code = await runKill(args, io);
+  return {
+    code,
+    stdout: io.stdout.mock.calls.map(c => c[0]).join(''),
+    stderr: io.stderr.mock.calls.map(c => c[0]).join(''),
+  };
+}
+
+describe('runKill', () => {
+  beforeEach(() => {
+    mockGetPorts.mockReset();
+    mockGetPorts.mockResolvedValue(PORTS);
+    mockSendSignal.mockReset();
+    mockSendSignal.mockImplementation((_pid, signal) => ({ success: true, signal }));
+  });
+
+  it('sends SIGKILL to the process listening on a port', async () => {
+    const { code, stdout } = await run(['8080', '--yes']);
+    expect(code).toBe(0);
+    expect(mockSendSignal).toHaveBeenCalledWith('200', 'SIGKILL');
+    expect(stdout).toBe('Sent SIGKILL to nginx (200) on :8080\n');
+    expect(mockGetPorts).toHaveBeenCalledWith(undefined, { details: false });
+  });
+
+  it('signals a process once even when it holds several of the ports', async () => {
+    const { stdout } = await run(['3000', '9229', '8080', '-y']);
+    expect(mockSendSignal.mock.calls).toEqual([['100', 'SIGKILL'], ['200', 'SIGKILL']]);
+    expect(stdout).toContain('node (100) on :3000, :9229');
+  });
+
+  it.each([['TERM', 'SIGTERM'], ['sighup', 'SIGHUP'], ['SIGUSR1', 'SIGUSR1']])(
+    'sends the signal named by --signal %s', async (value, signal) => {
+      await run(['8080', '--yes', '--signal', value]);
+      expect(mockSendSignal).toHaveBeenCalledWith('200', signal);
+    },
+  );
+
+  it('exits 1 and reports the failing PID when a signal fails', async () => {
+    mockSendSignal.mockImplementation((pid, signal) => pid === '200'
+      ? { success: false, error: 'Operation not permitted' }
+      : { success: true, signal });
+    const { code, stdout, stderr } = await run(['3000', '8080', '--yes']);
+    expect(code).toBe(1);
+    expect(stdout).toBe('Sent SIGKILL to node (100) on :3000\n');
+    expect(stderr).toBe('Failed to signal nginx (200) on :8080: Operation not permitted\n');
+  });
+
+  it('prints what would be signalled with --dry-run', async () => {
+    const { code, stdout } = await run(['3000', '--dry-run', '--signal=term']);
+    expect(code).toBe(0);
+    expect(stdout).toBe('Would send SIGTERM to node (100) on :3000\n');
+    expect(mockSendSignal).not.toHaveBeenCalled();
+  });
+
+  it('notes ports nobody listens on without failing', async () => {
+    const { code, stderr } = await run(['4000', '8080', '--yes']);
+    expect(code).toBe(0);
+    expect(stderr).toBe('ports kill: nothing is listening on :4000\n');
+    expect(mockSendSignal).toHaveBeenCalledTimes(1);
+  });
+
+  it('succeeds without asking when nothing listens on any port', async () => {
+    const confirm = vi.fn();
+    expect((await run(['4000'], confirm)).code).toBe(0);
+    expect(confirm).not.toHaveBeenCalled();
+  });
+
+  describe('confirmation', () => {
+    it('asks before signalling and proceeds on yes', async () => {
+      const confirm = vi.fn(async () => true);
+      const { code } = await run(['8080'], confirm);
+      expect(confirm).toHaveBeenCalledWith('Send SIGKILL to nginx (200) on :8080?');
+      expect(code).toBe(0);
+      expect(mockSendSignal).toHaveBeenCalled();
+    });
+
+    it('lists several targets and asks once', async () => {
+      const confirm = vi.fn(async () => true);
+      const { stderr } = await run(['3000', '8080'], confirm);
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(confirm).toHaveBeenCalledWith('Send SIGKILL to 2 processes?');
+      expect(stderr).toBe('  node (100) on :3000\n  nginx (200) on :8080\n');
+    });
+
+    it('signals nothing and exits 1 when declined', async () => {
+      const { code, stderr } = await run(['8080'], async () => false);
+      expect(code).toBe(1);
+      expect(stderr).toBe('ports kill: cancelled\n');
+      expect(mockSendSignal).not.toHaveBeenCalled();
+    });
+
+    it('refuses to run without a terminal unless --yes is given', async () => {
+      const { code, stderr } = await run(['8080']);
+      expect(code).toBe(2);
+      expect(stderr).toContain('pass --yes');
+      expect(mockSendSignal).not.toHaveBeenCalled();
+    });
+  });
+
+  it.each([
+    [[], 'expected at least one port'],
+    [['abc'], 'invalid port "abc"'],
+    [['70000'], 'invalid port "70000"'],
+    [['80', '--signal', 'QUIT'], 'unsupported --signal "QUIT"'],
+    [['80', '--force'], 'unknown option --force'],
+  ])('rejects %j with exit code 2', async (args, message) => {
+    const { code, stderr } = await run(args);
+    expect(code).toBe(2);
+    expect(stderr).toContain(`ports kill: ${message}`);
+    expect(mockGetPorts).not.toHaveBeenCalled();
+  });
+
+  it('exits 1 when ports cannot be collected', async () => {
+    mockGetPorts.mockRejectedValue(new Error('lsof: command not found'));
+    const { code, stderr } = await run(['8080', '--yes']);
+    expect(code).toBe(1);
+    expect(stderr).toBe('ports: lsof: command not found\n');
+  });
+});
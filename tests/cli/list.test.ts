@@ -0,0 +1,107 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/utils/getPorts.js', () => ({
+  getPorts: vi.fn(),
+}));
+
+import { runList } from '../../src/cli/list.js';
+import { getPorts } from '../../src/utils/getPorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockGetPorts = vi.mocked(getPorts);
+
+const PORTS: PortEntry[] = [
+  { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1', cwd: '/srv/api' },
+  { port: 8080, protocol: 'tcp', process: 'nginx', pid: '200', user: 'root', address: '0.0.0.0' },
+  { port: 5353, protocol: 'udp', process: 'mDNSResponder', pid: '300', user: '_mdns', address: '0.0.0.0' },
+];
+
+/** Runs `ports list` with captured output. */
+async function run(...args: string[]) {
+  const io = { stdout: vi.fn(), stderr: vi.fn() };
+  const code = await runList(args, io);
+  return {
+    code,
+    stdout: io.stdout.mock.calls.map(c => c[0]).join(''),
+    stderr: io.stderr.mock.calls.map(c => c[0]).join(''),
+  };
+}
+
+describe('runList', () => {
+  beforeEach(() => {
+    mockGetPorts.mockReset();
+    mockGetPorts.mockResolvedValue(PORTS);
+  });
+
+  it('prints a table by default', async () => {
+    const { code, stdout } = await run();
+    expect(code).toBe(0);
+    expect(stdout.split('\n')[0]).toMatch(/^PORT\s+PROTO\s+PROCESS/);
+    expect(stdout).toContain('nginx');
+  });
+
+  it('prints the entries as JSON with --json', async () => {
+    const { code, stdout } = await run('--json');
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toEqual(PORTS);
+  });
+
+  it.each(['tsv', 'csv', 'json'])('accepts --format %s', async format => {
+    const { code, stdout } = await run('--format', format);
+    expect(code).toBe(0);
+    expect(stdout).toContain('mDNSResponder');
+  });
+
+  it('accepts --json together with --format json', async () => {
+    expect((await run('--json', '--format=json')).code).toBe(0);
+  });
+
+  it('applies the search bar filter semantics with --filter', async () => {
+    const { stdout } = await run('--json', '--filter', 'srv/api');
+    expect(JSON.parse(stdout).map((p: PortEntry) => p.pid)).toEqual(['100']);
+  });
+
+  it('accepts field terms and negation in --filter', async () => {
+    const { stdout } = await run('--json', '--filter', '-user:root port:1-4000')
+    expect(JSON.parse(stdout).map((p: PortEntry) => p.pid)).toEqual(['100']);
+  });
+
+  it('restricts the protocol with --protocol', async () => {
+    const { stdout } = await run('--json', '--protocol=udp');
+    expect(JSON.parse(stdout).map((p: PortEntry) => p.pid)).toEqual(['300']);
+  });
+
+  it('prints an empty list when nothing matches', async () => {
+    const { code, stdout } = await run('--json', '--filter', 'nothing-matches');
+    expect(code).toBe(0);
+    expect(stdout).toBe('[]\n');
+  });
+
+  it.each([
+    [['--format', 'yaml'], 'invalid --format "yaml"'],
+    [['--json', '--format', 'csv'], '--json conflicts with --format csv'],
+    [['--protocol', 'sctp'], 'invalid --protocol "sctp"'],
+    [['--filter', 'user:'], 'invalid --filter "user:": "user:" needs a value'],
+    [['3000'], 'unexpected argument "3000"'],
+    [['--verbose'], 'unknown option --verbose'],
+  ])('rejects %j with exit code 2', async (args, message) => {
+    const { code, stdout, stderr } = await run(...args);
+    expect(code).toBe(2);
+    expect(stdout).toBe('');
+    expect(stderr).toContain(`ports list: ${message}`);
+    expect(mockGetPorts).not.toHaveBeenCalled();
+  });
+
+  it('exits 1 with the error when ports cannot be collected', async () => {
+    mockGetPorts.mockRejectedValue(new Error('lsof: command not found'));
+    const { code, stdout, stderr } = await run();
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toBe('ports: lsof: command not found\n');
+  });
+
+  it('reports a non-Error rejection as text', async () => {
+    mockGetPorts.mockRejectedValue('boom');
+    expect((await run()).stderr).toBe('ports: boom\n');
+  });
+});
@@ -0,0 +1,145 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/utils/getPorts.js', () => ({
+  getPorts: vi.fn(),
+}));
+
+import { runWait } from '../../src/cli/wait.js';
+import { getPorts } from '../../src/utils/getPorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockGetPorts = vi.mocked(getPorts);
+
+const POSTGRES: PortEntry = { port: 5432, protocol: 'tcp', process: 'postgres', pid: '400', user: 'postgres', address: '127.0.0.1' };
+
+/** Starts `ports wait` with captured output; resolve `code` after advancing timers. */
+function start(args: string[]) {
+  const io = { stdout: vi.fn(), stderr: vi.fn() };
+  let exitCode: number | undefined;
+  const code = runWait(args, io).then(c => (exitCode = c));
+  return {
+    code,
+    done: () => exitCode !== undefined,
+    stdout: () => io.stdout.mock.calls.map(c => c[0]).join(''),
+    stderr: () => io.stderr.mock.calls.map(c => c[0]).join(''),
+  };
+}
+
+describe('runWait', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockGetPorts.mockReset();
+    mockGetPorts.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns immediately when the port is already in use', async () => {
+    mockGetPorts.mockResolvedValue([POSTGRES]);
+    const run = start(['5432']);
+    expect(await run.code).toBe(0);
+    expect(run.stdout()).toBe(':5432 is in use by postgres (400) on 127.0.0.1/tcp\n');
+    expect(mockGetPorts).toHaveBeenCalledTimes(1);
+    expect(mockGetPorts).toHaveBeenCalledWith(expect.any(AbortSignal), { details: false });
+  });
+
+  it('polls every 2 seconds until the port is in use', async () => {
+    const run = start(['5432']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run.done()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(mockGetPorts).toHaveBeenCalledTimes(2);
+    expect(run.done()).toBe(false);
+
+    mockGetPorts.mockResolvedValue([POSTGRES]);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await run.code).toBe(0);
+    expect(mockGetPorts).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops polling once the condition holds', async () => {
+    mockGetPorts.mockResolvedValue([POSTGRES]);
+    await start(['5432']).code;
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(mockGetPorts).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for the port to be released with --free', async () => {
+    mockGetPorts.mockResolvedValue([POSTGRES]);
+    const run = start(['5432', '--free', '--interval', '500ms']);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(run.done()).toBe(false);
+
+    mockGetPorts.mockResolvedValue([]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(await run.code).toBe(0);
+    expect(run.stdout()).toBe(':5432 is free\n');
+  });
+
+  it('only counts listeners of the requested protocol', async () => {
+    mockGetPorts.mockResolvedValue([POSTGRES]);
+    const run = start(['5432', '--protocol', 'udp', '--timeout', '1s']);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await run.code).toBe(1);
+  });
+
+  it('gives up with exit 1 after --timeout', async () => {
+    const run = start(['5432', '-t', '5s']);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(run.done()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await run.code).toBe(1);
+    expect(run.stdout()).toBe('');
+    expect(run.stderr()).toBe('ports wait: timed out after 5s waiting for :5432 to be in use\n');
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(mockGetPorts).toHaveBeenCalledTimes(3);
+  });
+
+  it('names the awaited state in the --free timeout message', async () => {
+    mockGetPorts.mockResolvedValue([POSTGRES]);
+    const run = start(['5432', '--free', '--timeout=1500ms']);
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(await run.code).toBe(1);
+    expect(run.stderr()).toBe('ports wait: timed out after 1.5s waiting for :5432 to be free\n');
+  });
+
+  it('keeps polling through collection errors and reports the last one on timeout', async () => {
+    mockGetPorts.mockRejectedValue(new Error('lsof: command not found'));
+    const run = start(['5432', '--timeout', '3s']);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(run.done()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await run.code).toBe(1);
+    expect(run.stderr()).toBe(
+      'ports wait: timed out after 3s waiting for :5432 to be in use\nports: lsof: command not found\n',
+    );
+  });
+
+  it('recovers when a later poll succeeds', async () => {
+    mockGetPorts.mockRejectedValueOnce(new Error('temporary')).mockResolvedValue([POSTGRES]);
+    const run = start(['5432']);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await run.code).toBe(0);
+    expect(run.stderr()).toBe('');
+  });
+
+  it.each([
+    [[], 'expected exactly one port'],
+    [['5432', '3000'], 'expected exactly one port'],
+    [['5432', '--timeout', 'soon'], 'invalid duration "soon" (expected e.g. 500ms, 30s, 2m)'],
+    [['5432', '--interval', '0'], '--interval must be greater than 0'],
+    [['5432', '--protocol', 'sctp'], 'invalid --protocol "sctp" (expected all, tcp, udp)'],
+    [['5432', '--free=yes'], '--free does not take a value'],
+  ])('exits 2 for %j', async (args, message) => {
+    const run = start(args);
+    expect(await run.code).toBe(2);
+    expect(run.stderr()).toBe(`ports wait: ${message}\n`);
+    expect(mockGetPorts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/utils/getPorts.js', () => ({
+  getPorts: vi.fn(),
+}));
+
+import { runWatch } from '../../src/cli/watch.js';
+import { getPorts } from '../../src/utils/getPorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockGetPorts = vi.mocked(getPorts);
+
+const NODE: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1' };
+const NGINX: PortEntry = { port: 8080, protocol: 'tcp', process: 'nginx', pid: '200', user: 'root', address: '0.0.0.0' };
+const DNS: PortEntry = { port: 53, protocol: 'udp', process: 'dnsmasq', pid: '300', user: 'root', address: '0.0.0.0' };
+
+const START = new Date('2026-01-01T12:00:00.000Z');
+
+/** Starts `ports watch` with captured output; `stop()` interrupts it. */
+function start(args: string[]) {
+  const io = { stdout: vi.fn(), stderr: vi.fn() };
+  const controller = new AbortController();
+  const code = runWatch(args, io, controller.signal);
+  return {
+    code,
+    stop: () => controller.abort(),
+    lines: () => io.stdout.mock.calls.map(c => c[0] as string),
+    events: () => io.stdout.mock.calls.map(c => JSON.parse(c[0] as string)),
+    stderr: () => io.stderr.mock.calls.map(c => c[0]).join(''),
+  };
+}
+
+describe('runWatch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    mockGetPorts.mockReset();
+    mockGetPorts.mockResolvedValue([NODE, NGINX]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('treats the first snapshot as the baseline', async () => {
+    const watch = start(['--json']);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(watch.lines()).toEqual([]);
+    // Events carry no command line, so nothing asks for one.
+    expect(mockGetPorts).toHaveBeenCalledWith(expect.any(AbortSignal), { details: false });
+    watch.stop();
+    expect(await watch.code).toBe(0);
+  });
+
+  it('prints one JSON line per opened and closed binding', async () => {
+    const watch = start(['--json']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    mockGetPorts.mockResolvedValue([NGINX, DNS]);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(watch.lines().every(line => line.endsWith('}\n'))).toBe(true);
+    expect(watch.events()).toEqual([
+      { event: 'closed', port: 3000, protocol: 'tcp', address: '127.0.0.1', pid: '100', process: 'node', ts: '2026-01-01T12:00:02.000Z' },
+      { event: 'opened', port: 53, protocol: 'udp', address: '0.0.0.0', pid: '300', process: 'dnsmasq', ts: '2026-01-01T12:00:02.000Z' },
+    ]);
+    watch.stop();
+  });
+
+  it('reports a restart under a new PID as closed then opened', async () => {
+    const watch = start(['--json']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    mockGetPorts.mockResolvedValue([{ ...NODE, pid: '101' }, NGINX]);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(watch.events().map(e => [e.event, e.pid])).toEqual([['closed', '100'], ['opened', '101']]);
+    watch.stop();
+  });
+
+  it('reports the first snapshot as opened with --initial', async () => {
+    const watch = start(['--json', '--initial']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(watch.events().map(e => [e.event, e.port])).toEqual([['opened', 3000], ['opened', 8080]]);
+    watch.stop();
+  });
+
+  it('prints readable lines without --json', async () => {
+    const watch = start(['--initial']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(watch.lines()).toEqual([
+      '2026-01-01T12:00:00.000Z  opened  :3000/tcp  node (100) on 127.0.0.1\n',
+      '2026-01-01T12:00:00.000Z  opened  :8080/tcp  nginx (200) on 0.0.0.0\n',
+    ]);
+    watch.stop();
+  });
+
+  it('only watches ports matching --filter and --protocol', async () => {
+    const watch = start(['--json', '--filter', 'nginx']);
+    await vi.advanceTimersByTimeAsync(0);
+    mockGetPorts.mockResolvedValue([DNS]);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(watch.events().map(e => [e.event, e.process])).toEqual([['closed', 'nginx']]);
+    expect(mockGetPorts).toHaveBeenCalledWith(expect.any(AbortSignal), { details: true });
+    watch.stop();
+
+    const udp = start(['--json', '--protocol', 'udp']);
+    await vi.advanceTimersByTimeAsync(0);
+    mockGetPorts.mockResolvedValue([NODE]);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(udp.events().map(e => [e.event, e.process])).toEqual([['closed', 'dnsmasq']]);
+    udp.stop();
+  });
+
+  it('polls at --interval', async () => {
+    const watch = start(['--interval', '250ms']);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockGetPorts).toHaveBeenCalledTimes(5);
+    watch.stop();
+  });
+
+  it('reports collection errors and diffs the next snapshot against the last good one', async () => {
+    const watch = start(['--json']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    mockGetPorts.mockRejectedValueOnce(new Error('lsof: timed out'));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(watch.stderr()).toBe('ports: lsof: timed out\n');
+    expect(watch.lines()).toEqual([]);
+
+    mockGetPorts.mockResolvedValue([NGINX]);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(watch.events().map(e => [e.event, e.port])).toEqual([['closed', 3000]]);
+    watch.stop();
+  });
+
+  it('stops polling once interrupted', async () => {
+    const watch = start([]);
+    await vi.advanceTimersByTimeAsync(0);
+    watch.stop();
+    expect(await watch.code).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(mockGetPorts).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns at once when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await runWatch([], { stdout: vi.fn(), stderr: vi.fn() }, controller.signal)).toBe(0);
+  });
+
+  it.each([
+    [['3000'], 'unexpected argument "3000"'],
+    [['--interval', '0s'], '--interval must be greater than 0'],
+    [['--interval', 'often'], 'invalid duration "often" (expected e.g. 500ms, 30s, 2m)'],
+    [['--protocol', 'sctp'], 'invalid --protocol "sctp" (expected all, tcp, udp)'],
+    [['--filter', 'port:http'], 'invalid --filter "port:http": invalid port "http" (expected e.g. 3000 or 3000-3999)'],
+  ])('exits 2 for %j', async (args, message) => {
+    const watch = start(args);
+    expect(await watch.code).toBe(2);
+    expect(watch.stderr()).toBe(`ports watch: ${message}\n`);
+    expect(mockGetPorts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { render } from 'ink-testing-library'
+import { DetailPane, DETAIL_PANE_HEIGHT } from '../../src/components/DetailPane.js'
+import type { PortEntry, ProcessInfo } from '../../src/types.js'
+
+const port: PortEntry = {
+  port: 3000,
+  protocol: 'tcp',
+  process: 'node',
+  pid: '42',
+  user: 'alice',
+  address: '127.0.0.1',
+  command: 'node server.js',
+  cwd: '/srv/api',
+  exe: '/usr/bin/node',
+}
+
+const others: PortEntry[] = [
+  port,
+  { ...port, port: 9229 },
+  { ...port, port: 5353, protocol: 'udp', address: '0.0.0.0' },
+  { ...port, port: 8080, pid: '99', process: 'nginx' },
+]
+
+const START = new Date(2026, 9, 19, 9, 15, 2).getTime()
+const info: ProcessInfo = { ppid: '7', parentName: 'zsh', startTime: START, established: 4 }
+
+const renderPane = (props: Partial<React.ComponentProps<typeof DetailPane>> = {}) =>
+  render(<DetailPane port={port} info={info} ports={others} now={START + 7_500_000} {...props} />)
+
+describe('DetailPane', () => {
+  it('renders the command line, cwd, exe and user', () => {
+    const frame = renderPane().lastFrame() ?? ''
+    expect(frame).toContain('node server.js')
+    expect(frame).toContain('/srv/api')
+    expect(frame).toMatch(/Exe\s+\/usr\/bin\/node/)
+    expect(frame).toContain('alice')
+  })
+
+  it('falls back to the process name when the command line is unknown', () => {
+    const frame = renderPane({ port: { ...port, command: undefined, cwd: undefined, exe: undefined } }).lastFrame() ?? ''
+    expect(frame).toMatch(/Command\s+node/)
+    expect(frame).toMatch(/Cwd\s+–/)
+    expect(frame).toMatch(/Exe\s+–/)
+  })
+
+  it('renders the parent PID and name', () => {
+    expect(renderPane().lastFrame()).toContain('7 (zsh)')
+    expect(renderPane({ info: { ...info, parentName: undefined } }).lastFrame()).toMatch(/Parent\s+7\s/)
+  })
+
+  it('renders the start time and uptime', () => {
+    expect(renderPane().lastFrame()).toContain('2026-10-19 09:15:02  (up 2h 5m)')
+  })
+
+  it('lists every address the PID is bound to, across protocols', () => {
+    const frame = renderPane().lastFrame() ?? ''
+    expect(frame).toContain('127.0.0.1:3000/tcp, 127.0.0.1:9229/tcp, 0.0.0.0:5353/udp')
+    expect(frame).not.toContain('8080')
+  })
+
+  it('renders the established connection count', () => {
+    expect(renderPane().lastFrame()).toContain('4 established')
+  })
+
+  it('shows a pending marker until process info arrives', () => {
+    const frame = renderPane({ info: null }).lastFrame() ?? ''
+    expect(frame).toMatch(/Parent\s+…/)
+    expect(frame).toMatch(/Connections\s+…/)
+  })
+
+  it('shows an unknown marker for fields the lookup could not determine', () => {
+    expect(renderPane({ info: {} }).lastFrame()).toMatch(/Started\s+–/)
+  })
+
+  it('renders a placeholder when no port is selected', () => {
+    expect(renderPane({ port: null }).lastFrame()).toContain('No port selected')
+  })
+
+  it('always occupies DETAIL_PANE_HEIGHT rows, truncating long values', () => {
+    const long = { ...port, command: 'node ' + 'x'.repeat(500) }
+    for (const props of [{}, { port: long }, { port: null }]) {
+      expect((renderPane(props).lastFrame() ?? '').split('\n')).toHaveLength(DETAIL_PANE_HEIGHT)
+    }
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { render } from 'ink-testing-library'
+import { FilterMenu, filterMenuHeight } from '../../src/components/FilterMenu.js'
+import { createKeymap } from '../../src/utils/keymap.js'
+
+const filters = [
+  { name: 'web', query: 'port:80,443' },
+  { name: 'dev servers', query: 'port:3000-3999 -user:root' },
+]
+
+describe('FilterMenu', () => {
+  it('lists every filter numbered, with its name and query', () => {
+    const frame = render(<FilterMenu filters={filters} selectedIndex={0} />).lastFrame() ?? ''
+    expect(frame).toContain('Saved filters')
+    expect(frame).toMatch(/1 {2}web {10}port:80,443/)
+    expect(frame).toMatch(/2 {2}dev servers {2}port:3000-3999 -user:root/)
+  })
+
+  it('marks the highlighted entry', () => {
+    const lines = (render(<FilterMenu filters={filters} selectedIndex={1} />).lastFrame() ?? '').split('\n')
+    expect(lines.find(l => l.includes('▶'))).toContain('dev servers')
+    expect(lines.filter(l => l.includes('▶'))).toHaveLength(1)
+  })
+
+  it('explains how to save a filter when there are none', () => {
+    expect(render(<FilterMenu filters={[]} selectedIndex={0} />).lastFrame())
+      .toContain('None yet: F saves the current search query')
+    expect(render(<FilterMenu filters={[]} selectedIndex={0} keymap={createKeymap({ saveFilter: [] })} />).lastFrame())
+      .not.toContain('saves the current')
+  })
+
+  it('shows the keymap in its hint line', () => {
+    expect(render(<FilterMenu filters={filters} selectedIndex={0} />).lastFrame())
+      .toContain('↑/↓ choose  1-9/enter apply  delete remove  ESC close')
+    const keymap = createKeymap({ moveUp: [], moveDown: [], cancel: [] })
+    expect(render(<FilterMenu filters={filters} selectedIndex={0} keymap={keymap} />).lastFrame())
+      .toContain('│ 1-9/enter apply  delete remove')
+  })
+
+  it.each([0, 2])('renders exactly filterMenuHeight rows for %i filters', count => {
+    const frame = render(<FilterMenu filters={filters.slice(0, count)} selectedIndex={0} />).lastFrame() ?? ''
+    expect(frame.split('\n')).toHaveLength(filterMenuHeight(count))
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { render } from 'ink-testing-library'
+import { GroupRow } from '../../src/components/GroupRow.js'
+import type { PortGroup } from '../../src/utils/groupPorts.js'
+import type { PortEntry } from '../../src/types.js'
+
+const master: PortEntry = { port: 80, protocol: 'tcp', process: 'nginx', pid: '100', user: 'root', address: '0.0.0.0' }
+const nginx: PortGroup = {
+  key: 'process:nginx',
+  label: 'nginx',
+  ports: [master, { ...master, address: '127.0.0.1' }, { ...master, port: 443, pid: '101' }, { ...master, port: 53, protocol: 'udp' }],
+  pids: ['100', '101'],
+}
+const node: PortGroup = { key: 'pid:900', label: 'node (900)', ports: [{ ...master, port: 3000, pid: '900' }], pids: ['900'] }
+
+describe('GroupRow', () => {
+  it('shows the label, counts and the distinct port numbers', () => {
+    expect(render(<GroupRow group={nginx} collapsed={false} isSelected={false} />).lastFrame())
+      .toBe('  ▾ nginx  2 PIDs · 4 ports: 80, 443, 53/udp')
+  })
+
+  it('does not count a single PID', () => {
+    expect(render(<GroupRow group={node} collapsed={false} isSelected={false} />).lastFrame())
+      .toBe('  ▾ node (900)  1 port: 3000')
+  })
+
+  it('shows whether the group is collapsed', () => {
+    expect(render(<GroupRow group={node} collapsed={true} isSelected={false} />).lastFrame()).toContain('▸ node')
+  })
+
+  it('marks the selected header with the selection arrow', () => {
+    expect(render(<GroupRow group={node} collapsed={true} isSelected={true} />).lastFrame())
+      .toContain('▶ ▸ node (900)  1 port: 3000')
+  })
+
+  it('keeps a long port list on one line', () => {
+    const many: PortGroup = { ...node, ports: Array.from({ length: 40 }, (_, i) => ({ ...master, port: 3000 + i })) }
+    expect(render(<GroupRow group={many} collapsed={false} isSelected={false} />).lastFrame()?.split('\n')).toHaveLength(1)
+  })
+})
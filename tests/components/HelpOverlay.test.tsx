@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { render } from 'ink-testing-library';
 import { HelpOverlay } from '../../src/components/HelpOverlay.js';
+import { createKeymap } from '../../src/utils/keymap.js';
 
 describe('HelpOverlay', () => {
   it('renders "Keybindings" heading', () => {
@@ -18,9 +19,9 @@ describe('HelpOverlay', () => {
     expect(lastFrame()).toContain('↓ / j');
   });
 
-  it('renders the enter key entry', () => {
+  it('renders both kill keys', () => {
     const { lastFrame } = render(<HelpOverlay />);
-    expect(lastFrame()).toContain('enter');
+    expect(lastFrame()).toMatch(/enter \/ x\s+Kill selected port \(with confirm\)/);
   });
 
   it('renders the ctrl+k key entry', () => {
@@ -43,6 +44,28 @@ describe('HelpOverlay', () => {
     expect(lastFrame()).toContain('r / R');
   });
 
+  it('renders the d detail pane key entry', () => {
+    const { lastFrame } = render(<HelpOverlay />);
+    expect(lastFrame()).toContain('Toggle details for selected port');
+  });
+
+  it('renders the p protocol filter key entry', () => {
+    const { lastFrame } = render(<HelpOverlay />);
+    expect(lastFrame()).toContain('TCP / UDP / both');
+  });
+
+  it('renders the s signal menu key entry', () => {
+    const { lastFrame } = render(<HelpOverlay />);
+    expect(lastFrame()).toContain('Send a signal (HUP, INT, USR1, STOP…)');
+  });
+
+  it('renders the batch marking key entries', () => {
+    const { lastFrame } = render(<HelpOverlay />);
+    expect(lastFrame()).toContain('Mark / unmark row for a batch kill');
+    expect(lastFrame()).toMatch(/a\s+Mark all visible rows/);
+    expect(lastFrame()).toMatch(/i\s+Invert marks of visible rows/);
+  });
+
   it('renders the ? toggle help key entry', () => {
     const { lastFrame } = render(<HelpOverlay />);
     expect(lastFrame()).toContain('?');
@@ -58,6 +81,20 @@ describe('HelpOverlay', () => {
     expect(lastFrame()).toContain('ctrl+c');
   });
 
+  it('renders the confirmation prompt keys', () => {
+    const { lastFrame } = render(<HelpOverlay />);
+    expect(lastFrame()).toMatch(/y\s+Confirm a kill or signal/);
+    expect(lastFrame()).toMatch(/ESC \/ n\s+Cancel a kill, signal or menu/);
+  });
+
+  it('lists rebound keys and leaves out unbound actions', () => {
+    const keymap = createKeymap({ refresh: ['f', 'ctrl+r'], details: [] });
+    const { lastFrame } = render(<HelpOverlay keymap={keymap} />);
+    expect(lastFrame()).toMatch(/f \/ ctrl\+r\s+Refresh port list/);
+    expect(lastFrame()).not.toContain('r / R');
+    expect(lastFrame()).not.toContain('Toggle details');
+  });
+
   it('renders "Press any key to close"', () => {
     const { lastFrame } = render(<HelpOverlay />);
     expect(lastFrame()).toContain('Press any key to close');
@@ -8,12 +8,13 @@ vi.mock('ink', async (importOriginal) => {
 
 import { render } from 'ink-testing-library';
 import { useStdout } from 'ink';
-import { PortList } from '../../src/components/PortList.js';
+import { PortList, sortKeyAt, visibleRowCount, visibleWindow } from '../../src/components/PortList.js';
+import { portKey } from '../../src/utils/normalizePorts.js';
 import type { PortEntry } from '../../src/types.js';
 
-const portA: PortEntry = { port: 3000, process: 'node', pid: '11111', user: 'alice', address: '127.0.0.1' };
-const portB: PortEntry = { port: 8080, process: 'python', pid: '22222', user: 'bob', address: '0.0.0.0' };
-const portC: PortEntry = { port: 5432, process: 'postgres', pid: '33333', user: 'root', address: '127.0.0.1' };
+const portA: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '11111', user: 'alice', address: '127.0.0.1' };
+const portB: PortEntry = { port: 8080, protocol: 'tcp', process: 'python', pid: '22222', user: 'bob', address: '0.0.0.0' };
+const portC: PortEntry = { port: 5432, protocol: 'tcp', process: 'postgres', pid: '33333', user: 'root', address: '127.0.0.1' };
 
 describe('PortList', () => {
   afterEach(() => {
@@ -29,6 +30,12 @@ describe('PortList', () => {
       const { lastFrame } = render(<PortList ports={[]} selectedIndex={0} />);
       expect(lastFrame()).toContain('No listening ports found.');
     });
+
+    it('renders a scanning message instead while the first collection is loading', () => {
+      const { lastFrame } = render(<PortList ports={[]} selectedIndex={0} loading />);
+      expect(lastFrame()).toContain('Scanning ports…');
+      expect(lastFrame()).not.toContain('No listening ports found.');
+    });
   });
 
   describe('with ports', () => {
@@ -37,6 +44,18 @@ describe('PortList', () => {
       expect(lastFrame()).toContain('PORT');
     });
 
+    it('renders the PROTO column header', () => {
+      const { lastFrame } = render(<PortList ports={[portA]} selectedIndex={0} />);
+      expect(lastFrame()).toContain('PROTO');
+    });
+
+    it('renders separate rows for TCP and UDP on the same port', () => {
+      const udp = { ...portA, protocol: 'udp' as const };
+      const { lastFrame } = render(<PortList ports={[portA, udp]} selectedIndex={0} />);
+      expect(lastFrame()).toContain('TCP');
+      expect(lastFrame()).toContain('UDP');
+    });
+
     it('renders the PROCESS column header', () => {
       const { lastFrame } = render(<PortList ports={[portA]} selectedIndex={0} />);
       expect(lastFrame()).toContain('PROCESS');
@@ -93,6 +112,51 @@ describe('PortList', () => {
     });
   });
 
+  describe('columns', () => {
+    it('renders only the listed headers and values', () => {
+      const { lastFrame } = render(<PortList ports={[portA]} selectedIndex={0} columns={['port', 'pid']} />);
+      const frame = lastFrame() ?? '';
+      expect(frame).toContain('PORT');
+      expect(frame).toContain('PID');
+      expect(frame).toContain('11111');
+      for (const hidden of ['PROTO', 'PROCESS', 'USER', 'ADDRESS', 'node', 'alice', '127.0.0.1']) {
+        expect(frame).not.toContain(hidden);
+      }
+    });
+  });
+
+  describe('sort indicator', () => {
+    it('puts an up arrow on the port header by default', () => {
+      const frame = render(<PortList ports={[portA]} selectedIndex={0} />).lastFrame() ?? '';
+      expect(frame).toContain('PORT ↑');
+      expect((frame.match(/[↑↓]/g) ?? []).length).toBe(1);
+    });
+
+    it('marks the sort column with the direction', () => {
+      const frame = render(<PortList ports={[portA]} selectedIndex={0} sort='user' sortOrder='desc' />).lastFrame() ?? '';
+      expect(frame).toContain('USER ↓');
+      expect(frame).not.toContain('PORT ↑');
+    });
+
+    it('keeps the headers aligned with an arrow on PROTO', () => {
+      const frame = render(<PortList ports={[portA]} selectedIndex={0} sort='protocol' />).lastFrame() ?? '';
+      expect(frame).toMatch(/PROTO ↑ +PROCESS/);
+      const [header, row] = frame.split('\n');
+      expect(header.indexOf('PROCESS') - header.indexOf('PROTO')).toBe(row.indexOf(portA.process) - row.indexOf('TCP'));
+    });
+  });
+
+  describe('markedKeys', () => {
+    it('marks exactly the rows whose portKey is in the set', () => {
+      const marked = new Set([portKey(portB), portKey(portC)]);
+      const frame = render(<PortList ports={[portA, portB, portC]} selectedIndex={0} markedKeys={marked} />).lastFrame() ?? '';
+      expect((frame.match(/●/g) ?? []).length).toBe(2);
+      expect(frame).toContain('●8080');
+      expect(frame).toContain('●5432');
+      expect(frame).not.toContain('●3000');
+    });
+  });
+
   describe('multiple ports', () => {
     it('renders data for all ports', () => {
       const { lastFrame } = render(<PortList ports={[portA, portB, portC]} selectedIndex={0} />);
@@ -119,6 +183,54 @@ describe('PortList', () => {
       expect(lastFrame()).toContain('node');
     });
 
+    it('adds a COMMAND column on terminals wide enough to fit it', () => {
+      vi.mocked(useStdout).mockReturnValue({
+        stdout: { columns: 160 } as unknown as NodeJS.WriteStream,
+        write: () => {},
+      });
+      // ink-testing-library still lays out 100 columns, so the command is kept
+      // short enough to fit on one line in what is left of them.
+      const { lastFrame } = render(<PortList ports={[{ ...portA, command: 'app.js' }]} selectedIndex={0} />);
+      expect(lastFrame()).toContain('COMMAND');
+      expect(lastFrame()).toContain('app.js');
+    });
+
+    it('omits the COMMAND column on a standard 80-column terminal', () => {
+      vi.mocked(useStdout).mockReturnValue({
+        stdout: { columns: 80 } as unknown as NodeJS.WriteStream,
+        write: () => {},
+      });
+      const { lastFrame } = render(<PortList ports={[{ ...portA, command: 'node app.js' }]} selectedIndex={0} />);
+      expect(lastFrame()).not.toContain('COMMAND');
+      expect(lastFrame()).not.toContain('node app.js');
+    });
+
+    it('omits the COMMAND column when it is not among the columns', () => {
+      vi.mocked(useStdout).mockReturnValue({
+        stdout: { columns: 160 } as unknown as NodeJS.WriteStream,
+        write: () => {},
+      });
+      const columns = ['port', 'process', 'address'] as const;
+      const { lastFrame } = render(
+        <PortList ports={[{ ...portA, command: 'node app.js' }]} selectedIndex={0} columns={columns} />
+      );
+      expect(lastFrame()).not.toContain('COMMAND');
+      expect(lastFrame()).not.toContain('node app.js');
+    });
+
+    it('gives the COMMAND column the width freed by hidden columns', () => {
+      // 100 columns fit no COMMAND column with everything shown, but do once
+      // USER and PID are hidden.
+      vi.mocked(useStdout).mockReturnValue({
+        stdout: { columns: 100 } as unknown as NodeJS.WriteStream,
+        write: () => {},
+      });
+      const port = { ...portA, command: 'node app.js' };
+      expect(render(<PortList ports={[port]} selectedIndex={0} />).lastFrame()).not.toContain('COMMAND');
+      const columns = ['port', 'protocol', 'process', 'address', 'command'] as const;
+      expect(render(<PortList ports={[port]} selectedIndex={0} columns={columns} />).lastFrame()).toContain('node app.js');
+    });
+
     it('clamps process column to MIN_PROCESS_COL_WIDTH on very narrow terminals', () => {
       // stdout.columns = 40 (very narrow terminal)
       // colProcess = clamp(16, 40, 40 - 2 - 8 - 8 - 14 - 20) = clamp(16, 40, -12) = 16
@@ -135,6 +247,53 @@ describe('PortList', () => {
     });
   });
 
+  describe('visibleRowCount', () => {
+    it('leaves the terminal height minus the UI overhead and open panels', () => {
+      expect(visibleRowCount(20)).toBe(14);
+      expect(visibleRowCount(20, 9)).toBe(5);
+    });
+
+    it('assumes 24 rows when the height is unknown, and never goes below 1', () => {
+      expect(visibleRowCount(undefined)).toBe(18);
+      expect(visibleRowCount(8, 10)).toBe(1);
+    });
+  });
+
+  describe('visibleWindow', () => {
+    it('shows every row when they fit', () => {
+      expect(visibleWindow(3, 2, 5)).toEqual({ start: 0, end: 3 });
+    });
+
+    it('centers the selection, or shows the first or last rows near an end', () => {
+      expect(visibleWindow(20, 10, 5)).toEqual({ start: 8, end: 13 });
+      expect(visibleWindow(20, 1, 5)).toEqual({ start: 0, end: 5 });
+      expect(visibleWindow(20, 19, 5)).toEqual({ start: 15, end: 20 });
+    });
+  });
+
+  describe('sortKeyAt', () => {
+    const ALL = ['port', 'protocol', 'process', 'user', 'pid', 'address', 'command'] as const;
+
+    it('finds the column under a header cell', () => {
+      // Padding and prefix, then PORT (8), PROTO (8), PROCESS (20 at 80 columns) and USER
+      expect(sortKeyAt(3, 80, ALL)).toBe('port');
+      expect(sortKeyAt(11, 80, ALL)).toBe('protocol');
+      expect(sortKeyAt(38, 80, ALL)).toBe('process');
+      expect(sortKeyAt(39, 80, ALL)).toBe('user');
+    });
+
+    it('follows the hidden columns and the width given to PROCESS', () => {
+      expect(sortKeyAt(11, 80, ['port', 'pid'])).toBe('pid');
+      expect(sortKeyAt(50, 120, ALL)).toBe('process');
+    });
+
+    it('is null on the prefix, COMMAND and past the last header', () => {
+      expect(sortKeyAt(1, 80, ALL)).toBeNull();
+      expect(sortKeyAt(150, 200, ALL)).toBeNull();
+      expect(sortKeyAt(40, undefined, ['port'])).toBeNull();
+    });
+  });
+
   describe('viewport scrolling for limited terminal height', () => {
     it('renders all ports when they fit within terminal height', () => {
       // Terminal with 20 rows can show 14 ports (20 - 6 overhead)
@@ -151,6 +310,23 @@ describe('PortList', () => {
       expect(frame).toContain('5432');
     });
 
+    it('shrinks the viewport by reservedRows for open panels', () => {
+      // 20 rows - 6 overhead - 9 reserved = 5 visible ports
+      vi.mocked(useStdout).mockReturnValue({
+        stdout: { rows: 20, columns: 80 } as unknown as NodeJS.WriteStream,
+        write: () => {},
+      });
+      const manyPorts = Array.from({ length: 10 }, (_, i) => ({
+        ...portA,
+        port: 3000 + i,
+        pid: String(10000 + i),
+      }));
+      const { lastFrame } = render(<PortList ports={manyPorts} selectedIndex={0} reservedRows={9} />);
+      const frame = lastFrame() ?? '';
+      expect(frame).toContain('3004');
+      expect(frame).not.toContain('3005');
+    });
+
     it('truncates port list when too many ports for terminal height', () => {
       // Terminal with 8 rows can show only 2 ports (8 - 6 overhead)
       vi.mocked(useStdout).mockReturnValue({
@@ -159,6 +335,7 @@ describe('PortList', () => {
       });
       const manyPorts = Array.from({ length: 10 }, (_, i) => ({
         port: 3000 + i,
+        protocol: 'tcp' as const,
         process: `process${i}`,
         pid: String(10000 + i),
         user: 'user',
@@ -180,6 +357,7 @@ describe('PortList', () => {
       });
       const manyPorts = Array.from({ length: 10 }, (_, i) => ({
         port: 3000 + i,
+        protocol: 'tcp' as const,
         process: `process${i}`,
         pid: String(10000 + i),
         user: 'user',
@@ -204,6 +382,7 @@ describe('PortList', () => {
       });
       const manyPorts = Array.from({ length: 10 }, (_, i) => ({
         port: 3000 + i,
+        protocol: 'tcp' as const,
         process: `process${i}`,
         pid: String(10000 + i),
         user: 'user',
@@ -242,6 +421,7 @@ describe('PortList', () => {
       });
       const manyPorts = Array.from({ length: 10 }, (_, i) => ({
         port: 3000 + i,
+        protocol: 'tcp' as const,
         process: `process${i}`,
         pid: String(10000 + i),
         user: 'user',
@@ -268,6 +448,7 @@ describe('PortList', () => {
       });
       const ports = Array.from({ length: 7 }, (_, i) => ({
         port: 3000 + i,
+        protocol: 'tcp' as const,
         process: `p${i}`,
         pid: String(i),
         user: 'u',
@@ -287,4 +468,54 @@ describe('PortList', () => {
       expect(frame).not.toContain('3001');
     });
   });
+
+  describe('grouped', () => {
+    const worker: PortEntry = { ...portB, port: 8081, pid: '22223' };
+
+    it('renders a header above each group\'s rows', () => {
+      const { lastFrame } = render(<PortList ports={[portA, portB, worker]} selectedIndex={0} groupBy='process' />);
+      const lines = (lastFrame() ?? '').split('\n');
+      expect(lines[1]).toContain('▶ ▾ node  1 port: 3000');
+      expect(lines[2]).toContain('3000');
+      expect(lines[3]).toContain('▾ python  2 PIDs · 2 ports: 8080, 8081');
+      expect(lines).toHaveLength(6);
+    });
+
+    it('selects by row, headers included', () => {
+      const { lastFrame } = render(<PortList ports={[portA, portB]} selectedIndex={3} groupBy='pid' />);
+      expect((lastFrame() ?? '').split('\n').find(l => l.includes('▶'))).toContain('8080');
+    });
+
+    it('hides the rows of a collapsed group', () => {
+      const { lastFrame } = render(
+        <PortList ports={[portA, portB, worker]} selectedIndex={0} groupBy='process' collapsedGroups={new Set(['process:python'])} />
+      );
+      const frame = lastFrame() ?? '';
+      expect(frame).toContain('▸ python');
+      expect(frame).not.toContain('22222');
+    });
+
+    it('counts headers against the viewport', () => {
+      // 10 rows - 6 overhead = 4 visible rows: two headers and two ports
+      vi.mocked(useStdout).mockReturnValue({
+        stdout: { rows: 10, columns: 80 } as unknown as NodeJS.WriteStream,
+        write: () => {},
+      });
+      const { lastFrame } = render(<PortList ports={[portA, portB, portC]} selectedIndex={0} groupBy='pid' />);
+      const frame = lastFrame() ?? '';
+      expect(frame).toContain('8080');
+      expect(frame).not.toContain('5432');
+    });
+
+    it('scrolls to keep a selected header at the end visible', () => {
+      vi.mocked(useStdout).mockReturnValue({
+        stdout: { rows: 10, columns: 80 } as unknown as NodeJS.WriteStream,
+        write: () => {},
+      });
+      const { lastFrame } = render(<PortList ports={[portA, portB, portC]} selectedIndex={4} groupBy='pid' />);
+      const frame = lastFrame() ?? '';
+      expect(frame).toContain('▶ ▾ postgres (33333)');
+      expect(frame).not.toContain('node');
+    });
+  });
 });
@@ -1,10 +1,12 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { render } from 'ink-testing-library'
 import { PortRow } from '../../src/components/PortRow.js'
 import type { PortEntry } from '../../src/types.js'
+import { compileQuery } from '../../src/utils/parseQuery.js'
 
 const samplePort: PortEntry = {
   port: 3000,
+  protocol: 'tcp',
   process: 'node',
   pid: '12345',
   user: 'patebry',
@@ -46,18 +48,76 @@ describe('PortRow', () => {
       expect(lastFrame()).toContain('127.0.0.1')
     })
 
+    it('renders the protocol in upper case', () => {
+      const { lastFrame } = renderRow(samplePort, false)
+      expect(lastFrame()).toContain('TCP')
+      expect(renderRow({ ...samplePort, protocol: 'udp' }, false).lastFrame()).toContain('UDP')
+    })
+
     it('does not render the selection arrow', () => {
       const { lastFrame } = renderRow(samplePort, false)
       expect(lastFrame()).not.toContain('▶')
     })
   })
 
+  describe('command column', () => {
+    // Widths stay small enough for the whole row to fit the 100-column test terminal.
+    const enriched: PortEntry = { ...samplePort, command: 'node app.js', cwd: '/srv' }
+    const renderWithCommand = (port: PortEntry, isSelected: boolean, colCommand: number) =>
+      render(<PortRow port={port} isSelected={isSelected} colProcess={COL_PROCESS} colCommand={colCommand} />)
+
+    it('is omitted when no width is granted', () => {
+      const { lastFrame } = renderRow(enriched, false)
+      expect(lastFrame()).not.toContain('app.js')
+    })
+
+    it('renders the command line followed by the working directory', () => {
+      const { lastFrame } = renderWithCommand(enriched, false, 20)
+      expect(lastFrame()).toContain('node app.js  /srv')
+    })
+
+    it('renders the command line on the selected row too', () => {
+      const { lastFrame } = renderWithCommand(enriched, true, 20)
+      expect(lastFrame()).toContain('node app.js  /srv')
+    })
+
+    it('truncates command and cwd together to the column width', () => {
+      const { lastFrame } = renderWithCommand(enriched, false, 8)
+      expect(lastFrame()).toContain('node app')
+      expect(lastFrame()).not.toContain('app.js')
+      expect(lastFrame()).not.toContain('/srv')
+    })
+
+    it('truncates long addresses so the command column stays aligned', () => {
+      const ipv6 = { ...enriched, address: 'fe80::1c2d:3e4f:5a6b:7c8d' }
+      const short = renderWithCommand(enriched, false, 20).lastFrame() ?? ''
+      const long = renderWithCommand(ipv6, false, 20).lastFrame() ?? ''
+      expect(long).toContain('fe80::1c2d:3e4f:5a6 node app.js')
+      expect(long.indexOf('node app.js')).toBe(short.indexOf('node app.js'))
+    })
+
+    it('keeps the whole address when no command column follows', () => {
+      const { lastFrame } = renderRow({ ...samplePort, address: 'fe80::1c2d:3e4f:5a6b:7c8d' }, false)
+      expect(lastFrame()).toContain('fe80::1c2d:3e4f:5a6b:7c8d')
+    })
+
+    it('renders only the working directory when the command is unknown', () => {
+      const { lastFrame } = renderWithCommand({ ...samplePort, cwd: '/srv' }, false, 20)
+      expect(lastFrame()).toContain('/srv')
+    })
+  })
+
   describe('selected row', () => {
     it('renders the selection arrow', () => {
       const { lastFrame } = renderRow(samplePort, true)
       expect(lastFrame()).toContain('▶')
     })
 
+    it('renders the protocol', () => {
+      const { lastFrame } = renderRow({ ...samplePort, protocol: 'udp' }, true)
+      expect(lastFrame()).toContain('UDP')
+    })
+
     it('renders the port number', () => {
       const { lastFrame } = renderRow(samplePort, true)
       expect(lastFrame()).toContain('3000')
@@ -124,4 +184,94 @@ describe('PortRow', () => {
       expect(lastFrame()).not.toContain('averylongusername')
     })
   })
+
+  describe('marked row', () => {
+    it('shows the mark indicator on an unselected row', () => {
+      const { lastFrame } = render(
+        <PortRow port={samplePort} isSelected={false} isMarked colProcess={COL_PROCESS} />
+      )
+      expect(lastFrame()).toContain(' ●3000')
+    })
+
+    it('shows the selection arrow and the mark together on the selected row', () => {
+      const { lastFrame } = render(
+        <PortRow port={samplePort} isSelected isMarked colProcess={COL_PROCESS} />
+      )
+      expect(lastFrame()).toContain('▶●3000')
+    })
+
+    it('does not show the indicator on unmarked rows', () => {
+      expect(renderRow(samplePort, false).lastFrame()).not.toContain('●')
+      expect(renderRow(samplePort, true).lastFrame()).not.toContain('●')
+    })
+  })
+  describe('columns', () => {
+    it('renders only the listed columns', () => {
+      const { lastFrame } = render(
+        <PortRow port={samplePort} isSelected={false} colProcess={COL_PROCESS} columns={['process', 'address']} />
+      )
+      expect(lastFrame()).toContain('node')
+      expect(lastFrame()).toContain('127.0.0.1')
+      expect(lastFrame()).not.toContain('3000')
+      expect(lastFrame()).not.toContain('12345')
+      expect(lastFrame()).not.toContain('patebry')
+    })
+
+    it('hides the same columns on the selected row', () => {
+      const { lastFrame } = render(
+        <PortRow port={samplePort} isSelected colProcess={COL_PROCESS} columns={['port']} />
+      )
+      expect(lastFrame()).toContain('▶ 3000')
+      expect(lastFrame()).not.toContain('node')
+      expect(lastFrame()).not.toContain('TCP')
+    })
+  })
+
+  describe('search highlighting', () => {
+    it('asks the highlighter about the text shown in each cell', () => {
+      const highlight = vi.fn(() => [])
+      render(
+        <PortRow
+          port={{ ...samplePort, command: 'node server.js', cwd: '/srv/app' }}
+          isSelected={false}
+          colProcess={COL_PROCESS}
+          colCommand={40}
+          highlight={highlight}
+        />
+      )
+      expect(highlight.mock.calls).toEqual([
+        ['port', '3000'],
+        ['process', 'node'],
+        ['user', 'patebry'],
+        ['pid', '12345'],
+        ['address', '127.0.0.1'],
+        ['command', 'node server.js'],
+        ['cwd', '/srv/app'],
+      ])
+    })
+
+    it('keeps the columns aligned around highlighted characters', () => {
+      const { highlight } = compileQuery('od port:3000 user:bry')
+      const plain = renderRow(samplePort, false).lastFrame()
+      for (const isSelected of [false, true]) {
+        const { lastFrame } = render(
+          <PortRow port={samplePort} isSelected={isSelected} colProcess={COL_PROCESS} highlight={highlight} />
+        )
+        expect(lastFrame()!.slice(1)).toBe(plain!.slice(1))
+      }
+    })
+
+    it('ignores matches in text cut off by a narrow column', () => {
+      const { lastFrame } = render(
+        <PortRow
+          port={{ ...samplePort, process: 'a-very-long-process-name' }}
+          isSelected={false}
+          colProcess={6}
+          highlight={() => [20, 21]}
+        />
+      )
+      expect(lastFrame()).toContain('a-very')
+      expect(lastFrame()).not.toContain('name')
+    })
+  })
 })
@@ -16,6 +16,19 @@ describe('SearchBar', () => {
     expect(result.lastFrame()).toContain('ports');
   });
 
+  it('renders no protocol badge when both protocols are shown', () => {
+    const result = render(<SearchBar value="" isActive={false} protocol="all" />);
+    unmount = result.unmount;
+    expect(result.lastFrame()).not.toContain('TCP');
+    expect(result.lastFrame()).not.toContain('UDP');
+  });
+
+  it('renders a protocol badge when the list is narrowed to one protocol', () => {
+    const result = render(<SearchBar value="" isActive={false} protocol="udp" />);
+    unmount = result.unmount;
+    expect(result.lastFrame()).toContain('ports UDP');
+  });
+
   it('inactive with no value renders "to search" hint text', () => {
     const result = render(<SearchBar value="" isActive={false} />);
     unmount = result.unmount;
@@ -64,4 +77,41 @@ describe('SearchBar', () => {
     expect(result.lastFrame()).not.toContain('to search');
     expect(result.lastFrame()).not.toContain('type to filter...');
   });
+
+  it('shows no search mode badge for substring matching outside the search bar', () => {
+    const result = render(<SearchBar value="node" isActive={false} />);
+    unmount = result.unmount;
+    expect(result.lastFrame()).not.toContain('substring');
+  });
+
+  it('shows the search mode while searching', () => {
+    const result = render(<SearchBar value="" isActive={true} />);
+    unmount = result.unmount;
+    expect(result.lastFrame()).toContain('ports substring');
+  });
+
+  it('shows a fuzzy or regex search mode even when not searching', () => {
+    const result = render(<SearchBar value="dokcer" isActive={false} protocol="tcp" searchMode="fuzzy" />);
+    unmount = result.unmount;
+    expect(result.lastFrame()).toContain('ports TCP fuzzy');
+  });
+
+  it('shows a query error after the value', () => {
+    const result = render(<SearchBar value="port:x" isActive={true} error='invalid port "x"' />);
+    unmount = result.unmount;
+    expect(result.lastFrame()).toContain('port:x');
+    expect(result.lastFrame()).toContain('✗ invalid port "x"');
+  });
+
+  it('names the saved filter the query came from', () => {
+    const result = render(<SearchBar value="port:80,443" isActive={false} filterName="web" />);
+    unmount = result.unmount;
+    expect(result.lastFrame()).toContain('port:80,443  ★ web');
+  });
+
+  it('shows no error marker for a valid query', () => {
+    const result = render(<SearchBar value="port:3000" isActive={true} error={null} />);
+    unmount = result.unmount;
+    expect(result.lastFrame()).not.toContain('✗');
+  });
 });
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { render } from 'ink-testing-library'
+import { SignalMenu, SIGNAL_OPTIONS, SIGNAL_MENU_HEIGHT } from '../../src/components/SignalMenu.js'
+import type { PortEntry } from '../../src/types.js'
+import { createKeymap } from '../../src/utils/keymap.js'
+
+const port: PortEntry = {
+  port: 8080,
+  protocol: 'tcp',
+  process: 'nginx',
+  pid: '200',
+  user: 'root',
+  address: '0.0.0.0',
+}
+
+describe('SignalMenu', () => {
+  it('names the target process in the title', () => {
+    const frame = render(<SignalMenu port={port} selectedIndex={0} />).lastFrame() ?? ''
+    expect(frame).toContain('Send signal to nginx (200)')
+  })
+
+  it('lists every signal with its description', () => {
+    const frame = render(<SignalMenu port={port} selectedIndex={0} />).lastFrame() ?? ''
+    for (const { signal, desc } of SIGNAL_OPTIONS) {
+      expect(frame).toContain(signal)
+      expect(frame).toContain(desc)
+    }
+  })
+
+  it('offers the reload, debug and pause signals', () => {
+    expect(SIGNAL_OPTIONS.map(o => o.signal)).toEqual(
+      expect.arrayContaining(['SIGHUP', 'SIGINT', 'SIGUSR1', 'SIGUSR2', 'SIGSTOP', 'SIGCONT']),
+    )
+  })
+
+  it('marks the highlighted entry', () => {
+    const index = SIGNAL_OPTIONS.findIndex(o => o.signal === 'SIGHUP')
+    const lines = (render(<SignalMenu port={port} selectedIndex={index} />).lastFrame() ?? '').split('\n')
+    expect(lines.find(l => l.includes('▶'))).toContain('SIGHUP')
+    expect(lines.filter(l => l.includes('▶'))).toHaveLength(1)
+  })
+
+  it('shows the keymap in its hint line', () => {
+    expect(render(<SignalMenu port={port} selectedIndex={0} />).lastFrame())
+      .toContain('↑/↓ choose  enter send  ESC cancel')
+    const keymap = createKeymap({ moveUp: ['w'], moveDown: ['s'], cancel: [] })
+    expect(render(<SignalMenu port={port} selectedIndex={0} keymap={keymap} />).lastFrame())
+      .toContain('w/s choose  enter send')
+  })
+
+  it('renders exactly SIGNAL_MENU_HEIGHT rows', () => {
+    const frame = render(<SignalMenu port={port} selectedIndex={0} />).lastFrame() ?? ''
+    expect(frame.split('\n')).toHaveLength(SIGNAL_MENU_HEIGHT)
+  })
+})
@@ -2,9 +2,11 @@ import { describe, it, expect } from 'vitest';
 import { render } from 'ink-testing-library';
 import { StatusBar } from '../../src/components/StatusBar.js';
 import type { PortEntry } from '../../src/types.js';
+import { createKeymap } from '../../src/utils/keymap.js';
 
 const samplePort: PortEntry = {
   port: 3000,
+  protocol: 'tcp',
   process: 'node',
   pid: '12345',
   user: 'root',
@@ -71,6 +73,13 @@ describe('StatusBar', () => {
       expect(lastFrame()).toContain('done');
     });
 
+    it('renders the search mode hint', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="search" confirmKill={false} killMessage={null} selectedPort={null} />
+      );
+      expect(lastFrame()).toContain('tab mode');
+    });
+
     it('renders the clear hint', () => {
       const { lastFrame } = render(
         <StatusBar mode="search" confirmKill={false} killMessage={null} selectedPort={null} />
@@ -94,6 +103,53 @@ describe('StatusBar', () => {
       expect(lastFrame()).toContain('node');
     });
 
+    it('names the signal chosen from the signal menu instead of "Kill"', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={true} pendingSignal="SIGHUP" killMessage={null} selectedPort={samplePort} />
+      );
+      expect(lastFrame()).toContain('Send SIGHUP to node:3000?');
+      expect(lastFrame()).not.toContain('Kill');
+    });
+
+    it('confirms a batch kill once for all marked processes', () => {
+      const marked = [samplePort, { ...samplePort, port: 3001 }, { ...samplePort, port: 4000, pid: '999' }];
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={true} markedPorts={marked} killMessage={null} selectedPort={samplePort} />
+      );
+      expect(lastFrame()).toContain('Kill 2 processes (3 ports)?');
+    });
+
+    it('uses the singular for one marked process and omits an equal port count', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={true} markedPorts={[samplePort]} killMessage={null} selectedPort={null} />
+      );
+      expect(lastFrame()).toContain('Kill 1 process?');
+      expect(lastFrame()).not.toContain('ports)');
+    });
+
+    it('confirms a kill from a group header once for every process in the group', () => {
+      const group = {
+        key: 'process:node',
+        label: 'node',
+        ports: [samplePort, { ...samplePort, port: 3001 }, { ...samplePort, port: 4000, pid: '999' }],
+        pids: ['12345', '999'],
+      };
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={true} killMessage={null} selectedPort={null} selectedGroup={group} />
+      );
+      expect(lastFrame()).toContain('Kill 2 processes (3 ports) in group node?');
+    });
+
+    it('confirms the marked rows rather than the selected group', () => {
+      const group = { key: 'user:root', label: 'root', ports: [samplePort], pids: ['12345'] };
+      const marked = [{ ...samplePort, pid: '1' }, { ...samplePort, pid: '2' }];
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={true} markedPorts={marked} killMessage={null} selectedPort={null} selectedGroup={group} />
+      );
+      expect(lastFrame()).toContain('Kill 2 processes?');
+      expect(lastFrame()).not.toContain('in group');
+    });
+
     it('renders the port number with question mark', () => {
       const { lastFrame } = render(
         <StatusBar mode="navigate" confirmKill={true} killMessage={null} selectedPort={samplePort} />
@@ -101,6 +157,13 @@ describe('StatusBar', () => {
       expect(lastFrame()).toContain('3000?');
     });
 
+    it('suffixes UDP ports with /udp', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={true} killMessage={null} selectedPort={{ ...samplePort, protocol: 'udp' }} />
+      );
+      expect(lastFrame()).toContain('3000/udp?');
+    });
+
     it('renders the "y" confirm key', () => {
       const { lastFrame } = render(
         <StatusBar mode="navigate" confirmKill={true} killMessage={null} selectedPort={samplePort} />
@@ -130,6 +193,31 @@ describe('StatusBar', () => {
     });
   });
 
+  describe('key hints from the keymap', () => {
+    it('shows the first key of each action by default', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={null} />
+      );
+      expect(lastFrame()).toContain('↑/↓ navigate  / search  enter kill  r refresh  ? help  q quit');
+    });
+
+    it('shows rebound keys and leaves out unbound actions', () => {
+      const keymap = createKeymap({ moveUp: ['k'], moveDown: ['j'], kill: ['x'], help: [] });
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={null} keymap={keymap} />
+      );
+      expect(lastFrame()).toContain('k/j navigate  / search  x kill  r refresh  q quit');
+    });
+
+    it('shows the rebound confirm and cancel keys in the prompt', () => {
+      const keymap = createKeymap({ confirm: ['enter'], cancel: ['c'] });
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={true} killMessage={null} selectedPort={samplePort} keymap={keymap} />
+      );
+      expect(lastFrame()).toContain('enter confirm  c cancel');
+    });
+  });
+
   describe('kill messages', () => {
     it('renders a success kill message', () => {
       const { lastFrame } = render(
@@ -154,6 +242,18 @@ describe('StatusBar', () => {
       );
       expect(lastFrame()).toContain('Failed to kill process');
     });
+
+    it('shows a progress message in place of the selected port', () => {
+      const { lastFrame } = render(
+        <StatusBar
+          mode="navigate"
+          confirmKill={false}
+          killMessage={{ type: 'progress', text: 'Terminating node (1234)…' }}
+          selectedPort={samplePort}
+        />
+      );
+      expect(lastFrame()).toContain('Terminating node (1234)…');
+    });
   });
 
   describe('selected port display', () => {
@@ -163,5 +263,117 @@ describe('StatusBar', () => {
       );
       expect(lastFrame()).toContain('node:3000');
     });
+
+    it('shows the marked row count instead while rows are marked', () => {
+      const { lastFrame } = render(
+        <StatusBar
+          mode="navigate"
+          confirmKill={false}
+          markedPorts={[samplePort, { ...samplePort, port: 3001 }]}
+          killMessage={null}
+          selectedPort={samplePort}
+        />
+      );
+      expect(lastFrame()).toContain('2 marked');
+      expect(lastFrame()).not.toContain('node:3000');
+    });
+
+    it('shows the group and its port count when a group header is selected', () => {
+      const group = { key: 'pid:12345', label: 'node (12345)', ports: [samplePort, { ...samplePort, port: 9229 }], pids: ['12345'] };
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={null} selectedGroup={group} />
+      );
+      expect(lastFrame()).toContain('node (12345): 2 ports');
+    });
+
+    it('shows process:port/udp for a UDP entry', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={{ ...samplePort, protocol: 'udp' }} />
+      );
+      expect(lastFrame()).toContain('node:3000/udp');
+    });
+  });
+
+  describe('save filter prompt', () => {
+    it('replaces the bar with the name typed so far', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={samplePort} filterName="web" />
+      );
+      expect(lastFrame()).toContain('Save filter as: web█  enter save  ESC cancel');
+      expect(lastFrame()).not.toContain('node:3000');
+    });
+
+    it('is not shown while filterName is null', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={samplePort} filterName={null} />
+      );
+      expect(lastFrame()).not.toContain('Save filter as');
+    });
+  });
+
+  describe('go-to-port prompt', () => {
+    it('replaces the bar with the port typed so far', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={samplePort} portPrompt="80" />
+      );
+      expect(lastFrame()).toContain('Go to port: 80█  enter go  ESC cancel');
+      expect(lastFrame()).not.toContain('node:3000');
+    });
+  });
+
+  describe('change counter', () => {
+    it('shows the ports that appeared and disappeared before the status text', () => {
+      const { lastFrame } = render(
+        <StatusBar
+          mode="navigate"
+          confirmKill={false}
+          killMessage={null}
+          selectedPort={samplePort}
+          changeCounts={{ opened: 2, closed: 1 }}
+        />
+      );
+      expect(lastFrame()).toContain('+2 / −1  node:3000');
+    });
+
+    it('is hidden while nothing changed', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={null} changeCounts={{ opened: 0, closed: 0 }} />
+      );
+      expect(lastFrame()).not.toContain('/ −');
+    });
+  });
+
+  describe('timeline view', () => {
+    it('shows the timeline hints and the number of events shown', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={samplePort} timelineCount={3} />
+      );
+      expect(lastFrame()).toContain('e export  t list');
+      expect(lastFrame()).not.toContain('kill');
+      expect(lastFrame()).toMatch(/3 events\s*$/);
+    });
+
+    it('uses the singular for one event', () => {
+      const { lastFrame } = render(
+        <StatusBar mode="navigate" confirmKill={false} killMessage={null} selectedPort={null} timelineCount={1} />
+      );
+      expect(lastFrame()).toMatch(/1 event\s*$/);
+    });
+  });
+
+  describe('count prefix', () => {
+    it('echoes a pending count in place of the status text', () => {
+      const { lastFrame } = render(
+        <StatusBar
+          mode="navigate"
+          confirmKill={false}
+          killMessage={{ type: 'success', text: 'Killed node (100) with SIGTERM' }}
+          selectedPort={samplePort}
+          count={12}
+        />
+      );
+      expect(lastFrame()).toMatch(/12\s*$/);
+      expect(lastFrame()).not.toContain('Killed');
+    });
   });
 });
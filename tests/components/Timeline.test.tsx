@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { render } from 'ink-testing-library'
+import { Timeline, formatClock } from '../../src/components/Timeline.js'
+import { PortList } from '../../src/components/PortList.js'
+import type { TimelineEvent } from '../../src/utils/timeline.js'
+import type { PortEntry } from '../../src/types.js'
+
+const NODE: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'me', address: '127.0.0.1' }
+const NGINX: PortEntry = { port: 8080, protocol: 'tcp', process: 'nginx', pid: '200', user: 'root', address: '0.0.0.0' }
+
+const NOW = new Date(2026, 0, 1, 12, 10, 0).getTime()
+// Newest first, as App passes them.
+const EVENTS: TimelineEvent[] = [
+  { change: 'closed', port: NGINX, at: NOW - 30_000 },
+  { change: 'opened', port: NGINX, at: NOW - 5 * 60_000 },
+  { change: 'opened', port: NODE, at: NOW - 65 * 60_000 },
+]
+
+describe('formatClock', () => {
+  it('formats local time with two digits per field', () => {
+    expect(formatClock(new Date(2026, 0, 1, 9, 5, 3).getTime())).toBe('09:05:03')
+  })
+})
+
+describe('Timeline', () => {
+  it('renders the column headers', () => {
+    const { lastFrame } = render(<Timeline events={EVENTS} selectedIndex={0} totalCount={3} now={NOW} />)
+    expect(lastFrame()).toMatch(/TIME\s+AGO\s+EVENT\s+PORT\s+PROTO\s+PROCESS\s+PID\s+ADDRESS/)
+  })
+
+  it('pads the header like the port list, so switching views keeps the columns in place', () => {
+    const timeline = render(<Timeline events={EVENTS} selectedIndex={0} totalCount={3} now={NOW} />)
+    const list = render(<PortList ports={[EVENTS[0].port]} selectedIndex={0} />)
+    const indent = (frame: string | undefined) => (frame ?? '').split('\n')[0].search(/\S/)
+    expect(indent(timeline.lastFrame())).toBe(indent(list.lastFrame()))
+  })
+
+  it('renders one line per event in the given order, with time and age', () => {
+    const { lastFrame } = render(<Timeline events={EVENTS} selectedIndex={0} totalCount={3} now={NOW} />)
+    const lines = (lastFrame() ?? '').split('\n')
+    expect(lines[1]).toMatch(/^▶ 12:09:30\s+30s ago\s+closed\s+8080\s+TCP\s+nginx\s+200\s+0\.0\.0\.0/)
+    expect(lines[2]).toMatch(/^ {2}12:05:00\s+5m ago\s+opened\s+8080/)
+    expect(lines[3]).toMatch(/^ {2}11:05:00\s+1h 5m ago\s+opened\s+3000\s+TCP\s+node/)
+  })
+
+  it('puts the arrow on the selected event', () => {
+    const { lastFrame } = render(<Timeline events={EVENTS} selectedIndex={2} totalCount={3} now={NOW} />)
+    expect(lastFrame()).toMatch(/▶ 11:05:00/)
+  })
+
+  it('says when nothing has changed yet', () => {
+    const { lastFrame } = render(<Timeline events={[]} selectedIndex={0} totalCount={0} />)
+    expect(lastFrame()).toContain('No ports opened or closed since ports started.')
+  })
+
+  it('says when the search hides every event', () => {
+    const { lastFrame } = render(<Timeline events={[]} selectedIndex={0} totalCount={3} />)
+    expect(lastFrame()).toContain('No events match the search.')
+  })
+})
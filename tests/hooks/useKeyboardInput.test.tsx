@@ -11,6 +11,7 @@ import { Box } from 'ink';
 
 import { useKeyboardInput, type UseKeyboardInputProps } from '../../src/hooks/useKeyboardInput.js';
 import type { AppMode } from '../../src/types.js';
+import { DEFAULT_KEYMAP, createKeymap } from '../../src/utils/keymap.js';
 import { tick } from '../helpers.js';
 
 // Test component that renders nothing but sets up the hook
@@ -28,18 +29,66 @@ describe('useKeyboardInput', () => {
       mode: 'navigate' as const,
       showHelp: false,
       confirmKill: false,
+      pendingSignal: null,
+      showSignalMenu: false,
+      showFilterMenu: false,
+      filterCount: 2,
+      filterName: null,
       searchQuery: '',
-      selectedPort: { port: 3000, process: 'node', pid: '100', user: 'test', address: '127.0.0.1' },
+      historyLength: 0,
+      historyIndex: null,
+      selectedPort: { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'test', address: '127.0.0.1' },
+      selectedGroup: null,
+      markedCount: 0,
+      count: null,
+      pageSize: 10,
+      portPrompt: null,
+      showTimeline: false,
+      keymap: DEFAULT_KEYMAP,
       exit: vi.fn(),
       executeKill: vi.fn(),
+      executeSignal: vi.fn(),
+      openSignalMenu: vi.fn(),
+      closeSignalMenu: vi.fn(),
+      moveSignalMenu: vi.fn(),
+      chooseSignal: vi.fn(),
+      openFilterMenu: vi.fn(),
+      closeFilterMenu: vi.fn(),
+      moveFilterMenu: vi.fn(),
+      applyFilter: vi.fn(),
+      deleteFilter: vi.fn(),
+      startSavingFilter: vi.fn(),
+      setFilterName: vi.fn(),
+      saveFilter: vi.fn(),
       toggleHelp: vi.fn(),
       closeHelp: vi.fn(),
+      toggleDetails: vi.fn(),
       setConfirmKill: vi.fn(),
       setMode: vi.fn(),
       setSearchQuery: vi.fn(),
+      cycleSearchMode: vi.fn(),
+      recallHistory: vi.fn(),
+      rememberQuery: vi.fn(),
+      toggleMark: vi.fn(),
+      markAll: vi.fn(),
+      invertMarks: vi.fn(),
+      clearMarks: vi.fn(),
       moveUp: vi.fn(),
       moveDown: vi.fn(),
+      moveBy: vi.fn(),
+      moveTo: vi.fn(),
+      setCount: vi.fn(),
+      setPortPrompt: vi.fn(),
+      goToPort: vi.fn(),
       refresh: vi.fn(),
+      cycleProtocol: vi.fn(),
+      cycleSort: vi.fn(),
+      reverseSort: vi.fn(),
+      cycleGroupBy: vi.fn(),
+      toggleCollapse: vi.fn(),
+      toggleCollapseAll: vi.fn(),
+      toggleTimeline: vi.fn(),
+      exportTimeline: vi.fn(),
     };
   });
 
@@ -109,6 +158,14 @@ describe('useKeyboardInput', () => {
     expect(props.setMode).toHaveBeenCalledWith('search');
   });
 
+  it('sets confirmKill on x, the second kill key', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('x');
+    await tick();
+    expect(props.setConfirmKill).toHaveBeenCalledWith(true);
+  });
+
   it('sets confirmKill on Enter when port is selected', async () => {
     result = render(<TestHarness {...props} />);
     await tick();
@@ -133,6 +190,52 @@ describe('useKeyboardInput', () => {
     expect(props.refresh).toHaveBeenCalledTimes(1);
   });
 
+  it('toggles the detail pane on d', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('d');
+    await tick();
+    expect(props.toggleDetails).toHaveBeenCalledTimes(1);
+  });
+
+  it('cycles the protocol filter on p', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('p');
+    await tick();
+    expect(props.cycleProtocol).toHaveBeenCalledTimes(1);
+  });
+
+  it('types p into the query in search mode instead of cycling protocols', async () => {
+    result = render(<TestHarness {...props} mode='search' />);
+    await tick();
+    result.stdin.write('p');
+    await tick();
+    expect(props.cycleProtocol).not.toHaveBeenCalled();
+    expect(props.setSearchQuery).toHaveBeenCalled();
+  });
+
+  it('cycles the sort column on o and reverses it on O', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('o');
+    await tick();
+    expect(props.cycleSort).toHaveBeenCalledTimes(1);
+    expect(props.reverseSort).not.toHaveBeenCalled();
+    result.stdin.write('O');
+    await tick();
+    expect(props.reverseSort).toHaveBeenCalledTimes(1);
+    expect(props.cycleSort).toHaveBeenCalledTimes(1);
+  });
+
+  it('cycles the search mode on tab', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('\t');
+    await tick();
+    expect(props.cycleSearchMode).toHaveBeenCalledTimes(1);
+  });
+
   it('exits on q', async () => {
     result = render(<TestHarness {...props} />);
     await tick();
@@ -162,6 +265,15 @@ describe('useKeyboardInput', () => {
     expect(props.setMode).toHaveBeenCalledWith('navigate');
   });
 
+  it('cycles the search mode on tab in search mode without typing it', async () => {
+    result = render(<TestHarness {...props} mode="search" />);
+    await tick();
+    result.stdin.write('\t');
+    await tick();
+    expect(props.cycleSearchMode).toHaveBeenCalledTimes(1);
+    expect(props.setSearchQuery).not.toHaveBeenCalled();
+  });
+
   it('removes last character on Backspace in search mode', async () => {
     result = render(<TestHarness {...props} mode="search" />);
     await tick();
@@ -192,6 +304,132 @@ describe('useKeyboardInput', () => {
     expect(props.setConfirmKill).toHaveBeenCalledWith(false);
   });
 
+  it('sends the pending signal instead of killing on y', async () => {
+    result = render(<TestHarness {...props} confirmKill={true} pendingSignal='SIGHUP' />);
+    await tick();
+    result.stdin.write('y');
+    await tick();
+    expect(props.executeSignal).toHaveBeenCalledWith('SIGHUP');
+    expect(props.executeKill).not.toHaveBeenCalled();
+    expect(props.setConfirmKill).toHaveBeenCalledWith(false);
+  });
+
+  // --- Marking ---
+
+  it('toggles the mark on the selected row and moves down on space', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write(' ');
+    await tick();
+    expect(props.toggleMark).toHaveBeenCalledTimes(1);
+    expect(props.moveDown).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores space when selectedPort is null', async () => {
+    result = render(<TestHarness {...props} selectedPort={null} />);
+    await tick();
+    result.stdin.write(' ');
+    await tick();
+    expect(props.toggleMark).not.toHaveBeenCalled();
+    expect(props.moveDown).not.toHaveBeenCalled();
+  });
+
+  it('marks all visible rows on a and inverts on i', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('a');
+    await tick();
+    result.stdin.write('i');
+    await tick();
+    expect(props.markAll).toHaveBeenCalledTimes(1);
+    expect(props.invertMarks).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens the batch confirmation on Enter while rows are marked, even with no selection', async () => {
+    result = render(<TestHarness {...props} selectedPort={null} markedCount={3} />);
+    await tick();
+    result.stdin.write('\r');
+    await tick();
+    expect(props.setConfirmKill).toHaveBeenCalledWith(true);
+  });
+
+  it('clears marks before the search query on ESC', async () => {
+    result = render(<TestHarness {...props} searchQuery='node' markedCount={2} />);
+    await tick();
+    result.stdin.write('\x1B');
+    await tick();
+    expect(props.clearMarks).toHaveBeenCalledTimes(1);
+    expect(props.setSearchQuery).not.toHaveBeenCalled();
+  });
+
+  // --- Signal menu ---
+
+  it('opens the signal menu on s', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('s');
+    await tick();
+    expect(props.openSignalMenu).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not open the signal menu when selectedPort is null', async () => {
+    result = render(<TestHarness {...props} selectedPort={null} />);
+    await tick();
+    result.stdin.write('s');
+    await tick();
+    expect(props.openSignalMenu).not.toHaveBeenCalled();
+  });
+
+  it('moves the signal menu highlight with j/k and arrows instead of the list', async () => {
+    result = render(<TestHarness {...props} showSignalMenu={true} />);
+    await tick();
+    result.stdin.write('j');
+    await tick();
+    result.stdin.write('\x1B[B'); // Down arrow
+    await tick();
+    result.stdin.write('k');
+    await tick();
+    result.stdin.write('\x1B[A'); // Up arrow
+    await tick();
+    expect(props.moveSignalMenu).toHaveBeenNthCalledWith(1, 1);
+    expect(props.moveSignalMenu).toHaveBeenNthCalledWith(2, 1);
+    expect(props.moveSignalMenu).toHaveBeenNthCalledWith(3, -1);
+    expect(props.moveSignalMenu).toHaveBeenNthCalledWith(4, -1);
+    expect(props.moveDown).not.toHaveBeenCalled();
+    expect(props.moveUp).not.toHaveBeenCalled();
+  });
+
+  it('chooses the highlighted signal on Enter', async () => {
+    result = render(<TestHarness {...props} showSignalMenu={true} />);
+    await tick();
+    result.stdin.write('\r');
+    await tick();
+    expect(props.chooseSignal).toHaveBeenCalledTimes(1);
+    expect(props.setConfirmKill).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['ESC', '\x1B'],
+    ['q', 'q'],
+    ['s', 's'],
+  ])('closes the signal menu on %s', async (_name, key) => {
+    result = render(<TestHarness {...props} showSignalMenu={true} />);
+    await tick();
+    result.stdin.write(key);
+    await tick();
+    expect(props.closeSignalMenu).toHaveBeenCalledTimes(1);
+    expect(props.exit).not.toHaveBeenCalled();
+  });
+
+  it('swallows other keys while the signal menu is open', async () => {
+    result = render(<TestHarness {...props} showSignalMenu={true} />);
+    await tick();
+    result.stdin.write('d');
+    await tick();
+    expect(props.toggleDetails).not.toHaveBeenCalled();
+    expect(props.closeSignalMenu).not.toHaveBeenCalled();
+  });
+
   // --- Navigate mode: uppercase R ---
 
   it('refreshes on uppercase R', async () => {
@@ -251,4 +489,436 @@ describe('useKeyboardInput', () => {
     expect(props.setMode).not.toHaveBeenCalled();
     expect(props.refresh).not.toHaveBeenCalled();
   });
+
+  // --- Grouping ---
+
+  it('cycles the grouping on b and collapses on z / Z', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    for (const key of ['b', 'z', 'Z']) {
+      result.stdin.write(key);
+      await tick();
+    }
+    expect(props.cycleGroupBy).toHaveBeenCalledTimes(1);
+    expect(props.toggleCollapse).toHaveBeenCalledTimes(1);
+    expect(props.toggleCollapseAll).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks to kill and marks from a selected group header', async () => {
+    const group = { key: 'pid:100', label: 'node (100)', ports: [props.selectedPort!], pids: ['100'] };
+    result = render(<TestHarness {...props} selectedPort={null} selectedGroup={group} />);
+    await tick();
+    result.stdin.write('\r');
+    await tick();
+    result.stdin.write(' ');
+    await tick();
+    expect(props.setConfirmKill).toHaveBeenCalledWith(true);
+    expect(props.toggleMark).toHaveBeenCalledTimes(1);
+  });
+
+  // --- Saved filters ---
+
+  it('opens the saved filters menu on f and the name prompt on F', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('f');
+    await tick();
+    result.stdin.write('F');
+    await tick();
+    expect(props.openFilterMenu).toHaveBeenCalledTimes(1);
+    expect(props.startSavingFilter).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves, applies and deletes in the saved filters menu', async () => {
+    result = render(<TestHarness {...props} showFilterMenu={true} />);
+    await tick();
+    for (const key of ['j', '\x1B[A', '\r', '2', '\x7F']) {
+      result.stdin.write(key);
+      await tick();
+    }
+    expect(props.moveFilterMenu).toHaveBeenNthCalledWith(1, 1);
+    expect(props.moveFilterMenu).toHaveBeenNthCalledWith(2, -1);
+    expect(props.applyFilter).toHaveBeenNthCalledWith(1);
+    expect(props.applyFilter).toHaveBeenNthCalledWith(2, 1);
+    expect(props.deleteFilter).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores a number without a saved filter', async () => {
+    result = render(<TestHarness {...props} showFilterMenu={true} />);
+    await tick();
+    result.stdin.write('3');
+    await tick();
+    expect(props.applyFilter).not.toHaveBeenCalled();
+  });
+
+  it('applies a saved filter with meta+number without opening the menu', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('\x1B2');
+    await tick();
+    result.stdin.write('\x1B3'); // only two filters are saved
+    await tick();
+    expect(props.applyFilter).toHaveBeenCalledTimes(1);
+    expect(props.applyFilter).toHaveBeenCalledWith(1);
+    expect(props.openFilterMenu).not.toHaveBeenCalled();
+    expect(props.setCount).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['ESC', '\x1B'],
+    ['q', 'q'],
+    ['f', 'f'],
+  ])('closes the saved filters menu on %s', async (_name, key) => {
+    result = render(<TestHarness {...props} showFilterMenu={true} />);
+    await tick();
+    result.stdin.write(key);
+    await tick();
+    expect(props.closeFilterMenu).toHaveBeenCalledTimes(1);
+    expect(props.exit).not.toHaveBeenCalled();
+  });
+
+  it('types, erases, saves and cancels in the name prompt', async () => {
+    result = render(<TestHarness {...props} filterName='we' />);
+    await tick();
+    for (const key of ['b', '?', '\x7F', '\r', '\x1B']) {
+      result.stdin.write(key);
+      await tick();
+    }
+    const updates = (props.setFilterName as ReturnType<typeof vi.fn>).mock.calls.map(([arg]) => arg);
+    expect(updates.slice(0, 3).map(update => update('web'))).toEqual(['webb', 'web?', 'we']);
+    expect(updates[3]).toBeNull();
+    expect(props.saveFilter).toHaveBeenCalledTimes(1);
+    expect(props.toggleHelp).not.toHaveBeenCalled();
+  });
+
+  it('treats a plain force kill key as text in the name prompt', async () => {
+    const keymap = createKeymap({ forceKill: ['x'] });
+    result = render(<TestHarness {...props} keymap={keymap} filterName='' />);
+    await tick();
+    result.stdin.write('x');
+    await tick();
+    expect(props.executeKill).not.toHaveBeenCalled();
+    expect(props.setFilterName).toHaveBeenCalledTimes(1);
+  });
+
+  // --- Search history ---
+
+  it('recalls an older query on up arrow in an empty search bar with history', async () => {
+    result = render(<TestHarness {...props} mode='search' historyLength={3} />);
+    await tick();
+    result.stdin.write('\x1B[A');
+    await tick();
+    expect(props.recallHistory).toHaveBeenCalledWith(1);
+    expect(props.moveUp).not.toHaveBeenCalled();
+  });
+
+  it('steps through the history in both directions while a query is recalled', async () => {
+    result = render(<TestHarness {...props} mode='search' searchQuery='node' historyLength={3} historyIndex={1} />);
+    await tick();
+    result.stdin.write('\x1B[A');
+    await tick();
+    result.stdin.write('\x1B[B');
+    await tick();
+    expect(props.recallHistory).toHaveBeenNthCalledWith(1, 1);
+    expect(props.recallHistory).toHaveBeenNthCalledWith(2, -1);
+  });
+
+  it('moves the selection on arrows once a query is typed', async () => {
+    result = render(<TestHarness {...props} mode='search' searchQuery='node' historyLength={3} />);
+    await tick();
+    result.stdin.write('\x1B[A');
+    await tick();
+    result.stdin.write('\x1B[B');
+    await tick();
+    expect(props.recallHistory).not.toHaveBeenCalled();
+    expect(props.moveUp).toHaveBeenCalledTimes(1);
+    expect(props.moveDown).toHaveBeenCalledTimes(1);
+  });
+
+  it('remembers the query when the search is committed with enter', async () => {
+    result = render(<TestHarness {...props} mode='search' searchQuery='node' />);
+    await tick();
+    result.stdin.write('\r');
+    await tick();
+    expect(props.rememberQuery).toHaveBeenCalledTimes(1);
+    expect(props.setMode).toHaveBeenCalledWith('navigate');
+  });
+
+  // --- Vim-style navigation ---
+
+  it('jumps to the first and last row on g / G and Home / End', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    for (const key of ['g', 'G', '\x1B[H', '\x1B[F', '\x1B[1~', '\x1B[4~']) {
+      result.stdin.write(key);
+      await tick();
+    }
+    expect(vi.mocked(props.moveTo).mock.calls).toEqual([[0], [-1], [0], [-1], [0], [-1]]);
+  });
+
+  it('moves by a page on PgUp / PgDn and by half a page on ctrl+u / ctrl+d', async () => {
+    result = render(<TestHarness {...props} pageSize={9} />);
+    await tick();
+    for (const key of ['\x1B[6~', '\x1B[5~', '\x04', '\x15']) {
+      result.stdin.write(key);
+      await tick();
+    }
+    expect(vi.mocked(props.moveBy).mock.calls).toEqual([[9], [-9], [4], [-4]]);
+  });
+
+  it('builds a count prefix from digits, but not from a leading 0', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('0');
+    await tick();
+    expect(props.setCount).not.toHaveBeenCalled();
+    result.stdin.write('5');
+    await tick();
+    const update = vi.mocked(props.setCount).mock.calls[0][0] as (count: number | null) => number | null;
+    expect(update(null)).toBe(5);
+    expect(update(1)).toBe(15);
+    expect(update(9999)).toBe(9999);
+  });
+
+  it('takes 0 as a digit once a count is typed', async () => {
+    result = render(<TestHarness {...props} count={1} />);
+    await tick();
+    result.stdin.write('0');
+    await tick();
+    const update = vi.mocked(props.setCount).mock.calls[0][0] as (count: number | null) => number | null;
+    expect(update(1)).toBe(10);
+  });
+
+  it('repeats a motion by the count and drops it', async () => {
+    result = render(<TestHarness {...props} count={5} pageSize={10} />);
+    await tick();
+    for (const key of ['j', 'k', '\x1B[6~', '\x04']) {
+      result.stdin.write(key);
+      await tick();
+    }
+    expect(vi.mocked(props.moveBy).mock.calls).toEqual([[5], [-5], [50], [25]]);
+    expect(props.moveDown).not.toHaveBeenCalled();
+    expect(props.setCount).toHaveBeenCalledWith(null);
+  });
+
+  it('jumps to row N on Ng / NG', async () => {
+    result = render(<TestHarness {...props} count={20} />);
+    await tick();
+    result.stdin.write('G');
+    await tick();
+    result.stdin.write('g');
+    await tick();
+    expect(vi.mocked(props.moveTo).mock.calls).toEqual([[19], [19]]);
+  });
+
+  it('drops the count on any other key', async () => {
+    result = render(<TestHarness {...props} count={3} />);
+    await tick();
+    result.stdin.write('\x1B');
+    await tick();
+    expect(props.setCount).toHaveBeenCalledWith(null);
+  });
+
+  it('runs an action bound to a digit instead of counting', async () => {
+    props.keymap = createKeymap({ refresh: ['5'] });
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write('5');
+    await tick();
+    expect(props.refresh).toHaveBeenCalledTimes(1);
+    expect(props.setCount).not.toHaveBeenCalled();
+  });
+
+  it('opens the go-to-port prompt on :', async () => {
+    result = render(<TestHarness {...props} />);
+    await tick();
+    result.stdin.write(':');
+    await tick();
+    expect(props.setPortPrompt).toHaveBeenCalledWith('');
+  });
+
+  describe('go-to-port prompt', () => {
+    /** The result of the setPortPrompt updater of call `call`, applied to `port`. */
+    const typed = (call: number, port: string | null) =>
+      (vi.mocked(props.setPortPrompt).mock.calls[call][0] as (p: string | null) => string | null)(port);
+
+    it('takes digits only, up to five', async () => {
+      result = render(<TestHarness {...props} portPrompt='300' />);
+      await tick();
+      result.stdin.write('a');
+      await tick();
+      expect(props.setPortPrompt).not.toHaveBeenCalled();
+      result.stdin.write('0');
+      await tick();
+      expect(typed(0, '300')).toBe('3000');
+      expect(typed(0, '65535')).toBe('65535');
+    });
+
+    it('deletes with backspace, goes with enter and closes with ESC', async () => {
+      result = render(<TestHarness {...props} portPrompt='80' />);
+      await tick();
+      result.stdin.write('\x7F');
+      await tick();
+      expect(typed(0, '80')).toBe('8');
+      result.stdin.write('\r');
+      await tick();
+      expect(props.goToPort).toHaveBeenCalledTimes(1);
+      result.stdin.write('\x1B');
+      await tick();
+      expect(props.setPortPrompt).toHaveBeenLastCalledWith(null);
+    });
+
+    it('swallows navigate keys', async () => {
+      result = render(<TestHarness {...props} portPrompt='' />);
+      await tick();
+      result.stdin.write('q');
+      await tick();
+      expect(props.exit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeline view', () => {
+    it('toggles the timeline with t', async () => {
+      result = render(<TestHarness {...props} />);
+      await tick();
+      result.stdin.write('t');
+      await tick();
+      expect(props.toggleTimeline).toHaveBeenCalledTimes(1);
+    });
+
+    it('exports with e only while the timeline is shown', async () => {
+      result = render(<TestHarness {...props} />);
+      await tick();
+      result.stdin.write('e');
+      await tick();
+      expect(props.exportTimeline).not.toHaveBeenCalled();
+      result.rerender(<TestHarness {...props} showTimeline />);
+      await tick();
+      result.stdin.write('e');
+      await tick();
+      expect(props.exportTimeline).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores actions on list rows, including the force kill', async () => {
+      result = render(<TestHarness {...props} showTimeline />);
+      await tick();
+      for (const key of ['\r', 'x', 's', ' ', 'a', 'd', 'o', 'b', 'z', ':', '\x0B']) {
+        result.stdin.write(key);
+        await tick();
+      }
+      expect(props.setConfirmKill).not.toHaveBeenCalled();
+      expect(props.executeKill).not.toHaveBeenCalled();
+      expect(props.openSignalMenu).not.toHaveBeenCalled();
+      expect(props.toggleMark).not.toHaveBeenCalled();
+      expect(props.markAll).not.toHaveBeenCalled();
+      expect(props.toggleDetails).not.toHaveBeenCalled();
+      expect(props.cycleSort).not.toHaveBeenCalled();
+      expect(props.cycleGroupBy).not.toHaveBeenCalled();
+      expect(props.toggleCollapse).not.toHaveBeenCalled();
+      expect(props.setPortPrompt).not.toHaveBeenCalled();
+    });
+
+    it('keeps motions and search', async () => {
+      result = render(<TestHarness {...props} showTimeline />);
+      await tick();
+      result.stdin.write('j');
+      await tick();
+      result.stdin.write('G');
+      await tick();
+      result.stdin.write('/');
+      await tick();
+      expect(props.moveDown).toHaveBeenCalledTimes(1);
+      expect(props.moveTo).toHaveBeenCalledWith(-1);
+      expect(props.setMode).toHaveBeenCalledWith('search');
+    });
+  });
+
+  it('ignores mouse reports', async () => {
+    result = render(<TestHarness {...props} mode='search' />);
+    await tick();
+    result.stdin.write('\x1b[<0;10;5M');
+    await tick();
+    expect(props.setSearchQuery).not.toHaveBeenCalled();
+  });
+
+  // --- Rebound keys ---
+
+  describe('with a custom keymap', () => {
+    beforeEach(() => {
+      props.keymap = createKeymap({ quit: ['x'], moveUp: ['up'], refresh: ['ctrl+r'], forceKill: ['K'], cancel: ['c'] });
+    });
+
+    it('runs the action of a rebound key', async () => {
+      result = render(<TestHarness {...props} />);
+      await tick();
+      result.stdin.write('x');
+      await tick();
+      expect(props.exit).toHaveBeenCalledTimes(1);
+      // x was a default kill key; binding it to quit takes it away from kill
+      expect(props.setConfirmKill).not.toHaveBeenCalled();
+    });
+
+    it('no longer reacts to a replaced default', async () => {
+      result = render(<TestHarness {...props} />);
+      await tick();
+      result.stdin.write('k');
+      await tick();
+      expect(props.moveUp).not.toHaveBeenCalled();
+      result.stdin.write('\u001B[A'); // up arrow
+      await tick();
+      expect(props.moveUp).toHaveBeenCalledTimes(1);
+    });
+
+    it('matches ctrl chords', async () => {
+      result = render(<TestHarness {...props} />);
+      await tick();
+      result.stdin.write('r');
+      await tick();
+      expect(props.refresh).not.toHaveBeenCalled();
+      result.stdin.write('\x12'); // Ctrl+R
+      await tick();
+      expect(props.refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies the Nth saved filter with the Nth applyFilter key', async () => {
+      props.keymap = createKeymap({ applyFilter: ['ctrl+a', 'ctrl+b'] });
+      result = render(<TestHarness {...props} />);
+      await tick();
+      result.stdin.write('\x02'); // Ctrl+B
+      await tick();
+      expect(props.applyFilter).toHaveBeenCalledWith(1);
+    });
+
+    it('uses the rebound cancel key in the confirmation prompt', async () => {
+      result = render(<TestHarness {...props} confirmKill={true} />);
+      await tick();
+      result.stdin.write('n');
+      await tick();
+      expect(props.setConfirmKill).not.toHaveBeenCalled();
+      result.stdin.write('c');
+      await tick();
+      expect(props.setConfirmKill).toHaveBeenCalledWith(false);
+    });
+
+    it('treats a plain force kill key as text while searching', async () => {
+      result = render(<TestHarness {...props} mode="search" />);
+      await tick();
+      result.stdin.write('K');
+      await tick();
+      expect(props.executeKill).not.toHaveBeenCalled();
+      expect(props.setSearchQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('still quits on Ctrl+C', async () => {
+      props.keymap = createKeymap({ quit: [] });
+      result = render(<TestHarness {...props} />);
+      await tick();
+      result.stdin.write('q');
+      await tick();
+      expect(props.exit).not.toHaveBeenCalled();
+      result.stdin.write('\x03');
+      await tick();
+      expect(props.exit).toHaveBeenCalledTimes(1);
+    });
+  });
 });
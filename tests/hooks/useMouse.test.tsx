@@ -0,0 +1,76 @@
+/**
+ * Tests for the useMouse hook: mouse reports written to stdin reach the
+ * handlers as clicks, double-clicks and wheel steps.
+ */
+
+import { vi, describe, it, expect, afterEach } from 'vitest';
+import { render } from 'ink-testing-library';
+import { Box } from 'ink';
+
+import { DOUBLE_CLICK_MS, useMouse, type MouseHandlers } from '../../src/hooks/useMouse.js';
+import { tick } from '../helpers.js';
+
+function TestHarness({ handlers, isActive }: { handlers: MouseHandlers; isActive?: boolean }) {
+  useMouse(handlers, isActive);
+  return <Box />;
+}
+
+describe('useMouse', () => {
+  let result: ReturnType<typeof render> | undefined;
+
+  afterEach(() => {
+    result?.unmount();
+    result = undefined;
+  });
+
+  async function setup(isActive?: boolean) {
+    const handlers = { onClick: vi.fn(), onWheel: vi.fn() };
+    result = render(<TestHarness handlers={handlers} isActive={isActive} />);
+    await tick();
+    return { handlers, stdin: result.stdin };
+  }
+
+  it('calls onClick for a click', async () => {
+    const { handlers, stdin } = await setup();
+    stdin.write('\x1b[<0;12;7M');
+    await tick();
+    expect(handlers.onClick).toHaveBeenCalledWith(12, 7, false);
+  });
+
+  it('reports a second click on the same cell as a double-click', async () => {
+    const { handlers, stdin } = await setup();
+    stdin.write('\x1b[<0;12;7M');
+    await tick();
+    stdin.write('\x1b[<0;12;7M');
+    await tick();
+    stdin.write('\x1b[<0;12;7M');
+    await tick();
+    expect(handlers.onClick.mock.calls).toEqual([[12, 7, false], [12, 7, true], [12, 7, false]]);
+  });
+
+  it('does not pair clicks on different cells or too far apart', async () => {
+    const { handlers, stdin } = await setup();
+    stdin.write('\x1b[<0;12;7M');
+    await tick();
+    stdin.write('\x1b[<0;12;8M');
+    await new Promise(resolve => setTimeout(resolve, DOUBLE_CLICK_MS + 50));
+    stdin.write('\x1b[<0;12;8M');
+    await tick();
+    expect(handlers.onClick.mock.calls.map(call => call[2])).toEqual([false, false, false]);
+  });
+
+  it('calls onWheel for every wheel step', async () => {
+    const { handlers, stdin } = await setup();
+    stdin.write('\x1b[<65;1;1M\x1b[<65;1;1M\x1b[<64;1;1M');
+    await tick();
+    expect(handlers.onWheel.mock.calls).toEqual([[1, 1, 1], [1, 1, 1], [-1, 1, 1]]);
+  });
+
+  it('drops reports while inactive', async () => {
+    const { handlers, stdin } = await setup(false);
+    stdin.write('\x1b[<0;12;7M\x1b[<64;1;1M');
+    await tick();
+    expect(handlers.onClick).not.toHaveBeenCalled();
+    expect(handlers.onWheel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { render } from 'ink-testing-library';
+import { Text } from 'ink';
+
+import { usePortChanges } from '../../src/hooks/usePortChanges.js';
+import type { PortEntry } from '../../src/types.js';
+import { tick } from '../helpers.js';
+
+const NODE: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'me', address: '127.0.0.1' };
+const NGINX: PortEntry = { port: 8080, protocol: 'tcp', process: 'nginx', pid: '200', user: 'root', address: '0.0.0.0' };
+const REDIS: PortEntry = { port: 6379, protocol: 'tcp', process: 'redis', pid: '300', user: 'me', address: '127.0.0.1' };
+
+const HIGHLIGHT_MS = 200;
+
+// Renders the hook result as text so frames can be asserted on.
+function TestHarness({ ports, loading = false }: { ports: PortEntry[]; loading?: boolean }) {
+  const { changes, closed, openedCount, events } = usePortChanges(ports, loading, HIGHLIGHT_MS);
+  const list = [...changes].map(([key, change]) => `${change} ${key}`).join(', ');
+  const history = events.map(e => `${e.change}:${e.port.port}`).join(',');
+  return (
+    <Text>{`+${openedCount} -${closed.length} [${list}] ghosts=${closed.map(p => p.port).join(',')}\nevents=${history}`}</Text>
+  );
+}
+
+describe('usePortChanges', () => {
+  let result: ReturnType<typeof render> | undefined;
+
+  afterEach(() => {
+    result?.unmount();
+    result = undefined;
+  });
+
+  it('takes the first snapshot as the baseline', async () => {
+    result = render(<TestHarness ports={[]} loading />);
+    result.rerender(<TestHarness ports={[NODE, NGINX]} />);
+    await tick();
+    expect(result.lastFrame()).toContain('+0 -0 [] ghosts=\nevents=');
+  });
+
+  it('reports entries that appeared and disappeared since the previous snapshot', async () => {
+    result = render(<TestHarness ports={[NODE, NGINX]} />);
+    await tick();
+    result.rerender(<TestHarness ports={[NODE, REDIS]} />);
+    await tick();
+    expect(result.lastFrame()).toContain('+1 -1 [closed tcp:0.0.0.0:8080:200, opened tcp:127.0.0.1:6379:300] ghosts=8080\n');
+  });
+
+  it('ignores snapshots that change nothing', async () => {
+    result = render(<TestHarness ports={[NODE]} />);
+    await tick();
+    result.rerender(<TestHarness ports={[NODE]} />);
+    await tick();
+    expect(result.lastFrame()).toContain('+0 -0 [] ghosts=\n');
+  });
+
+  it('forgets changes once the highlight period is over', async () => {
+    result = render(<TestHarness ports={[NODE]} />);
+    await tick();
+    result.rerender(<TestHarness ports={[NGINX]} />);
+    await tick();
+    expect(result.lastFrame()).toContain('+1 -1');
+
+    await new Promise(resolve => setTimeout(resolve, HIGHLIGHT_MS + 50));
+    expect(result.lastFrame()).toContain('+0 -0 [] ghosts=\n');
+  });
+
+  it('records every change of the session for the timeline, after they expire', async () => {
+    result = render(<TestHarness ports={[NODE]} />);
+    await tick();
+    result.rerender(<TestHarness ports={[NGINX]} />);
+    await tick();
+    result.rerender(<TestHarness ports={[NGINX, NODE]} />);
+    await new Promise(resolve => setTimeout(resolve, HIGHLIGHT_MS + 50));
+    expect(result.lastFrame()).toBe('+0 -0 [] ghosts=\nevents=closed:3000,opened:8080,opened:3000');
+  });
+
+  it('keeps each change for its own period', async () => {
+    result = render(<TestHarness ports={[NODE]} />);
+    await tick();
+    result.rerender(<TestHarness ports={[NODE, NGINX]} />);
+    await new Promise(resolve => setTimeout(resolve, HIGHLIGHT_MS / 2));
+    result.rerender(<TestHarness ports={[NODE, NGINX, REDIS]} />);
+    await new Promise(resolve => setTimeout(resolve, HIGHLIGHT_MS / 2 + 40));
+    expect(result.lastFrame()).toContain('+1 -0 [opened tcp:127.0.0.1:6379:300] ghosts=\n');
+  });
+
+  it('keeps only the latest change of an entry that closes and reopens', async () => {
+    result = render(<TestHarness ports={[NODE, NGINX]} />);
+    await tick();
+    result.rerender(<TestHarness ports={[NODE]} />);
+    await tick();
+    result.rerender(<TestHarness ports={[NODE, NGINX]} />);
+    await tick();
+    expect(result.lastFrame()).toContain('+1 -0 [opened tcp:0.0.0.0:8080:200] ghosts=\n');
+  });
+});
@@ -0,0 +1,93 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/utils/getPorts.js', () => ({
+  getPorts: vi.fn(),
+}));
+
+import { render } from 'ink-testing-library';
+import { Text } from 'ink';
+
+import { getPorts } from '../../src/utils/getPorts.js';
+import { usePorts, type UsePortsResult } from '../../src/hooks/usePorts.js';
+import { tick } from '../helpers.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockGetPorts = vi.mocked(getPorts);
+
+const PORTS: PortEntry[] = [{ port: 3000, protocol: 'tcp', process: 'node', pid: '1', user: 'u', address: '127.0.0.1' }];
+
+// Renders the hook state as text and exposes the latest result to the test.
+let latest: UsePortsResult;
+function TestHarness({ intervalMs }: { intervalMs: number }) {
+  latest = usePorts(intervalMs);
+  return <Text>{latest.loading ? 'loading' : latest.ports.map(p => p.port).join(',') || 'empty'}</Text>;
+}
+
+describe('usePorts', () => {
+  let result: ReturnType<typeof render> | undefined;
+
+  beforeEach(() => {
+    mockGetPorts.mockReset();
+    mockGetPorts.mockResolvedValue(PORTS);
+  });
+
+  afterEach(() => {
+    result?.unmount();
+    result = undefined;
+  });
+
+  it('starts loading with an empty list', () => {
+    mockGetPorts.mockReturnValue(new Promise(() => {}));
+    result = render(<TestHarness intervalMs={2000} />);
+    expect(result.lastFrame()).toBe('loading');
+    expect(latest.ports).toEqual([]);
+  });
+
+  it('publishes the first snapshot and clears loading', async () => {
+    result = render(<TestHarness intervalMs={2000} />);
+    await tick();
+    expect(result.lastFrame()).toBe('3000');
+  });
+
+  it('clears loading but keeps the list empty when the first collection fails', async () => {
+    mockGetPorts.mockRejectedValue(new Error('No working port source found'));
+    result = render(<TestHarness intervalMs={2000} />);
+    await tick();
+    expect(result.lastFrame()).toBe('empty');
+  });
+
+  it('keeps the last good snapshot when a later collection fails', async () => {
+    result = render(<TestHarness intervalMs={2000} />);
+    await tick();
+    mockGetPorts.mockRejectedValue(new Error('lsof timed out'));
+    latest.refresh();
+    await tick();
+    expect(result.lastFrame()).toBe('3000');
+  });
+
+  it('refresh() replaces the snapshot with a fresh collection', async () => {
+    result = render(<TestHarness intervalMs={2000} />);
+    await tick();
+    mockGetPorts.mockResolvedValue([...PORTS, { ...PORTS[0], port: 8080, pid: '2' }]);
+    latest.refresh();
+    await tick();
+    expect(result.lastFrame()).toBe('3000,8080');
+  });
+
+  it('polls on the given interval', async () => {
+    result = render(<TestHarness intervalMs={20} />);
+    await new Promise(resolve => setTimeout(resolve, 70));
+    expect(mockGetPorts.mock.calls.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('aborts the in-flight collection on unmount', async () => {
+    mockGetPorts.mockReturnValue(new Promise(() => {}));
+    result = render(<TestHarness intervalMs={2000} />);
+    await tick();
+    const signal = mockGetPorts.mock.calls[0][0]!;
+    result.unmount();
+    result = undefined;
+    await tick(); // effect cleanups run after the unmount commit
+    expect(signal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/sources/processInfo.js', () => ({
+  getProcessInfo: vi.fn(),
+}));
+
+import { render } from 'ink-testing-library';
+import { Text } from 'ink';
+
+import { getProcessInfo } from '../../src/sources/processInfo.js';
+import { useProcessInfo } from '../../src/hooks/useProcessInfo.js';
+import type { PortEntry } from '../../src/types.js';
+import { tick } from '../helpers.js';
+
+const mockGetProcessInfo = vi.mocked(getProcessInfo);
+
+// Renders the hook result as text so frames can be asserted on.
+function TestHarness({ pid, snapshot }: { pid: string | null; snapshot: PortEntry[] }) {
+  const info = useProcessInfo(pid, snapshot);
+  return <Text>{info ? `ppid=${info.ppid} conns=${info.established}` : 'none'}</Text>;
+}
+
+describe('useProcessInfo', () => {
+  let result: ReturnType<typeof render> | undefined;
+  const snapshot: PortEntry[] = [];
+
+  beforeEach(() => {
+    mockGetProcessInfo.mockReset();
+    mockGetProcessInfo.mockImplementation(async pid => ({ ppid: pid === '42' ? '1' : '2', established: 0 }));
+  });
+
+  afterEach(() => {
+    result?.unmount();
+    result = undefined;
+  });
+
+  it('does not look anything up while pid is null', async () => {
+    result = render(<TestHarness pid={null} snapshot={snapshot} />);
+    await tick();
+    expect(result.lastFrame()).toBe('none');
+    expect(mockGetProcessInfo).not.toHaveBeenCalled();
+  });
+
+  it('returns the info for the pid once loaded', async () => {
+    result = render(<TestHarness pid='42' snapshot={snapshot} />);
+    expect(result.lastFrame()).toBe('none');
+    await tick();
+    expect(result.lastFrame()).toBe('ppid=1 conns=0');
+  });
+
+  it('looks up again on every new snapshot, keeping the old value meanwhile', async () => {
+    result = render(<TestHarness pid='42' snapshot={snapshot} />);
+    await tick();
+
+    mockGetProcessInfo.mockReturnValueOnce(new Promise(() => {}));
+    result.rerender(<TestHarness pid='42' snapshot={[]} />);
+    await tick();
+    expect(mockGetProcessInfo).toHaveBeenCalledTimes(2);
+    expect(result.lastFrame()).toBe('ppid=1 conns=0');
+
+    mockGetProcessInfo.mockResolvedValueOnce({ ppid: '1', established: 5 });
+    result.rerender(<TestHarness pid='42' snapshot={[]} />);
+    await tick();
+    expect(result.lastFrame()).toBe('ppid=1 conns=5');
+  });
+
+  it('hides the previous process\'s info as soon as a different pid is selected', async () => {
+    result = render(<TestHarness pid='42' snapshot={snapshot} />);
+    await tick();
+    mockGetProcessInfo.mockReturnValueOnce(new Promise(() => {}));
+    result.rerender(<TestHarness pid='43' snapshot={snapshot} />);
+    expect(result.lastFrame()).toBe('none');
+  });
+
+  it('aborts the outdated lookup when the pid changes', async () => {
+    mockGetProcessInfo.mockReturnValueOnce(new Promise(() => {}));
+    result = render(<TestHarness pid='42' snapshot={snapshot} />);
+    await tick();
+    const signal = mockGetProcessInfo.mock.calls[0][2]!;
+    result.rerender(<TestHarness pid='43' snapshot={snapshot} />);
+    await tick();
+    expect(signal.aborted).toBe(true);
+    expect(result.lastFrame()).toBe('ppid=2 conns=0');
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+
+import { inputSource } from '../../src/hooks/useRawInput.js';
+
+describe('inputSource', () => {
+  const stdin = new EventEmitter() as NodeJS.ReadStream;
+
+  it("listens to Ink's input emitter when it has one", () => {
+    const internal = new EventEmitter();
+    expect(inputSource({ stdin, internal_eventEmitter: internal })).toEqual({ emitter: internal, event: 'input' });
+  });
+
+  it("falls back to stdin's data event without it", () => {
+    expect(inputSource({ stdin })).toEqual({ emitter: stdin, event: 'data' });
+    expect(inputSource({ stdin, internal_eventEmitter: {} })).toEqual({ emitter: stdin, event: 'data' });
+  });
+});
@@ -0,0 +1,101 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/sources/lsof.js', () => ({
+  lsofSource: { name: 'lsof', platforms: ['darwin', 'linux'], collect: vi.fn() },
+}));
+vi.mock('../../src/sources/ss.js', () => ({
+  ssSource: { name: 'ss', platforms: ['linux'], collect: vi.fn() },
+}));
+vi.mock('../../src/sources/netstat.js', () => ({
+  netstatSource: { name: 'netstat', platforms: ['darwin'], collect: vi.fn() },
+}));
+vi.mock('../../src/sources/procfs.js', () => ({
+  procfsSource: { name: 'procfs', platforms: ['linux'], collect: vi.fn() },
+}));
+
+import { PORT_SOURCE_NAMES, getPortSource, detectPortSource } from '../../src/sources/index.js';
+import { lsofSource } from '../../src/sources/lsof.js';
+import { ssSource } from '../../src/sources/ss.js';
+import { netstatSource } from '../../src/sources/netstat.js';
+import { procfsSource } from '../../src/sources/procfs.js';
+import type { PortEntry } from '../../src/types.js';
+
+const fail = async () => {
+  throw new Error('unavailable');
+};
+
+const PORTS: PortEntry[] = [{ port: 22, protocol: 'tcp', process: 'sshd', pid: '1', user: 'root', address: '0.0.0.0' }];
+
+describe('source registry', () => {
+  beforeEach(() => {
+    for (const source of [lsofSource, ssSource, netstatSource, procfsSource]) {
+      vi.mocked(source.collect).mockReset();
+    }
+  });
+
+  it('lists sources in auto-detection order', () => {
+    expect(PORT_SOURCE_NAMES).toEqual(['lsof', 'ss', 'netstat', 'procfs']);
+  });
+
+  describe('getPortSource', () => {
+    it('returns the named source when supported on the platform', () => {
+      expect(getPortSource('ss', 'linux')).toBe(ssSource);
+    });
+
+    it('throws for an unknown name', () => {
+      expect(() => getPortSource('bogus', 'linux')).toThrow('Unknown source "bogus"');
+    });
+
+    it('throws when the source does not support the platform', () => {
+      expect(() => getPortSource('ss', 'darwin')).toThrow('not supported on darwin');
+    });
+  });
+
+  describe('detectPortSource', () => {
+    it('picks the first source that works', async () => {
+      vi.mocked(lsofSource.collect).mockResolvedValue(PORTS);
+      expect(await detectPortSource('linux')).toEqual({ source: lsofSource, ports: PORTS });
+      expect(ssSource.collect).not.toHaveBeenCalled();
+    });
+
+    it('falls through failing sources in order on Linux', async () => {
+      vi.mocked(lsofSource.collect).mockImplementation(fail);
+      vi.mocked(ssSource.collect).mockImplementation(fail);
+      vi.mocked(procfsSource.collect).mockResolvedValue(PORTS);
+
+      expect((await detectPortSource('linux')).source).toBe(procfsSource);
+      expect(netstatSource.collect).not.toHaveBeenCalled();
+    });
+
+    it('only tries sources supported on macOS', async () => {
+      vi.mocked(lsofSource.collect).mockImplementation(fail);
+      vi.mocked(netstatSource.collect).mockResolvedValue([]);
+
+      expect((await detectPortSource('darwin')).source).toBe(netstatSource);
+      expect(ssSource.collect).not.toHaveBeenCalled();
+      expect(procfsSource.collect).not.toHaveBeenCalled();
+    });
+
+    it('accepts an empty result as a working source', async () => {
+      vi.mocked(lsofSource.collect).mockResolvedValue([]);
+      expect((await detectPortSource('linux')).source).toBe(lsofSource);
+    });
+
+    it('throws when no source works', async () => {
+      vi.mocked(lsofSource.collect).mockImplementation(fail);
+      vi.mocked(netstatSource.collect).mockImplementation(fail);
+      await expect(detectPortSource('darwin')).rejects.toThrow('No working port source found on darwin');
+    });
+
+    it('stops probing and rethrows the abort reason when aborted', async () => {
+      const controller = new AbortController();
+      vi.mocked(lsofSource.collect).mockImplementation(async () => {
+        controller.abort(new Error('unmounted'));
+        throw new Error('killed');
+      });
+
+      await expect(detectPortSource('linux', controller.signal)).rejects.toThrow('unmounted');
+      expect(ssSource.collect).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,396 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/utils/runCommand.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/runCommand.js')>(),
+  runCommand: vi.fn(),
+}));
+
+import { runCommand, CommandError } from '../../src/utils/runCommand.js';
+import { lsofSource } from '../../src/sources/lsof.js';
+
+const mockRunCommand = vi.mocked(runCommand);
+
+const HEADER = 'COMMAND     PID      USER   FD   TYPE DEVICE SIZE/OFF NODE NAME';
+
+function makeLine(
+  command: string,
+  pid: string,
+  user: string,
+  addrPort: string,
+): string {
+  // Produce a line with at least 9 whitespace-separated tokens.
+  // lsof columns: COMMAND PID USER FD TYPE DEVICE SIZE/OFF NODE NAME
+  return `${command}  ${pid}  ${user}  20u  IPv4  0xabc  0t0  TCP  ${addrPort} (LISTEN)`;
+}
+
+function makeUdpLine(command: string, pid: string, user: string, name: string): string {
+  // UDP rows carry no "(LISTEN)" suffix; connected sockets print "local->remote".
+  return `${command}  ${pid}  ${user}  7u  IPv4  0xdef  0t0  UDP  ${name}`;
+}
+
+describe('lsofSource', () => {
+  beforeEach(() => {
+    mockRunCommand.mockReset();
+  });
+
+  // ---------------------------------------------------------------------------
+  // 1. Error handling
+  // ---------------------------------------------------------------------------
+  it('rejects when lsof is missing so auto-detection can try another source', async () => {
+    mockRunCommand.mockRejectedValue(new CommandError('lsof: spawn lsof ENOENT', null, ''));
+
+    await expect(lsofSource.collect()).rejects.toThrow('ENOENT');
+  });
+
+  it('parses the output when lsof exits 1 because one protocol had no sockets', async () => {
+    const output = [HEADER, makeLine('node', '12345', 'user', '127.0.0.1:3000')].join('\n');
+    mockRunCommand.mockRejectedValue(new CommandError('lsof exited with 1', 1, output));
+
+    expect(await lsofSource.collect()).toEqual([
+      { port: 3000, protocol: 'tcp', process: 'node', pid: '12345', user: 'user', address: '127.0.0.1' },
+    ]);
+  });
+
+  it('rejects when lsof exits with a status other than 1', async () => {
+    mockRunCommand.mockRejectedValue(new CommandError('lsof exited with 2', 2, HEADER));
+
+    await expect(lsofSource.collect()).rejects.toThrow('exited with 2');
+  });
+
+  it('rejects on non-CommandError failures', async () => {
+    mockRunCommand.mockRejectedValue(new Error('boom'));
+
+    await expect(lsofSource.collect()).rejects.toThrow('boom');
+  });
+
+  it('returns empty array when lsof exits 1 with no output (nothing listening)', async () => {
+    mockRunCommand.mockRejectedValue(new CommandError('lsof exited with 1', 1, ''));
+
+    expect(await lsofSource.collect()).toEqual([]);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 2. Single basic IPv4 entry
+  // ---------------------------------------------------------------------------
+  it('parses a single basic IPv4 entry', async () => {
+    const output = [
+      HEADER,
+      makeLine('node', '12345', 'user', '127.0.0.1:3000'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toEqual([
+      { port: 3000, protocol: 'tcp', process: 'node', pid: '12345', user: 'user', address: '127.0.0.1' },
+    ]);
+  });
+
+  it('parses bound UDP sockets and tags every entry with its protocol', async () => {
+    const output = [
+      HEADER,
+      makeLine('dnsmasq', '53', 'root', '*:53'),
+      makeUdpLine('dnsmasq', '53', 'root', '*:53'),
+      makeUdpLine('mDNSResponder', '200', 'root', '*:5353'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toEqual([
+      { port: 53, protocol: 'tcp', process: 'dnsmasq', pid: '53', user: 'root', address: '0.0.0.0' },
+      { port: 53, protocol: 'udp', process: 'dnsmasq', pid: '53', user: 'root', address: '0.0.0.0' },
+      { port: 5353, protocol: 'udp', process: 'mDNSResponder', pid: '200', user: 'root', address: '0.0.0.0' },
+    ]);
+  });
+
+  it('skips connected UDP sockets, unbound UDP sockets and unknown protocols', async () => {
+    const output = [
+      HEADER,
+      makeUdpLine('chrome', '300', 'user', '10.0.0.2:41000->1.1.1.1:53'),
+      makeUdpLine('chrome', '300', 'user', '*:*'),
+      'ping  400  user  3u  IPv4  0xabc  0t0  ICMP  *:*',
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toEqual([]);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 3. Multiple entries sorted by port ascending
+  // ---------------------------------------------------------------------------
+  it('parses multiple entries and sorts by port ascending', async () => {
+    const output = [
+      HEADER,
+      makeLine('nginx', '99', 'root', '0.0.0.0:8080'),
+      makeLine('node', '42', 'user', '127.0.0.1:3000'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    const result = await lsofSource.collect();
+    expect(result).toHaveLength(2);
+    expect(result[0].port).toBe(3000);
+    expect(result[1].port).toBe(8080);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 4. Wildcard address normalization → 0.0.0.0
+  // ---------------------------------------------------------------------------
+  it('normalizes * to 0.0.0.0', async () => {
+    mockRunCommand.mockResolvedValue([HEADER, makeLine('app', '1', 'u', '*:8080')].join('\n'));
+    const [entry] = await lsofSource.collect();
+    expect(entry.address).toBe('0.0.0.0');
+    expect(entry.port).toBe(8080);
+  });
+
+  it('normalizes 0.0.0.0 address to 0.0.0.0', async () => {
+    mockRunCommand.mockResolvedValue([HEADER, makeLine('app', '2', 'u', '0.0.0.0:9000')].join('\n'));
+    const [entry] = await lsofSource.collect();
+    expect(entry.address).toBe('0.0.0.0');
+    expect(entry.port).toBe(9000);
+  });
+
+  it('normalizes [::] to 0.0.0.0', async () => {
+    mockRunCommand.mockResolvedValue([HEADER, makeLine('app', '3', 'u', '[::]:7000')].join('\n'));
+    const [entry] = await lsofSource.collect();
+    expect(entry.address).toBe('0.0.0.0');
+    expect(entry.port).toBe(7000);
+  });
+
+  it('normalizes :: to 0.0.0.0', async () => {
+    // lsof emits ":::6000" for a wildcard IPv6 listener: the host portion is "::"
+    // and lastIndexOf(':') correctly splits it into rawAddr="::" and port=6000.
+    // This test exercises the `address === '::'` branch in the normalization logic —
+    // there is no separate "bare ::" format gap; this case is the only reachable path.
+    mockRunCommand.mockResolvedValue([HEADER, makeLine('app', '4', 'u', ':::6000')].join('\n'));
+    const [entry] = await lsofSource.collect();
+    expect(entry.address).toBe('0.0.0.0');
+    expect(entry.port).toBe(6000);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 5. IPv6 localhost normalization → 127.0.0.1
+  // ---------------------------------------------------------------------------
+  it('normalizes [::1] to 127.0.0.1', async () => {
+    mockRunCommand.mockResolvedValue([HEADER, makeLine('app', '5', 'u', '[::1]:5000')].join('\n'));
+    const [entry] = await lsofSource.collect();
+    expect(entry.address).toBe('127.0.0.1');
+    expect(entry.port).toBe(5000);
+  });
+
+  it('normalizes ::1 (without brackets) to 127.0.0.1', async () => {
+    // Some lsof versions emit "::1:4000"
+    mockRunCommand.mockResolvedValue([HEADER, makeLine('app', '6', 'u', '::1:4000')].join('\n'));
+    const [entry] = await lsofSource.collect();
+    expect(entry.address).toBe('127.0.0.1');
+    expect(entry.port).toBe(4000);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 6. Deduplication of identical address:port:pid combinations
+  // ---------------------------------------------------------------------------
+  it('deduplicates identical address:port:pid combinations', async () => {
+    const line = makeLine('node', '77', 'user', '127.0.0.1:3000');
+    const output = [HEADER, line, line].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toHaveLength(1);
+  });
+
+  it('does not deduplicate entries with the same port but different PIDs', async () => {
+    const output = [
+      HEADER,
+      makeLine('node', '10', 'user', '127.0.0.1:3000'),
+      makeLine('ruby', '20', 'user', '127.0.0.1:3000'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toHaveLength(2);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 7. Lines with fewer than 9 fields are skipped
+  // ---------------------------------------------------------------------------
+  it('skips lines with fewer than 9 fields', async () => {
+    const shortLine = 'node 12345 user 20u IPv4';
+    const output = [HEADER, shortLine].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toEqual([]);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 8. Lines where the port parses to NaN are skipped
+  // ---------------------------------------------------------------------------
+  it('skips lines where the port field is not a number', async () => {
+    const output = [
+      HEADER,
+      makeLine('node', '999', 'user', '127.0.0.1:notaport'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toEqual([]);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 9. Lines with no colon in the address:port field are skipped
+  // ---------------------------------------------------------------------------
+  it('skips lines where the address:port field contains no colon', async () => {
+    // Replace the addrPort column with something that has no colon.
+    // Build a raw 9-token line manually.
+    const noColonLine = 'node  123  user  20u  IPv4  0xabc  0t0  TCP  NOCOLON';
+    const output = [HEADER, noColonLine].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toEqual([]);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 10. Empty lsof output (header only) returns empty array
+  // ---------------------------------------------------------------------------
+  it('returns empty array when lsof output contains only the header line', async () => {
+    mockRunCommand.mockResolvedValue(HEADER + '\n');
+
+    expect(await lsofSource.collect()).toEqual([]);
+  });
+
+  it('returns empty array when lsof output is entirely empty', async () => {
+    mockRunCommand.mockResolvedValue('');
+
+    expect(await lsofSource.collect()).toEqual([]);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 11. Blank lines interspersed in output are skipped
+  // ---------------------------------------------------------------------------
+  it('skips blank lines interspersed in lsof output', async () => {
+    const output = [
+      HEADER,
+      '',
+      makeLine('node', '12345', 'user', '127.0.0.1:3000'),
+      '',
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    expect(await lsofSource.collect()).toEqual([
+      { port: 3000, protocol: 'tcp', process: 'node', pid: '12345', user: 'user', address: '127.0.0.1' },
+    ]);
+  });
+
+  // ---------------------------------------------------------------------------
+  // 12. IPv4 + IPv6 loopback deduplication (same PID, same port)
+  // ---------------------------------------------------------------------------
+  it('deduplicates IPv4 127.0.0.1 and IPv6 [::1] entries for the same PID and port', async () => {
+    const output = [
+      HEADER,
+      makeLine('node', '77', 'user', '127.0.0.1:3000'),
+      makeLine('node', '77', 'user', '[::1]:3000'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    const result = await lsofSource.collect();
+    expect(result).toHaveLength(1);
+    expect(result[0]).toEqual({
+      port: 3000,
+      protocol: 'tcp',
+      process: 'node',
+      pid: '77',
+      user: 'user',
+      address: '127.0.0.1',
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // 13. Malformed IPv6 address (unmatched bracket)
+  // ---------------------------------------------------------------------------
+  it('parses a malformed IPv6 address with unmatched bracket as a raw address', async () => {
+    // "[::1" has no closing bracket — lastIndexOf(':') finds the colon inside
+    // the address, splitting into rawAddr="[:" and port from "1:3000" → "3000".
+    // The address is not normalized (it does not match any known pattern),
+    // but the line is still parseable and the port is valid.
+    const output = [
+      HEADER,
+      makeLine('node', '50', 'user', '[::1:3000'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    const result = await lsofSource.collect();
+    // lastIndexOf(':') on "[::1:3000" finds index 4 (the colon before "3000")
+    // rawAddr = "[::1", port = 3000 — a valid numeric port, so entry is kept
+    expect(result).toHaveLength(1);
+    expect(result[0].port).toBe(3000);
+    expect(result[0].address).toBe('[::1');
+  });
+
+  // ---------------------------------------------------------------------------
+  // 14. Non-numeric port in lsof NAME field
+  // ---------------------------------------------------------------------------
+  it('skips a line where the port portion is non-numeric (e.g., "abc")', async () => {
+    const output = [
+      HEADER,
+      makeLine('node', '60', 'user', '127.0.0.1:abc'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    // parseInt("abc", 10) returns NaN → the `if (isNaN(port)) continue` guard skips it
+    expect(await lsofSource.collect()).toEqual([]);
+  });
+
+  it('keeps valid entries while skipping lines with non-numeric ports', async () => {
+    const output = [
+      HEADER,
+      makeLine('node', '70', 'user', '127.0.0.1:abc'),
+      makeLine('nginx', '80', 'root', '0.0.0.0:8080'),
+    ].join('\n');
+
+    mockRunCommand.mockResolvedValue(output);
+
+    const result = await lsofSource.collect();
+    expect(result).toHaveLength(1);
+    expect(result[0]).toEqual({
+      port: 8080,
+      protocol: 'tcp',
+      process: 'nginx',
+      pid: '80',
+      user: 'root',
+      address: '0.0.0.0',
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // 15. execSync is called with LSOF_TIMEOUT_MS (5000)
+  // ---------------------------------------------------------------------------
+  it('passes timeoutMs: 5000 to runCommand', async () => {
+    mockRunCommand.mockResolvedValue(HEADER + '\n');
+
+    await lsofSource.collect();
+
+    expect(mockRunCommand).toHaveBeenCalledWith(
+      'lsof',
+      ['-nP', '-iTCP', '-sTCP:LISTEN', '-iUDP', '+c', '0'],
+      expect.objectContaining({ timeoutMs: 5000 }),
+    );
+  });
+
+  it('forwards the abort signal to runCommand', async () => {
+    mockRunCommand.mockResolvedValue(HEADER + '\n');
+    const controller = new AbortController();
+
+    await lsofSource.collect(controller.signal);
+
+    expect(mockRunCommand).toHaveBeenCalledWith(
+      'lsof',
+      expect.any(Array),
+      expect.objectContaining({ signal: controller.signal }),
+    );
+  });
+});
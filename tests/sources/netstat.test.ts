@@ -0,0 +1,130 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/utils/runCommand.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/runCommand.js')>(),
+  runCommand: vi.fn(),
+}));
+
+import { runCommand } from '../../src/utils/runCommand.js';
+import { parseNetstat, netstatSource } from '../../src/sources/netstat.js';
+
+const mockRunCommand = vi.mocked(runCommand);
+
+const PREAMBLE = 'Active Internet connections (including servers)';
+/** macOS 12 layout: pid is the 9th data column. */
+const HEADER_LEGACY =
+  'Proto Recv-Q Send-Q  Local Address          Foreign Address        (state)     rhiwat shiwat    pid   epid  state    options';
+/** macOS 14 layout: rxbytes/txbytes inserted, pid cell is "name:pid". */
+const HEADER_MODERN =
+  'Proto Recv-Q Send-Q  Local Address          Foreign Address        (state)      rxbytes      txbytes    rhiwat    shiwat    process:pid   state  options';
+
+function legacyLine(proto: string, local: string, state: string, pid: string): string {
+  return `${proto}       0      0  ${local}         *.*                    ${state}      131072 131072  ${pid}      0 0x0100 0x00000006`;
+}
+
+function modernLine(proto: string, local: string, state: string, cell: string): string {
+  return `${proto}       0      0  ${local}         *.*                    ${state}             0            0    131072    131072  ${cell}  00100 00000006`;
+}
+
+describe('parseNetstat', () => {
+  it('parses the legacy layout with a bare pid column', () => {
+    const output = [PREAMBLE, HEADER_LEGACY, legacyLine('tcp4', '127.0.0.1.3000', 'LISTEN', '123')].join('\n');
+    expect(parseNetstat(output)).toEqual([
+      { port: 3000, protocol: 'tcp', process: '', pid: '123', user: '', address: '127.0.0.1' },
+    ]);
+  });
+
+  it('parses the modern layout with name:pid cells', () => {
+    const output = [PREAMBLE, HEADER_MODERN, modernLine('tcp4', '127.0.0.1.5432', 'LISTEN', 'postgres:77')].join('\n');
+    expect(parseNetstat(output)).toEqual([
+      { port: 5432, protocol: 'tcp', process: 'postgres', pid: '77', user: '', address: '127.0.0.1' },
+    ]);
+  });
+
+  it('falls back to the legacy pid column when no header is present', () => {
+    expect(parseNetstat(legacyLine('tcp4', '127.0.0.1.3000', 'LISTEN', '55'))[0].pid).toBe('55');
+  });
+
+  it('normalizes wildcard and IPv6 addresses', () => {
+    const output = [
+      HEADER_LEGACY,
+      legacyLine('tcp46', '*.8080', 'LISTEN', '1'),
+      legacyLine('tcp6', '::1.5000', 'LISTEN', '2'),
+      legacyLine('tcp6', 'fe80::1%lo0.9000', 'LISTEN', '3'),
+    ].join('\n');
+    expect(parseNetstat(output).map(p => p.address)).toEqual(['127.0.0.1', '0.0.0.0', '[fe80::1]']);
+  });
+
+  it('keeps only TCP sockets in the LISTEN state and unconnected UDP sockets', () => {
+    const output = [
+      HEADER_LEGACY,
+      legacyLine('tcp4', '127.0.0.1.3000', 'ESTABLISHED', '1'),
+      'udp4       0      0  *.5353                 *.*                                786896   9216    300      0 0x0100 0x00000000',
+      'udp4       0      0  10.0.0.2.41000         1.1.1.1.53                         786896   9216    301      0 0x0100 0x00000000',
+      legacyLine('tcp4', '127.0.0.1.4000', 'LISTEN', '2'),
+      'Active LOCAL (UNIX) domain sockets',
+      'Address          Type   Recv-Q Send-Q            Inode             Conn             Refs          Nextref Addr',
+    ].join('\n');
+    expect(parseNetstat(output).map(p => [p.port, p.protocol, p.pid])).toEqual([
+      [4000, 'tcp', '2'],
+      [5353, 'udp', '300'],
+    ]);
+  });
+
+  it('skips rows with unusable addresses or pids', () => {
+    const output = [
+      HEADER_LEGACY,
+      legacyLine('tcp4', 'nodot', 'LISTEN', '1'),
+      legacyLine('tcp4', '127.0.0.1.abc', 'LISTEN', '2'),
+      legacyLine('tcp4', '127.0.0.1.3000', 'LISTEN', '0'),
+      legacyLine('tcp4', '127.0.0.1.3001', 'LISTEN', 'x'),
+      'tcp4 0 0 127.0.0.1.3002 *.* LISTEN',
+    ].join('\n');
+    expect(parseNetstat(output)).toEqual([]);
+  });
+
+  it('deduplicates dual-stack listeners and sorts by port', () => {
+    const output = [
+      HEADER_LEGACY,
+      legacyLine('tcp6', '*.9000', 'LISTEN', '5'),
+      legacyLine('tcp4', '*.9000', 'LISTEN', '5'),
+      legacyLine('tcp4', '*.80', 'LISTEN', '6'),
+    ].join('\n');
+    expect(parseNetstat(output).map(p => p.port)).toEqual([80, 9000]);
+  });
+});
+
+describe('netstatSource', () => {
+  beforeEach(() => {
+    mockRunCommand.mockReset();
+  });
+
+  it('fills in users and missing process names from ps', async () => {
+    mockRunCommand.mockImplementation(async (cmd: string) => {
+      if (cmd === 'netstat') {
+        return [HEADER_LEGACY, legacyLine('tcp4', '127.0.0.1.3000', 'LISTEN', '123')].join('\n');
+      }
+      return '  123 alice    /usr/local/bin/node\n';
+    });
+
+    expect(await netstatSource.collect()).toEqual([
+      { port: 3000, protocol: 'tcp', process: 'node', pid: '123', user: 'alice', address: '127.0.0.1' },
+    ]);
+  });
+
+  it('keeps the netstat process name and uses "?" placeholders when ps fails', async () => {
+    mockRunCommand.mockImplementation(async (cmd: string) => {
+      if (cmd === 'netstat') {
+        return [HEADER_MODERN, modernLine('tcp4', '127.0.0.1.1', 'LISTEN', 'named:1'), modernLine('tcp4', '127.0.0.1.2', 'LISTEN', '2')].join('\n');
+      }
+      throw new Error('ps not found');
+    });
+
+    expect((await netstatSource.collect()).map(p => [p.process, p.user])).toEqual([['named', '?'], ['?', '?']]);
+  });
+
+  it('rejects when netstat is unavailable', async () => {
+    mockRunCommand.mockRejectedValue(new Error('netstat not found'));
+    await expect(netstatSource.collect()).rejects.toThrow('netstat not found');
+  });
+});
@@ -0,0 +1,243 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+  readlink: vi.fn(),
+}));
+
+vi.mock('../../src/utils/runCommand.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/runCommand.js')>(),
+  runCommand: vi.fn(),
+}));
+
+import { readFile, readlink } from 'fs/promises';
+import { runCommand, CommandError } from '../../src/utils/runCommand.js';
+import {
+  parsePsCommands,
+  parseLsofFields,
+  formatProcCmdline,
+  lookupProcessDetails,
+  enrichPorts,
+} from '../../src/sources/processDetails.js';
+import type { ProcessDetailsCache } from '../../src/sources/processDetails.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockReadFile = vi.mocked(readFile);
+const mockReadlink = vi.mocked(readlink);
+const mockRunCommand = vi.mocked(runCommand);
+
+/** Installs a fake procfs where `files` maps paths to contents or link targets. */
+function mockProc(files: Record<string, string>) {
+  const lookup = async (path: unknown) => {
+    if (String(path) in files) return files[String(path)];
+    throw Object.assign(new Error(`EACCES: ${String(path)}`), { code: 'EACCES' });
+  };
+  mockReadFile.mockImplementation(lookup as typeof readFile);
+  mockReadlink.mockImplementation(lookup as typeof readlink);
+}
+
+describe('parsePsCommands', () => {
+  it('maps each PID to its full command line, arguments included', () => {
+    const output = '  42 node /srv/api/server.js --port 3000\n 7 /usr/sbin/nginx -g daemon off;\n\n';
+    expect(parsePsCommands(output)).toEqual(new Map([
+      ['42', 'node /srv/api/server.js --port 3000'],
+      ['7', '/usr/sbin/nginx -g daemon off;'],
+    ]));
+  });
+
+  it('skips lines without a command', () => {
+    expect(parsePsCommands('  42\ngarbage\n')).toEqual(new Map());
+  });
+});
+
+describe('parseLsofFields', () => {
+  it('reads the cwd and the first txt entry of every process', () => {
+    const output = [
+      'p42', 'fcwd', 'n/Users/alice/code/api', 'ftxt', 'n/usr/local/bin/node', 'ftxt', 'n/usr/lib/dyld',
+      'p7', 'ftxt', 'n/usr/sbin/nginx',
+    ].join('\n');
+
+    expect(parseLsofFields(output)).toEqual(new Map([
+      ['42', { cwd: '/Users/alice/code/api', exe: '/usr/local/bin/node' }],
+      ['7', { exe: '/usr/sbin/nginx' }],
+    ]));
+  });
+
+  it('ignores names that appear before any process record', () => {
+    expect(parseLsofFields('fcwd\nn/tmp\n')).toEqual(new Map());
+  });
+});
+
+describe('formatProcCmdline', () => {
+  it('joins NUL-separated arguments with spaces', () => {
+    expect(formatProcCmdline('python3\0-m\0http.server\0')).toBe('python3 -m http.server');
+  });
+
+  it('returns undefined for kernel threads with an empty cmdline', () => {
+    expect(formatProcCmdline('')).toBeUndefined();
+  });
+});
+
+describe('lookupProcessDetails', () => {
+  beforeEach(() => {
+    mockReadFile.mockReset();
+    mockReadlink.mockReset();
+    mockRunCommand.mockReset();
+  });
+
+  it('returns an empty map without any lookups for no PIDs', async () => {
+    expect(await lookupProcessDetails([], 'linux')).toEqual(new Map());
+    expect(mockReadFile).not.toHaveBeenCalled();
+    expect(mockRunCommand).not.toHaveBeenCalled();
+  });
+
+  it('reads cmdline, cwd and exe from procfs on Linux', async () => {
+    mockProc({
+      '/proc/42/cmdline': 'node\0server.js\0',
+      '/proc/42/cwd': '/home/alice/api',
+      '/proc/42/exe': '/usr/bin/node',
+    });
+
+    expect(await lookupProcessDetails(['42', '42'], 'linux')).toEqual(new Map([
+      ['42', { command: 'node server.js', cwd: '/home/alice/api', exe: '/usr/bin/node' }],
+    ]));
+    expect(mockRunCommand).not.toHaveBeenCalled();
+  });
+
+  it('leaves unreadable procfs fields undefined', async () => {
+    mockProc({ '/proc/1/cmdline': '/sbin/init\0' });
+
+    expect((await lookupProcessDetails(['1'], 'linux')).get('1')).toEqual({
+      command: '/sbin/init',
+      cwd: undefined,
+      exe: undefined,
+    });
+  });
+
+  it('combines one ps and one lsof call on other platforms', async () => {
+    mockRunCommand.mockImplementation(async (cmd: string) =>
+      cmd === 'ps'
+        ? '42 node server.js\n'
+        : 'p42\nfcwd\nn/Users/alice/api\nftxt\nn/usr/local/bin/node\n');
+
+    expect(await lookupProcessDetails(['42', '7'], 'darwin')).toEqual(new Map([
+      ['42', { command: 'node server.js', cwd: '/Users/alice/api', exe: '/usr/local/bin/node' }],
+      ['7', { command: undefined }],
+    ]));
+    expect(mockRunCommand).toHaveBeenCalledWith('ps', ['-o', 'pid=,command=', '-p', '42,7'], expect.anything());
+    expect(mockRunCommand).toHaveBeenCalledWith('lsof', ['-a', '-p', '42,7', '-d', 'cwd,txt', '-Fpfn'], expect.anything());
+  });
+
+  it('uses partial output when a lookup exits non-zero and ignores other failures', async () => {
+    mockRunCommand.mockImplementation(async (cmd: string) => {
+      if (cmd === 'ps') throw new CommandError('ps exited with 1', 1, '42 node server.js\n');
+      throw new Error('spawn lsof ENOENT');
+    });
+
+    expect((await lookupProcessDetails(['42'], 'darwin')).get('42')).toEqual({ command: 'node server.js' });
+  });
+
+  it('rejects when aborted while ps and lsof run', async () => {
+    const controller = new AbortController();
+    mockRunCommand.mockImplementation(async () => {
+      controller.abort();
+      throw new Error('The operation was aborted');
+    });
+
+    await expect(lookupProcessDetails(['42'], 'darwin', controller.signal)).rejects.toThrow('aborted');
+  });
+
+  it('rejects when aborted while procfs is read', async () => {
+    const controller = new AbortController();
+    mockReadFile.mockImplementation((async () => {
+      controller.abort();
+      return 'node\0';
+    }) as unknown as typeof readFile);
+    mockReadlink.mockRejectedValue(new Error('EACCES'));
+
+    await expect(lookupProcessDetails(['42'], 'linux', controller.signal)).rejects.toThrow('aborted');
+  });
+});
+
+describe('enrichPorts', () => {
+  beforeEach(() => {
+    mockReadFile.mockReset();
+    mockReadlink.mockReset();
+  });
+
+  it('merges the details of each entry\'s process into it', async () => {
+    mockProc({ '/proc/42/cmdline': 'node\0server.js\0', '/proc/42/cwd': '/srv/api' });
+    const ports: PortEntry[] = [
+      { port: 3000, protocol: 'tcp', process: 'node', pid: '42', user: 'u', address: '127.0.0.1' },
+      { port: 9229, protocol: 'tcp', process: 'node', pid: '42', user: 'u', address: '127.0.0.1' },
+    ];
+
+    const enriched = await enrichPorts(ports, 'linux');
+
+    expect(enriched.map(p => [p.port, p.command, p.cwd])).toEqual([
+      [3000, 'node server.js', '/srv/api'],
+      [9229, 'node server.js', '/srv/api'],
+    ]);
+    // Each PID is inspected once no matter how many ports it holds.
+    expect(mockReadFile).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with a cache', () => {
+    const entry = (pid: string, process = 'node'): PortEntry =>
+      ({ port: 3000, protocol: 'tcp', process, pid, user: 'u', address: '127.0.0.1' });
+
+    it('inspects only processes missing from the cache', async () => {
+      mockProc({ '/proc/42/cmdline': 'node\0server.js\0', '/proc/7/cmdline': 'nginx\0' });
+      const cache: ProcessDetailsCache = new Map();
+
+      await enrichPorts([entry('42')], 'linux', undefined, cache);
+      mockReadFile.mockClear();
+      const enriched = await enrichPorts([entry('42'), entry('7', 'nginx')], 'linux', undefined, cache);
+
+      expect(enriched.map(p => p.command)).toEqual(['node server.js', 'nginx']);
+      expect(mockReadFile).toHaveBeenCalledTimes(1);
+      expect(mockReadFile).toHaveBeenCalledWith('/proc/7/cmdline', 'utf8');
+    });
+
+    it('drops processes that are no longer listening', async () => {
+      mockProc({ '/proc/42/cmdline': 'node\0', '/proc/7/cmdline': 'nginx\0' });
+      const cache: ProcessDetailsCache = new Map();
+
+      await enrichPorts([entry('42'), entry('7', 'nginx')], 'linux', undefined, cache);
+      await enrichPorts([entry('7', 'nginx')], 'linux', undefined, cache);
+
+      expect([...cache.keys()]).toEqual(['7 nginx']);
+    });
+
+    it('inspects a reused PID again when the process name changed', async () => {
+      mockProc({ '/proc/42/cmdline': 'node\0' });
+      const cache: ProcessDetailsCache = new Map();
+      await enrichPorts([entry('42')], 'linux', undefined, cache);
+
+      mockProc({ '/proc/42/cmdline': 'python3\0-m\0http.server\0' });
+      const [enriched] = await enrichPorts([entry('42', 'python3')], 'linux', undefined, cache);
+
+      expect(enriched.command).toBe('python3 -m http.server');
+    });
+
+    it('leaves the cache alone when the lookup is aborted', async () => {
+      mockProc({ '/proc/42/cmdline': 'node\0' });
+      const cache: ProcessDetailsCache = new Map();
+      await enrichPorts([entry('42')], 'linux', undefined, cache);
+
+      await expect(enrichPorts([entry('7')], 'linux', AbortSignal.abort(), cache)).rejects.toThrow('aborted');
+      expect([...cache.keys()]).toEqual(['42 node']);
+    });
+
+    it('retries a process whose command line could not be read', async () => {
+      mockProc({});
+      const cache: ProcessDetailsCache = new Map();
+      await enrichPorts([entry('42')], 'linux', undefined, cache);
+
+      mockProc({ '/proc/42/cmdline': 'node\0' });
+      const [enriched] = await enrichPorts([entry('42')], 'linux', undefined, cache);
+
+      expect(enriched.command).toBe('node');
+    });
+  });
+});
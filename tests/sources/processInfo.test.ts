@@ -0,0 +1,184 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+  readdir: vi.fn(),
+  readlink: vi.fn(),
+}));
+
+vi.mock('../../src/utils/runCommand.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/runCommand.js')>(),
+  runCommand: vi.fn(),
+}));
+
+import { readFile, readdir, readlink } from 'fs/promises';
+import { runCommand, CommandError } from '../../src/utils/runCommand.js';
+import { getProcessInfo, parseProcStat, parseBootTime, parsePsStart } from '../../src/sources/processInfo.js';
+
+const mockReadFile = vi.mocked(readFile);
+const mockReaddir = vi.mocked(readdir);
+const mockReadlink = vi.mocked(readlink);
+const mockRunCommand = vi.mocked(runCommand);
+
+const TCP_HEADER =
+  '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+function tcpRow(state: string, inode: string): string {
+  return `   0: 0100007F:0BB8 0100007F:D431 ${state} 00000000:00000000 00:00000000 00000000  1000        0 ${inode} 1 0000000000000000 20 4 30 10 -1`;
+}
+
+/** `/proc/<pid>/stat` with the given ppid and starttime (field 22). */
+function statLine(pid: string, comm: string, ppid: string, startTicks: number): string {
+  const rest = ['S', ppid, ...Array(17).fill('0'), String(startTicks), '0', '0'];
+  return `${pid} (${comm}) ${rest.join(' ')}\n`;
+}
+
+/** Installs a fake procfs: `files` for readFile, `fds` for the fd directory of each PID. */
+function mockProc(files: Record<string, string>, fds: Record<string, Record<string, string>>) {
+  const enoent = (path: unknown) => Object.assign(new Error(`ENOENT: ${String(path)}`), { code: 'ENOENT' });
+
+  mockReadFile.mockImplementation((async (path: string) => {
+    if (path in files) return files[path];
+    throw enoent(path);
+  }) as typeof readFile);
+
+  mockReaddir.mockImplementation((async (path: string) => {
+    const match = /^\/proc\/(\d+)\/fd$/.exec(path);
+    if (match && match[1] in fds) return Object.keys(fds[match[1]]);
+    throw enoent(path);
+  }) as unknown as typeof readdir);
+
+  mockReadlink.mockImplementation((async (path: string) => {
+    const match = /^\/proc\/(\d+)\/fd\/(\d+)$/.exec(path);
+    if (match && fds[match[1]]?.[match[2]]) return fds[match[1]][match[2]];
+    throw enoent(path);
+  }) as typeof readlink);
+}
+
+describe('parseProcStat', () => {
+  it('reads ppid and start ticks', () => {
+    expect(parseProcStat(statLine('42', 'node', '1', 12345))).toEqual({ ppid: '1', startTicks: 12345 });
+  });
+
+  it('counts fields from the last parenthesis so odd process names are safe', () => {
+    expect(parseProcStat(statLine('42', 'a) (b c', '7', 99))).toEqual({ ppid: '7', startTicks: 99 });
+  });
+
+  it('returns null for malformed content', () => {
+    expect(parseProcStat('garbage')).toBeNull();
+    expect(parseProcStat('42 (node) S')).toBeNull();
+  });
+});
+
+describe('parseBootTime', () => {
+  it('reads the btime line', () => {
+    expect(parseBootTime('cpu  1 2 3\nbtime 1760000000\nprocesses 5\n')).toBe(1760000000);
+  });
+
+  it('returns null when btime is missing', () => {
+    expect(parseBootTime('cpu 1 2 3\n')).toBeNull();
+  });
+});
+
+describe('parsePsStart', () => {
+  it('reads ppid and the lstart date', () => {
+    expect(parsePsStart('    1 Mon Oct 19 09:15:02 2026\n')).toEqual({
+      ppid: '1',
+      startTime: new Date(2026, 9, 19, 9, 15, 2).getTime(),
+    });
+  });
+
+  it('leaves an unparseable date undefined', () => {
+    expect(parsePsStart('1 not-a-date')).toEqual({ ppid: '1', startTime: undefined });
+  });
+
+  it('returns null for empty output', () => {
+    expect(parsePsStart('')).toBeNull();
+  });
+});
+
+describe('getProcessInfo on Linux', () => {
+  beforeEach(() => {
+    mockReadFile.mockReset();
+    mockReaddir.mockReset();
+    mockReadlink.mockReset();
+  });
+
+  it('combines stat, boot time, parent name and established sockets', async () => {
+    mockProc(
+      {
+        '/proc/42/stat': statLine('42', 'node', '7', 50_000), // 500s after boot
+        '/proc/stat': 'btime 1760000000\n',
+        '/proc/7/comm': 'zsh\n',
+        '/proc/net/tcp': [TCP_HEADER, tcpRow('01', '100'), tcpRow('01', '101'), tcpRow('0A', '102'), tcpRow('01', '999')].join('\n'),
+        '/proc/net/tcp6': [TCP_HEADER, tcpRow('01', '103')].join('\n'),
+      },
+      { '42': { '3': 'socket:[100]', '4': 'socket:[101]', '5': 'socket:[102]', '6': 'socket:[103]', '7': '/dev/null' } },
+    );
+
+    expect(await getProcessInfo('42', 'linux')).toEqual({
+      ppid: '7',
+      parentName: 'zsh',
+      startTime: (1760000000 + 500) * 1000,
+      established: 3,
+    });
+  });
+
+  it('leaves fields undefined when procfs is unreadable', async () => {
+    mockProc({}, {});
+
+    expect(await getProcessInfo('42', 'linux')).toEqual({
+      ppid: undefined,
+      parentName: undefined,
+      startTime: undefined,
+      established: undefined,
+    });
+  });
+});
+
+describe('getProcessInfo on other platforms', () => {
+  beforeEach(() => {
+    mockRunCommand.mockReset();
+  });
+
+  it('reads parent and start time from ps and counts lsof connections', async () => {
+    mockRunCommand.mockImplementation(async (cmd: string, args: string[]) => {
+      if (cmd === 'lsof') return 'p42\nf12\nn127.0.0.1:3000->127.0.0.1:51000\nf13\nn127.0.0.1:3000->127.0.0.1:51001\n';
+      if (args[1] === 'ppid=,lstart=') return '    7 Mon Oct 19 09:15:02 2026\n';
+      return '/bin/zsh\n';
+    });
+
+    expect(await getProcessInfo('42', 'darwin')).toEqual({
+      ppid: '7',
+      parentName: 'zsh',
+      startTime: new Date(2026, 9, 19, 9, 15, 2).getTime(),
+      established: 2,
+    });
+    expect(mockRunCommand).toHaveBeenCalledWith('ps', ['-o', 'comm=', '-p', '7'], expect.anything());
+  });
+
+  it('reports zero connections when lsof finds none', async () => {
+    mockRunCommand.mockImplementation(async (cmd: string) => {
+      if (cmd === 'lsof') throw new CommandError('lsof exited with 1', 1, '');
+      return '';
+    });
+
+    expect(await getProcessInfo('42', 'darwin')).toEqual({
+      ppid: undefined,
+      parentName: undefined,
+      startTime: undefined,
+      established: 0,
+    });
+  });
+
+  it('leaves fields undefined when the lookups fail', async () => {
+    mockRunCommand.mockRejectedValue(new CommandError('spawn ps ENOENT', null, ''));
+
+    expect(await getProcessInfo('42', 'darwin')).toEqual({
+      ppid: undefined,
+      parentName: undefined,
+      startTime: undefined,
+      established: undefined,
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(),
+  readdir: vi.fn(),
+  readlink: vi.fn(),
+}));
+
+import { readFile, readdir, readlink } from 'fs/promises';
+import { procfsSource, parseProcNetTcp, parseProcNetUdp, decodeProcAddress } from '../../src/sources/procfs.js';
+
+const mockReadFile = vi.mocked(readFile);
+const mockReaddir = vi.mocked(readdir);
+const mockReadlink = vi.mocked(readlink);
+
+const TCP_HEADER =
+  '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+function tcpRow(local: string, state: string, uid: string, inode: string): string {
+  return `   0: ${local} 00000000:0000 ${state} 00000000:00000000 00:00000000 00000000  ${uid}        0 ${inode} 1 0000000000000000 100 0 0 10 0`;
+}
+
+/**
+ * Installs a fake procfs: `files` maps paths to contents, `fds` maps PIDs to
+ * their fd → link target tables. Anything else throws ENOENT like the real fs.
+ */
+function mockProc(files: Record<string, string>, fds: Record<string, Record<string, string>>) {
+  const enoent = (path: unknown) => Object.assign(new Error(`ENOENT: ${String(path)}`), { code: 'ENOENT' });
+
+  mockReadFile.mockImplementation((async (path: string) => {
+    if (path in files) return files[path];
+    throw enoent(path);
+  }) as typeof readFile);
+
+  mockReaddir.mockImplementation((async (path: string) => {
+    if (path === '/proc') return [...Object.keys(fds), 'self', 'net'];
+    const match = /^\/proc\/(\d+)\/fd$/.exec(path);
+    if (match && match[1] in fds) return Object.keys(fds[match[1]]);
+    throw enoent(path);
+  }) as unknown as typeof readdir);
+
+  mockReadlink.mockImplementation((async (path: string) => {
+    const match = /^\/proc\/(\d+)\/fd\/(\d+)$/.exec(path);
+    if (match && fds[match[1]]?.[match[2]]) return fds[match[1]][match[2]];
+    throw enoent(path);
+  }) as typeof readlink);
+}
+
+describe('decodeProcAddress', () => {
+  it('decodes little-endian IPv4 addresses', () => {
+    expect(decodeProcAddress('0100007F')).toBe('127.0.0.1');
+    expect(decodeProcAddress('00000000')).toBe('0.0.0.0');
+    expect(decodeProcAddress('0101A8C0')).toBe('192.168.1.1');
+  });
+
+  it('decodes the IPv6 wildcard and loopback in bracketed lsof form', () => {
+    expect(decodeProcAddress('00000000000000000000000000000000')).toBe('[::]');
+    expect(decodeProcAddress('00000000000000000000000001000000')).toBe('[::1]');
+  });
+
+  it('compresses the longest run of zero groups', () => {
+    // fe80::1
+    expect(decodeProcAddress('000080FE000000000000000001000000')).toBe('[fe80::1]');
+  });
+
+  it('leaves addresses without a zero run uncompressed', () => {
+    // 2001:db8:1:2:3:4:5:6
+    expect(decodeProcAddress('B80D0120020001000400030006000500')).toBe('[2001:db8:1:2:3:4:5:6]');
+  });
+
+  it('prints IPv4-mapped IPv6 addresses with a dotted tail', () => {
+    expect(decodeProcAddress('0000000000000000FFFF00000100007F')).toBe('[::ffff:127.0.0.1]');
+  });
+});
+
+describe('parseProcNetTcp', () => {
+  it('keeps only sockets in the LISTEN (0A) state', () => {
+    const content = [
+      TCP_HEADER,
+      tcpRow('0100007F:0BB8', '0A', '1000', '111'),
+      tcpRow('0100007F:0BB9', '01', '1000', '222'), // ESTABLISHED
+      tcpRow('00000000:1F90', '0A', '0', '333'),
+    ].join('\n');
+
+    expect(parseProcNetTcp(content)).toEqual([
+      { protocol: 'tcp', address: '127.0.0.1', port: 3000, uid: '1000', inode: '111' },
+      { protocol: 'tcp', address: '0.0.0.0', port: 8080, uid: '0', inode: '333' },
+    ]);
+  });
+
+  it('skips malformed rows', () => {
+    const content = [TCP_HEADER, '   0: 0100007F 0A', tcpRow('0100007F', '0A', '0', '1'), tcpRow('0100007F:ZZZZ', '0A', '0', '2')].join('\n');
+    expect(parseProcNetTcp(content)).toEqual([]);
+  });
+
+  it('returns an empty array for a header-only table', () => {
+    expect(parseProcNetTcp(TCP_HEADER + '\n')).toEqual([]);
+  });
+});
+
+describe('parseProcNetUdp', () => {
+  it('keeps only bound, unconnected (07) sockets', () => {
+    const content = [
+      TCP_HEADER,
+      tcpRow('3500007F:0035', '07', '101', '444'), // 127.0.0.53:53
+      tcpRow('0200000A:A028', '01', '1000', '555'), // connected client
+      tcpRow('00000000:14E9', '07', '1000', '666'), // *:5353
+    ].join('\n');
+
+    expect(parseProcNetUdp(content)).toEqual([
+      { protocol: 'udp', address: '127.0.0.53', port: 53, uid: '101', inode: '444' },
+      { protocol: 'udp', address: '0.0.0.0', port: 5353, uid: '1000', inode: '666' },
+    ]);
+  });
+
+  it('skips sockets that were never bound to a port', () => {
+    expect(parseProcNetUdp([TCP_HEADER, tcpRow('00000000:0000', '07', '0', '1')].join('\n'))).toEqual([]);
+  });
+});
+
+describe('procfsSource', () => {
+  beforeEach(() => {
+    mockReadFile.mockReset();
+    mockReaddir.mockReset();
+    mockReadlink.mockReset();
+  });
+
+  it('maps listening inodes to PIDs, process names and users', async () => {
+    mockProc(
+      {
+        '/proc/net/tcp': [TCP_HEADER, tcpRow('0100007F:0BB8', '0A', '1000', '111')].join('\n'),
+        '/proc/net/tcp6': TCP_HEADER,
+        '/proc/42/comm': 'node\n',
+        '/etc/passwd': 'root:x:0:0::/root:/bin/sh\nalice:x:1000:1000::/home/alice:/bin/sh\n',
+      },
+      { '42': { '0': '/dev/null', '20': 'socket:[111]' } },
+    );
+
+    expect(await procfsSource.collect()).toEqual([
+      { port: 3000, protocol: 'tcp', process: 'node', pid: '42', user: 'alice', address: '127.0.0.1' },
+    ]);
+  });
+
+  it('collects UDP sockets alongside TCP listeners on the same port', async () => {
+    mockProc(
+      {
+        '/proc/net/tcp': [TCP_HEADER, tcpRow('00000000:0035', '0A', '0', '1')].join('\n'),
+        '/proc/net/udp': [TCP_HEADER, tcpRow('00000000:0035', '07', '0', '2')].join('\n'),
+        '/proc/net/udp6': [TCP_HEADER, tcpRow('00000000000000000000000000000000:14E9', '07', '0', '3')].join('\n'),
+        '/proc/9/comm': 'dnsmasq\n',
+        '/etc/passwd': 'root:x:0:0::/root:/bin/sh\n',
+      },
+      { '9': { '3': 'socket:[1]', '4': 'socket:[2]', '5': 'socket:[3]' } },
+    );
+
+    expect(await procfsSource.collect()).toEqual([
+      { port: 53, protocol: 'tcp', process: 'dnsmasq', pid: '9', user: 'root', address: '0.0.0.0' },
+      { port: 53, protocol: 'udp', process: 'dnsmasq', pid: '9', user: 'root', address: '0.0.0.0' },
+      { port: 5353, protocol: 'udp', process: 'dnsmasq', pid: '9', user: 'root', address: '0.0.0.0' },
+    ]);
+  });
+
+  it('normalizes and deduplicates dual-stack listeners like the lsof parser', async () => {
+    mockProc(
+      {
+        '/proc/net/tcp': [TCP_HEADER, tcpRow('00000000:1F90', '0A', '0', '1')].join('\n'),
+        '/proc/net/tcp6': [TCP_HEADER, tcpRow('00000000000000000000000000000000:1F90', '0A', '0', '2')].join('\n'),
+        '/proc/7/comm': 'nginx\n',
+        '/etc/passwd': 'root:x:0:0::/root:/bin/sh\n',
+      },
+      { '7': { '3': 'socket:[1]', '4': 'socket:[2]' } },
+    );
+
+    expect(await procfsSource.collect()).toEqual([
+      { port: 8080, protocol: 'tcp', process: 'nginx', pid: '7', user: 'root', address: '0.0.0.0' },
+    ]);
+  });
+
+  it('emits one row per process sharing an inherited listening socket', async () => {
+    mockProc(
+      {
+        '/proc/net/tcp': [TCP_HEADER, tcpRow('00000000:0050', '0A', '0', '9')].join('\n'),
+        '/proc/10/comm': 'nginx\n',
+        '/proc/11/comm': 'nginx\n',
+      },
+      { '10': { '6': 'socket:[9]', '7': 'socket:[9]' }, '11': { '6': 'socket:[9]' } },
+    );
+
+    const result = await procfsSource.collect();
+    expect(result.map(p => p.pid)).toEqual(['10', '11']);
+    // /etc/passwd is missing in this fake fs, so the numeric UID is shown.
+    expect(result[0].user).toBe('0');
+  });
+
+  it('sorts by port ascending', async () => {
+    mockProc(
+      {
+        '/proc/net/tcp': [
+          TCP_HEADER,
+          tcpRow('00000000:1F90', '0A', '0', '1'),
+          tcpRow('0100007F:0BB8', '0A', '0', '2'),
+        ].join('\n'),
+        '/proc/1/comm': 'a\n',
+      },
+      { '1': { '3': 'socket:[1]', '4': 'socket:[2]' } },
+    );
+
+    expect((await procfsSource.collect()).map(p => p.port)).toEqual([3000, 8080]);
+  });
+
+  it('skips sockets whose owner is not visible to the current user', async () => {
+    mockProc(
+      { '/proc/net/tcp': [TCP_HEADER, tcpRow('00000000:0016', '0A', '0', '5')].join('\n') },
+      { '1': {} },
+    );
+
+    expect(await procfsSource.collect()).toEqual([]);
+  });
+
+  it('falls back to "?" when a process exits before its name is read', async () => {
+    mockProc(
+      { '/proc/net/tcp': [TCP_HEADER, tcpRow('0100007F:0BB8', '0A', '0', '1')].join('\n') },
+      { '99': { '3': 'socket:[1]' } },
+    );
+
+    expect((await procfsSource.collect())[0].process).toBe('?');
+  });
+
+  it('throws when the IPv4 socket table cannot be read', async () => {
+    mockProc({}, {});
+    await expect(procfsSource.collect()).rejects.toThrow('ENOENT');
+  });
+
+  it('returns an empty array without scanning /proc when nothing is listening', async () => {
+    mockProc({ '/proc/net/tcp': TCP_HEADER }, {});
+    expect(await procfsSource.collect()).toEqual([]);
+    expect(mockReaddir).not.toHaveBeenCalled();
+  });
+
+  it('throws when /proc cannot be listed', async () => {
+    mockProc({ '/proc/net/tcp': [TCP_HEADER, tcpRow('0100007F:0BB8', '0A', '0', '1')].join('\n') }, {});
+    mockReaddir.mockRejectedValue(new Error('EACCES'));
+
+    await expect(procfsSource.collect()).rejects.toThrow('EACCES');
+  });
+
+  it('rejects with the abort reason when aborted during the /proc scan', async () => {
+    mockProc(
+      { '/proc/net/tcp': [TCP_HEADER, tcpRow('0100007F:0BB8', '0A', '0', '1')].join('\n') },
+      { '1': { '3': 'socket:[1]' } },
+    );
+    const controller = new AbortController();
+    controller.abort(new Error('unmounted'));
+
+    await expect(procfsSource.collect(controller.signal)).rejects.toThrow('unmounted');
+  });
+});
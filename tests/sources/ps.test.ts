@@ -0,0 +1,58 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/utils/runCommand.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/runCommand.js')>(),
+  runCommand: vi.fn(),
+}));
+
+import { runCommand, CommandError } from '../../src/utils/runCommand.js';
+import { parsePs, lookupProcessOwners } from '../../src/sources/ps.js';
+
+const mockRunCommand = vi.mocked(runCommand);
+
+describe('parsePs', () => {
+  it('maps PIDs to user and executable basename', () => {
+    const output = '  123 alice    /usr/local/bin/node\n    7 root     nginx\n';
+    expect(parsePs(output)).toEqual(new Map([
+      ['123', { user: 'alice', process: 'node' }],
+      ['7', { user: 'root', process: 'nginx' }],
+    ]));
+  });
+
+  it('keeps executable names containing spaces', () => {
+    const output = '  9 bob  /Applications/Google Chrome.app/Contents/MacOS/Google Chrome Helper\n';
+    expect(parsePs(output).get('9')?.process).toBe('Google Chrome Helper');
+  });
+
+  it('ignores blank and malformed lines', () => {
+    expect(parsePs('\nnot a row\n').size).toBe(0);
+  });
+});
+
+describe('lookupProcessOwners', () => {
+  beforeEach(() => {
+    mockRunCommand.mockReset();
+  });
+
+  it('does not run ps for an empty PID list', async () => {
+    expect((await lookupProcessOwners([])).size).toBe(0);
+    expect(mockRunCommand).not.toHaveBeenCalled();
+  });
+
+  it('queries all PIDs in a single ps call', async () => {
+    mockRunCommand.mockResolvedValue('1 root init\n2 root kthreadd\n');
+    expect((await lookupProcessOwners(['1', '2'])).size).toBe(2);
+    expect(mockRunCommand).toHaveBeenCalledTimes(1);
+    expect(mockRunCommand).toHaveBeenCalledWith('ps', ['-o', 'pid=,user=,comm=', '-p', '1,2'], expect.anything());
+  });
+
+  it('keeps partial output when ps exits non-zero because a PID vanished', async () => {
+    mockRunCommand.mockRejectedValue(new CommandError('ps exited with 1', 1, '1 root init\n'));
+    expect((await lookupProcessOwners(['1', '999'])).get('1')?.user).toBe('root');
+  });
+
+  it('resolves an empty map when ps fails for another reason', async () => {
+    mockRunCommand.mockRejectedValue(new Error('boom'));
+    expect((await lookupProcessOwners(['1'])).size).toBe(0);
+  });
+});
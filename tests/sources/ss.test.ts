@@ -0,0 +1,154 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../../src/utils/runCommand.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/runCommand.js')>(),
+  runCommand: vi.fn(),
+}));
+
+import { runCommand } from '../../src/utils/runCommand.js';
+import { parseSs, ssSource } from '../../src/sources/ss.js';
+
+const mockRunCommand = vi.mocked(runCommand);
+
+const HEADER = 'Netid State  Recv-Q Send-Q Local Address:Port  Peer Address:Port Process';
+
+function makeLine(local: string, users = ''): string {
+  return `tcp   LISTEN 0      511    ${local}      0.0.0.0:*    ${users}`;
+}
+
+function udpLine(local: string, users = '', state = 'UNCONN'): string {
+  return `udp   ${state} 0      0      ${local}      0.0.0.0:*    ${users}`;
+}
+
+const users = (...procs: Array<[string, string]>) =>
+  `users:(${procs.map(([name, pid]) => `("${name}",pid=${pid},fd=20)`).join(',')})`;
+
+describe('parseSs', () => {
+  it('parses a single IPv4 listener', () => {
+    const output = [HEADER, makeLine('127.0.0.1:3000', users(['node', '42']))].join('\n');
+    expect(parseSs(output)).toEqual([
+      { port: 3000, protocol: 'tcp', process: 'node', pid: '42', user: '', address: '127.0.0.1' },
+    ]);
+  });
+
+  it('emits one entry per process sharing a socket', () => {
+    const output = [HEADER, makeLine('0.0.0.0:80', users(['nginx', '10'], ['nginx', '11']))].join('\n');
+    expect(parseSs(output).map(p => p.pid)).toEqual(['10', '11']);
+  });
+
+  it('normalizes wildcard and loopback addresses like the lsof parser', () => {
+    const output = [
+      HEADER,
+      makeLine('*:8080', users(['a', '1'])),
+      makeLine('[::]:7000', users(['b', '2'])),
+      makeLine('[::1]:5000', users(['c', '3'])),
+    ].join('\n');
+    expect(parseSs(output).map(p => p.address)).toEqual(['127.0.0.1', '0.0.0.0', '0.0.0.0']);
+  });
+
+  it('strips the interface scope from bound addresses', () => {
+    const output = [
+      HEADER,
+      makeLine('127.0.0.53%lo:53', users(['systemd-resolve', '5'])),
+      makeLine('[fe80::1%eth0]:9000', users(['app', '6'])),
+    ].join('\n');
+    expect(parseSs(output).map(p => p.address)).toEqual(['127.0.0.53', '[fe80::1]']);
+  });
+
+  it('deduplicates dual-stack listeners for the same PID', () => {
+    const output = [
+      HEADER,
+      makeLine('0.0.0.0:3000', users(['node', '7'])),
+      makeLine('[::]:3000', users(['node', '7'])),
+    ].join('\n');
+    expect(parseSs(output)).toHaveLength(1);
+  });
+
+  it('skips sockets without process information (owned by other users)', () => {
+    const output = [HEADER, makeLine('0.0.0.0:22')].join('\n');
+    expect(parseSs(output)).toEqual([]);
+  });
+
+  it('keeps process names containing spaces', () => {
+    const output = [HEADER, makeLine('127.0.0.1:3000', users(['Web Content', '9']))].join('\n');
+    expect(parseSs(output)[0].process).toBe('Web Content');
+  });
+
+  it('skips malformed lines and sorts by port ascending', () => {
+    const output = [
+      HEADER,
+      makeLine('127.0.0.1:abc', users(['x', '1'])),
+      makeLine('nocolon', users(['y', '2'])),
+      makeLine('127.0.0.1:9000', users(['b', '3'])),
+      makeLine('127.0.0.1:1000', users(['a', '4'])),
+      'tcp LISTEN 0',
+    ].join('\n');
+    expect(parseSs(output).map(p => p.port)).toEqual([1000, 9000]);
+  });
+
+  it('parses bound UDP sockets as protocol udp', () => {
+    const output = [HEADER, udpLine('127.0.0.53%lo:53', users(['systemd-resolve', '5']))].join('\n');
+    expect(parseSs(output)).toEqual([
+      { port: 53, protocol: 'udp', process: 'systemd-resolve', pid: '5', user: '', address: '127.0.0.53' },
+    ]);
+  });
+
+  it('keeps a TCP and a UDP socket on the same port as separate entries', () => {
+    const output = [
+      HEADER,
+      makeLine('0.0.0.0:53', users(['dnsmasq', '8'])),
+      udpLine('0.0.0.0:53', users(['dnsmasq', '8'])),
+    ].join('\n');
+    expect(parseSs(output).map(p => p.protocol)).toEqual(['tcp', 'udp']);
+  });
+
+  it('skips connected UDP sockets and non-listening TCP rows', () => {
+    const output = [
+      HEADER,
+      udpLine('10.0.0.2:41000', users(['client', '1']), 'ESTAB'),
+      'tcp   ESTAB  0      0      10.0.0.2:50000      1.2.3.4:443    users:(("curl",pid=2,fd=3))',
+    ].join('\n');
+    expect(parseSs(output)).toEqual([]);
+  });
+
+  it('returns an empty array for header-only or empty output', () => {
+    expect(parseSs(HEADER + '\n')).toEqual([]);
+    expect(parseSs('')).toEqual([]);
+  });
+});
+
+describe('ssSource', () => {
+  beforeEach(() => {
+    mockRunCommand.mockReset();
+  });
+
+  it('fills in users from a single ps lookup', async () => {
+    mockRunCommand.mockImplementation(async (cmd: string) => {
+      if (cmd === 'ss') {
+        return [HEADER, makeLine('127.0.0.1:3000', users(['node', '42'])), makeLine('127.0.0.1:3001', users(['node', '42']))].join('\n');
+      }
+      return '   42 alice    node\n';
+    });
+
+    expect(await ssSource.collect()).toEqual([
+      { port: 3000, protocol: 'tcp', process: 'node', pid: '42', user: 'alice', address: '127.0.0.1' },
+      { port: 3001, protocol: 'tcp', process: 'node', pid: '42', user: 'alice', address: '127.0.0.1' },
+    ]);
+    expect(mockRunCommand).toHaveBeenCalledWith('ss', ['-ltunp'], expect.anything());
+    expect(mockRunCommand).toHaveBeenCalledWith('ps', ['-o', 'pid=,user=,comm=', '-p', '42'], expect.anything());
+  });
+
+  it('uses "?" when the owner cannot be resolved', async () => {
+    mockRunCommand.mockImplementation(async (cmd: string) => {
+      if (cmd === 'ss') return [HEADER, makeLine('127.0.0.1:3000', users(['node', '42']))].join('\n');
+      throw new Error('ps not found');
+    });
+
+    expect((await ssSource.collect())[0].user).toBe('?');
+  });
+
+  it('rejects when ss is unavailable', async () => {
+    mockRunCommand.mockRejectedValue(new Error('ss not found'));
+    await expect(ssSource.collect()).rejects.toThrow('ss not found');
+  });
+});
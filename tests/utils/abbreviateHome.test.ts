@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { homedir } from 'os';
+import { abbreviateHome } from '../../src/utils/abbreviateHome.js';
+
+describe('abbreviateHome', () => {
+  it('replaces the home directory prefix with ~', () => {
+    expect(abbreviateHome('/home/alice/code/api', '/home/alice')).toBe('~/code/api');
+  });
+
+  it('abbreviates the home directory itself', () => {
+    expect(abbreviateHome('/home/alice', '/home/alice')).toBe('~');
+  });
+
+  it('leaves paths outside the home directory unchanged', () => {
+    expect(abbreviateHome('/srv/app', '/home/alice')).toBe('/srv/app');
+  });
+
+  it('only replaces whole path segments', () => {
+    expect(abbreviateHome('/home/alice2/app', '/home/alice')).toBe('/home/alice2/app');
+  });
+
+  it('does not abbreviate when home is the filesystem root', () => {
+    expect(abbreviateHome('/srv/app', '/')).toBe('/srv/app');
+  });
+
+  it('defaults to the current user\'s home directory', () => {
+    expect(abbreviateHome(`${homedir()}/x`)).toBe('~/x');
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseConfig,
+  loadConfig,
+  globalConfigPath,
+  findProjectConfig,
+  ConfigError,
+  DEFAULT_CONFIG,
+} from '../../src/utils/config.js';
+
+describe('parseConfig', () => {
+  it('accepts every setting', () => {
+    expect(parseConfig({
+      refreshInterval: '500ms',
+      filter: 'node',
+      searchMode: 'fuzzy',
+      protocol: 'tcp',
+      sort: 'process',
+      sortOrder: 'desc',
+      groupBy: 'process',
+      columns: ['process', 'port'],
+      killSignal: 'INT',
+      killGrace: 10,
+      confirmKill: false,
+      mouse: false,
+      keys: { quit: 'x', moveUp: ['up', 'Ctrl+P'] },
+    }, 'config.json')).toEqual({
+      refreshIntervalMs: 500,
+      filter: 'node',
+      searchMode: 'fuzzy',
+      protocol: 'tcp',
+      sort: 'process',
+      sortOrder: 'desc',
+      groupBy: 'process',
+      columns: ['port', 'process'],
+      killSignal: 'SIGINT',
+      killGraceMs: 10_000,
+      confirmKill: false,
+      mouse: false,
+      keys: { quit: ['x'], moveUp: ['up', 'ctrl+p'] },
+    });
+  });
+
+  it('returns only the settings present', () => {
+    expect(parseConfig({}, 'config.json')).toEqual({});
+    expect(parseConfig({ killGrace: '0' }, 'config.json')).toEqual({ killGraceMs: 0 });
+  });
+
+  it.each([
+    [[], 'expected a JSON object'],
+    ['fast', 'expected a JSON object'],
+    [null, 'expected a JSON object'],
+    [{ refreshInterval: 'fast' }, '"refreshInterval" must be a duration such as "2s" or "500ms" (got "fast")'],
+    [{ refreshInterval: '10ms' }, '"refreshInterval" must be at least 250ms (got "10ms")'],
+    [{ filter: 3000 }, '"filter" must be a string (got 3000)'],
+    [{ searchMode: 'glob' }, '"searchMode" must be "substring", "fuzzy" or "regex" (got "glob")'],
+    [{ protocol: 'sctp' }, '"protocol" must be "all", "tcp" or "udp" (got "sctp")'],
+    [{ sort: 'name' }, '"sort" must be "port", "protocol", "process", "user", "pid" or "address" (got "name")'],
+    [{ sortOrder: 'up' }, '"sortOrder" must be "asc" or "desc" (got "up")'],
+    [{ groupBy: 'port' }, '"groupBy" must be "none", "pid", "process" or "user" (got "port")'],
+    [{ columns: [] }, '"columns" must be a non-empty array of "port", "protocol", "process", "user", "pid", "address" or "command"'],
+    [{ columns: 'port' }, '"columns" must be a non-empty array of "port", "protocol", "process", "user", "pid", "address" or "command"'],
+    [{ columns: ['port', 'cmd'] }, '"columns" must be "port", "protocol", "process", "user", "pid", "address" or "command" (got "cmd")'],
+    [{ killSignal: 'SIGSTOP' }, '"killSignal" must be "SIGTERM", "SIGINT", "SIGHUP" or "SIGKILL" (got "SIGSTOP")'],
+    [{ killSignal: 9 }, '"killSignal" must be "SIGTERM", "SIGINT", "SIGHUP" or "SIGKILL" (got 9)'],
+    [{ killGrace: -1 }, '"killGrace" must be a duration such as "2s" or "500ms" (got -1)'],
+    [{ confirmKill: 'no' }, '"confirmKill" must be true or false (got "no")'],
+    [{ mouse: 1 }, '"mouse" must be true or false (got 1)'],
+    [{ keys: ['x'] }, '"keys" must be an object mapping actions to keys, e.g. { "quit": "x" }'],
+    [{ keys: { exit: 'x' } }, '"keys" has an unknown action "exit" (expected one of moveUp, moveDown, top, bottom,'],
+    [{ keys: { quit: 'shift+x' } }, '"keys" has an invalid key "shift+x" for quit (expected e.g. "x", "enter", "up" or "ctrl+k")'],
+    [{ keys: { quit: [1] } }, '"keys" has an invalid key 1 for quit'],
+    [{ keys: { quit: 'x', kill: 'x' } }, '"keys" "x" is bound to both kill and quit'],
+    [{ refreshIntervall: '2s' }, 'unknown setting "refreshIntervall" (expected one of refreshInterval, filter, searchMode, protocol, sort, sortOrder, groupBy, columns, killSignal, killGrace, confirmKill, mouse, keys)'],
+    [{ toString: 'x' }, 'unknown setting "toString"'],
+  ])('rejects %j', (json, message) => {
+    expect(() => parseConfig(json, '/home/me/.portsrc')).toThrow(ConfigError);
+    expect(() => parseConfig(json, '/home/me/.portsrc')).toThrow(`/home/me/.portsrc: ${message}`);
+  });
+});
+
+describe('globalConfigPath', () => {
+  it('uses $XDG_CONFIG_HOME', () => {
+    expect(globalConfigPath({ XDG_CONFIG_HOME: '/xdg' }, '/home/me')).toBe('/xdg/ports-cli/config.json');
+  });
+
+  it('falls back to ~/.config', () => {
+    expect(globalConfigPath({}, '/home/me')).toBe('/home/me/.config/ports-cli/config.json');
+    expect(globalConfigPath({ XDG_CONFIG_HOME: '' }, '/home/me')).toBe('/home/me/.config/ports-cli/config.json');
+  });
+});
+
+describe('loading config files', () => {
+  let root: string;
+  let env: NodeJS.ProcessEnv;
+  let project: string;
+
+  /** Writes `content` (JSON-encoded unless a string) to `path`, creating directories. */
+  function write(path: string, content: unknown) {
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'ports-config-'));
+    env = { XDG_CONFIG_HOME: join(root, 'xdg') };
+    project = join(root, 'project', 'packages', 'api');
+    mkdirSync(project, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('finds .portsrc in a parent directory', () => {
+    write(join(root, 'project', '.portsrc'), {});
+    expect(findProjectConfig(project)).toBe(join(root, 'project', '.portsrc'));
+  });
+
+  it('prefers the nearest .portsrc', () => {
+    write(join(root, 'project', '.portsrc'), {});
+    write(join(project, '.portsrc'), {});
+    expect(findProjectConfig(project)).toBe(join(project, '.portsrc'));
+  });
+
+  it('returns the defaults when no file exists', () => {
+    expect(findProjectConfig(project)).toBeNull();
+    expect(loadConfig({ cwd: project, env })).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('layers the project config over the personal one', () => {
+    write(join(root, 'xdg', 'ports-cli', 'config.json'), { sort: 'process', confirmKill: false });
+    write(join(root, 'project', '.portsrc'), { sort: 'user', filter: 'api' });
+    expect(loadConfig({ cwd: project, env })).toEqual({
+      ...DEFAULT_CONFIG,
+      sort: 'user',
+      filter: 'api',
+      confirmKill: false,
+    });
+  });
+
+  it('merges key bindings from both files action by action', () => {
+    write(join(root, 'xdg', 'ports-cli', 'config.json'), { keys: { quit: 'Q', refresh: 'f' } });
+    write(join(root, 'project', '.portsrc'), { keys: { refresh: 'g' } });
+    expect(loadConfig({ cwd: project, env }).keys).toEqual({ quit: ['Q'], refresh: ['g'] });
+  });
+
+  it('reports keys bound twice across the two files', () => {
+    write(join(root, 'xdg', 'ports-cli', 'config.json'), { keys: { quit: 'x' } });
+    write(join(root, 'project', '.portsrc'), { keys: { help: 'x' } });
+    expect(() => loadConfig({ cwd: project, env }))
+      .toThrow(`${join(root, 'project', '.portsrc')}: "keys" "x" is bound to both help and quit`);
+  });
+
+  it('reads ~/.config when $XDG_CONFIG_HOME is unset', () => {
+    write(join(root, 'home', '.config', 'ports-cli', 'config.json'), { protocol: 'udp' });
+    expect(loadConfig({ cwd: project, env: {}, home: join(root, 'home') }).protocol).toBe('udp');
+  });
+
+  it('reports invalid JSON with the file name', () => {
+    const path = join(root, 'project', '.portsrc');
+    write(path, '{ "sort": "port", }');
+    expect(() => loadConfig({ cwd: project, env })).toThrow(new RegExp(`^${path}: invalid JSON \\(`));
+  });
+
+  it('reports invalid settings with the file name', () => {
+    const path = join(root, 'xdg', 'ports-cli', 'config.json');
+    write(path, { sortOrder: 'sideways' });
+    expect(() => loadConfig({ cwd: project, env }))
+      .toThrow(`${path}: "sortOrder" must be "asc" or "desc" (got "sideways")`);
+  });
+
+  it('reports an invalid filter with the file that sets it', () => {
+    const path = join(root, 'project', '.portsrc');
+    write(path, { filter: 'port:web' });
+    expect(() => loadConfig({ cwd: project, env }))
+      .toThrow(`${path}: "filter" must be a valid substring search query (invalid port "web" (expected e.g. 3000 or 3000-3999))`);
+  });
+
+  it('checks the filter against the search mode of the merged settings', () => {
+    const path = join(root, 'xdg', 'ports-cli', 'config.json');
+    write(path, { filter: 'node|(' });
+    expect(loadConfig({ cwd: project, env }).filter).toBe('node|(');
+    write(join(root, 'project', '.portsrc'), { searchMode: 'regex' });
+    expect(() => loadConfig({ cwd: project, env }))
+      .toThrow(`${path}: "filter" must be a valid regex search query (invalid regex "node|(": Unterminated group)`);
+  });
+
+  it('reports an unreadable file', () => {
+    mkdirSync(join(root, 'xdg', 'ports-cli', 'config.json'), { recursive: true });
+    expect(() => loadConfig({ cwd: project, env })).toThrow(ConfigError);
+  });
+});
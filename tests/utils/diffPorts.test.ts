@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { diffPorts } from '../../src/utils/diffPorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const NODE: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1' };
+const NGINX: PortEntry = { port: 8080, protocol: 'tcp', process: 'nginx', pid: '200', user: 'root', address: '0.0.0.0' };
+const DNS: PortEntry = { port: 53, protocol: 'udp', process: 'dnsmasq', pid: '300', user: 'root', address: '0.0.0.0' };
+
+describe('diffPorts', () => {
+  it('reports nothing for identical snapshots', () => {
+    expect(diffPorts([NODE, NGINX], [NGINX, NODE])).toEqual({ opened: [], closed: [] });
+  });
+
+  it('reports new and vanished entries', () => {
+    expect(diffPorts([NODE, NGINX], [NGINX, DNS])).toEqual({ opened: [DNS], closed: [NODE] });
+  });
+
+  it('treats everything as opened when there is no previous snapshot', () => {
+    expect(diffPorts([], [NODE, DNS])).toEqual({ opened: [NODE, DNS], closed: [] });
+  });
+
+  it('reports a restart under a new PID as a close and an open', () => {
+    const restarted = { ...NODE, pid: '101' };
+    expect(diffPorts([NODE], [restarted])).toEqual({ opened: [restarted], closed: [NODE] });
+  });
+
+  it('distinguishes the same port on another address or protocol', () => {
+    const udp = { ...NODE, protocol: 'udp' as const };
+    const wildcard = { ...NODE, address: '0.0.0.0' };
+    expect(diffPorts([NODE], [NODE, udp, wildcard]).opened).toEqual([udp, wildcard]);
+  });
+
+  it('ignores changed details of the same binding', () => {
+    expect(diffPorts([NODE], [{ ...NODE, command: 'node server.js' }])).toEqual({ opened: [], closed: [] });
+  });
+});
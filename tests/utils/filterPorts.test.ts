@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { filterPorts } from '../../src/utils/filterPorts.js';
+import { QueryError } from '../../src/utils/parseQuery.js';
+import type { PortEntry } from '../../src/types.js';
+
+const PORTS: PortEntry[] = [
+  { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1', command: 'node server.js', cwd: '/home/alice/code/billing-api' },
+  { port: 8080, protocol: 'tcp', process: 'nginx', pid: '200', user: 'root', address: '0.0.0.0', exe: '/usr/sbin/nginx' },
+  { port: 5353, protocol: 'udp', process: 'mDNSResponder', pid: '300', user: '_mdns', address: '0.0.0.0' },
+];
+
+describe('filterPorts', () => {
+  it('returns every entry for an empty query and all protocols', () => {
+    expect(filterPorts(PORTS, '')).toEqual(PORTS);
+  });
+
+  it('matches the process name case-insensitively', () => {
+    expect(filterPorts(PORTS, 'NGINX').map(p => p.pid)).toEqual(['200']);
+  });
+
+  it('matches the port number and address as text', () => {
+    expect(filterPorts(PORTS, '808').map(p => p.pid)).toEqual(['200']);
+    expect(filterPorts(PORTS, '127.0').map(p => p.pid)).toEqual(['100']);
+  });
+
+  it('matches the command line, working directory and executable', () => {
+    expect(filterPorts(PORTS, 'server.js').map(p => p.pid)).toEqual(['100']);
+    expect(filterPorts(PORTS, 'billing').map(p => p.pid)).toEqual(['100']);
+    expect(filterPorts(PORTS, '/usr/sbin').map(p => p.pid)).toEqual(['200']);
+  });
+
+  it('restricts to one protocol', () => {
+    expect(filterPorts(PORTS, '', 'udp').map(p => p.pid)).toEqual(['300']);
+    expect(filterPorts(PORTS, '0.0.0.0', 'tcp').map(p => p.pid)).toEqual(['200']);
+  });
+
+  it('applies field terms and negation', () => {
+    expect(filterPorts(PORTS, 'port:3000-8999 -user:root').map(p => p.pid)).toEqual(['100', '300']);
+    expect(filterPorts(PORTS, 'addr:0.0.0.0', 'udp').map(p => p.pid)).toEqual(['300']);
+  });
+
+  it('matches in the given search mode', () => {
+    expect(filterPorts(PORTS, 'ngnx', 'all', 'fuzzy').map(p => p.pid)).toEqual(['200']);
+    expect(filterPorts(PORTS, '^(node|nginx)$', 'all', 'regex').map(p => p.pid)).toEqual(['100', '200']);
+  });
+
+  it('ranks fuzzy matches best first and keeps the order of equal ones', () => {
+    const ranked: PortEntry[] = ['n-o-d-e', 'nodemon', 'node'].map((process, i) => (
+      { port: 3000 + i, protocol: 'tcp', process, pid: String(i), user: 'alice', address: '::1' }
+    ));
+    expect(filterPorts(ranked, 'node', 'all', 'fuzzy').map(p => p.process)).toEqual(['nodemon', 'node', 'n-o-d-e']);
+    expect(filterPorts(PORTS, 'port:1-9999', 'all', 'fuzzy')).toEqual(PORTS);
+  });
+
+  it('throws QueryError for an invalid query', () => {
+    expect(() => filterPorts(PORTS, 'port:high')).toThrow(QueryError);
+  });
+
+  it('does not modify the input', () => {
+    const input = [...PORTS];
+    filterPorts(input, 'node', 'tcp');
+    expect(input).toEqual(PORTS);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration } from '../../src/utils/formatDuration.js';
+
+describe('formatDuration', () => {
+  it('shows the two most significant units', () => {
+    expect(formatDuration(93_784_000)).toBe('1d 2h');
+    expect(formatDuration(125_000)).toBe('2m 5s');
+  });
+
+  it('drops a trailing zero unit', () => {
+    expect(formatDuration(7_200_000)).toBe('2h');
+  });
+
+  it('does not skip to a less significant unit after a zero', () => {
+    // 2h 0m 3s — the seconds are below the precision shown
+    expect(formatDuration(7_203_000)).toBe('2h');
+  });
+
+  it('shows a single unit for short durations', () => {
+    expect(formatDuration(12_000)).toBe('12s');
+  });
+
+  it('rounds sub-second and negative durations to 0s', () => {
+    expect(formatDuration(999)).toBe('0s');
+    expect(formatDuration(-5000)).toBe('0s');
+  });
+});
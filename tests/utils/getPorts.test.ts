@@ -1,319 +1,156 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 
-vi.mock('child_process', () => ({
-  execSync: vi.fn(),
+vi.mock('../../src/sources/index.js', () => ({
+  detectPortSource: vi.fn(),
+  getPortSource: vi.fn(),
 }));
 
-import { execSync } from 'child_process';
-import { getPorts } from '../../src/utils/getPorts.js';
+vi.mock('../../src/sources/processDetails.js', () => ({
+  enrichPorts: vi.fn(async (ports: unknown) => ports),
+}));
+
+import { detectPortSource, getPortSource } from '../../src/sources/index.js';
+import { enrichPorts } from '../../src/sources/processDetails.js';
+import { getPorts, setPortSource, getActivePortSource } from '../../src/utils/getPorts.js';
+import type { PortEntry, PortSource } from '../../src/types.js';
 
-const mockExecSync = vi.mocked(execSync);
+const mockDetect = vi.mocked(detectPortSource);
+const mockGetPortSource = vi.mocked(getPortSource);
+const mockEnrichPorts = vi.mocked(enrichPorts);
 
-const HEADER = 'COMMAND     PID      USER   FD   TYPE DEVICE SIZE/OFF NODE NAME';
+const PORTS: PortEntry[] = [{ port: 3000, protocol: 'tcp', process: 'node', pid: '1', user: 'u', address: '127.0.0.1' }];
 
-function makeLine(
-  command: string,
-  pid: string,
-  user: string,
-  addrPort: string,
-): string {
-  // Produce a line with at least 9 whitespace-separated tokens.
-  // lsof columns: COMMAND PID USER FD TYPE DEVICE SIZE/OFF NODE NAME
-  return `${command}  ${pid}  ${user}  20u  IPv4  0xabc  0t0  TCP  ${addrPort} (LISTEN)`;
-}
+const makeSource = (name: PortSource['name']): PortSource =>
+  ({ name, platforms: ['linux', 'darwin'], collect: vi.fn(async () => PORTS) });
 
 describe('getPorts', () => {
   beforeEach(() => {
-    mockExecSync.mockReset();
+    mockDetect.mockReset();
+    mockGetPortSource.mockReset();
+    setPortSource('auto');
   });
 
-  // ---------------------------------------------------------------------------
-  // 1. Error handling
-  // ---------------------------------------------------------------------------
-  it('returns empty array when execSync throws', () => {
-    mockExecSync.mockImplementation(() => {
-      throw new Error('lsof not found');
-    });
+  it('auto-detects a source on first use and returns its ports', async () => {
+    const lsof = makeSource('lsof');
+    mockDetect.mockResolvedValue({ source: lsof, ports: PORTS });
 
-    expect(getPorts()).toEqual([]);
+    expect(getActivePortSource()).toBeNull();
+    expect(await getPorts()).toEqual(PORTS);
+    expect(getActivePortSource()).toBe('lsof');
   });
 
-  // ---------------------------------------------------------------------------
-  // 2. Single basic IPv4 entry
-  // ---------------------------------------------------------------------------
-  it('parses a single basic IPv4 entry', () => {
-    const output = [
-      HEADER,
-      makeLine('node', '12345', 'user', '127.0.0.1:3000'),
-    ].join('\n');
-
-    mockExecSync.mockReturnValue(output);
+  it('enriches the collected ports with process details', async () => {
+    const lsof = makeSource('lsof');
+    mockDetect.mockResolvedValue({ source: lsof, ports: PORTS });
+    mockEnrichPorts.mockResolvedValueOnce([{ ...PORTS[0], command: 'node server.js', cwd: '/srv/api' }]);
+    const controller = new AbortController();
 
-    expect(getPorts()).toEqual([
-      { port: 3000, process: 'node', pid: '12345', user: 'user', address: '127.0.0.1' },
-    ]);
+    expect(await getPorts(controller.signal)).toEqual([{ ...PORTS[0], command: 'node server.js', cwd: '/srv/api' }]);
+    expect(mockEnrichPorts).toHaveBeenCalledWith(PORTS, process.platform, controller.signal, expect.any(Map));
   });
 
-  // ---------------------------------------------------------------------------
-  // 3. Multiple entries sorted by port ascending
-  // ---------------------------------------------------------------------------
-  it('parses multiple entries and sorts by port ascending', () => {
-    const output = [
-      HEADER,
-      makeLine('nginx', '99', 'root', '0.0.0.0:8080'),
-      makeLine('node', '42', 'user', '127.0.0.1:3000'),
-    ].join('\n');
-
-    mockExecSync.mockReturnValue(output);
-
-    const result = getPorts();
-    expect(result).toHaveLength(2);
-    expect(result[0].port).toBe(3000);
-    expect(result[1].port).toBe(8080);
-  });
+  it('keeps one details cache across calls', async () => {
+    mockDetect.mockResolvedValue({ source: makeSource('lsof'), ports: PORTS });
 
-  // ---------------------------------------------------------------------------
-  // 4. Wildcard address normalization → 0.0.0.0
-  // ---------------------------------------------------------------------------
-  it('normalizes * to 0.0.0.0', () => {
-    mockExecSync.mockReturnValue([HEADER, makeLine('app', '1', 'u', '*:8080')].join('\n'));
-    const [entry] = getPorts();
-    expect(entry.address).toBe('0.0.0.0');
-    expect(entry.port).toBe(8080);
-  });
+    await getPorts();
+    await getPorts();
 
-  it('normalizes 0.0.0.0 address to 0.0.0.0', () => {
-    mockExecSync.mockReturnValue([HEADER, makeLine('app', '2', 'u', '0.0.0.0:9000')].join('\n'));
-    const [entry] = getPorts();
-    expect(entry.address).toBe('0.0.0.0');
-    expect(entry.port).toBe(9000);
+    const [first, second] = mockEnrichPorts.mock.calls.slice(-2).map(call => call[3]);
+    expect(first).toBeDefined();
+    expect(second).toBe(first);
   });
 
-  it('normalizes [::] to 0.0.0.0', () => {
-    mockExecSync.mockReturnValue([HEADER, makeLine('app', '3', 'u', '[::]:7000')].join('\n'));
-    const [entry] = getPorts();
-    expect(entry.address).toBe('0.0.0.0');
-    expect(entry.port).toBe(7000);
-  });
+  it('skips the process details when asked to', async () => {
+    mockDetect.mockResolvedValue({ source: makeSource('lsof'), ports: PORTS });
+    mockEnrichPorts.mockClear();
 
-  it('normalizes :: to 0.0.0.0', () => {
-    // lsof emits ":::6000" for a wildcard IPv6 listener: the host portion is "::"
-    // and lastIndexOf(':') correctly splits it into rawAddr="::" and port=6000.
-    // This test exercises the `address === '::'` branch in the normalization logic —
-    // there is no separate "bare ::" format gap; this case is the only reachable path.
-    mockExecSync.mockReturnValue([HEADER, makeLine('app', '4', 'u', ':::6000')].join('\n'));
-    const [entry] = getPorts();
-    expect(entry.address).toBe('0.0.0.0');
-    expect(entry.port).toBe(6000);
+    expect(await getPorts(undefined, { details: false })).toEqual(PORTS);
+    expect(mockEnrichPorts).not.toHaveBeenCalled();
   });
 
-  // ---------------------------------------------------------------------------
-  // 5. IPv6 localhost normalization → 127.0.0.1
-  // ---------------------------------------------------------------------------
-  it('normalizes [::1] to 127.0.0.1', () => {
-    mockExecSync.mockReturnValue([HEADER, makeLine('app', '5', 'u', '[::1]:5000')].join('\n'));
-    const [entry] = getPorts();
-    expect(entry.address).toBe('127.0.0.1');
-    expect(entry.port).toBe(5000);
-  });
-
-  it('normalizes ::1 (without brackets) to 127.0.0.1', () => {
-    // Some lsof versions emit "::1:4000"
-    mockExecSync.mockReturnValue([HEADER, makeLine('app', '6', 'u', '::1:4000')].join('\n'));
-    const [entry] = getPorts();
-    expect(entry.address).toBe('127.0.0.1');
-    expect(entry.port).toBe(4000);
-  });
+  it('reuses the detected source instead of probing again', async () => {
+    const lsof = makeSource('lsof');
+    mockDetect.mockResolvedValue({ source: lsof, ports: PORTS });
 
-  // ---------------------------------------------------------------------------
-  // 6. Deduplication of identical address:port:pid combinations
-  // ---------------------------------------------------------------------------
-  it('deduplicates identical address:port:pid combinations', () => {
-    const line = makeLine('node', '77', 'user', '127.0.0.1:3000');
-    const output = [HEADER, line, line].join('\n');
+    await getPorts();
+    await getPorts();
 
-    mockExecSync.mockReturnValue(output);
-
-    expect(getPorts()).toHaveLength(1);
+    expect(mockDetect).toHaveBeenCalledTimes(1);
+    expect(lsof.collect).toHaveBeenCalledTimes(1);
   });
 
-  it('does not deduplicate entries with the same port but different PIDs', () => {
-    const output = [
-      HEADER,
-      makeLine('node', '10', 'user', '127.0.0.1:3000'),
-      makeLine('ruby', '20', 'user', '127.0.0.1:3000'),
-    ].join('\n');
+  it('passes the abort signal through to detection and collection', async () => {
+    const lsof = makeSource('lsof');
+    mockDetect.mockResolvedValue({ source: lsof, ports: PORTS });
+    const { signal } = new AbortController();
 
-    mockExecSync.mockReturnValue(output);
+    await getPorts(signal);
+    await getPorts(signal);
 
-    expect(getPorts()).toHaveLength(2);
+    expect(mockDetect).toHaveBeenCalledWith(process.platform, signal);
+    expect(lsof.collect).toHaveBeenCalledWith(signal);
   });
 
-  // ---------------------------------------------------------------------------
-  // 7. Lines with fewer than 9 fields are skipped
-  // ---------------------------------------------------------------------------
-  it('skips lines with fewer than 9 fields', () => {
-    const shortLine = 'node 12345 user 20u IPv4';
-    const output = [HEADER, shortLine].join('\n');
-
-    mockExecSync.mockReturnValue(output);
+  it('rejects when no source works', async () => {
+    mockDetect.mockRejectedValue(new Error('No working port source found'));
 
-    expect(getPorts()).toEqual([]);
+    await expect(getPorts()).rejects.toThrow('No working port source found');
   });
 
-  // ---------------------------------------------------------------------------
-  // 8. Lines where the port parses to NaN are skipped
-  // ---------------------------------------------------------------------------
-  it('skips lines where the port field is not a number', () => {
-    const output = [
-      HEADER,
-      makeLine('node', '999', 'user', '127.0.0.1:notaport'),
-    ].join('\n');
+  it('forgets a detected source that starts failing and re-detects next time', async () => {
+    const lsof = makeSource('lsof');
+    mockDetect.mockResolvedValue({ source: lsof, ports: PORTS });
+    await getPorts();
 
-    mockExecSync.mockReturnValue(output);
+    vi.mocked(lsof.collect).mockRejectedValueOnce(new Error('timeout'));
+    await expect(getPorts()).rejects.toThrow('timeout');
+    expect(getActivePortSource()).toBeNull();
 
-    expect(getPorts()).toEqual([]);
+    await getPorts();
+    expect(mockDetect).toHaveBeenCalledTimes(2);
   });
 
-  // ---------------------------------------------------------------------------
-  // 9. Lines with no colon in the address:port field are skipped
-  // ---------------------------------------------------------------------------
-  it('skips lines where the address:port field contains no colon', () => {
-    // Replace the addrPort column with something that has no colon.
-    // Build a raw 9-token line manually.
-    const noColonLine = 'node  123  user  20u  IPv4  0xabc  0t0  TCP  NOCOLON';
-    const output = [HEADER, noColonLine].join('\n');
+  it('keeps the detected source when a collection is aborted', async () => {
+    const lsof = makeSource('lsof');
+    mockDetect.mockResolvedValue({ source: lsof, ports: PORTS });
+    await getPorts();
 
-    mockExecSync.mockReturnValue(output);
+    const controller = new AbortController();
+    controller.abort();
+    vi.mocked(lsof.collect).mockRejectedValueOnce(new Error('aborted'));
 
-    expect(getPorts()).toEqual([]);
+    await expect(getPorts(controller.signal)).rejects.toThrow('aborted');
+    expect(getActivePortSource()).toBe('lsof');
   });
 
-  // ---------------------------------------------------------------------------
-  // 10. Empty lsof output (header only) returns empty array
-  // ---------------------------------------------------------------------------
-  it('returns empty array when lsof output contains only the header line', () => {
-    mockExecSync.mockReturnValue(HEADER + '\n');
+  it('uses an explicitly selected source without auto-detection', async () => {
+    const ss = makeSource('ss');
+    mockGetPortSource.mockReturnValue(ss);
 
-    expect(getPorts()).toEqual([]);
-  });
+    setPortSource('ss');
 
-  it('returns empty array when lsof output is entirely empty', () => {
-    mockExecSync.mockReturnValue('');
-
-    expect(getPorts()).toEqual([]);
-  });
-
-  // ---------------------------------------------------------------------------
-  // 11. Blank lines interspersed in output are skipped
-  // ---------------------------------------------------------------------------
-  it('skips blank lines interspersed in lsof output', () => {
-    const output = [
-      HEADER,
-      '',
-      makeLine('node', '12345', 'user', '127.0.0.1:3000'),
-      '',
-    ].join('\n');
-
-    mockExecSync.mockReturnValue(output);
-
-    expect(getPorts()).toEqual([
-      { port: 3000, process: 'node', pid: '12345', user: 'user', address: '127.0.0.1' },
-    ]);
-  });
-
-  // ---------------------------------------------------------------------------
-  // 12. IPv4 + IPv6 loopback deduplication (same PID, same port)
-  // ---------------------------------------------------------------------------
-  it('deduplicates IPv4 127.0.0.1 and IPv6 [::1] entries for the same PID and port', () => {
-    const output = [
-      HEADER,
-      makeLine('node', '77', 'user', '127.0.0.1:3000'),
-      makeLine('node', '77', 'user', '[::1]:3000'),
-    ].join('\n');
-
-    mockExecSync.mockReturnValue(output);
-
-    const result = getPorts();
-    expect(result).toHaveLength(1);
-    expect(result[0]).toEqual({
-      port: 3000,
-      process: 'node',
-      pid: '77',
-      user: 'user',
-      address: '127.0.0.1',
-    });
+    expect(await getPorts()).toEqual(PORTS);
+    expect(getActivePortSource()).toBe('ss');
+    expect(mockGetPortSource).toHaveBeenCalledWith('ss');
+    expect(mockDetect).not.toHaveBeenCalled();
   });
 
-  // ---------------------------------------------------------------------------
-  // 13. Malformed IPv6 address (unmatched bracket)
-  // ---------------------------------------------------------------------------
-  it('parses a malformed IPv6 address with unmatched bracket as a raw address', () => {
-    // "[::1" has no closing bracket — lastIndexOf(':') finds the colon inside
-    // the address, splitting into rawAddr="[:" and port from "1:3000" → "3000".
-    // The address is not normalized (it does not match any known pattern),
-    // but the line is still parseable and the port is valid.
-    const output = [
-      HEADER,
-      makeLine('node', '50', 'user', '[::1:3000'),
-    ].join('\n');
-
-    mockExecSync.mockReturnValue(output);
-
-    const result = getPorts();
-    // lastIndexOf(':') on "[::1:3000" finds index 4 (the colon before "3000")
-    // rawAddr = "[::1", port = 3000 — a valid numeric port, so entry is kept
-    expect(result).toHaveLength(1);
-    expect(result[0].port).toBe(3000);
-    expect(result[0].address).toBe('[::1');
-  });
-
-  // ---------------------------------------------------------------------------
-  // 14. Non-numeric port in lsof NAME field
-  // ---------------------------------------------------------------------------
-  it('skips a line where the port portion is non-numeric (e.g., "abc")', () => {
-    const output = [
-      HEADER,
-      makeLine('node', '60', 'user', '127.0.0.1:abc'),
-    ].join('\n');
-
-    mockExecSync.mockReturnValue(output);
+  it('rejects without falling back when the explicitly selected source fails', async () => {
+    const ss = makeSource('ss');
+    vi.mocked(ss.collect).mockRejectedValue(new Error('ss not found'));
+    mockGetPortSource.mockReturnValue(ss);
+    setPortSource('ss');
 
-    // parseInt("abc", 10) returns NaN → the `if (isNaN(port)) continue` guard skips it
-    expect(getPorts()).toEqual([]);
+    await expect(getPorts()).rejects.toThrow('ss not found');
+    expect(getActivePortSource()).toBe('ss');
+    expect(mockDetect).not.toHaveBeenCalled();
   });
 
-  it('keeps valid entries while skipping lines with non-numeric ports', () => {
-    const output = [
-      HEADER,
-      makeLine('node', '70', 'user', '127.0.0.1:abc'),
-      makeLine('nginx', '80', 'root', '0.0.0.0:8080'),
-    ].join('\n');
-
-    mockExecSync.mockReturnValue(output);
-
-    const result = getPorts();
-    expect(result).toHaveLength(1);
-    expect(result[0]).toEqual({
-      port: 8080,
-      process: 'nginx',
-      pid: '80',
-      user: 'root',
-      address: '0.0.0.0',
+  it('propagates validation errors from setPortSource', () => {
+    mockGetPortSource.mockImplementation(() => {
+      throw new Error('Unknown source "bogus"');
     });
-  });
-
-  // ---------------------------------------------------------------------------
-  // 15. execSync is called with LSOF_TIMEOUT_MS (5000)
-  // ---------------------------------------------------------------------------
-  it('passes timeout: 5000 to execSync', () => {
-    mockExecSync.mockReturnValue(HEADER + '\n');
-
-    getPorts();
 
-    expect(mockExecSync).toHaveBeenCalledWith(
-      expect.any(String),
-      expect.objectContaining({ timeout: 5000 }),
-    );
+    expect(() => setPortSource('bogus')).toThrow('Unknown source "bogus"');
   });
 });
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { groupPorts, listRows, rowKey } from '../../src/utils/groupPorts.js';
+import { portKey } from '../../src/utils/normalizePorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const MASTER: PortEntry = { port: 80, protocol: 'tcp', process: 'nginx', pid: '100', user: 'root', address: '0.0.0.0' };
+const WORKER: PortEntry = { ...MASTER, port: 443, pid: '101', user: 'www' };
+const NODE: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '900', user: 'root', address: '127.0.0.1' };
+const NODE_DEBUG: PortEntry = { ...NODE, port: 9229 };
+
+const PORTS = [MASTER, NODE, WORKER, NODE_DEBUG];
+
+describe('groupPorts', () => {
+  it('groups by PID, labelled with the process name', () => {
+    expect(groupPorts(PORTS, 'pid')).toEqual([
+      { key: 'pid:100', label: 'nginx (100)', ports: [MASTER], pids: ['100'] },
+      { key: 'pid:900', label: 'node (900)', ports: [NODE, NODE_DEBUG], pids: ['900'] },
+      { key: 'pid:101', label: 'nginx (101)', ports: [WORKER], pids: ['101'] },
+    ]);
+  });
+
+  it('groups the processes of one name together', () => {
+    expect(groupPorts(PORTS, 'process')[0]).toEqual(
+      { key: 'process:nginx', label: 'nginx', ports: [MASTER, WORKER], pids: ['100', '101'] },
+    );
+  });
+
+  it('groups by user, in the order of each group\'s first port', () => {
+    expect(groupPorts(PORTS, 'user').map(g => [g.label, g.ports.length, g.pids])).toEqual([
+      ['root', 3, ['100', '900']],
+      ['www', 1, ['101']],
+    ]);
+  });
+});
+
+describe('listRows', () => {
+  it('is one port row per port without grouping', () => {
+    expect(listRows(PORTS, 'none')).toEqual(PORTS.map(port => ({ type: 'port', port })));
+  });
+
+  it('puts each group\'s header above its ports', () => {
+    expect(listRows(PORTS, 'process').map(rowKey)).toEqual([
+      'process:nginx', portKey(MASTER), portKey(WORKER),
+      'process:node', portKey(NODE), portKey(NODE_DEBUG),
+    ]);
+  });
+
+  it('shows a collapsed group as its header only', () => {
+    const rows = listRows(PORTS, 'process', new Set(['process:nginx']));
+    expect(rows.map(rowKey)).toEqual(['process:nginx', 'process:node', portKey(NODE), portKey(NODE_DEBUG)]);
+    expect(rows[0]).toMatchObject({ type: 'group', collapsed: true });
+    expect(rows[1]).toMatchObject({ type: 'group', collapsed: false });
+  });
+
+  it('has no rows for no ports', () => {
+    expect(listRows([], 'user')).toEqual([]);
+  });
+});
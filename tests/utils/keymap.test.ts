@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import type { Key } from 'ink';
+import {
+  DEFAULT_KEYMAP,
+  KEY_ACTIONS,
+  createKeymap,
+  formatChord,
+  formatKeys,
+  hintKey,
+  matchesChord,
+  parseChord,
+  withEdgeKeys,
+} from '../../src/utils/keymap.js';
+
+/** An Ink key event with every flag off except `flags`. */
+function key(flags: Partial<Key> = {}): Key {
+  return {
+    upArrow: false, downArrow: false, leftArrow: false, rightArrow: false,
+    pageDown: false, pageUp: false, return: false, escape: false,
+    ctrl: false, shift: false, tab: false, backspace: false, delete: false, meta: false,
+    ...flags,
+  };
+}
+
+describe('parseChord', () => {
+  it.each([
+    ['x', 'x'],
+    ['R', 'R'],
+    ['?', '?'],
+    ['+', '+'],
+    [' ', 'space'],
+    ['Space', 'space'],
+    ['Enter', 'enter'],
+    ['return', 'enter'],
+    ['esc', 'escape'],
+    ['PgDn', 'pagedown'],
+    ['Home', 'home'],
+    ['ctrl+k', 'ctrl+k'],
+    ['Ctrl+K', 'ctrl+k'],
+    ['ctrl++', 'ctrl++'],
+    ['meta+x', 'meta+x'],
+    ['meta+ctrl+up', 'ctrl+meta+up'],
+  ])('parses %j as %j', (text, chord) => {
+    expect(parseChord(text)).toBe(chord);
+  });
+
+  it.each(['', 'shift+x', 'hyper+x', 'ctrl+', 'xy', 'f1'])('rejects %j', text => {
+    expect(parseChord(text)).toBeNull();
+  });
+});
+
+describe('matchesChord', () => {
+  it('matches printable characters case-sensitively', () => {
+    expect(matchesChord('r', 'r', key())).toBe(true);
+    expect(matchesChord('r', 'R', key({ shift: true }))).toBe(false);
+    expect(matchesChord('R', 'R', key({ shift: true }))).toBe(true);
+  });
+
+  it('matches named keys by their key flag', () => {
+    expect(matchesChord('up', '', key({ upArrow: true }))).toBe(true);
+    expect(matchesChord('enter', '\r', key({ return: true }))).toBe(true);
+    expect(matchesChord('space', ' ', key())).toBe(true);
+    expect(matchesChord('up', 'k', key())).toBe(false);
+  });
+
+  it.each([
+    ['left', { leftArrow: true }],
+    ['right', { rightArrow: true }],
+    ['pageup', { pageUp: true }],
+    ['pagedown', { pageDown: true }],
+    ['tab', { tab: true }],
+    ['backspace', { backspace: true }],
+    ['delete', { delete: true }],
+  ] as const)('matches %s', (chord, flags) => {
+    expect(matchesChord(chord, '', key(flags))).toBe(true);
+    expect(matchesChord(chord, '', key())).toBe(false);
+  });
+
+  it('matches Home and End by their raw sequence', () => {
+    for (const sequence of ['\x1b[H', '\x1bOH', '\x1b[1~', '\x1b[7~']) {
+      expect(matchesChord('home', '', withEdgeKeys(key(), sequence))).toBe(true);
+      expect(matchesChord('end', '', withEdgeKeys(key(), sequence))).toBe(false);
+    }
+    for (const sequence of ['\x1b[F', '\x1bOF', '\x1b[4~', '\x1b[8~']) {
+      expect(matchesChord('end', '', withEdgeKeys(key(), sequence))).toBe(true);
+    }
+    expect(matchesChord('home', '', key())).toBe(false);
+    expect(matchesChord('home', '', withEdgeKeys(key(), '\x1b[2~'))).toBe(false);
+  });
+
+  it('matches ESC although Ink reports it with meta set', () => {
+    expect(matchesChord('escape', '', key({ escape: true, meta: true }))).toBe(true);
+  });
+
+  it('requires ctrl to match exactly', () => {
+    expect(matchesChord('ctrl+k', 'k', key({ ctrl: true }))).toBe(true);
+    expect(matchesChord('ctrl+k', 'k', key())).toBe(false);
+    expect(matchesChord('k', 'k', key({ ctrl: true }))).toBe(false);
+  });
+
+  it('requires meta only when the chord has it', () => {
+    expect(matchesChord('meta+x', 'x', key({ meta: true }))).toBe(true);
+    expect(matchesChord('meta+x', 'x', key())).toBe(false);
+  });
+});
+
+describe('formatChord / formatKeys / hintKey', () => {
+  it('labels named keys for display', () => {
+    expect(formatChord('up')).toBe('↑');
+    expect(formatChord('escape')).toBe('ESC');
+    expect(formatChord('ctrl+k')).toBe('ctrl+k');
+  });
+
+  it('joins every key of an action', () => {
+    expect(formatKeys(DEFAULT_KEYMAP, 'moveUp')).toBe('↑ / k');
+    expect(formatKeys(DEFAULT_KEYMAP, 'kill')).toBe('enter / x');
+  });
+
+  it('shows the numbered saved filter keys as a range', () => {
+    expect(formatKeys(DEFAULT_KEYMAP, 'applyFilter')).toBe('meta+1 … meta+9');
+    expect(formatKeys(createKeymap({ applyFilter: ['ctrl+a', 'ctrl+b'] }), 'applyFilter')).toBe('ctrl+a / ctrl+b');
+  });
+
+  it('gives the first key for hints, or null when unbound', () => {
+    expect(hintKey(DEFAULT_KEYMAP, 'cancel')).toBe('ESC');
+    expect(hintKey(createKeymap({ quit: [] }), 'quit')).toBeNull();
+  });
+});
+
+describe('createKeymap', () => {
+  it('uses the registry defaults when nothing is rebound', () => {
+    for (const { action, defaults } of KEY_ACTIONS) {
+      expect(DEFAULT_KEYMAP[action]).toEqual(defaults);
+    }
+  });
+
+  it('replaces the keys of a rebound action', () => {
+    expect(createKeymap({ refresh: ['f'] }).refresh).toEqual(['f']);
+  });
+
+  it('takes a rebound key away from the action it was a default of', () => {
+    const keymap = createKeymap({ quit: ['x'] });
+    expect(keymap.quit).toEqual(['x']);
+    expect(keymap.kill).toEqual(['enter']);
+  });
+
+  it('lets one key mean different things in the list and in a prompt', () => {
+    const keymap = createKeymap({ cancel: ['q'] });
+    expect(keymap.cancel).toEqual(['q']);
+    expect(keymap.quit).toEqual(['q']);
+  });
+
+  it('drops duplicate keys of one action', () => {
+    expect(createKeymap({ help: ['h', 'h'] }).help).toEqual(['h']);
+  });
+
+  it('rejects a key bound to two actions', () => {
+    expect(() => createKeymap({ quit: ['x'], kill: ['x'] })).toThrow('"x" is bound to both kill and quit');
+  });
+
+  it('rejects binding ctrl+c', () => {
+    expect(() => createKeymap({ help: ['ctrl+c'] })).toThrow('cannot bind "ctrl+c": it always quits');
+  });
+});
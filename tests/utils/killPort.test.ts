@@ -1,11 +1,12 @@
-import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 
 vi.mock('child_process', () => ({
   execSync: vi.fn(),
 }));
 
 import { execSync } from 'child_process';
-import { killPort } from '../../src/utils/killPort.js';
+import { constants } from 'os';
+import { killPort, gracefulKill, sendSignal, parseSignalName } from '../../src/utils/killPort.js';
 
 const mockExecSync = vi.mocked(execSync);
 
@@ -39,10 +40,10 @@ describe('killPort', () => {
   // ---------------------------------------------------------------------------
   // Successful kill
   // ---------------------------------------------------------------------------
-  it('returns { success: true } when execSync succeeds', () => {
+  it('returns { success: true, signal: "SIGKILL" } when execSync succeeds', () => {
     mockExecSync.mockReturnValue(undefined as unknown as string);
 
-    expect(killPort('1234')).toEqual({ success: true });
+    expect(killPort('1234')).toEqual({ success: true, signal: 'SIGKILL' });
   });
 
   it('passes the correct kill command to execSync', () => {
@@ -139,3 +140,188 @@ describe('killPort', () => {
     expect(mockExecSync).not.toHaveBeenCalled();
   });
 });
+
+describe('parseSignalName', () => {
+  it.each(['SIGTERM', 'TERM', 'term', 'sigterm', ' SigTerm '])('resolves %j to SIGTERM', value => {
+    expect(parseSignalName(value)).toBe('SIGTERM');
+  });
+
+  it.each(['QUIT', 'SIG', '', '15', 'SIGSIGTERM'])('rejects %j', value => {
+    expect(parseSignalName(value)).toBeNull();
+  });
+});
+
+describe('sendSignal', () => {
+  beforeEach(() => {
+    mockExecSync.mockReset();
+  });
+
+  it('sends the signal by its number on the running platform', () => {
+    expect(sendSignal('1234', 'SIGHUP')).toEqual({ success: true, signal: 'SIGHUP' });
+    expect(mockExecSync).toHaveBeenCalledWith(`kill -${constants.signals.SIGHUP} 1234`);
+  });
+
+  it.each(['SIGINT', 'SIGUSR1', 'SIGUSR2', 'SIGSTOP', 'SIGCONT'] as const)('supports %s', signal => {
+    expect(sendSignal('1234', signal)).toEqual({ success: true, signal });
+    expect(mockExecSync).toHaveBeenCalledWith(`kill -${constants.signals[signal]} 1234`);
+  });
+
+  it('applies the same PID validation as killPort', () => {
+    expect(sendSignal('0', 'SIGHUP')).toEqual({ success: false, error: 'Invalid PID' });
+    expect(sendSignal('-1', 'SIGSTOP')).toEqual({ success: false, error: 'Invalid PID' });
+    expect(mockExecSync).not.toHaveBeenCalled();
+  });
+
+  it('returns the error when kill fails', () => {
+    mockExecSync.mockImplementation(() => {
+      throw new Error('Operation not permitted');
+    });
+    expect(sendSignal('1', 'SIGUSR1')).toEqual({ success: false, error: 'Operation not permitted' });
+  });
+});
+
+/** Builds the error process.kill throws for a failed kill(2) call. */
+function errno(code: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(code), { code });
+}
+
+describe('gracefulKill', () => {
+  /** PIDs considered exited by the mocked process.kill. */
+  let exited: Set<number>;
+  let killSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockExecSync.mockReset();
+    exited = new Set();
+    killSpy = vi.spyOn(process, 'kill').mockImplementation(pid => {
+      if (exited.has(pid)) throw errno('ESRCH');
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    killSpy.mockRestore();
+    vi.useRealTimers();
+  });
+
+  it('rejects an invalid PID without signalling anything', async () => {
+    expect(await gracefulKill('0', { graceMs: 1000 })).toEqual({ success: false, error: 'Invalid PID' });
+    expect(killSpy).not.toHaveBeenCalled();
+  });
+
+  it('starts with firstSignal and reports it when the process exits', async () => {
+    const result = gracefulKill('1234', { graceMs: 1000, firstSignal: 'SIGINT' });
+
+    expect(killSpy).toHaveBeenCalledWith(1234, 'SIGINT');
+    exited.add(1234);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await result).toEqual({ success: true, signal: 'SIGINT' });
+  });
+
+  it('reports a failure when SIGTERM cannot be delivered', async () => {
+    killSpy.mockImplementation(() => { throw errno('EPERM'); });
+    expect(await gracefulKill('1234', { graceMs: 1000 })).toEqual({ success: false, error: 'EPERM' });
+  });
+
+  it('succeeds with SIGTERM when the process exits within the grace period', async () => {
+    const onEscalate = vi.fn();
+    const result = gracefulKill('1234', { graceMs: 1000, onEscalate });
+
+    expect(killSpy).toHaveBeenCalledWith(1234, 'SIGTERM');
+    await vi.advanceTimersByTimeAsync(200);
+    exited.add(1234);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await result).toEqual({ success: true, signal: 'SIGTERM' });
+    expect(onEscalate).not.toHaveBeenCalled();
+    expect(mockExecSync).not.toHaveBeenCalled();
+  });
+
+  it('keeps waiting for a process owned by another user (EPERM on the liveness probe)', async () => {
+    killSpy.mockImplementation((_pid: number, signal?: string | number) => {
+      if (signal === 0) throw errno('EPERM');
+      return true;
+    });
+    const result = gracefulKill('1234', { graceMs: 500 });
+    await vi.advanceTimersByTimeAsync(600);
+    expect(await result).toEqual({ success: true, signal: 'SIGKILL' });
+  });
+
+  it('succeeds with SIGTERM as soon as isReleased reports the port free', async () => {
+    const isReleased = vi.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+    const result = gracefulKill('1234', { graceMs: 1000, isReleased });
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(await result).toEqual({ success: true, signal: 'SIGTERM' });
+    expect(isReleased).toHaveBeenCalledTimes(2);
+  });
+
+  it('checks isReleased only every releaseCheckMs while probing liveness every 100ms', async () => {
+    const isReleased = vi.fn().mockResolvedValue(false);
+    const result = gracefulKill('1234', { graceMs: 1000, isReleased, releaseCheckMs: 500 });
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(isReleased).not.toHaveBeenCalled();
+    expect(killSpy).toHaveBeenCalledWith(1234, 0);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(isReleased).toHaveBeenCalledTimes(1);
+    exited.add(1234);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await result).toEqual({ success: true, signal: 'SIGTERM' });
+    expect(isReleased).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats a failing isReleased check as "not yet released"', async () => {
+    const isReleased = vi.fn().mockRejectedValue(new Error('lsof failed'));
+    const result = gracefulKill('1234', { graceMs: 300, isReleased });
+    await vi.advanceTimersByTimeAsync(400);
+    expect(await result).toEqual({ success: true, signal: 'SIGKILL' });
+  });
+
+  it('escalates to SIGKILL after the grace period', async () => {
+    const onEscalate = vi.fn();
+    const result = gracefulKill('1234', { graceMs: 1000, onEscalate });
+
+    await vi.advanceTimersByTimeAsync(900);
+    expect(onEscalate).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(await result).toEqual({ success: true, signal: 'SIGKILL' });
+    expect(onEscalate).toHaveBeenCalledTimes(1);
+    expect(mockExecSync).toHaveBeenCalledWith('kill -9 1234');
+  });
+
+  it('reports the SIGKILL failure after an escalation', async () => {
+    mockExecSync.mockImplementation(() => { throw new Error('No such process'); });
+    const result = gracefulKill('1234', { graceMs: 100 });
+    await vi.advanceTimersByTimeAsync(200);
+    expect(await result).toEqual({ success: false, error: 'No such process' });
+  });
+
+  it('stops waiting without escalating when aborted', async () => {
+    const controller = new AbortController();
+    const onEscalate = vi.fn();
+    const result = gracefulKill('1234', { graceMs: 1000, onEscalate, signal: controller.signal });
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await result).toEqual({ success: false, error: 'Aborted' });
+    expect(onEscalate).not.toHaveBeenCalled();
+    expect(mockExecSync).not.toHaveBeenCalled();
+  });
+
+  it('escalates immediately with a zero grace period', async () => {
+    expect(await gracefulKill('1234', { graceMs: 0 })).toEqual({ success: true, signal: 'SIGKILL' });
+  });
+
+  it('does not escalate when aborted with a zero grace period', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await gracefulKill('1234', { graceMs: 0, signal: controller.signal }))
+      .toEqual({ success: false, error: 'Aborted' });
+  });
+});
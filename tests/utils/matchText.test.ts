@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createTextMatcher } from '../../src/utils/matchText.js';
+
+describe('createTextMatcher', () => {
+  describe('substring', () => {
+    const match = createTextMatcher('Api', 'substring');
+
+    it('finds the text case-insensitively and reports where', () => {
+      expect(match('/code/billing-API')).toEqual({ score: 0, indices: [14, 15, 16] });
+    });
+
+    it('does not match scattered characters', () => {
+      expect(match('a/p/i')).toBeNull();
+    });
+  });
+
+  describe('regex', () => {
+    it('matches a case-insensitive regular expression', () => {
+      const match = createTextMatcher('node|deno', 'regex');
+      expect(match('Deno')).toEqual({ score: 0, indices: [0, 1, 2, 3] });
+      expect(match('bun')).toBeNull();
+    });
+
+    it('reports the first match only', () => {
+      expect(createTextMatcher('\\d+', 'regex')('v18.2')?.indices).toEqual([1, 2]);
+    });
+
+    it('throws for an invalid expression', () => {
+      expect(() => createTextMatcher('(', 'regex')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('fuzzy', () => {
+    it('matches the characters in order with gaps', () => {
+      expect(createTextMatcher('ngx', 'fuzzy')('nginx')?.indices).toEqual([0, 1, 4]);
+      expect(createTextMatcher('xng', 'fuzzy')('nginx')).toBeNull();
+    });
+
+    it('prefers a contiguous run at a word start', () => {
+      const match = createTextMatcher('api', 'fuzzy');
+      expect(match('a/path/billing-api')?.indices).toEqual([15, 16, 17]);
+      expect(match('billing-api')!.score).toBeGreaterThan(match('a/p/i')!.score);
+    });
+
+    it('ranks a whole word above the same letters spread out', () => {
+      const match = createTextMatcher('node', 'fuzzy');
+      expect(match('node')!.score).toBeGreaterThan(match('n-o-d-e')!.score);
+    });
+
+    it('tolerates a typo in a word of five or more characters', () => {
+      const match = createTextMatcher('dokcer', 'fuzzy');
+      expect(match('com.docker.backend')).toEqual({ score: expect.any(Number), indices: [4, 5, 6, 7, 8, 9] });
+      expect(match('podman')).toBeNull();
+    });
+
+    it('finds the closest typo anywhere in a long text', () => {
+      const match = createTextMatcher('postgers', 'fuzzy');
+      expect(match('/usr/lib/postgresql -D /data')?.indices).toEqual([9, 10, 11, 12, 13, 14, 15, 16]);
+      expect(match('/usr/lib/redis/bin/redis-server --port 6379')).toBeNull();
+    });
+
+    it('ranks a typo below an exact match', () => {
+      expect(createTextMatcher('docker', 'fuzzy')('docker')!.score)
+        .toBeGreaterThan(createTextMatcher('dokcer', 'fuzzy')('docker')!.score);
+    });
+
+    it('does not tolerate typos in short words', () => {
+      expect(createTextMatcher('ngnix', 'fuzzy')('nginx')).not.toBeNull();
+      expect(createTextMatcher('ndoe', 'fuzzy')('node')).toBeNull();
+    });
+
+    it('matches everything for empty text', () => {
+      expect(createTextMatcher('', 'fuzzy')('anything')).toEqual({ score: 0, indices: [] });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  enableMouseMode,
+  isMouseReport,
+  MOUSE_MODE_OFF,
+  MOUSE_MODE_ON,
+  parseMouseEvents,
+} from '../../src/utils/mouse.js';
+
+describe('isMouseReport', () => {
+  it('recognises SGR mouse reports', () => {
+    expect(isMouseReport('\x1b[<0;10;5M')).toBe(true);
+    expect(isMouseReport('\x1b[A')).toBe(false);
+    expect(isMouseReport('<')).toBe(false);
+  });
+});
+
+describe('parseMouseEvents', () => {
+  it('reports a left button press as a click', () => {
+    expect(parseMouseEvents('\x1b[<0;10;5M')).toEqual([{ type: 'click', x: 10, y: 5 }]);
+  });
+
+  it('counts a click with a modifier held', () => {
+    expect(parseMouseEvents('\x1b[<16;1;2M')).toEqual([{ type: 'click', x: 1, y: 2 }]);
+  });
+
+  it('drops releases, drags and the other buttons', () => {
+    expect(parseMouseEvents('\x1b[<0;10;5m')).toEqual([]);
+    expect(parseMouseEvents('\x1b[<32;10;5M')).toEqual([]);
+    expect(parseMouseEvents('\x1b[<1;10;5M\x1b[<2;10;5M')).toEqual([]);
+  });
+
+  it('reports wheel steps up and down', () => {
+    expect(parseMouseEvents('\x1b[<64;3;4M\x1b[<65;3;4M')).toEqual([
+      { type: 'wheel', delta: -1, x: 3, y: 4 },
+      { type: 'wheel', delta: 1, x: 3, y: 4 },
+    ]);
+  });
+
+  it('ignores anything that is not a report', () => {
+    expect(parseMouseEvents('j')).toEqual([]);
+    expect(parseMouseEvents('\x1b[<0;10M')).toEqual([]);
+  });
+});
+
+describe('enableMouseMode', () => {
+  const EVENTS = ['exit', 'uncaughtExceptionMonitor', 'SIGTERM', 'SIGHUP'] as const;
+  let stdout: { write: ReturnType<typeof vi.fn> };
+  let killSpy: ReturnType<typeof vi.spyOn>;
+  let listeners: number[];
+
+  beforeEach(() => {
+    stdout = { write: vi.fn() };
+    killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    listeners = EVENTS.map(event => process.listenerCount(event));
+  });
+
+  afterEach(() => {
+    killSpy.mockRestore();
+  });
+
+  /** Turns mouse mode on with the fake stdout. */
+  function enable(): () => void {
+    return enableMouseMode(stdout as unknown as NodeJS.WritableStream);
+  }
+
+  it('turns mouse mode on, and off once however often it is restored', () => {
+    const restore = enable();
+    expect(stdout.write).toHaveBeenCalledWith(MOUSE_MODE_ON);
+    restore();
+    restore();
+    expect(stdout.write.mock.calls).toEqual([[MOUSE_MODE_ON], [MOUSE_MODE_OFF]]);
+    expect(EVENTS.map(event => process.listenerCount(event))).toEqual(listeners);
+  });
+
+  it.each(['SIGTERM', 'SIGHUP'] as const)('restores the terminal on %s and re-raises it', signal => {
+    enable();
+    process.emit(signal, signal);
+    expect(stdout.write).toHaveBeenLastCalledWith(MOUSE_MODE_OFF);
+    expect(killSpy).toHaveBeenCalledWith(process.pid, signal);
+    expect(EVENTS.map(event => process.listenerCount(event))).toEqual(listeners);
+  });
+
+  it('restores the terminal before an uncaught error is reported', () => {
+    enable();
+    process.emit('uncaughtExceptionMonitor', new Error('boom'), 'unhandledRejection');
+    expect(stdout.write).toHaveBeenLastCalledWith(MOUSE_MODE_OFF);
+    expect(EVENTS.map(event => process.listenerCount(event))).toEqual(listeners);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeAddress, dedupePorts, portKey } from '../../src/utils/normalizePorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const entry = (port: number, pid: string, address: string, process = 'node'): PortEntry =>
+  ({ port, protocol: 'tcp', process, pid, user: 'user', address });
+
+describe('normalizeAddress', () => {
+  it.each(['*', '0.0.0.0', '[::]', '::'])('normalizes wildcard %s to 0.0.0.0', raw => {
+    expect(normalizeAddress(raw)).toBe('0.0.0.0');
+  });
+
+  it.each(['[::1]', '::1'])('normalizes IPv6 loopback %s to 127.0.0.1', raw => {
+    expect(normalizeAddress(raw)).toBe('127.0.0.1');
+  });
+
+  it('leaves other addresses unchanged', () => {
+    expect(normalizeAddress('192.168.1.10')).toBe('192.168.1.10');
+    expect(normalizeAddress('[fe80::1]')).toBe('[fe80::1]');
+  });
+});
+
+describe('portKey', () => {
+  it('combines protocol, address, port and PID', () => {
+    expect(portKey(entry(3000, '42', '127.0.0.1'))).toBe('tcp:127.0.0.1:3000:42');
+  });
+
+  it('ignores fields that do not identify the binding', () => {
+    expect(portKey({ ...entry(3000, '42', '127.0.0.1'), process: 'deno', command: 'deno run' }))
+      .toBe(portKey(entry(3000, '42', '127.0.0.1')));
+  });
+});
+
+describe('dedupePorts', () => {
+  it('keeps the first entry for a repeated address:port:pid', () => {
+    const result = dedupePorts([entry(3000, '1', '0.0.0.0', 'first'), entry(3000, '1', '0.0.0.0', 'second')]);
+    expect(result).toEqual([entry(3000, '1', '0.0.0.0', 'first')]);
+  });
+
+  it('keeps entries that differ only by PID or address', () => {
+    expect(dedupePorts([entry(80, '1', '0.0.0.0'), entry(80, '2', '0.0.0.0'), entry(80, '1', '127.0.0.1')])).toHaveLength(3);
+  });
+
+  it('sorts by port ascending without mutating the input', () => {
+    const input = [entry(8080, '1', '0.0.0.0'), entry(22, '2', '0.0.0.0')];
+    expect(dedupePorts(input).map(p => p.port)).toEqual([22, 8080]);
+    expect(input[0].port).toBe(8080);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { parseDurationMs } from '../../src/utils/parseDuration.js';
+
+describe('parseDurationMs', () => {
+  it.each([
+    ['250ms', 250],
+    ['2s', 2000],
+    ['2', 2000],
+    ['0.5', 500],
+    ['5m', 300_000],
+    ['1h', 3_600_000],
+  ])('parses %j as %i ms', (value, ms) => {
+    expect(parseDurationMs(value)).toBe(ms);
+  });
+
+  it.each(['', 'ms', '-1s', '2 s', '2sec', '1e3'])('returns null for %j', value => {
+    expect(parseDurationMs(value)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { compileQuery, parseQuery, QueryError } from '../../src/utils/parseQuery.js';
+import type { PortEntry, SearchMode } from '../../src/types.js';
+
+const NODE: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'alice', address: '127.0.0.1', command: 'node server.js', cwd: '/home/alice/my app' };
+const VITE: PortEntry = { port: 5173, protocol: 'tcp', process: 'node', pid: '150', user: 'alice', address: '::1' };
+const NGINX: PortEntry = { port: 8080, protocol: 'tcp', process: 'nginx', pid: '200', user: 'root', address: '0.0.0.0' };
+const DNS: PortEntry = { port: 53, protocol: 'udp', process: 'dnsmasq', pid: '1200', user: 'Root', address: '0.0.0.0' };
+
+const PORTS = [NODE, VITE, NGINX, DNS];
+
+/** Ports of the entries `query` matches. */
+function run(query: string, mode: SearchMode = 'substring'): number[] {
+  return PORTS.filter(parseQuery(query, mode)).map(p => p.port);
+}
+
+describe('parseQuery', () => {
+  it('matches everything for an empty or blank query', () => {
+    expect(run('')).toEqual([3000, 5173, 8080, 53]);
+    expect(run('   ')).toEqual([3000, 5173, 8080, 53]);
+  });
+
+  it('matches free text against every searchable field', () => {
+    expect(run('NGINX')).toEqual([8080]);
+    expect(run('517')).toEqual([5173]);
+    expect(run('::1')).toEqual([5173]);
+    expect(run('server.js')).toEqual([3000]);
+  });
+
+  it('matches port numbers, ranges and lists', () => {
+    expect(run('port:53')).toEqual([53]);
+    expect(run('port:3000-5999')).toEqual([3000, 5173]);
+    expect(run('port:53,8080')).toEqual([8080, 53]);
+    expect(run('port:1-100,8000-9000')).toEqual([8080, 53]);
+  });
+
+  it('matches a port exactly rather than as text', () => {
+    expect(run('port:300')).toEqual([]);
+  });
+
+  it('matches PIDs numerically', () => {
+    expect(run('pid:100')).toEqual([3000]);
+    expect(run('pid:100-199')).toEqual([3000, 5173]);
+  });
+
+  it('matches user, process and address case-insensitively', () => {
+    expect(run('user:root')).toEqual([8080, 53]);
+    expect(run('proc:NODE')).toEqual([3000, 5173]);
+    expect(run('addr:0.0.0.0')).toEqual([8080, 53]);
+  });
+
+  it('only looks at the named field', () => {
+    // "alice" is in NODE's cwd, but user: only checks the user
+    expect(run('proc:alice')).toEqual([]);
+  });
+
+  it('accepts field names in any case', () => {
+    expect(run('USER:alice')).toEqual([3000, 5173]);
+  });
+
+  it('requires every term to match', () => {
+    expect(run('proc:node port:5000-6000')).toEqual([5173]);
+    expect(run('user:root udp')).toEqual([]);
+    expect(run('user:root dns')).toEqual([53]);
+  });
+
+  it('negates a term with a leading -', () => {
+    expect(run('-user:root')).toEqual([3000, 5173]);
+    expect(run('-node')).toEqual([8080, 53]);
+    expect(run('proc:node -port:3000')).toEqual([5173]);
+  });
+
+  it('keeps quoted text together', () => {
+    expect(run('"my app"')).toEqual([3000]);
+    expect(run('proc:"ngi"')).toEqual([8080]);
+    // A quoted term is free text even if it looks like a field or negation
+    expect(run('"-x"')).toEqual([]);
+  });
+
+  it.each([
+    ['prot:80', 'unknown field "prot:" (expected port:, pid:, user:, proc:, addr:)'],
+    ['http://localhost', 'unknown field "http:"'],
+    ['user:', '"user:" needs a value'],
+    ['-', '"-" needs a term to exclude, e.g. -user:root'],
+    ['port:abc', 'invalid port "abc" (expected e.g. 3000 or 3000-3999)'],
+    ['port:0', 'invalid port "0"'],
+    ['port:70000', 'invalid port "70000"'],
+    ['port:3000-', 'invalid port "3000-"'],
+    ['port:80,', 'invalid port ""'],
+    ['port:4000-3000', 'invalid port range "4000-3000" (4000 is above 3000)'],
+    ['pid:x', 'invalid pid "x"'],
+    ['proc:"node', 'unterminated quote'],
+  ])('rejects %j', (query, message) => {
+    expect(() => parseQuery(query)).toThrow(QueryError);
+    expect(() => parseQuery(query)).toThrow(message);
+  });
+});
+
+describe('parseQuery search modes', () => {
+  it('matches free text and text fields fuzzily', () => {
+    expect(run('ngnx', 'fuzzy')).toEqual([8080]);
+    expect(run('proc:dnsmsq', 'fuzzy')).toEqual([53]);
+    expect(run('-proc:nde', 'fuzzy')).toEqual([8080, 53]);
+  });
+
+  it('matches free text and text fields as regular expressions', () => {
+    expect(run('^(nginx|dnsmasq)$', 'regex')).toEqual([8080, 53]);
+    expect(run('user:^root$', 'regex')).toEqual([8080, 53]);
+    expect(run('"my app$"', 'regex')).toEqual([3000]);
+  });
+
+  it('keeps ports and PIDs numeric in every mode', () => {
+    expect(run('port:53', 'fuzzy')).toEqual([53]);
+    expect(run('pid:100-199', 'regex')).toEqual([3000, 5173]);
+  });
+
+  it('rejects an invalid regular expression only in regex mode', () => {
+    expect(run('node(', 'substring')).toEqual([]);
+    expect(() => parseQuery('node(', 'regex')).toThrow(new QueryError('invalid regex "node(": Unterminated group'));
+  });
+});
+
+describe('compileQuery', () => {
+  it('scores fuzzy entries by how well every term matched', () => {
+    const { score } = compileQuery('nod', 'fuzzy');
+    expect(score(NODE)).toBeGreaterThan(score(DNS));
+    expect(score(NGINX)).toBe(0);
+  });
+
+  it('scores 0 outside fuzzy mode and for negated terms', () => {
+    expect(compileQuery('node', 'substring').score(NODE)).toBe(0);
+    expect(compileQuery('-nginx', 'fuzzy').score(NODE)).toBe(0);
+  });
+
+  it('highlights text matches in the columns the term searches', () => {
+    const { highlight } = compileQuery('node user:ali');
+    expect(highlight('process', 'node')).toEqual([0, 1, 2, 3]);
+    expect(highlight('command', 'run node')).toEqual([4, 5, 6, 7]);
+    expect(highlight('user', 'alice')).toEqual([0, 1, 2]);
+    // user: only searches the user, and free text never searches it
+    expect(highlight('process', 'alice')).toEqual([]);
+    expect(highlight('user', 'node')).toEqual([]);
+  });
+
+  it('highlights a whole port or PID in range', () => {
+    const { highlight } = compileQuery('port:3000-3999 pid:100');
+    expect(highlight('port', '3000')).toEqual([0, 1, 2, 3]);
+    expect(highlight('port', '8080')).toEqual([]);
+    expect(highlight('pid', '100')).toEqual([0, 1, 2]);
+  });
+
+  it('merges overlapping matches of several terms', () => {
+    expect(compileQuery('ngi gin').highlight('process', 'nginx')).toEqual([0, 1, 2, 3]);
+  });
+
+  it('highlights nothing for negated terms', () => {
+    expect(compileQuery('-node').highlight('process', 'node')).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/utils/getPorts.js', () => ({
+  getPorts: vi.fn(),
+}));
+
+import { getPorts } from '../../src/utils/getPorts.js';
+import { createPortPoller, type PortPoller } from '../../src/utils/portPoller.js';
+import type { PortEntry } from '../../src/types.js';
+
+const mockGetPorts = vi.mocked(getPorts);
+
+const PORTS: PortEntry[] = [{ port: 3000, protocol: 'tcp', process: 'node', pid: '1', user: 'u', address: '127.0.0.1' }];
+
+/** A promise whose settlement the test controls. */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('createPortPoller', () => {
+  let poller: PortPoller | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockGetPorts.mockReset();
+    mockGetPorts.mockResolvedValue(PORTS);
+  });
+
+  afterEach(() => {
+    poller?.stop();
+    poller = undefined;
+    vi.useRealTimers();
+  });
+
+  it('collects immediately and delivers the snapshot', async () => {
+    const onSnapshot = vi.fn();
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onSnapshot).toHaveBeenCalledWith(PORTS);
+  });
+
+  it('passes the details option through to getPorts', async () => {
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot: vi.fn(), details: false });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockGetPorts).toHaveBeenCalledWith(expect.any(AbortSignal), { details: false });
+  });
+
+  it('collects again on every interval', async () => {
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot: vi.fn() });
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(mockGetPorts).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not start a new collection while one is in flight', async () => {
+    const slow = deferred<typeof PORTS>();
+    mockGetPorts.mockReturnValueOnce(slow.promise);
+    const onSnapshot = vi.fn();
+
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot });
+    await vi.advanceTimersByTimeAsync(6000); // three intervals elapse during one slow lsof
+    void poller.refresh();
+
+    expect(mockGetPorts).toHaveBeenCalledTimes(1);
+
+    slow.resolve(PORTS);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onSnapshot).toHaveBeenCalledTimes(1);
+  });
+
+  it('refresh() joins the in-flight collection', async () => {
+    const slow = deferred<typeof PORTS>();
+    mockGetPorts.mockReturnValueOnce(slow.promise);
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot: vi.fn() });
+
+    const joined = poller.refresh();
+    slow.resolve(PORTS);
+    await expect(joined).resolves.toBeUndefined();
+    expect(mockGetPorts).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports failures through onError and never through onSnapshot', async () => {
+    mockGetPorts.mockRejectedValueOnce(new Error('lsof timed out'));
+    const onSnapshot = vi.fn();
+    const onError = vi.fn();
+
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot, onError });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onError).toHaveBeenCalledWith(new Error('lsof timed out'));
+    expect(onSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('tolerates a missing onError callback', async () => {
+    mockGetPorts.mockRejectedValueOnce(new Error('boom'));
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot: vi.fn() });
+    await expect(poller.refresh()).resolves.toBeUndefined();
+  });
+
+  it('aborts the in-flight collection on stop()', async () => {
+    const slow = deferred<typeof PORTS>();
+    mockGetPorts.mockReturnValueOnce(slow.promise);
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot: vi.fn() });
+
+    const signal = mockGetPorts.mock.calls[0][0]!;
+    expect(signal.aborted).toBe(false);
+    poller.stop();
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('fires no callbacks and stops polling after stop()', async () => {
+    const slow = deferred<typeof PORTS>();
+    mockGetPorts.mockReturnValueOnce(slow.promise);
+    const onSnapshot = vi.fn();
+    const onError = vi.fn();
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot, onError });
+
+    poller.stop();
+    slow.resolve(PORTS);
+    await vi.advanceTimersByTimeAsync(10000);
+    await poller.refresh();
+
+    expect(onSnapshot).not.toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+    expect(mockGetPorts).toHaveBeenCalledTimes(1);
+  });
+
+  it('suppresses the abort error of a stopped collection', async () => {
+    const slow = deferred<typeof PORTS>();
+    mockGetPorts.mockReturnValueOnce(slow.promise);
+    const onError = vi.fn();
+    poller = createPortPoller({ intervalMs: 2000, onSnapshot: vi.fn(), onError });
+
+    poller.stop();
+    slow.reject(new Error('aborted'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
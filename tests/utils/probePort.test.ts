@@ -0,0 +1,38 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server, type AddressInfo } from 'net';
+import { isPortBindable } from '../../src/utils/probePort.js';
+
+/** Listens on an ephemeral loopback port and returns the server and its port. */
+function listen(host = '127.0.0.1'): Promise<{ server: Server; port: number }> {
+  return new Promise(resolve => {
+    const server = createServer();
+    server.listen(0, host, () => resolve({ server, port: (server.address() as AddressInfo).port }));
+  });
+}
+
+describe('isPortBindable', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = undefined;
+  });
+
+  it('returns true for a port nothing holds, and releases it again', async () => {
+    const probe = await listen();
+    await new Promise(resolve => probe.server.close(resolve));
+
+    expect(await isPortBindable(probe.port, '127.0.0.1')).toBe(true);
+    expect(await isPortBindable(probe.port, '127.0.0.1')).toBe(true);
+  });
+
+  it('returns false for a port that is already bound', async () => {
+    const held = await listen();
+    server = held.server;
+    expect(await isPortBindable(held.port, '127.0.0.1')).toBe(false);
+  });
+
+  it('rejects when the host is not an address of this machine', async () => {
+    await expect(isPortBindable(40000, '192.0.2.1')).rejects.toMatchObject({ code: 'EADDRNOTAVAIL' });
+  });
+});
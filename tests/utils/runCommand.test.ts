@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { runCommand, CommandError } from '../../src/utils/runCommand.js';
+
+// These tests spawn the running Node binary with tiny inline scripts, so they
+// exercise the real child_process plumbing without depending on lsof & co.
+const node = process.execPath;
+
+describe('runCommand', () => {
+  it('resolves with stdout when the command exits 0', async () => {
+    expect(await runCommand(node, ['-e', 'process.stdout.write("hello\\n")'])).toBe('hello\n');
+  });
+
+  it('passes arguments verbatim without shell interpretation', async () => {
+    const out = await runCommand(node, ['-e', 'process.stdout.write(process.argv[1])', '$HOME; echo hi']);
+    expect(out).toBe('$HOME; echo hi');
+  });
+
+  it('discards stderr', async () => {
+    expect(await runCommand(node, ['-e', 'console.error("noise"); process.stdout.write("ok")'])).toBe('ok');
+  });
+
+  it('rejects with the exit status and partial stdout on non-zero exit', async () => {
+    const err = await runCommand(node, ['-e', 'process.stdout.write("partial"); process.exit(1)']).catch(e => e);
+    expect(err).toBeInstanceOf(CommandError);
+    expect(err.status).toBe(1);
+    expect(err.stdout).toBe('partial');
+  });
+
+  it('rejects with a null status when the binary does not exist', async () => {
+    const err = await runCommand('definitely-not-a-real-binary-ports-cli', []).catch(e => e);
+    expect(err).toBeInstanceOf(CommandError);
+    expect(err.status).toBeNull();
+    expect(err.message).toContain('ENOENT');
+  });
+
+  it('kills the child and rejects when the timeout elapses', async () => {
+    const started = Date.now();
+    const err = await runCommand(node, ['-e', 'setTimeout(() => {}, 10000)'], { timeoutMs: 100 }).catch(e => e);
+    expect(err).toBeInstanceOf(CommandError);
+    expect(err.status).toBeNull();
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('kills the child and rejects when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const pending = runCommand(node, ['-e', 'setTimeout(() => {}, 10000)'], { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(CommandError);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  searchStorePath,
+  loadSearchStore,
+  saveSearchStore,
+  rememberQuery,
+  saveFilter,
+  EMPTY_SEARCH_STORE,
+  MAX_HISTORY,
+  MAX_SAVED_FILTERS,
+} from '../../src/utils/searchStore.js';
+
+describe('searchStorePath', () => {
+  it('uses $XDG_STATE_HOME when set', () => {
+    expect(searchStorePath({ XDG_STATE_HOME: '/state' }, '/home/alice')).toBe('/state/ports-cli/search.json');
+  });
+
+  it('falls back to ~/.local/state', () => {
+    expect(searchStorePath({}, '/home/alice')).toBe('/home/alice/.local/state/ports-cli/search.json');
+  });
+});
+
+describe('loadSearchStore / saveSearchStore', () => {
+  let root: string;
+  let path: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'ports-search-'));
+    path = join(root, 'state', 'ports-cli', 'search.json');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('round-trips a store, creating its directory', () => {
+    const store = { history: ['node', 'port:3000'], filters: [{ name: 'web', query: 'port:80,443' }] };
+    saveSearchStore(store, path);
+    expect(loadSearchStore(path)).toEqual(store);
+  });
+
+  it('starts empty when the file is missing or malformed', () => {
+    expect(loadSearchStore(path)).toEqual(EMPTY_SEARCH_STORE);
+    writeFileSync(join(root, 'bad.json'), '{ not json');
+    expect(loadSearchStore(join(root, 'bad.json'))).toEqual(EMPTY_SEARCH_STORE);
+    writeFileSync(join(root, 'null.json'), 'null');
+    expect(loadSearchStore(join(root, 'null.json'))).toEqual(EMPTY_SEARCH_STORE);
+  });
+
+  it('skips entries of the wrong type and applies the limits', () => {
+    const file = join(root, 'search.json');
+    writeFileSync(file, JSON.stringify({
+      history: ['node', 42, ...Array.from({ length: MAX_HISTORY }, (_, i) => `q${i}`)],
+      filters: [
+        { name: 'web', query: 'port:80', extra: true },
+        { name: 'broken' },
+        'db',
+        ...Array.from({ length: MAX_SAVED_FILTERS }, (_, i) => ({ name: `f${i}`, query: `pid:${i + 1}` })),
+      ],
+    }));
+    const store = loadSearchStore(file);
+    expect(store.history).toHaveLength(MAX_HISTORY);
+    expect(store.history[0]).toBe('node');
+    expect(store.filters).toHaveLength(MAX_SAVED_FILTERS);
+    expect(store.filters[0]).toEqual({ name: 'web', query: 'port:80' });
+  });
+
+  it('does not throw when the file cannot be written', () => {
+    writeFileSync(join(root, 'file'), '');
+    expect(() => saveSearchStore(EMPTY_SEARCH_STORE, join(root, 'file', 'search.json'))).not.toThrow();
+  });
+
+  it('writes readable JSON', () => {
+    saveSearchStore({ history: ['node'], filters: [] }, path);
+    expect(readFileSync(path, 'utf-8')).toBe('{\n  "history": [\n    "node"\n  ],\n  "filters": []\n}\n');
+  });
+});
+
+describe('rememberQuery', () => {
+  it('adds the trimmed query to the front', () => {
+    expect(rememberQuery(['node'], '  nginx ')).toEqual(['nginx', 'node']);
+  });
+
+  it('moves a repeated query to the front instead of duplicating it', () => {
+    expect(rememberQuery(['a', 'b', 'c'], 'c')).toEqual(['c', 'a', 'b']);
+  });
+
+  it('ignores blank queries', () => {
+    expect(rememberQuery(['node'], '   ')).toEqual(['node']);
+  });
+
+  it(`keeps at most ${MAX_HISTORY} queries`, () => {
+    const history = Array.from({ length: MAX_HISTORY }, (_, i) => `q${i}`);
+    const next = rememberQuery(history, 'new');
+    expect(next).toHaveLength(MAX_HISTORY);
+    expect(next[0]).toBe('new');
+    expect(next).not.toContain(`q${MAX_HISTORY - 1}`);
+  });
+});
+
+describe('saveFilter', () => {
+  const filters = [{ name: 'web', query: 'port:80' }, { name: 'db', query: 'port:5432' }];
+
+  it('appends a filter with a new name', () => {
+    expect(saveFilter(filters, 'dev', 'port:3000-3999')).toEqual([...filters, { name: 'dev', query: 'port:3000-3999' }]);
+  });
+
+  it('updates a filter with an existing name in place', () => {
+    expect(saveFilter(filters, 'web', 'port:80,443')).toEqual([{ name: 'web', query: 'port:80,443' }, filters[1]]);
+  });
+
+  it(`refuses a new name once ${MAX_SAVED_FILTERS} filters are saved`, () => {
+    const full = Array.from({ length: MAX_SAVED_FILTERS }, (_, i) => ({ name: `f${i}`, query: 'node' }));
+    expect(() => saveFilter(full, 'one more', 'node')).toThrow('9 filters saved; delete one first');
+    expect(saveFilter(full, 'f0', 'deno')[0]).toEqual({ name: 'f0', query: 'deno' });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { sortPorts, nextSortKey } from '../../src/utils/sortPorts.js';
+import type { PortEntry } from '../../src/types.js';
+
+const NODE: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '900', user: 'alice', address: '127.0.0.1' };
+const NGINX: PortEntry = { port: 8080, protocol: 'tcp', process: 'nginx', pid: '1200', user: 'root', address: '0.0.0.0' };
+const DNS: PortEntry = { port: 53, protocol: 'udp', process: 'dnsmasq', pid: '80', user: 'Root', address: '0.0.0.0' };
+const NODE_DEBUG: PortEntry = { ...NODE, port: 9229 };
+
+const PORTS = [NODE, NGINX, DNS, NODE_DEBUG];
+
+describe('sortPorts', () => {
+  it('sorts by port ascending by default', () => {
+    expect(sortPorts(PORTS, 'port')).toEqual([DNS, NODE, NGINX, NODE_DEBUG]);
+  });
+
+  it('reverses with desc', () => {
+    expect(sortPorts(PORTS, 'port', 'desc')).toEqual([NODE_DEBUG, NGINX, NODE, DNS]);
+  });
+
+  it('does not modify its input', () => {
+    const input = [...PORTS];
+    sortPorts(input, 'process');
+    expect(input).toEqual(PORTS);
+  });
+
+  it('compares PIDs numerically', () => {
+    expect(sortPorts(PORTS, 'pid').map(p => p.pid)).toEqual(['80', '900', '900', '1200']);
+  });
+
+  it('compares names case-insensitively and breaks ties by port', () => {
+    expect(sortPorts(PORTS, 'process')).toEqual([DNS, NGINX, NODE, NODE_DEBUG]);
+    expect(sortPorts(PORTS, 'user')).toEqual([NODE, NODE_DEBUG, DNS, NGINX]);
+  });
+
+  it('keeps ties in port order when descending', () => {
+    expect(sortPorts(PORTS, 'process', 'desc')).toEqual([NODE, NODE_DEBUG, NGINX, DNS]);
+  });
+
+  it('sorts by protocol and address', () => {
+    expect(sortPorts(PORTS, 'protocol')[3]).toBe(DNS);
+    expect(sortPorts(PORTS, 'address')).toEqual([DNS, NGINX, NODE, NODE_DEBUG]);
+  });
+});
+
+describe('nextSortKey', () => {
+  it('steps through the columns in table order and wraps', () => {
+    expect(nextSortKey('port')).toBe('protocol');
+    expect(nextSortKey('process')).toBe('user');
+    expect(nextSortKey('address')).toBe('port');
+  });
+
+  it('skips keys that are not available', () => {
+    expect(nextSortKey('port', ['port', 'pid'])).toBe('pid');
+    expect(nextSortKey('pid', ['port', 'pid'])).toBe('port');
+  });
+
+  it('moves off a key that is no longer available', () => {
+    expect(nextSortKey('user', ['port', 'process'])).toBe('port');
+    expect(nextSortKey('protocol', ['port', 'process'])).toBe('process');
+  });
+
+  it('keeps the current key when nothing is available', () => {
+    expect(nextSortKey('user', [])).toBe('user');
+  });
+});
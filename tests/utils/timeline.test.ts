@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  appendEvents,
+  exportTimeline,
+  filterTimeline,
+  timelineFileName,
+  toPortEvent,
+  MAX_TIMELINE_EVENTS,
+} from '../../src/utils/timeline.js';
+import type { TimelineEvent } from '../../src/utils/timeline.js';
+import { QueryError } from '../../src/utils/parseQuery.js';
+import type { PortEntry } from '../../src/types.js';
+
+const NODE: PortEntry = { port: 3000, protocol: 'tcp', process: 'node', pid: '100', user: 'me', address: '127.0.0.1' };
+const DNS: PortEntry = { port: 53, protocol: 'udp', process: 'dnsmasq', pid: '200', user: 'root', address: '0.0.0.0' };
+
+const AT = Date.UTC(2026, 0, 1, 12, 0, 0);
+const EVENTS: TimelineEvent[] = [
+  { change: 'opened', port: NODE, at: AT },
+  { change: 'opened', port: DNS, at: AT + 1000 },
+  { change: 'closed', port: NODE, at: AT + 2000 },
+];
+
+describe('toPortEvent', () => {
+  it('builds the object ports watch --json prints', () => {
+    expect(toPortEvent('closed', NODE, '2026-01-01T12:00:00.000Z')).toEqual({
+      event: 'closed',
+      port: 3000,
+      protocol: 'tcp',
+      address: '127.0.0.1',
+      pid: '100',
+      process: 'node',
+      ts: '2026-01-01T12:00:00.000Z',
+    });
+  });
+});
+
+describe('appendEvents', () => {
+  it('appends in order and drops the oldest past the limit', () => {
+    const many = Array.from({ length: MAX_TIMELINE_EVENTS }, (_, i) => ({ change: 'opened' as const, port: NODE, at: i }));
+    const next = appendEvents(many, [{ change: 'closed', port: NODE, at: MAX_TIMELINE_EVENTS }]);
+    expect(next).toHaveLength(MAX_TIMELINE_EVENTS);
+    expect(next[0].at).toBe(1);
+    expect(next[next.length - 1].change).toBe('closed');
+  });
+});
+
+describe('filterTimeline', () => {
+  it('matches the events of entries matching the query', () => {
+    expect(filterTimeline(EVENTS, 'node')).toEqual([EVENTS[0], EVENTS[2]]);
+    expect(filterTimeline(EVENTS, 'port:53')).toEqual([EVENTS[1]]);
+  });
+
+  it('narrows by protocol', () => {
+    expect(filterTimeline(EVENTS, '', 'udp')).toEqual([EVENTS[1]]);
+  });
+
+  it('keeps time order in fuzzy mode', () => {
+    expect(filterTimeline(EVENTS, 'd', 'all', 'fuzzy').map(e => e.at)).toEqual([AT, AT + 1000, AT + 2000]);
+  });
+
+  it('rejects an invalid query', () => {
+    expect(() => filterTimeline(EVENTS, 'port:abc')).toThrow(QueryError);
+  });
+});
+
+describe('exportTimeline', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ports-timeline-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('names the file after the export time', () => {
+    expect(timelineFileName(new Date(AT))).toBe('ports-timeline-2026-01-01T12-00-00Z.json');
+  });
+
+  it('writes the events as a JSON array of port events', () => {
+    const path = exportTimeline(EVENTS.slice(0, 2), dir, new Date(AT));
+    expect(path).toBe(join(dir, 'ports-timeline-2026-01-01T12-00-00Z.json'));
+    expect(JSON.parse(readFileSync(path, 'utf-8'))).toEqual([
+      toPortEvent('opened', NODE, '2026-01-01T12:00:00.000Z'),
+      toPortEvent('opened', DNS, '2026-01-01T12:00:01.000Z'),
+    ]);
+  });
+
+  it('throws when the file cannot be written', () => {
+    expect(() => exportTimeline(EVENTS, join(dir, 'missing'))).toThrow();
+  });
+});